@@ -5,7 +5,9 @@ export const ai = genkit({
   promptDir: './prompts',
   plugins: [
     googleAI({
-      apiKey: process.env.GOOGLE_GENAI_API_KEY,
+      // Without a key, the plugin would fail to initialize and take every flow down with it,
+      // including requests for other providers; `false` defers the error to Google model calls
+      apiKey: process.env.GOOGLE_GENAI_API_KEY || process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || false,
     }),
   ],
   model: 'googleai/gemini-2.0-flash',
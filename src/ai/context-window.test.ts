@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, getHistoryForRequest, truncateHistoryToContextWindow, type ConversationTurn } from '@/ai/context-window';
+
+// 396 characters = 99 tokens, plus 4 tokens of per-message overhead: each turn costs 103 tokens
+const TURN_TEXT = 'x'.repeat(396);
+const TURN_COST = 103;
+const turn = (sender: ConversationTurn['sender'], fileCount = 0): ConversationTurn => ({
+  sender,
+  text: TURN_TEXT,
+  ...(fileCount > 0 && { fileDataUris: Array.from({ length: fileCount }, () => 'data:image/png;base64,AAAA') }),
+});
+const conversation = (length: number): ConversationTurn[] => Array.from({ length }, (_, i) => turn(i % 2 === 0 ? 'user' : 'ai'));
+// Only user turns, so counts are not reduced by dropping a leading AI turn
+const userTurns = (length: number): ConversationTurn[] => Array.from({ length }, () => turn('user'));
+
+// An empty prompt still costs the 4 tokens of message overhead
+const PROMPT_COST = 4;
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token, rounding up', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('truncateHistoryToContextWindow', () => {
+  it('keeps a quarter of the context window free for the response', () => {
+    // 4000 tokens: 1000 reserved, 4 for the prompt, 2996 left = 29 turns of 103 tokens
+    expect(truncateHistoryToContextWindow(userTurns(40), '', 4000)).toHaveLength(29);
+  });
+
+  it('reserves at most 8192 tokens for the response in large windows', () => {
+    const contextLength = 100_000;
+    const budget = contextLength - 8192 - PROMPT_COST;
+    expect(truncateHistoryToContextWindow(userTurns(2000), '', contextLength)).toHaveLength(Math.floor(budget / TURN_COST));
+  });
+
+  it('keeps the most recent turns', () => {
+    const history = conversation(40).map((entry, i) => ({ ...entry, text: `${i}`.padEnd(396, 'x') }));
+    // The last 29 turns fit; the oldest of them is an AI turn, so the history starts one later
+    const kept = truncateHistoryToContextWindow(history, '', 4000);
+    expect(kept.at(-1)).toBe(history.at(-1));
+    expect(kept[0]).toBe(history[12]);
+  });
+
+  it('counts the prompt against the budget', () => {
+    // 3000 tokens left after the reserve; a 1000-token prompt leaves room for 19 turns
+    expect(truncateHistoryToContextWindow(userTurns(40), 'p'.repeat(4000), 4000)).toHaveLength(19);
+  });
+
+  it('counts each attachment as 1000 tokens, whatever its size', () => {
+    const history = [turn('user', 2), turn('ai'), turn('user'), turn('ai')];
+    // 2000 - 500 reserve - 4 = 1496: the last three turns (309) fit, the one with two files (2103) does not
+    expect(truncateHistoryToContextWindow(history, '', 2000)).toEqual(history.slice(2));
+    // 4000 - 1000 - 4 = 2996 fits all four (2103 + 309)
+    expect(truncateHistoryToContextWindow(history, '', 4000)).toEqual(history);
+  });
+
+  it('never starts the history with an AI turn', () => {
+    const history = [turn('user'), turn('ai'), turn('ai'), turn('user'), turn('ai')];
+    // 1000 - 250 - 4 = 746: seven turns would fit, so all five are kept
+    expect(truncateHistoryToContextWindow(history, '', 1000)).toEqual(history);
+    // 600 - 150 - 4 = 446: the last four fit, of which the two leading AI turns are dropped
+    expect(truncateHistoryToContextWindow(history, '', 600)).toEqual(history.slice(3));
+  });
+
+  it('drops a history whose latest turn does not fit', () => {
+    expect(truncateHistoryToContextWindow([turn('user'), { sender: 'ai', text: 'y'.repeat(8000) }], '', 2000)).toEqual([]);
+  });
+
+  it('assumes an 8192-token window when the context length is unknown', () => {
+    // 8192 - 2048 - 4 = 6140 = 59 turns
+    expect(truncateHistoryToContextWindow(userTurns(100), '')).toHaveLength(59);
+  });
+});
+
+describe('getHistoryForRequest', () => {
+  it('counts the system prompt with the prompt', () => {
+    const history = userTurns(40);
+    const withoutSystemPrompt = getHistoryForRequest({ history, prompt: '', contextLength: 4000 });
+    const withSystemPrompt = getHistoryForRequest({ history, prompt: '', systemPrompt: 's'.repeat(4000), contextLength: 4000 });
+    expect(withoutSystemPrompt).toHaveLength(29);
+    expect(withSystemPrompt).toHaveLength(19);
+  });
+
+  it('returns an empty history when there is none', () => {
+    expect(getHistoryForRequest({ prompt: 'Hello' })).toEqual([]);
+  });
+});
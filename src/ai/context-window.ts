@@ -0,0 +1,79 @@
+/**
+ * @fileOverview Fits prior conversation turns into a model's context window.
+ *
+ * - ConversationTurn - A prior chat message as sent to the smart assistant flow.
+ * - estimateTokens - Rough token estimate for a piece of text.
+ * - truncateHistoryToContextWindow - Keeps the most recent turns that fit the model's context length.
+ * - getHistoryForRequest - Applies truncateHistoryToContextWindow to a smart assistant request.
+ */
+
+export interface ConversationTurn {
+  sender: 'user' | 'ai';
+  text: string;
+  fileDataUris?: string[];
+}
+
+// Used when the model does not report its context length
+const DEFAULT_CONTEXT_LENGTH = 8192;
+// Share of the context window kept free for the model's answer, capped for very large windows
+const RESPONSE_RESERVE_RATIO = 0.25;
+const MAX_RESPONSE_RESERVE_TOKENS = 8192;
+// Attachments are tokenized by the provider; count each as a flat cost rather than by its base64 size
+const ESTIMATED_TOKENS_PER_FILE = 1000;
+// Per-message overhead for role markers and separators
+const TOKENS_PER_MESSAGE_OVERHEAD = 4;
+
+/**
+ * Estimates the number of tokens in a string (roughly 4 characters per token).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimateTurnTokens(turn: ConversationTurn): number {
+  return estimateTokens(turn.text) + (turn.fileDataUris?.length ?? 0) * ESTIMATED_TOKENS_PER_FILE + TOKENS_PER_MESSAGE_OVERHEAD;
+}
+
+/**
+ * Returns the most recent turns of `history` that fit in the context window alongside the new prompt.
+ * Older turns are dropped first; the result never starts with an AI turn, since providers such as
+ * Gemini require a conversation to open with a user message.
+ *
+ * @param history Prior turns, oldest first.
+ * @param prompt The new user prompt that will follow the history.
+ * @param contextLength The model's context length in tokens, if known.
+ * @returns The retained turns, oldest first.
+ */
+export function truncateHistoryToContextWindow(
+  history: ConversationTurn[],
+  prompt: string,
+  contextLength: number = DEFAULT_CONTEXT_LENGTH
+): ConversationTurn[] {
+  const responseReserve = Math.min(Math.floor(contextLength * RESPONSE_RESERVE_RATIO), MAX_RESPONSE_RESERVE_TOKENS);
+  let remainingBudget = contextLength - responseReserve - estimateTokens(prompt) - TOKENS_PER_MESSAGE_OVERHEAD;
+
+  const retained: ConversationTurn[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTurnTokens(history[i]);
+    if (cost > remainingBudget) break;
+    remainingBudget -= cost;
+    retained.unshift(history[i]);
+  }
+
+  while (retained.length > 0 && retained[0].sender === 'ai') {
+    retained.shift();
+  }
+  return retained;
+}
+
+/**
+ * Returns the prior turns of a request that fit the model's context window together with its prompt.
+ *
+ * @param request The history, prompt, system prompt and (optional) context length of a smart assistant request.
+ * @returns The retained turns, oldest first.
+ */
+export function getHistoryForRequest(request: { history?: ConversationTurn[]; prompt: string; systemPrompt?: string; contextLength?: number }): ConversationTurn[] {
+  // The system prompt is sent with every request, so it takes budget just like the prompt
+  const fixedText = request.systemPrompt ? `${request.systemPrompt}\n${request.prompt}` : request.prompt;
+  return truncateHistoryToContextWindow(request.history ?? [], fixedText, request.contextLength);
+}
@@ -0,0 +1,41 @@
+'use server';
+
+/**
+ * @fileOverview Embeds texts for the browser's local knowledge base. Embedder IDs are prefixed like
+ * model IDs and routed through the provider registry, so any provider that implements `embed`
+ * (Genkit's Google AI embedder, a local Ollama embedding model) can be plugged in.
+ *
+ * - embedTexts - Returns one embedding vector per text.
+ * - EmbedTextsInput - The input type for the embedTexts function.
+ */
+
+import { z } from 'genkit';
+import { resolveModelProvider } from '@/ai/providers';
+
+// Keeps a single request well below provider batch limits; callers split larger batches
+const MAX_TEXTS_PER_REQUEST = 100;
+
+const EmbedTextsInputSchema = z.object({
+  embedderId: z.string().describe('The embedding model, e.g. "googleai/text-embedding-004" or "ollama/nomic-embed-text".'),
+  texts: z.array(z.string().min(1)).min(1).max(MAX_TEXTS_PER_REQUEST).describe('The texts to embed.'),
+});
+export type EmbedTextsInput = z.infer<typeof EmbedTextsInputSchema>;
+
+/**
+ * Embeds each of `input.texts` with the requested embedder.
+ *
+ * @returns The embedding vectors, in the order of `input.texts`.
+ */
+export async function embedTexts(input: EmbedTextsInput): Promise<number[][]> {
+  const parsed = EmbedTextsInputSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new Error(`Invalid input: ${parsed.error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}`);
+  }
+
+  const provider = resolveModelProvider(input.embedderId);
+  if (!provider.embed) {
+    throw new Error(`${provider.label} does not provide embedding models.`);
+  }
+  console.log(`Embedding ${input.texts.length} text(s) with ${input.embedderId}.`);
+  return provider.embed(input.embedderId, input.texts);
+}
@@ -0,0 +1,40 @@
+'use server';
+
+/**
+ * @fileOverview Connection test for the MCP servers configured in Settings.
+ *
+ * - testMcpServer - Connects to a server and lists the tools and resources the model would get.
+ * - McpServerTestResult - The return type for the testMcpServer function.
+ */
+
+import { McpServerSchema, describeMcpServer, type McpServerConfig } from '@/ai/tools/mcp';
+
+export type McpServerTestResult =
+  | { ok: true; tools: { name: string; description?: string }[]; resources: { uri: string; name: string }[] }
+  | { ok: false; error: string };
+
+/**
+ * Connects to `server` and lists its tools and resources.
+ *
+ * @returns The listing, or the reason the server could not be used (returned rather than thrown,
+ * since Next.js hides the message of errors thrown by server actions in production).
+ */
+export async function testMcpServer(input: McpServerConfig): Promise<McpServerTestResult> {
+  // Server actions can be called with any payload, not only what the Settings form sends
+  const parsed = McpServerSchema.safeParse(input);
+  if (!parsed.success) {
+    return { ok: false, error: `Invalid input: ${parsed.error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}` };
+  }
+  const server = parsed.data;
+  try {
+    const { tools, resources } = await describeMcpServer(server);
+    console.log(`MCP server "${server.name}" has ${tools.length} tool(s) and ${resources.length} resource(s).`);
+    return {
+      ok: true,
+      tools: tools.map(({ name, description }) => ({ name, description })),
+      resources: resources.map(({ uri, name }) => ({ uri, name })),
+    };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
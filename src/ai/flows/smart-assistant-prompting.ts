@@ -2,233 +2,444 @@
 'use server';
 
 /**
- * @fileOverview A smart assistant that can route prompts to different AI models,
- * supporting both Google AI models via Genkit and OpenRouter models via direct API calls.
+ * @fileOverview A smart assistant that can route prompts to different AI models.
+ * Each model ID prefix (e.g. "googleai/", "openrouter/") is served by a provider from the
+ * registry in `@/ai/providers`, so new backends can be added without changing this flow.
+ * The work is done by the `smartAssistantPrompting` Genkit flow, so every request is traced and can be
+ * inspected, replayed and evaluated in the Genkit developer UI (`npm run genkit:dev`).
  *
  * - smartAssistantPrompting - A function that handles the smart assistant prompting process.
+ * - streamSmartAssistantPrompting - Streaming variant that reports the response token-by-token as it is generated.
  * - SmartAssistantPromptingInput - The input type for the smartAssistantPrompting function.
  * - SmartAssistantPromptingOutput - The return type for the smartAssistantPrompting function.
+ * - SmartAssistantStreamChunk - A text, reasoning or step chunk streamed by the flow.
+ * - SmartAssistantChunkCallback - Callback invoked with each text delta by streamSmartAssistantPrompting.
+ * - SmartAssistantReasoningCallback - Callback invoked with each reasoning (thinking) delta by streamSmartAssistantPrompting.
+ * - SmartAssistantStepCallback - Callback invoked with a description of each model attempt (retries, fallbacks) and tool call.
+ * - ArchivedChat - A saved chat sent for the chat history search tool.
+ * - McpServerConfig - Connection settings of an MCP server whose tools the model may call.
+ *
+ * Failed calls are retried with exponential backoff (honouring Retry-After) when the error is transient,
+ * then the request falls back to each of `fallbackModels` in order. With an `outputSchema`, responses
+ * are validated against it and the model is asked to correct invalid ones (see `@/ai/structured-output`).
  */
 
-import { ai } from '@/ai/ai-instance';
 import { z } from 'genkit';
+import { ai } from '@/ai/ai-instance';
+import { resolveModelProvider, type ModelProvider } from '@/ai/providers';
+import { canCallTools, isImageDataUri } from '@/ai/providers/descriptors';
+import { createToolSession, type ToolSession } from '@/ai/tools';
+import { McpServerSchema, type McpServerConfig } from '@/ai/tools/mcp';
+import { DEFAULT_RETRY_OPTIONS, getRetryDelay, sleep, type RetryOptions } from '@/ai/retry';
+import { assertValidOutputSchema, buildOutputSchemaInstruction, ensureStructuredOutput } from '@/ai/structured-output';
+import { renderPrompt } from '@/ai/prompts';
+import { getHistoryForRequest } from '@/ai/context-window';
+import type { AIModelOptions } from '@/services/ai-api';
+
+const DocumentSchema = z.object({
+  name: z.string().describe('The file name of the document.'),
+  text: z.string().describe('The text extracted from the document, with page, sheet or section markers.'),
+});
+
+const KnowledgeExcerptSchema = z.object({
+  documentName: z.string().describe('The knowledge base document the excerpt comes from.'),
+  location: z.string().optional().describe('Where in the document the excerpt is, e.g. "Page 3".'),
+  text: z.string().describe('The excerpt text.'),
+});
+
+const ChatHistoryMessageSchema = z.object({
+  sender: z.enum(['user', 'ai']).describe('Who sent the message: the user or the AI assistant.'),
+  text: z.string().describe('The text content of the message.'),
+  fileDataUris: z.array(z.string()).optional().describe('Files attached to the message, as Base64 data URIs.'),
+  documents: z.array(DocumentSchema).optional().describe('Text extracted from documents attached to the message.'),
+});
+
+const ArchivedChatSchema = z.object({
+  title: z.string().describe('The name of the chat.'),
+  messages: z.array(z.object({
+    sender: z.enum(['user', 'ai']),
+    text: z.string(),
+    timestamp: z.number().optional(),
+  })),
+});
+export type ArchivedChat = z.infer<typeof ArchivedChatSchema>;
+
+export type { McpServerConfig };
+
+const OutputSchemaSchema = z.object({
+  name: z.string().optional().describe('Short name of the schema, e.g. "invoice".'),
+  schema: z.record(z.unknown()).describe('The JSON Schema the response must match.'),
+});
+
+const EndpointSchema = z
+  .object({
+    baseUrl: z.string().url().describe('Base URL of the endpoint, including the version segment (e.g., "http://localhost:8000/v1").'),
+    headers: z.record(z.string()).optional().describe('Extra headers sent with every request to the endpoint.'),
+    toolCalling: z.boolean().optional().describe('Whether the endpoint accepts tools in chat completions.'),
+  })
+  .describe('Connection settings for "openai-compatible/" models, which are served by user-configured endpoints.');
+
+// Fallback models may belong to other providers, so each carries its own connection settings
+const FallbackModelSchema = z.object({
+  modelId: z.string().describe('The ID of the fallback model.'),
+  apiKey: z.string().optional().describe("Optional API key for the fallback model's provider."),
+  endpoint: EndpointSchema.optional(),
+  contextLength: z.number().int().positive().optional().describe("The fallback model's context length in tokens."),
+});
+
+const RetryOptionsSchema = z.object({
+  maxRetries: z.number().int().min(0).max(10).optional().describe('Retries per model after the first attempt.'),
+  initialDelayMs: z.number().int().min(0).optional().describe('Delay before the first retry, doubled for each further retry.'),
+  maxDelayMs: z.number().int().positive().optional().describe('Longest single wait; a longer Retry-After moves on to the next fallback model.'),
+});
+
+// Sampling parameters; each provider maps them to its own request format
+const AIModelOptionsSchema: z.ZodType<AIModelOptions> = z.object({
+  maxTokens: z.number().int().positive().optional().describe('The maximum number of tokens to generate.'),
+  temperature: z.number().min(0).max(2).optional().describe('The temperature to use for sampling.'),
+  topP: z.number().min(0).max(1).optional().describe('Nucleus sampling probability mass.'),
+  stopSequences: z.array(z.string()).max(4).optional().describe('Sequences at which the model stops generating.'),
+  seed: z.number().int().optional().describe('Seed for deterministic sampling.'),
+  presencePenalty: z.number().min(-2).max(2).optional().describe('Penalty for tokens that have already appeared.'),
+  frequencyPenalty: z.number().min(-2).max(2).optional().describe('Penalty proportional to how often a token has appeared.'),
+  responseFormat: z.enum(['text', 'json']).optional().describe('Whether the model should answer in plain text or a JSON object.'),
+});
 
 // Input schema updated to include optional apiKey
 const SmartAssistantPromptingInputSchema = z.object({
   modelId: z.string().describe('The ID of the AI model to use (e.g., "googleai/gemini-2.0-flash" or "openrouter/mistralai/mistral-7b-instruct").'),
   prompt: z.string().describe('The prompt to send to the AI model.'),
-  fileDataUri: z
-    .string()
+  systemPrompt: z.string().optional().describe('Instructions sent as the system message ahead of the conversation (e.g. from an assistant persona).'),
+  fileDataUris: z
+    .array(z.string())
     .optional()
     .describe(
-      "An optional file to send to the AI model, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'. Note: Files are currently only supported for Google AI models."
+      "Optional files to send to the AI model, as data URIs that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'. Note: Google AI models accept any supported file; OpenRouter vision models accept images only."
     ),
-  apiKey: z.string().optional().describe('Optional API key for the provider (e.g., OpenRouter). If not provided, will try environment variables.')
+  documents: z
+    .array(DocumentSchema)
+    .optional()
+    .describe('Text extracted in the browser from attached documents (PDF, DOCX, spreadsheets, source files). It is inlined into the prompt, so any text model can read it.'),
+  knowledge: z
+    .array(KnowledgeExcerptSchema)
+    .optional()
+    .describe("Excerpts retrieved from the user's knowledge base for this prompt, most relevant first. They are numbered [1], [2], ... in the prompt so the answer can cite them."),
+  apiKey: z.string().optional().describe('Optional API key for the provider (e.g., OpenRouter). If not provided, will try environment variables.'),
+  history: z
+    .array(ChatHistoryMessageSchema)
+    .optional()
+    .describe('Prior messages of the chat session, oldest first, excluding the current prompt. Older messages are dropped if they do not fit the context window.'),
+  contextLength: z.number().int().positive().optional().describe("The model's context length in tokens, used to truncate the history."),
+  endpoint: EndpointSchema.optional(),
+  fallbackModels: z
+    .array(FallbackModelSchema)
+    .optional()
+    .describe('Models tried in order when modelId still fails after its retries.'),
+  retry: RetryOptionsSchema.optional().describe('Overrides for the retry/backoff behaviour.'),
+  options: AIModelOptionsSchema.optional().describe('Generation parameters (temperature, max tokens, ...); omitted values use the provider default.'),
+  tools: z.array(z.string()).optional().describe('IDs of the built-in tools the model may call (see `@/ai/tools/descriptors`). Ignored for providers without tool calling.'),
+  timeZone: z.string().optional().describe("The user's IANA time zone, used by the date/time tool."),
+  chatArchive: z
+    .array(ArchivedChatSchema)
+    .optional()
+    .describe("The user's other chats, searched by the chat history search tool. Only needed when that tool is enabled."),
+  mcpServers: z
+    .array(McpServerSchema)
+    .optional()
+    .describe('MCP servers whose tools (and resources) the model may call. Unreachable servers are skipped.'),
+  outputSchema: OutputSchemaSchema.optional().describe('When set, the response must be JSON matching this schema; it is validated and the model asked to correct invalid responses.'),
 });
 export type SmartAssistantPromptingInput = z.infer<typeof SmartAssistantPromptingInputSchema>;
 
 // Output schema remains the same
 const SmartAssistantPromptingOutputSchema = z.object({
   response: z.string().describe('The response from the AI model.'),
+  modelId: z.string().optional().describe('The model that produced the response; differs from the requested model after a fallback.'),
+  attempts: z.array(z.string()).optional().describe('A description of every attempt made, including retries, fallbacks and tool calls.'),
+  data: z.unknown().optional().describe('The parsed response when the input had an outputSchema; it matches the schema.'),
+  reasoning: z.string().optional().describe("The model's reasoning (thinking) trace, for models and providers that expose it."),
 });
 export type SmartAssistantPromptingOutput = z.infer<typeof SmartAssistantPromptingOutputSchema>;
 
+const SmartAssistantStreamChunkSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('chunk'), text: z.string().describe('A text delta of the response.') }),
+  z.object({ type: z.literal('reasoning'), text: z.string().describe('A delta of the reasoning trace.') }),
+  z.object({ type: z.literal('step'), step: z.string().describe('A model attempt, retry, fallback or tool call.') }),
+]);
+export type SmartAssistantStreamChunk = z.infer<typeof SmartAssistantStreamChunkSchema>;
+
+/** Per-request data passed to the flow as Genkit action context, since it cannot be part of the input. */
+interface SmartAssistantFlowContext {
+  /** Aborting it stops generation. */
+  abortSignal?: AbortSignal;
+}
 
-// Wrapper function now directly contains the logic
-export async function smartAssistantPrompting(
-  input: SmartAssistantPromptingInput
-): Promise<SmartAssistantPromptingOutput> {
-   console.log("Smart Assistant Prompting: Received input", { modelId: input.modelId, hasFile: !!input.fileDataUri, hasApiKey: !!input.apiKey });
+export type SmartAssistantChunkCallback = (textDelta: string) => void;
 
+export type SmartAssistantReasoningCallback = (reasoningDelta: string) => void;
+
+export type SmartAssistantStepCallback = (step: string) => void;
+
+// --- Shared Helpers ---
+
+// Text-only models of image-capable providers are left to the provider, which rejects the image itself
+function assertProviderSupportsInput(provider: ModelProvider, input: SmartAssistantPromptingInput): void {
+  if (!input.fileDataUris?.length || provider.capabilities.fileInput) return;
+  if (!provider.capabilities.imageInput) {
+    console.warn(`File input is not supported for ${provider.label} models.`);
+    throw new Error(`File input is not supported for ${provider.label} models.`);
+  }
+  if (!input.fileDataUris.every(isImageDataUri)) {
+    console.warn(`Non-image file sent to ${provider.label} model ${input.modelId}.`);
+    throw new Error(`${provider.label} models only accept image attachments (PNG, JPEG, WebP or GIF).`);
+  }
+}
+
+function validateInput(input: SmartAssistantPromptingInput): void {
   try {
-    // Validate input using Zod schema
-    try {
-      SmartAssistantPromptingInputSchema.parse(input);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        console.error("Invalid input:", error.errors);
-        throw new Error(`Invalid input: ${error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}`);
-      }
-      // Re-throw unexpected validation errors
-      console.error("Unexpected validation error:", error);
-      throw new Error(`Unexpected validation error: ${String(error)}`);
+    SmartAssistantPromptingInputSchema.parse(input);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      console.error("Invalid input:", error.errors);
+      throw new Error(`Invalid input: ${error.errors.map(e => `${e.path.join('.')} - ${e.message}`).join(', ')}`);
     }
+    // Re-throw unexpected validation errors
+    console.error("Unexpected validation error:", error);
+    throw new Error(`Unexpected validation error: ${String(error)}`);
+  }
+}
 
+/** Wraps errors with the "Server-side error" prefix the chat UI recognises. */
+function toServerError(error: unknown): Error {
+  if (error instanceof Error) {
+    return new Error(`Server-side error in smart assistant: ${error.message}`);
+  }
+  return new Error(`An unknown server-side error occurred in smart assistant: ${String(error)}`);
+}
 
-    if (input.modelId.startsWith('openrouter/')) {
-      // --- Handle OpenRouter Models ---
-       console.log("Handling OpenRouter model...");
-      if (input.fileDataUri) {
-          console.warn("File input is not currently supported for OpenRouter models in this flow.");
-          // Optionally throw an error or proceed without the file
-           throw new Error("File input is not supported for OpenRouter models.");
-        }
+// Keeps attempt descriptions short enough for the thinking steps list
+const MAX_STEP_ERROR_LENGTH = 200;
 
-      // Extract the actual model ID expected by the OpenRouter API
-      const openRouterModelId = input.modelId.replace(/^openrouter\//, '');
-      console.log(`Routing to OpenRouter model: ${openRouterModelId} (Original Input ID: ${input.modelId})`);
+async function prependDocuments(text: string, documents: z.infer<typeof DocumentSchema>[] | undefined): Promise<string> {
+  if (!documents?.length) return text;
+  return renderPrompt('documents', { text, documents });
+}
 
-      const apiKey = input.apiKey || process.env.OPENROUTER_API_KEY;
-      if (!apiKey) {
-        console.error("OpenRouter API key is missing.");
-        throw new Error("OpenRouter API key is missing. Please set it in the Settings tab or configure the OPENROUTER_API_KEY environment variable.");
-      }
+// The model decides whether the excerpts are relevant; retrieval only ranks them by similarity
+async function prependKnowledge(text: string, knowledge: z.infer<typeof KnowledgeExcerptSchema>[] | undefined): Promise<string> {
+  if (!knowledge?.length) return text;
+  return renderPrompt('knowledge-excerpts', { request: text, excerpts: knowledge.map((excerpt, index) => ({ ...excerpt, number: index + 1 })) });
+}
 
-      try {
-          console.log(`Sending request to OpenRouter with model: ${openRouterModelId}`);
-          const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-              method: "POST",
-              headers: {
-              "Authorization": `Bearer ${apiKey}`,
-              "Content-Type": "application/json",
-              // Optional: Add 'HTTP-Referer' and 'X-Title' headers per OpenRouter recommendation
-              // "HTTP-Referer": YOUR_SITE_URL, // Replace with actual site URL if available
-              // "X-Title": YOUR_SITE_NAME, // Replace with actual site name if available
-              },
-              body: JSON.stringify({
-              model: openRouterModelId,
-              messages: [{ role: "user", content: input.prompt }],
-              // Ensure non-streaming for this simple implementation
-              // stream: false, // OpenRouter defaults to non-streaming if not specified
-              // Consider adding 'max_tokens' or other parameters if needed
-              // max_tokens: 1024,
-              })
-          });
-
-        let responseBodyText = await response.text(); // Read body once as text
-        console.log("OpenRouter Raw Response Status:", response.status);
-        console.log("OpenRouter Raw Response Body:", responseBodyText);
-
-
-        if (!response.ok) {
-          let errorMessage = `OpenRouter API request failed with status ${response.status}`;
-          try {
-              // Try parsing as JSON, which is common for errors
-              const errorJson = JSON.parse(responseBodyText);
-              // Extract message using optional chaining and fallbacks
-              errorMessage = errorJson?.error?.message ?? errorJson?.detail ?? JSON.stringify(errorJson) ?? responseBodyText;
-          } catch (parseError) {
-               errorMessage = responseBodyText || errorMessage; // Use raw text if JSON parsing fails
-          }
-          console.error("Detailed OpenRouter Error:", errorMessage);
-          // Throw a specific error message including the model ID
-          throw new Error(`OpenRouter API Error for model ${openRouterModelId}: ${response.status} - ${errorMessage}`);
-        }
+/**
+ * Inlines extracted document text and knowledge base excerpts into the prompt and history, so providers
+ * only see plain text. The output schema, if any, is also described in the system prompt, since not
+ * every model honours a schema passed as a request parameter. The wording comes from the templates in ./prompts.
+ */
+async function inlineDocuments(input: SmartAssistantPromptingInput): Promise<SmartAssistantPromptingInput> {
+  const { documents, knowledge, ...rest } = input;
+  const schemaInstruction = input.outputSchema && await buildOutputSchemaInstruction(input.outputSchema);
+  return {
+    ...rest,
+    ...(schemaInstruction && { systemPrompt: input.systemPrompt ? `${input.systemPrompt}\n\n${schemaInstruction}` : schemaInstruction }),
+    prompt: await prependKnowledge(await prependDocuments(input.prompt, documents), knowledge),
+    history: input.history && await Promise.all(input.history.map(async ({ documents: turnDocuments, ...turn }) => ({ ...turn, text: await prependDocuments(turn.text, turnDocuments) }))),
+  };
+}
+
+/** Expands a request into one input per candidate model: the requested model first, then each fallback. */
+function buildCandidateInputs(input: SmartAssistantPromptingInput): SmartAssistantPromptingInput[] {
+  const { fallbackModels = [], retry, ...primary } = input;
+  return [
+    primary,
+    ...fallbackModels.map(fallback => ({
+      ...primary,
+      modelId: fallback.modelId,
+      // Never reuse the primary model's credentials or endpoint for another provider
+      apiKey: fallback.apiKey,
+      endpoint: fallback.endpoint,
+      contextLength: fallback.contextLength,
+    })),
+  ];
+}
 
-        // --- Handling Non-Streaming Success Response ---
-         let data;
-         try {
-            data = JSON.parse(responseBodyText); // Parse the successful response body
-            console.log("OpenRouter Parsed Success Response:", data);
-         } catch (parseError) {
-             console.error("Failed to parse successful OpenRouter response JSON:", parseError);
-             console.error("Raw successful response body was:", responseBodyText);
-             throw new Error(`Failed to parse successful response from OpenRouter model ${openRouterModelId}. Raw response: ${responseBodyText.substring(0, 100)}...`);
-         }
-
-
-         // Extract the response content - anticipating potential variations
-         const choice = data?.choices?.[0];
-         let responseContent = choice?.message?.content; // Standard location
-
-         // Fallback: Check if the response itself is directly the content (less common but possible)
-         if (typeof responseContent !== 'string' && typeof choice?.text === 'string') {
-             console.warn("OpenRouter response content found in choices[0].text instead of choices[0].message.content");
-             responseContent = choice.text;
-         }
-
-         // Fallback: Check if the entire response data might be the string (highly unlikely for chat completions)
-         if (typeof responseContent !== 'string' && typeof data === 'string') {
-            console.warn("OpenRouter response content appears to be the entire data payload string.");
-            responseContent = data;
-         }
-
-         // Final check if we have a valid string
-         if (typeof responseContent !== 'string') {
-           console.error("Unexpected OpenRouter response structure or missing text content:", data);
-           throw new Error(`Failed to extract valid text response content from OpenRouter model ${openRouterModelId}. Check the console logs for the raw response structure.`);
-         }
-
-         console.log("OpenRouter final response content:", responseContent);
-         return { response: responseContent };
+/**
+ * Calls `attempt` for the requested model and then each fallback model until one succeeds,
+ * retrying transient failures of each model with backoff. Every attempt and tool call is reported
+ * through `onStep` and returned in the output's `attempts`.
+ *
+ * @param canRetry Returns false once retrying would be unsafe (e.g. part of a response was already streamed).
+ */
+async function runWithRetryAndFallback(
+  input: SmartAssistantPromptingInput,
+  attempt: (provider: ModelProvider, candidateInput: SmartAssistantPromptingInput, tools?: ToolSession) => Promise<SmartAssistantPromptingOutput>,
+  options: { signal?: AbortSignal; onStep?: SmartAssistantStepCallback; canRetry?: () => boolean } = {}
+): Promise<SmartAssistantPromptingOutput> {
+  const { signal, onStep, canRetry = () => true } = options;
+  const retryOptions: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...input.retry };
+  const candidates = buildCandidateInputs(input);
+  const attempts: string[] = [];
+  const recordStep = (step: string) => {
+    console.log(`Smart Assistant Prompting: ${step}`);
+    attempts.push(step);
+    onStep?.(step);
+  };
+  const toolSession = await createToolSession(input.tools, input.mcpServers, { timeZone: input.timeZone, chatArchive: input.chatArchive, onStep: recordStep });
+
+  let lastError: unknown;
+  let attemptNumber = 0;
+  for (let candidateIndex = 0; candidateIndex < candidates.length; candidateIndex++) {
+    const candidateInput = candidates[candidateIndex];
+    if (candidateIndex > 0) recordStep(`Falling back to ${candidateInput.modelId}`);
+    // Providers send the same truncated history; reported once per model rather than on every request
+    const historyLength = candidateInput.history?.length ?? 0;
+    const sentHistoryLength = getHistoryForRequest(candidateInput).length;
+    if (sentHistoryLength < historyLength) {
+      recordStep(`Sending the last ${sentHistoryLength} of ${historyLength} earlier messages to fit ${candidateInput.modelId}'s context window`);
+    }
 
+    for (let retryNumber = 0; ; retryNumber++) {
+      recordStep(`Attempt ${++attemptNumber}: ${candidateInput.modelId}`);
+      try {
+        const provider = resolveModelProvider(candidateInput.modelId);
+        console.log(`Handling ${provider.label} model: ${candidateInput.modelId}`);
+        assertProviderSupportsInput(provider, candidateInput);
+        const toolsSupported = canCallTools(provider, candidateInput.endpoint);
+        if (toolSession && !toolsSupported) {
+          recordStep(`${candidateInput.modelId} cannot call tools; answering without them`);
+        }
+        const tools = toolsSupported ? toolSession : undefined;
+        let output = await attempt(provider, candidateInput, tools);
+        if (input.outputSchema) {
+          output = await ensureStructuredOutput(provider, candidateInput, output, tools, recordStep, signal);
+        }
+        return { ...output, modelId: candidateInput.modelId, attempts };
       } catch (error) {
-          // Catch errors specifically from the fetch/processing block
-          console.error(`Error during OpenRouter API call or processing for model ${openRouterModelId}:`, error);
-          if (error instanceof Error) {
-               // Rethrow the caught error, possibly adding more context if needed
-               throw new Error(`Failed during OpenRouter interaction for model ${openRouterModelId}: ${error.message}`);
-          } else {
-              // Handle non-Error objects thrown
-              throw new Error(`An unexpected issue occurred while communicating with OpenRouter: ${String(error)}`);
-          }
+        if (signal?.aborted) throw error;
+        lastError = error;
+        const message = (error instanceof Error ? error.message : String(error)).slice(0, MAX_STEP_ERROR_LENGTH);
+        if (!canRetry()) {
+          recordStep(`${candidateInput.modelId} failed after the response had started: ${message}`);
+          throw error;
+        }
+        const delay = getRetryDelay(error, retryNumber + 1, retryOptions);
+        if (delay === null) {
+          recordStep(`${candidateInput.modelId} failed: ${message}`);
+          break;
+        }
+        recordStep(`${candidateInput.modelId} failed: ${message}. Retrying in ${(delay / 1000).toFixed(1)}s...`);
+        await sleep(delay, signal);
       }
+    }
+  }
 
-    } else if (input.modelId.startsWith('googleai/')) {
-      // --- Handle Google AI Models via Genkit ---
-      console.log(`Handling Google AI model: ${input.modelId}`);
-
-      const promptParts: any[] = [];
-      if (input.fileDataUri) {
-          console.log("Adding file to Google AI prompt parts.");
-          promptParts.push({ text: `Analyze the provided file and answer the prompt based on it.\nPrompt: ${input.prompt}` });
-          promptParts.push({ media: { url: input.fileDataUri } });
-      } else {
-           console.log("Adding text-only prompt to Google AI prompt parts.");
-          promptParts.push({ text: input.prompt }); // Simplified text prompt
+  if (candidates.length > 1 && lastError instanceof Error) {
+    throw new Error(`All ${candidates.length} models failed (${candidates.map(candidate => candidate.modelId).join(', ')}). Last error: ${lastError.message}`, { cause: lastError });
+  }
+  throw lastError;
+}
+
+/**
+ * Routes the prompt to the provider registered for the model ID prefix, streaming text, reasoning and
+ * steps as chunks (they are dropped when the caller does not stream, but retries and fallbacks still
+ * stop once the first chunk was produced). Genkit validates the input and
+ * output against their schemas; traces record the input, API keys included, and are only kept by the
+ * local Genkit tooling.
+ */
+const smartAssistantPromptingFlow = ai.defineFlow(
+  {
+    name: 'smartAssistantPrompting',
+    inputSchema: SmartAssistantPromptingInputSchema,
+    outputSchema: SmartAssistantPromptingOutputSchema,
+    streamSchema: SmartAssistantStreamChunkSchema,
+  },
+  async (input, { sendChunk, context }) => {
+    const { abortSignal: signal } = (context ?? {}) as SmartAssistantFlowContext;
+    // Fails before any model is called rather than on the first response
+    if (input.outputSchema) assertValidOutputSchema(input.outputSchema);
+
+    let hasStreamed = false;
+    const onChunk: SmartAssistantChunkCallback = (text) => {
+      hasStreamed = true;
+      sendChunk({ type: 'chunk', text });
+    };
+    const onReasoning: SmartAssistantReasoningCallback = (text) => {
+      hasStreamed = true;
+      sendChunk({ type: 'reasoning', text });
+    };
+
+    return runWithRetryAndFallback(await inlineDocuments(input), async (provider, candidateInput, tools) => {
+      if (!provider.capabilities.streaming) {
+        const output = await provider.generate(candidateInput, signal, tools);
+        if (output.reasoning) onReasoning(output.reasoning);
+        onChunk(output.response);
+        return output;
       }
+      return provider.stream(candidateInput, onChunk, signal, tools, onReasoning);
+    }, { signal, onStep: (step) => sendChunk({ type: 'step', step }), canRetry: () => !hasStreamed });
+  }
+);
 
-       try {
-          const googleAiModelId = input.modelId;
-          console.log(`Using Genkit with Google AI model: ${googleAiModelId}`);
-           console.log("Prompt Parts:", JSON.stringify(promptParts, null, 2)); // Log the parts being sent
-
-          // Call ai.generate directly for a simple response
-          const genkitResponse = await ai.generate({
-              model: googleAiModelId,
-              prompt: promptParts,
-              // No explicit tools defined here, model decides based on prompt
-              // tools: []
-          });
-
-           console.log("Genkit Raw Response Object:", JSON.stringify(genkitResponse, null, 2)); // Log the full Genkit response
-
-          const responseText = genkitResponse.text; // Access text directly in Genkit v1.x
-
-          if (typeof responseText !== 'string') {
-              console.error("Google AI model via Genkit did not yield a valid response string:", genkitResponse);
-              throw new Error('Google AI model did not produce a valid response string.');
-          }
-
-          console.log("Google AI final response text:", responseText);
-          return { response: responseText };
-
-        } catch (error) {
-           // Catch errors specifically from the Genkit block
-           console.error(`Error calling Google AI model ${input.modelId} via Genkit:`, error);
-           if (error instanceof Error) {
-               // Rethrow the caught error, possibly adding more context
-               throw new Error(`Failed during Google AI interaction for model ${input.modelId}: ${error.message}`);
-          } else {
-              // Handle non-Error objects thrown
-              throw new Error(`An unexpected issue occurred while communicating with Google AI via Genkit: ${String(error)}`);
-          }
-        }
+/**
+ * Runs the smart assistant flow and returns its complete response.
+ */
+export async function smartAssistantPrompting(
+  input: SmartAssistantPromptingInput
+): Promise<SmartAssistantPromptingOutput> {
+   console.log("Smart Assistant Prompting: Received input", { modelId: input.modelId, fileCount: input.fileDataUris?.length ?? 0, documentCount: input.documents?.length ?? 0, knowledgeCount: input.knowledge?.length ?? 0, toolCount: input.tools?.length ?? 0, hasApiKey: !!input.apiKey, historyLength: input.history?.length ?? 0 });
 
-    } else {
-      // --- Handle Unknown/Unsupported Model IDs ---
-      console.error(`Unsupported model ID format: ${input.modelId}`);
-      throw new Error(`Unsupported model provider for ID: ${input.modelId}. Must start with "googleai/" or "openrouter/".`);
-    }
+  try {
+    // Validated here too, for a readable message (Genkit reports schema violations as raw JSON Schema errors)
+    validateInput(input);
+
+    return await smartAssistantPromptingFlow(input);
   } catch (error) {
      // Top-level catch for any unexpected errors during the flow execution
      console.error("!!! Unhandled Exception in smartAssistantPrompting flow:", error);
-     if (error instanceof Error) {
-        // Re-throw the original error or a new one with context
-        throw new Error(`Server-side error in smart assistant: ${error.message}`);
-     } else {
-        // Handle non-Error objects thrown
-        throw new Error(`An unknown server-side error occurred in smart assistant: ${String(error)}`);
-     }
+     throw toServerError(error);
+  }
+}
+
+/**
+ * Streaming variant of smartAssistantPrompting. Text deltas are passed to `onChunk` (and reasoning
+ * deltas to `onReasoning`) as soon as the provider emits them; the resolved value is the complete
+ * response, identical in shape to the non-streaming flow. Providers without streaming support fall
+ * back to a single chunk.
+ *
+ * Used by the `/api/smart-assistant` route handler, which forwards the chunks to the browser
+ * and aborts `signal` when the user presses Stop (or the connection drops). Retries and fallbacks
+ * only happen before the first chunk; a failure mid-response is reported as is. Corrections of
+ * responses that do not match the output schema are not streamed; the resolved response replaces
+ * the streamed text.
+ */
+export async function streamSmartAssistantPrompting(
+  input: SmartAssistantPromptingInput,
+  onChunk: SmartAssistantChunkCallback,
+  signal?: AbortSignal,
+  onStep?: SmartAssistantStepCallback,
+  onReasoning?: SmartAssistantReasoningCallback
+): Promise<SmartAssistantPromptingOutput> {
+  console.log("Smart Assistant Prompting (stream): Received input", { modelId: input.modelId, fileCount: input.fileDataUris?.length ?? 0, documentCount: input.documents?.length ?? 0, knowledgeCount: input.knowledge?.length ?? 0, toolCount: input.tools?.length ?? 0, hasApiKey: !!input.apiKey, historyLength: input.history?.length ?? 0 });
+
+  try {
+    validateInput(input);
+
+    const context: SmartAssistantFlowContext = { abortSignal: signal };
+    const { result } = await smartAssistantPromptingFlow.run(input, {
+      context,
+      onChunk: (chunk) => {
+        if (chunk.type === 'chunk') onChunk(chunk.text);
+        else if (chunk.type === 'reasoning') onReasoning?.(chunk.text);
+        else onStep?.(chunk.step);
+      },
+    });
+    return result;
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log(`Smart Assistant Prompting (stream): generation for ${input.modelId} was stopped.`);
+      throw error;
+    }
+    console.error("!!! Unhandled Exception in streamSmartAssistantPrompting flow:", error);
+    throw toServerError(error);
   }
 }
@@ -0,0 +1,40 @@
+import { readdirSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { renderPrompt, type PromptInputs } from '@/ai/prompts';
+
+// Sample input for every template, with the text each rendering must contain
+const SAMPLES: { [N in keyof PromptInputs]: { input: PromptInputs[N]; expected: string[] } } = {
+  'file-analysis': {
+    input: { prompt: 'Summarize the invoice', multipleFiles: true },
+    expected: ['Prompt: Summarize the invoice', 'the provided files'],
+  },
+  'documents': {
+    input: { text: 'What is the total?', documents: [{ name: 'invoice.pdf', text: 'Total: 42 EUR' }] },
+    expected: ['<document name="invoice.pdf">', 'Total: 42 EUR', 'What is the total?'],
+  },
+  'knowledge-excerpts': {
+    input: { request: 'When was it founded?', excerpts: [{ number: 1, documentName: 'history.md', location: 'page 2', text: 'Founded in 1998.' }] },
+    expected: ['[1] history.md (page 2)', 'Founded in 1998.', 'When was it founded?'],
+  },
+  'output-schema': {
+    input: { schema: '{ "type": "object" }' },
+    expected: ['{ "type": "object" }'],
+  },
+  'schema-correction': {
+    input: { errors: ['/age must be integer', '/name is required'] },
+    expected: ['- /age must be integer', '- /name is required'],
+  },
+};
+
+describe('renderPrompt', () => {
+  it('has sample input for every prompt file', () => {
+    const promptNames = readdirSync('prompts').filter(file => file.endsWith('.prompt')).map(file => file.slice(0, -'.prompt'.length));
+    expect(promptNames.sort()).toEqual(Object.keys(SAMPLES).sort());
+  });
+
+  it.each(Object.keys(SAMPLES) as (keyof PromptInputs)[])('fills in the input of %s', async name => {
+    const { input, expected } = SAMPLES[name];
+    const text = await renderPrompt(name, input as never);
+    for (const part of expected) expect(text).toContain(part);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * @fileOverview Prompt templates, kept as dotprompt files in ./prompts (the `promptDir` of the Genkit
+ * instance) so they are versioned with the code and can be tried out in the Genkit dev UI.
+ *
+ * - PromptInputs - The input of each template, matching the schema in its front matter.
+ * - renderPrompt - Renders a template to plain text.
+ *
+ * Providers receive the rendered text rather than the prompt itself, since most of them do not go
+ * through Genkit's `generate`.
+ */
+
+import type { GenerateOptions } from 'genkit';
+import { ai } from '@/ai/ai-instance';
+
+export interface PromptInputs {
+  'file-analysis': { prompt: string; multipleFiles?: boolean };
+  'documents': { text: string; documents: { name: string; text: string }[] };
+  'knowledge-excerpts': { request: string; excerpts: { number: number; documentName: string; location?: string; text: string }[] };
+  'output-schema': { schema: string };
+  'schema-correction': { errors: string[] };
+}
+
+// The prompt returned by `ai.prompt()` as Genkit 1.6 calls it at runtime
+interface LookedUpPrompt<I> {
+  render(options: { input: I }): Promise<GenerateOptions>;
+}
+
+/**
+ * Renders the prompt `name` (the file name without `.prompt`) and joins the text of its messages.
+ *
+ * @throws If there is no such prompt file.
+ */
+export async function renderPrompt<N extends keyof PromptInputs>(name: N, input: PromptInputs[N]): Promise<string> {
+  // Genkit 1.6's `ai.prompt()` reads the input from `render(options)` as `options.input`, although
+  // its typings declare `render(input, options)`; passing the input directly renders empty variables
+  const prompt = ai.prompt(name) as unknown as LookedUpPrompt<PromptInputs[N]>;
+  const { messages = [] } = await prompt.render({ input });
+  return messages
+    .flatMap(message => message.content.map(part => part.text ?? ''))
+    .join('')
+    .trim();
+}
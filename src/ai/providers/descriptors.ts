@@ -0,0 +1,192 @@
+/**
+ * @fileOverview Client-safe metadata for the registered model providers.
+ * Implementations live next to this file and are registered server-side in `./index.ts`;
+ * this module only describes them so UI code can check capabilities without importing Genkit.
+ *
+ * - ModelProviderDescriptor - Static description of a provider (ID, model ID prefix, label, capabilities).
+ * - ProviderModelInfo - A model offered by a provider with normalized metadata (context, modalities, pricing).
+ * - ModelPricing - Per-token prices of a model.
+ * - PROVIDER_DESCRIPTORS - Descriptors for all built-in providers.
+ * - getProviderDescriptor / getProviderDescriptorForModel - Look up a descriptor by provider ID or model ID.
+ * - getAttachmentSupport - Which files a model reads directly, or why it cannot.
+ * - isImageDataUri - Whether a data URI holds an image that vision models accept.
+ * - OpenAICompatibleEndpointConfig - Connection settings for a self-hosted OpenAI-compatible gateway.
+ * - canCallTools - Whether tools can be offered to a provider's models, taking endpoint settings into account.
+ * - toOpenAICompatibleModelId / parseOpenAICompatibleModelId - Encode/decode the endpoint in a model ID.
+ */
+
+/** ID of a registered provider (e.g. 'google', 'openrouter'). */
+export type ProviderId = string;
+
+export interface ModelProviderCapabilities {
+  /** Whether responses can be streamed token-by-token. */
+  streaming: boolean;
+  /** Whether any supported file (images, PDFs, text) can be attached to a prompt. */
+  fileInput: boolean;
+  /** Whether images can be attached for models that list 'image' among their input modalities. */
+  imageInput: boolean;
+  /**
+   * Whether the built-in tools (calculator, date/time, ...) can be offered to the model.
+   * OpenAI-compatible endpoints enable this per endpoint instead; see `canCallTools`.
+   */
+  toolCalling: boolean;
+}
+
+export interface ModelProviderDescriptor {
+  id: ProviderId;
+  /** Prefix of every model ID served by this provider, including the trailing slash. */
+  prefix: string;
+  /** Human-readable name, used for badges and messages. */
+  label: string;
+  /** Whether requests need a user-supplied API key (when no server environment key is configured). */
+  requiresApiKey: boolean;
+  capabilities: ModelProviderCapabilities;
+}
+
+/** Price in USD per token (per image/request for those fields), as reported by the provider. */
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+  request?: number;
+  image?: number;
+}
+
+/**
+ * A model offered by a provider. Only `id`, `name` and `provider` are guaranteed; the remaining
+ * metadata is normalized across providers where the provider reports it.
+ */
+export interface ProviderModelInfo {
+  id: string;
+  name: string;
+  provider: ProviderId;
+  context_length?: number;
+  description?: string;
+  /** Kinds of input the model accepts, e.g. ['text', 'image']. */
+  inputModalities?: string[];
+  /** Kinds of output the model produces, e.g. ['text']. */
+  outputModalities?: string[];
+  pricing?: ModelPricing;
+  maxCompletionTokens?: number;
+  /** Whether the provider runs moderation on requests to this model. */
+  isModerated?: boolean;
+  /** Whether the model can return its reasoning (thinking) trace along with the answer. */
+  supportsReasoning?: boolean;
+}
+
+export const GOOGLE_PROVIDER: ModelProviderDescriptor = {
+  id: 'google',
+  prefix: 'googleai/',
+  label: 'Google AI',
+  requiresApiKey: false,
+  capabilities: { streaming: true, fileInput: true, imageInput: true, toolCalling: true },
+};
+
+export const OPENROUTER_PROVIDER: ModelProviderDescriptor = {
+  id: 'openrouter',
+  prefix: 'openrouter/',
+  label: 'OpenRouter',
+  requiresApiKey: true,
+  capabilities: { streaming: true, fileInput: false, imageInput: true, toolCalling: true },
+};
+
+export const OPENAI_COMPATIBLE_PROVIDER: ModelProviderDescriptor = {
+  id: 'openai-compatible',
+  prefix: 'openai-compatible/',
+  label: 'OpenAI-compatible',
+  requiresApiKey: false,
+  capabilities: { streaming: true, fileInput: false, imageInput: false, toolCalling: false },
+};
+
+export const OLLAMA_PROVIDER: ModelProviderDescriptor = {
+  id: 'ollama',
+  prefix: 'ollama/',
+  label: 'Ollama',
+  requiresApiKey: false,
+  capabilities: { streaming: true, fileInput: false, imageInput: false, toolCalling: false },
+};
+
+export const PROVIDER_DESCRIPTORS: ModelProviderDescriptor[] = [GOOGLE_PROVIDER, OPENROUTER_PROVIDER, OPENAI_COMPATIBLE_PROVIDER, OLLAMA_PROVIDER];
+
+export function getProviderDescriptor(providerId: ProviderId): ModelProviderDescriptor | undefined {
+  return PROVIDER_DESCRIPTORS.find(descriptor => descriptor.id === providerId);
+}
+
+/** Finds the provider whose prefix matches the model ID (longest prefix wins). */
+export function getProviderDescriptorForModel(modelId: string): ModelProviderDescriptor | undefined {
+  return PROVIDER_DESCRIPTORS
+    .filter(descriptor => modelId.startsWith(descriptor.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+}
+
+// Image types accepted as `image_url` parts by OpenAI-style vision models
+const IMAGE_ATTACHMENT_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const IMAGE_ATTACHMENT_ACCEPT = '.png,.jpg,.jpeg,.webp,.gif';
+const ALL_ATTACHMENT_ACCEPT = '.txt,.pdf,.jpg,.jpeg,.png,.webp,.md';
+
+export function isImageDataUri(dataUri: string): boolean {
+  const mimeType = /^data:([^;,]+)/.exec(dataUri)?.[1]?.toLowerCase();
+  return !!mimeType && IMAGE_ATTACHMENT_MIME_TYPES.includes(mimeType);
+}
+
+export interface AttachmentSupport {
+  /** File extensions the model reads directly (for a file input's `accept`), or null if it reads none. */
+  accept: string | null;
+  /** Shown to the user when the model cannot read images or binary files directly. */
+  reason?: string;
+}
+
+/**
+ * Describes which files `model` reads directly: anything for providers with full file input,
+ * images for vision models (per the model's input modalities), nothing otherwise.
+ */
+export function getAttachmentSupport(model: ProviderModelInfo): AttachmentSupport {
+  const provider = getProviderDescriptor(model.provider) ?? getProviderDescriptorForModel(model.id);
+  if (provider?.capabilities.fileInput) {
+    return { accept: ALL_ATTACHMENT_ACCEPT };
+  }
+  if (provider?.capabilities.imageInput) {
+    if (model.inputModalities?.includes('image')) {
+      return { accept: IMAGE_ATTACHMENT_ACCEPT };
+    }
+    return { accept: null, reason: `${model.name} is a text-only model. Choose a vision model to attach images.` };
+  }
+  return { accept: null, reason: `${provider?.label ?? 'This provider'} models cannot read images or other binary files.` };
+}
+
+/**
+ * Connection settings for an OpenAI-compatible endpoint (vLLM, LiteLLM, llama.cpp server, ...).
+ * Sent with each request, since endpoints are configured in the browser.
+ */
+export interface OpenAICompatibleEndpointConfig {
+  /** Base URL including the version segment, e.g. "http://localhost:8000/v1". */
+  baseUrl: string;
+  /** Extra headers sent with every request to the endpoint. */
+  headers?: Record<string, string>;
+  /** Whether the endpoint accepts `tools` in chat completions. Off by default, since many servers reject them. */
+  toolCalling?: boolean;
+}
+
+/**
+ * Whether tools can be offered to models of `provider`. OpenAI-compatible models can call them only
+ * when their endpoint has tool calling turned on.
+ */
+export function canCallTools(provider: ModelProviderDescriptor, endpoint?: OpenAICompatibleEndpointConfig): boolean {
+  if (provider.id === OPENAI_COMPATIBLE_PROVIDER.id) return endpoint?.toolCalling === true;
+  return provider.capabilities.toolCalling;
+}
+
+/**
+ * Builds the model ID for a model served by a configured OpenAI-compatible endpoint:
+ * `openai-compatible/<endpointId>/<model>`. The model part may itself contain slashes.
+ */
+export function toOpenAICompatibleModelId(endpointId: string, model: string): string {
+  return `${OPENAI_COMPATIBLE_PROVIDER.prefix}${endpointId}/${model}`;
+}
+
+export function parseOpenAICompatibleModelId(modelId: string): { endpointId: string; model: string } | null {
+  if (!modelId.startsWith(OPENAI_COMPATIBLE_PROVIDER.prefix)) return null;
+  const rest = modelId.slice(OPENAI_COMPATIBLE_PROVIDER.prefix.length);
+  const separatorIndex = rest.indexOf('/');
+  if (separatorIndex <= 0 || separatorIndex === rest.length - 1) return null;
+  return { endpointId: rest.slice(0, separatorIndex), model: rest.slice(separatorIndex + 1) };
+}
@@ -0,0 +1,220 @@
+/**
+ * @fileOverview Google AI model provider, calling Gemini models through Genkit.
+ *
+ * Thinking models are asked to include their thought summaries, which Genkit returns as `reasoning`
+ * parts (in plugin versions that support Gemini thinking; older versions ignore the request).
+ */
+
+import { ai } from '@/ai/ai-instance';
+import type { SmartAssistantPromptingInput, SmartAssistantPromptingOutput, SmartAssistantChunkCallback, SmartAssistantReasoningCallback } from '@/ai/flows/smart-assistant-prompting';
+import type { ModelProvider } from '@/ai/providers/types';
+import type { ProviderModelInfo } from '@/ai/providers/descriptors';
+import { GOOGLE_PROVIDER } from '@/ai/providers/descriptors';
+import { getHistoryForRequest } from '@/ai/context-window';
+import type { JSONSchema7, ToolAction } from 'genkit';
+import type { ToolSession } from '@/ai/tools';
+import { renderPrompt } from '@/ai/prompts';
+
+// Models served through the googleAI plugin configured in ai-instance.ts
+// (The plugin has no model listing API, so metadata is taken from Google's published model card)
+const GOOGLE_MODELS: ProviderModelInfo[] = [
+  {
+    id: 'googleai/gemini-2.0-flash',
+    name: 'Google Gemini 2.0 Flash',
+    provider: GOOGLE_PROVIDER.id,
+    context_length: 1_048_576,
+    description: 'Fast multimodal model from Google with a 1M token context window.',
+    inputModalities: ['text', 'image', 'audio', 'video', 'file'],
+    outputModalities: ['text'],
+    pricing: { prompt: 0.0000001, completion: 0.0000004 },
+    maxCompletionTokens: 8192,
+    isModerated: false,
+  },
+  {
+    id: 'googleai/gemini-2.5-flash-preview-04-17',
+    name: 'Google Gemini 2.5 Flash (Preview)',
+    provider: GOOGLE_PROVIDER.id,
+    context_length: 1_048_576,
+    description: 'Hybrid reasoning model from Google that thinks before answering, with a 1M token context window.',
+    inputModalities: ['text', 'image', 'audio', 'video', 'file'],
+    outputModalities: ['text'],
+    pricing: { prompt: 0.00000015, completion: 0.0000035 }, // Output price with thinking enabled
+    maxCompletionTokens: 65_536,
+    isModerated: false,
+    supportsReasoning: true,
+  },
+];
+
+function supportsThinking(modelId: string): boolean {
+  return GOOGLE_MODELS.some(model => model.id === modelId && model.supportsReasoning);
+}
+
+/** Joins the `reasoning` parts of a message or chunk (typed loosely, as not every Genkit version defines them). */
+function extractReasoning(parts: unknown[] | undefined): string {
+  return (parts ?? [])
+    .map(part => (part as { reasoning?: unknown }).reasoning)
+    .filter((reasoning): reasoning is string => typeof reasoning === 'string')
+    .join('');
+}
+
+async function buildGooglePromptParts(input: SmartAssistantPromptingInput): Promise<any[]> {
+  const promptParts: any[] = [];
+  const fileDataUris = input.fileDataUris ?? [];
+  if (fileDataUris.length > 0) {
+    console.log(`Adding ${fileDataUris.length} file(s) to Google AI prompt parts.`);
+    promptParts.push({ text: await renderPrompt('file-analysis', { prompt: input.prompt, multipleFiles: fileDataUris.length > 1 }) });
+    promptParts.push(...fileDataUris.map(url => ({ media: { url } })));
+  } else {
+    console.log("Adding text-only prompt to Google AI prompt parts.");
+    promptParts.push({ text: input.prompt }); // Simplified text prompt
+  }
+  return promptParts;
+}
+
+/** Maps prior turns to Genkit's multi-turn `messages` format (`model` is Genkit's role for AI turns). */
+function buildGoogleHistoryMessages(input: SmartAssistantPromptingInput): { role: 'user' | 'model'; content: any[] }[] {
+  return getHistoryForRequest(input).map(turn => {
+    const content: any[] = [{ text: turn.text }];
+    content.push(...(turn.fileDataUris ?? []).map(url => ({ media: { url } })));
+    return { role: turn.sender === 'user' ? 'user' : 'model', content };
+  });
+}
+
+/**
+ * Maps generation options to Genkit's `config` and `output`; an output schema is passed as Genkit's
+ * `output.jsonSchema`. The Gemini plugin has no seed or presence/frequency penalties, so those are
+ * logged and skipped.
+ */
+function buildGoogleGenerationOptions(input: SmartAssistantPromptingInput): { config: Record<string, unknown>; output?: { format: 'json'; jsonSchema?: JSONSchema7 } } {
+  const options = input.options ?? {};
+  const unsupported = (['seed', 'presencePenalty', 'frequencyPenalty'] as const).filter(key => options[key] !== undefined);
+  if (unsupported.length > 0) {
+    console.warn(`Ignoring generation options not supported by Google AI models: ${unsupported.join(', ')}`);
+  }
+  return {
+    config: {
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.topP !== undefined && { topP: options.topP }),
+      ...(options.maxTokens !== undefined && { maxOutputTokens: options.maxTokens }),
+      ...(options.stopSequences?.length && { stopSequences: options.stopSequences }),
+      ...(supportsThinking(input.modelId) && { thinkingConfig: { includeThoughts: true } }),
+    },
+    ...(input.outputSchema
+      ? { output: { format: 'json' as const, jsonSchema: input.outputSchema.schema as JSONSchema7 } }
+      : options.responseFormat === 'json' && { output: { format: 'json' as const } }),
+  };
+}
+
+// Genkit runs the tool loop itself; the context reaches each tool call (for its step reporting and data)
+function buildGoogleToolOptions(tools: ToolSession | undefined): { tools?: ToolAction[]; context?: ToolSession['context'] } {
+  return tools ? { tools: tools.tools.map(tool => tool.action), context: tools.context } : {};
+}
+
+function wrapGoogleError(error: unknown, modelId: string): Error {
+  if (error instanceof Error) {
+    // Rethrow the caught error, adding the model for context
+    return new Error(`Failed during Google AI interaction for model ${modelId}: ${error.message}`, { cause: error });
+  }
+  // Handle non-Error objects thrown
+  return new Error(`An unexpected issue occurred while communicating with Google AI via Genkit: ${String(error)}`);
+}
+
+// Genkit does not accept an AbortSignal yet; aborting stops waiting for (and discards) the result.
+async function generate(input: SmartAssistantPromptingInput, signal?: AbortSignal, tools?: ToolSession): Promise<SmartAssistantPromptingOutput> {
+  console.log(`Handling Google AI model: ${input.modelId}`);
+  const promptParts = await buildGooglePromptParts(input);
+
+  try {
+    console.log("Prompt Parts:", JSON.stringify(promptParts, null, 2)); // Log the parts being sent
+
+    const genkitResponse = await ai.generate({
+      model: input.modelId,
+      messages: buildGoogleHistoryMessages(input),
+      prompt: promptParts,
+      ...(input.systemPrompt && { system: input.systemPrompt }),
+      ...buildGoogleGenerationOptions(input),
+      ...buildGoogleToolOptions(tools),
+    });
+
+    signal?.throwIfAborted();
+    console.log("Genkit Raw Response Object:", JSON.stringify(genkitResponse, null, 2)); // Log the full Genkit response
+
+    const responseText = genkitResponse.text; // Access text directly in Genkit v1.x
+
+    if (typeof responseText !== 'string') {
+      console.error("Google AI model via Genkit did not yield a valid response string:", genkitResponse);
+      throw new Error('Google AI model did not produce a valid response string.');
+    }
+
+    console.log("Google AI final response text:", responseText);
+    const reasoning = extractReasoning(genkitResponse.message?.content);
+    return { response: responseText, ...(reasoning && { reasoning }) };
+
+  } catch (error) {
+    // Catch errors specifically from the Genkit block
+    console.error(`Error calling Google AI model ${input.modelId} via Genkit:`, error);
+    throw wrapGoogleError(error, input.modelId);
+  }
+}
+
+async function stream(input: SmartAssistantPromptingInput, onChunk: SmartAssistantChunkCallback, signal?: AbortSignal, tools?: ToolSession, onReasoning?: SmartAssistantReasoningCallback): Promise<SmartAssistantPromptingOutput> {
+  const promptParts = await buildGooglePromptParts(input);
+
+  try {
+    const { stream, response } = ai.generateStream({
+      model: input.modelId,
+      messages: buildGoogleHistoryMessages(input),
+      prompt: promptParts,
+      ...(input.systemPrompt && { system: input.systemPrompt }),
+      ...buildGoogleGenerationOptions(input),
+      ...buildGoogleToolOptions(tools),
+    });
+
+    let reasoning = '';
+    for await (const chunk of stream) {
+      signal?.throwIfAborted(); // Stop forwarding chunks once the client has gone away
+      const reasoningDelta = extractReasoning(chunk.content);
+      if (reasoningDelta) {
+        reasoning += reasoningDelta;
+        onReasoning?.(reasoningDelta);
+      }
+      if (chunk.text) {
+        onChunk(chunk.text);
+      }
+    }
+
+    const responseText = (await response).text;
+    if (typeof responseText !== 'string') {
+      throw new Error('Google AI model did not produce a valid response string.');
+    }
+    console.log("Google AI streamed response length:", responseText.length);
+    return { response: responseText, ...(reasoning && { reasoning }) };
+
+  } catch (error) {
+    console.error(`Error streaming Google AI model ${input.modelId} via Genkit:`, error);
+    throw wrapGoogleError(error, input.modelId);
+  }
+}
+
+async function listModels(): Promise<ProviderModelInfo[]> {
+  return GOOGLE_MODELS;
+}
+
+// Embedder IDs use the same "googleai/" names as the plugin's embedders, e.g. "googleai/text-embedding-004"
+async function embed(embedderId: string, texts: string[]): Promise<number[][]> {
+  try {
+    const embeddings = await ai.embedMany({ embedder: embedderId, content: texts });
+    return embeddings.map(entry => entry.embedding);
+  } catch (error) {
+    console.error(`Error embedding with Google AI embedder ${embedderId} via Genkit:`, error);
+    throw wrapGoogleError(error, embedderId);
+  }
+}
+
+export const googleProvider: ModelProvider = {
+  ...GOOGLE_PROVIDER,
+  listModels,
+  generate,
+  stream,
+  embed,
+};
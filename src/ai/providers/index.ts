@@ -0,0 +1,18 @@
+/**
+ * @fileOverview Registers the built-in model providers. Import from here (server-side only) to
+ * make sure the registry is populated; new backends are added by registering them below.
+ */
+
+import { registerModelProvider } from '@/ai/providers/registry';
+import { googleProvider } from '@/ai/providers/google';
+import { openRouterProvider } from '@/ai/providers/openrouter';
+import { openAICompatibleProvider } from '@/ai/providers/openai-compatible';
+import { ollamaProvider } from '@/ai/providers/ollama';
+
+registerModelProvider(googleProvider);
+registerModelProvider(openRouterProvider);
+registerModelProvider(openAICompatibleProvider);
+registerModelProvider(ollamaProvider);
+
+export { registerModelProvider, resolveModelProvider, listModelProviders } from '@/ai/providers/registry';
+export type { ModelProvider, ListModelsOptions } from '@/ai/providers/types';
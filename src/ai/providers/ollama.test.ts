@@ -0,0 +1,107 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ollamaProvider } from '@/ai/providers/ollama';
+import { ProviderHttpError } from '@/ai/retry';
+
+// Stands in for the Ollama daemon; each test sets how the next request is answered
+let handleRequest: (request: IncomingMessage, response: ServerResponse, body: string) => void;
+let server: Server;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => handleRequest(request, response, body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  vi.stubEnv('OLLAMA_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}/`);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  server.closeAllConnections();
+});
+
+const sendJson = (response: ServerResponse, status: number, json: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(json));
+};
+
+describe('ollamaProvider.listModels', () => {
+  it('lists the installed models from /api/tags', async () => {
+    let requestedUrl: string | undefined;
+    handleRequest = (request, response) => {
+      requestedUrl = request.url;
+      sendJson(response, 200, {
+        models: [
+          { name: 'llama3.2:latest', model: 'llama3.2:latest', details: { parameter_size: '3.2B' } },
+          { name: 'qwen2.5-coder' },
+        ],
+      });
+    };
+
+    await expect(ollamaProvider.listModels()).resolves.toEqual([
+      { id: 'ollama/llama3.2:latest', name: 'llama3.2:latest (3.2B)', provider: 'ollama' },
+      { id: 'ollama/qwen2.5-coder', name: 'qwen2.5-coder', provider: 'ollama' },
+    ]);
+    expect(requestedUrl).toBe('/api/tags');
+  });
+
+  it('rejects a response without a list of models', async () => {
+    handleRequest = (_, response) => sendJson(response, 200, { tags: [] });
+    await expect(ollamaProvider.listModels()).rejects.toThrow('Invalid data structure received from Ollama.');
+  });
+
+  it('reports the error message and status of a failed request', async () => {
+    handleRequest = (_, response) => sendJson(response, 503, { error: 'loading' });
+    const error = await ollamaProvider.listModels().catch(error => error);
+    expect(error).toBeInstanceOf(ProviderHttpError);
+    expect(error).toMatchObject({ status: 503, message: 'Ollama API Error: 503 - loading' });
+  });
+});
+
+describe('ollamaProvider.stream', () => {
+  const input = { modelId: 'ollama/llama3.2', prompt: 'Hello' };
+
+  it('forwards the deltas of an NDJSON stream, including lines split across writes', async () => {
+    let requestBody: { model?: string; stream?: boolean } = {};
+    handleRequest = (_, response, body) => {
+      requestBody = JSON.parse(body);
+      response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      response.write('{"message":{"role":"assistant","content":"Hel"}}\n{"message":{"role":"assi');
+      setTimeout(() => {
+        response.write('stant","content":"lo!"}}\n\n');
+        response.end('{"message":{"role":"assistant","content":""},"done":true}');
+      }, 10);
+    };
+
+    const chunks: string[] = [];
+    await expect(ollamaProvider.stream(input, chunk => chunks.push(chunk))).resolves.toEqual({ response: 'Hello!' });
+    expect(chunks).toEqual(['Hel', 'lo!']);
+    expect(requestBody).toMatchObject({ model: 'llama3.2', stream: true });
+  });
+
+  it('fails on an error reported in the stream', async () => {
+    handleRequest = (_, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      response.end('{"message":{"role":"assistant","content":"Hi"}}\n{"error":"model crashed"}\n');
+    };
+    await expect(ollamaProvider.stream(input, () => {})).rejects.toThrow('model crashed');
+  });
+
+  it('fails on a malformed line', async () => {
+    handleRequest = (_, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      response.end('{"message":\n');
+    };
+    await expect(ollamaProvider.stream(input, () => {})).rejects.toThrow(/Failed during Ollama interaction for model llama3.2/);
+  });
+});
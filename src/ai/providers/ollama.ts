@@ -0,0 +1,173 @@
+/**
+ * @fileOverview Ollama model provider, talking to a local Ollama daemon
+ * (`/api/tags` for discovery, `/api/chat` for generation with NDJSON streaming, `/api/embed` for embeddings).
+ * The daemon address is read from OLLAMA_BASE_URL and defaults to http://127.0.0.1:11434,
+ * so a local HTTP stub can stand in for Ollama.
+ */
+
+import type { SmartAssistantPromptingInput, SmartAssistantPromptingOutput, SmartAssistantChunkCallback } from '@/ai/flows/smart-assistant-prompting';
+import type { ModelProvider } from '@/ai/providers/types';
+import type { ProviderModelInfo } from '@/ai/providers/descriptors';
+import { OLLAMA_PROVIDER } from '@/ai/providers/descriptors';
+import { buildOpenAIChatMessages } from '@/ai/providers/openai-chat-api';
+import { readNdjson } from '@/ai/streaming';
+import { ProviderHttpError, parseRetryAfter } from '@/ai/retry';
+import type { AIModelOptions } from '@/services/ai-api';
+
+const DEFAULT_OLLAMA_BASE_URL = 'http://127.0.0.1:11434';
+
+interface OllamaChatChunk {
+  message?: { role: string; content: string };
+  done?: boolean;
+  error?: string;
+}
+
+interface OllamaTag {
+  name: string;
+  model?: string;
+  details?: { parameter_size?: string; family?: string };
+}
+
+function getOllamaBaseUrl(): string {
+  return (process.env.OLLAMA_BASE_URL || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '');
+}
+
+function toOllamaModelName(modelId: string): string {
+  return modelId.slice(OLLAMA_PROVIDER.prefix.length);
+}
+
+/** Performs a request against the daemon, turning connection failures into an actionable message. */
+async function ollamaFetch(path: string, init?: RequestInit): Promise<Response> {
+  const url = `${getOllamaBaseUrl()}${path}`;
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new Error(`Could not reach the Ollama daemon at ${getOllamaBaseUrl()}. Is "ollama serve" running? (${error instanceof Error ? error.message : String(error)})`);
+  }
+  if (!response.ok) {
+    const responseBodyText = await response.text();
+    let errorMessage = responseBodyText || `Ollama request failed with status ${response.status}`;
+    try { errorMessage = JSON.parse(responseBodyText)?.error ?? errorMessage; } catch {}
+    throw new ProviderHttpError(`Ollama API Error: ${response.status} - ${errorMessage}`, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  return response;
+}
+
+/** Maps generation options to Ollama's `options` object (which names max tokens `num_predict`). */
+function buildOllamaOptions(options: AIModelOptions = {}): Record<string, unknown> {
+  return {
+    ...(options.temperature !== undefined && { temperature: options.temperature }),
+    ...(options.topP !== undefined && { top_p: options.topP }),
+    ...(options.maxTokens !== undefined && { num_predict: options.maxTokens }),
+    ...(options.stopSequences?.length && { stop: options.stopSequences }),
+    ...(options.seed !== undefined && { seed: options.seed }),
+    ...(options.presencePenalty !== undefined && { presence_penalty: options.presencePenalty }),
+    ...(options.frequencyPenalty !== undefined && { frequency_penalty: options.frequencyPenalty }),
+  };
+}
+
+function buildChatRequest(input: SmartAssistantPromptingInput, stream: boolean, signal?: AbortSignal): RequestInit {
+  return {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: toOllamaModelName(input.modelId),
+      messages: buildOpenAIChatMessages(input),
+      options: buildOllamaOptions(input.options),
+      // Ollama accepts a JSON Schema as `format` to constrain the output
+      ...(input.outputSchema ? { format: input.outputSchema.schema } : input.options?.responseFormat === 'json' && { format: 'json' }),
+      stream,
+    }),
+  };
+}
+
+function wrapOllamaError(error: unknown, model: string): Error {
+  if (error instanceof Error) {
+    return new Error(`Failed during Ollama interaction for model ${model}: ${error.message}`, { cause: error });
+  }
+  return new Error(`An unexpected issue occurred while communicating with Ollama: ${String(error)}`);
+}
+
+async function generate(input: SmartAssistantPromptingInput, signal?: AbortSignal): Promise<SmartAssistantPromptingOutput> {
+  const model = toOllamaModelName(input.modelId);
+  try {
+    console.log(`Sending request to Ollama with model: ${model}`);
+    const response = await ollamaFetch('/api/chat', buildChatRequest(input, false, signal));
+    const data: OllamaChatChunk = await response.json();
+    if (data.error) throw new Error(data.error);
+    if (typeof data.message?.content !== 'string') {
+      console.error("Unexpected Ollama response structure:", data);
+      throw new Error(`Failed to extract valid text response content from Ollama model ${model}.`);
+    }
+    return { response: data.message.content };
+  } catch (error) {
+    console.error(`Error calling Ollama model ${model}:`, error);
+    throw wrapOllamaError(error, model);
+  }
+}
+
+async function stream(input: SmartAssistantPromptingInput, onChunk: SmartAssistantChunkCallback, signal?: AbortSignal): Promise<SmartAssistantPromptingOutput> {
+  const model = toOllamaModelName(input.modelId);
+  try {
+    const response = await ollamaFetch('/api/chat', buildChatRequest(input, true, signal));
+    if (!response.body) throw new Error('Ollama returned an empty response body.');
+
+    let responseContent = '';
+    for await (const chunk of readNdjson<OllamaChatChunk>(response.body)) {
+      if (chunk.error) throw new Error(chunk.error);
+      const delta = chunk.message?.content;
+      if (delta) {
+        responseContent += delta;
+        onChunk(delta);
+      }
+      if (chunk.done) break;
+    }
+
+    console.log("Ollama streamed response length:", responseContent.length);
+    return { response: responseContent };
+  } catch (error) {
+    console.error(`Error streaming Ollama model ${model}:`, error);
+    throw wrapOllamaError(error, model);
+  }
+}
+
+async function listModels(): Promise<ProviderModelInfo[]> {
+  const response = await ollamaFetch('/api/tags');
+  const data: { models?: OllamaTag[] } = await response.json();
+  if (!data || !Array.isArray(data.models)) { throw new Error("Invalid data structure received from Ollama."); }
+  return data.models.map(tag => ({
+    id: `${OLLAMA_PROVIDER.prefix}${tag.model ?? tag.name}`,
+    name: tag.details?.parameter_size ? `${tag.name} (${tag.details.parameter_size})` : tag.name,
+    provider: OLLAMA_PROVIDER.id,
+  }));
+}
+
+async function embed(embedderId: string, texts: string[]): Promise<number[][]> {
+  const model = toOllamaModelName(embedderId);
+  try {
+    const response = await ollamaFetch('/api/embed', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, input: texts }),
+    });
+    const data: { embeddings?: number[][]; error?: string } = await response.json();
+    if (data.error) throw new Error(data.error);
+    if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+      throw new Error(`Ollama returned ${data.embeddings?.length ?? 0} embeddings for ${texts.length} texts.`);
+    }
+    return data.embeddings;
+  } catch (error) {
+    console.error(`Error embedding with Ollama model ${model}:`, error);
+    throw wrapOllamaError(error, model);
+  }
+}
+
+export const ollamaProvider: ModelProvider = {
+  ...OLLAMA_PROVIDER,
+  listModels,
+  generate,
+  stream,
+  embed,
+};
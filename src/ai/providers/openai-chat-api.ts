@@ -0,0 +1,397 @@
+/**
+ * @fileOverview Request/response handling for the OpenAI `/chat/completions` and `/models` protocol,
+ * shared by every provider that speaks it (OpenRouter, self-hosted OpenAI-compatible gateways).
+ *
+ * - OpenAIChatTarget - Where and how to send a request (base URL, credentials, model).
+ * - OpenAIContentPart - A text or image part of a multimodal message.
+ * - buildOpenAIChatMessages - Maps a smart assistant request to the `messages` array.
+ * - buildOpenAISamplingParams - Maps generation options to the request body fields.
+ * - createChatCompletion - Sends a non-streaming request and extracts the response text.
+ * - streamChatCompletion - Sends a `stream: true` request and forwards SSE deltas.
+ * - listOpenAIModels - Fetches the raw `/models` list.
+ *
+ * When tools are enabled they are advertised as functions; requested `tool_calls` are run and their
+ * results sent back until the model answers (for at most MAX_TOOL_ROUNDS rounds).
+ * Reasoning traces are read from the `reasoning` field (OpenRouter) or `reasoning_content` (DeepSeek,
+ * vLLM) of messages and deltas.
+ */
+
+import type { SmartAssistantPromptingInput, SmartAssistantPromptingOutput, SmartAssistantChunkCallback, SmartAssistantReasoningCallback } from '@/ai/flows/smart-assistant-prompting';
+import { getHistoryForRequest } from '@/ai/context-window';
+import { readSseData } from '@/ai/streaming';
+import { ProviderHttpError, parseRetryAfter } from '@/ai/retry';
+import { isImageDataUri } from '@/ai/providers/descriptors';
+import { toResponseFormatName } from '@/ai/structured-output';
+import { executeToolCall, type SessionTool, type ToolSession } from '@/ai/tools';
+import { toToolDefinition } from 'genkit/tool';
+import type { AIModelOptions } from '@/services/ai-api';
+
+// Rounds of tool calls per request; the last request is sent without tools so the model has to answer
+const MAX_TOOL_ROUNDS = 5;
+
+export interface OpenAIChatTarget {
+  /** Provider name used in log and error messages (e.g. "OpenRouter"). */
+  label: string;
+  /** API base URL including the version segment, e.g. "https://openrouter.ai/api/v1". */
+  baseUrl: string;
+  apiKey?: string;
+  /** Extra headers sent with every request. */
+  headers?: Record<string, string>;
+  /** Whether image attachments are sent as `image_url` parts instead of being omitted. */
+  supportsImages?: boolean;
+  /** Whether to ask for the model's reasoning (OpenRouter's `include_reasoning`); reasoning returned unasked is read regardless. */
+  requestReasoning?: boolean;
+}
+
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface OpenAIChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAIContentPart[] | null;
+  /** Calls requested by an assistant message. */
+  tool_calls?: OpenAIToolCall[];
+  /** The call a `tool` message answers. */
+  tool_call_id?: string;
+}
+
+/** A model entry as returned by `/models`; only `id` is guaranteed by the protocol. */
+export interface OpenAIModelEntry {
+  id: string;
+  name?: string;
+  context_length?: number;
+  [key: string]: unknown;
+}
+
+function buildHeaders(target: OpenAIChatTarget): Record<string, string> {
+  return {
+    ...(target.apiKey && { "Authorization": `Bearer ${target.apiKey}` }),
+    "Content-Type": "application/json",
+    ...target.headers,
+  };
+}
+
+function chatCompletionsUrl(target: OpenAIChatTarget): string {
+  return `${target.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+}
+
+function buildMessageContent(text: string, fileDataUris: string[] = [], supportsImages: boolean): string | OpenAIContentPart[] {
+  const imageUris = supportsImages ? fileDataUris.filter(isImageDataUri) : [];
+  // Other files are not sent over this protocol; keep a marker so the model knows they were shared
+  const omittedCount = fileDataUris.length - imageUris.length;
+  const fullText = omittedCount === 0 ? text
+    : `${text}\n${omittedCount === 1 ? '[Attached file omitted]' : `[${omittedCount} attached files omitted]`}`;
+  if (imageUris.length === 0) return fullText;
+  return [{ type: 'text', text: fullText }, ...imageUris.map(url => ({ type: 'image_url' as const, image_url: { url } }))];
+}
+
+export function buildOpenAIChatMessages(input: SmartAssistantPromptingInput, options: { supportsImages?: boolean } = {}): OpenAIChatMessage[] {
+  const supportsImages = !!options.supportsImages;
+  const historyMessages = getHistoryForRequest(input).map(turn => ({
+    role: turn.sender === 'user' ? 'user' as const : 'assistant' as const,
+    content: buildMessageContent(turn.text, turn.fileDataUris, supportsImages),
+  }));
+  return [
+    ...(input.systemPrompt ? [{ role: 'system' as const, content: input.systemPrompt }] : []),
+    ...historyMessages,
+    { role: 'user', content: buildMessageContent(input.prompt, input.fileDataUris, supportsImages) },
+  ];
+}
+
+/** Maps generation options to `/chat/completions` body fields; unset options are left to the provider default. */
+export function buildOpenAISamplingParams(options: AIModelOptions = {}): Record<string, unknown> {
+  return {
+    ...(options.temperature !== undefined && { temperature: options.temperature }),
+    ...(options.topP !== undefined && { top_p: options.topP }),
+    ...(options.maxTokens !== undefined && { max_tokens: options.maxTokens }),
+    ...(options.stopSequences?.length && { stop: options.stopSequences }),
+    ...(options.seed !== undefined && { seed: options.seed }),
+    ...(options.presencePenalty !== undefined && { presence_penalty: options.presencePenalty }),
+    ...(options.frequencyPenalty !== undefined && { frequency_penalty: options.frequencyPenalty }),
+    ...(options.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+  };
+}
+
+/** Describes a Genkit tool as an OpenAI function, reusing the JSON schema Genkit derives from its input schema. */
+function toOpenAITool(tool: SessionTool): Record<string, unknown> {
+  const { name, description, inputSchema } = toToolDefinition(tool.action);
+  const { $schema, ...parameters } = inputSchema ?? { type: 'object', properties: {} };
+  return { type: 'function', function: { name, description, parameters } };
+}
+
+function buildChatRequest(
+  target: OpenAIChatTarget,
+  model: string,
+  input: SmartAssistantPromptingInput,
+  messages: OpenAIChatMessage[],
+  stream: boolean,
+  tools: ToolSession | undefined,
+  signal?: AbortSignal
+): RequestInit {
+  return {
+    method: "POST",
+    signal,
+    headers: buildHeaders(target),
+    body: JSON.stringify({
+      model,
+      messages,
+      ...buildOpenAISamplingParams(input.options),
+      // Not strict: strict mode only accepts a subset of JSON Schema, and the flow validates the response anyway
+      ...(input.outputSchema && {
+        response_format: { type: 'json_schema', json_schema: { name: toResponseFormatName(input.outputSchema), schema: input.outputSchema.schema, strict: false } },
+      }),
+      ...(tools && { tools: tools.tools.map(toOpenAITool) }),
+      ...(target.requestReasoning && { include_reasoning: true }),
+      ...(stream && { stream: true }),
+    }),
+  };
+}
+
+/** Reads the reasoning text of a message or delta; gateways use different field names for it. */
+function extractReasoning(message: any): string {
+  if (typeof message?.reasoning === 'string') return message.reasoning;
+  if (typeof message?.reasoning_content === 'string') return message.reasoning_content;
+  return '';
+}
+
+/** Joins the reasoning of successive tool rounds, leaving it out of the output when there was none. */
+function withReasoning(output: SmartAssistantPromptingOutput, reasoning: string): SmartAssistantPromptingOutput {
+  return reasoning ? { ...output, reasoning } : output;
+}
+
+/** Runs the requested calls in order and returns the `tool` messages carrying their results. */
+async function runToolCalls(tools: ToolSession, toolCalls: OpenAIToolCall[]): Promise<OpenAIChatMessage[]> {
+  const results: OpenAIChatMessage[] = [];
+  for (const call of toolCalls) {
+    const result = await executeToolCall(tools, call.function.name, call.function.arguments);
+    results.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+  }
+  return results;
+}
+
+/** Extracts a readable error message from a failed response body. */
+export function parseOpenAIErrorMessage(target: OpenAIChatTarget, status: number, responseBodyText: string): string {
+  let errorMessage = `${target.label} API request failed with status ${status}`;
+  try {
+    // Try parsing as JSON, which is common for errors
+    const errorJson = JSON.parse(responseBodyText);
+    // Extract message using optional chaining and fallbacks
+    errorMessage = errorJson?.error?.message ?? errorJson?.detail ?? JSON.stringify(errorJson) ?? responseBodyText;
+  } catch (parseError) {
+    errorMessage = responseBodyText || errorMessage; // Use raw text if JSON parsing fails
+  }
+  return errorMessage;
+}
+
+function wrapError(target: OpenAIChatTarget, error: unknown, model: string): Error {
+  if (error instanceof Error) {
+    // Rethrow the caught error, adding the model for context
+    return new Error(`Failed during ${target.label} interaction for model ${model}: ${error.message}`, { cause: error });
+  }
+  // Handle non-Error objects thrown
+  return new Error(`An unexpected issue occurred while communicating with ${target.label}: ${String(error)}`);
+}
+
+/**
+ * Sends a non-streaming chat completion request.
+ *
+ * @param target The endpoint and credentials to use.
+ * @param model The model ID expected by the endpoint (without any provider prefix).
+ * @param input The validated smart assistant request.
+ * @param signal Aborts the HTTP request when triggered.
+ * @param tools Tools the model may call before answering.
+ */
+export async function createChatCompletion(
+  target: OpenAIChatTarget,
+  model: string,
+  input: SmartAssistantPromptingInput,
+  signal?: AbortSignal,
+  tools?: ToolSession
+): Promise<SmartAssistantPromptingOutput> {
+  const messages = buildOpenAIChatMessages(input, { supportsImages: target.supportsImages });
+  let reasoning = '';
+  for (let round = 0; ; round++) {
+    const offeredTools = round < MAX_TOOL_ROUNDS ? tools : undefined;
+    const choice = await requestChatCompletion(target, model, input, messages, offeredTools, signal);
+    const roundReasoning = extractReasoning(choice?.message);
+    if (roundReasoning) reasoning += reasoning ? `\n\n${roundReasoning}` : roundReasoning;
+    const toolCalls: OpenAIToolCall[] | undefined = choice?.message?.tool_calls;
+    if (!offeredTools || !toolCalls?.length) return withReasoning({ response: extractResponseContent(target, model, choice) }, reasoning);
+
+    messages.push({ role: 'assistant', content: choice.message.content ?? null, tool_calls: toolCalls });
+    messages.push(...await runToolCalls(offeredTools, toolCalls));
+  }
+}
+
+/** Sends one non-streaming request and returns the first choice of the parsed response. */
+async function requestChatCompletion(
+  target: OpenAIChatTarget,
+  model: string,
+  input: SmartAssistantPromptingInput,
+  messages: OpenAIChatMessage[],
+  tools: ToolSession | undefined,
+  signal?: AbortSignal
+): Promise<any> {
+  try {
+    console.log(`Sending request to ${target.label} with model: ${model}`);
+    const response = await fetch(chatCompletionsUrl(target), buildChatRequest(target, model, input, messages, false, tools, signal));
+
+    let responseBodyText = await response.text(); // Read body once as text
+    console.log(`${target.label} Raw Response Status:`, response.status);
+    console.log(`${target.label} Raw Response Body:`, responseBodyText);
+
+    if (!response.ok) {
+      const errorMessage = parseOpenAIErrorMessage(target, response.status, responseBodyText);
+      console.error(`Detailed ${target.label} Error:`, errorMessage);
+      // Throw a specific error message including the model ID (status and Retry-After drive the retry logic)
+      throw new ProviderHttpError(`${target.label} API Error for model ${model}: ${response.status} - ${errorMessage}`, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    // --- Handling Non-Streaming Success Response ---
+    let data;
+    try {
+      data = JSON.parse(responseBodyText); // Parse the successful response body
+      console.log(`${target.label} Parsed Success Response:`, data);
+    } catch (parseError) {
+      console.error(`Failed to parse successful ${target.label} response JSON:`, parseError);
+      console.error("Raw successful response body was:", responseBodyText);
+      throw new Error(`Failed to parse successful response from ${target.label} model ${model}. Raw response: ${responseBodyText.substring(0, 100)}...`);
+    }
+
+    // Some gateways return the text in place of a JSON object; keep it so it can be used as the response
+    return typeof data === 'string' ? { text: data } : data?.choices?.[0];
+
+  } catch (error) {
+    // Catch errors specifically from the fetch/processing block
+    console.error(`Error during ${target.label} API call or processing for model ${model}:`, error);
+    throw wrapError(target, error, model);
+  }
+}
+
+/** Extracts the response text of a choice, anticipating variations between gateways. */
+function extractResponseContent(target: OpenAIChatTarget, model: string, choice: any): string {
+  let responseContent = choice?.message?.content; // Standard location
+
+  // Fallback: Check if the response itself is directly the content (less common but possible)
+  if (typeof responseContent !== 'string' && typeof choice?.text === 'string') {
+    console.warn(`${target.label} response content found in choices[0].text instead of choices[0].message.content`);
+    responseContent = choice.text;
+  }
+
+  // Final check if we have a valid string
+  if (typeof responseContent !== 'string') {
+    console.error(`Unexpected ${target.label} response structure or missing text content:`, choice);
+    throw wrapError(target, new Error(`Failed to extract valid text response content from ${target.label} model ${model}. Check the console logs for the raw response structure.`), model);
+  }
+
+  console.log(`${target.label} final response content:`, responseContent);
+  return responseContent;
+}
+
+/**
+ * Sends a `stream: true` chat completion request, passing each content delta to `onChunk`.
+ *
+ * @param target The endpoint and credentials to use.
+ * @param model The model ID expected by the endpoint (without any provider prefix).
+ * @param input The validated smart assistant request.
+ * @param onChunk Called with each text delta, in order.
+ * @param signal Aborts the HTTP request (and the SSE read) when triggered.
+ * @param tools Tools the model may call before answering; text streamed before a tool call is kept.
+ * @param onReasoning Called with each reasoning delta, for models that stream their reasoning.
+ */
+export async function streamChatCompletion(
+  target: OpenAIChatTarget,
+  model: string,
+  input: SmartAssistantPromptingInput,
+  onChunk: SmartAssistantChunkCallback,
+  signal?: AbortSignal,
+  tools?: ToolSession,
+  onReasoning?: SmartAssistantReasoningCallback
+): Promise<SmartAssistantPromptingOutput> {
+  try {
+    const messages = buildOpenAIChatMessages(input, { supportsImages: target.supportsImages });
+    let responseContent = '';
+    let reasoning = '';
+    for (let round = 0; ; round++) {
+      const offeredTools = round < MAX_TOOL_ROUNDS ? tools : undefined;
+      const response = await fetch(chatCompletionsUrl(target), buildChatRequest(target, model, input, messages, true, offeredTools, signal));
+      console.log(`${target.label} Stream Response Status:`, response.status);
+
+      if (!response.ok || !response.body) {
+        const errorMessage = parseOpenAIErrorMessage(target, response.status, await response.text());
+        console.error(`Detailed ${target.label} Error:`, errorMessage);
+        throw new ProviderHttpError(`${target.label} API Error for model ${model}: ${response.status} - ${errorMessage}`, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+
+      let roundContent = '';
+      let roundReasoning = '';
+      const toolCalls: OpenAIToolCall[] = [];
+      for await (const data of readSseData(response.body)) {
+        let event;
+        try {
+          event = JSON.parse(data);
+        } catch (parseError) {
+          console.warn(`Skipping unparsable ${target.label} stream event:`, data);
+          continue;
+        }
+        // Errors that occur mid-stream are delivered as an event rather than an HTTP status
+        if (event?.error) {
+          throw new Error(`${target.label} API Error for model ${model}: ${event.error.message ?? JSON.stringify(event.error)}`);
+        }
+        const delta = event?.choices?.[0]?.delta;
+        const reasoningDelta = extractReasoning(delta);
+        if (reasoningDelta) {
+          const text = !roundReasoning && reasoning ? `\n\n${reasoningDelta}` : reasoningDelta;
+          roundReasoning += reasoningDelta;
+          reasoning += text;
+          onReasoning?.(text);
+        }
+        if (typeof delta?.content === 'string' && delta.content.length > 0) {
+          // Separate the answer from text streamed before a tool call
+          const text = !roundContent && responseContent ? `\n\n${delta.content}` : delta.content;
+          roundContent += delta.content;
+          responseContent += text;
+          onChunk(text);
+        }
+        // Tool calls arrive in fragments keyed by index; the arguments JSON is split across events
+        for (const fragment of Array.isArray(delta?.tool_calls) ? delta.tool_calls : []) {
+          const call = toolCalls[fragment.index ?? 0] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name = fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        }
+      }
+
+      if (!offeredTools || toolCalls.length === 0) break;
+      messages.push({ role: 'assistant', content: roundContent || null, tool_calls: toolCalls });
+      messages.push(...await runToolCalls(offeredTools, toolCalls));
+    }
+
+    console.log(`${target.label} streamed response length:`, responseContent.length);
+    return withReasoning({ response: responseContent }, reasoning);
+
+  } catch (error) {
+    console.error(`Error during ${target.label} streaming for model ${model}:`, error);
+    throw wrapError(target, error, model);
+  }
+}
+
+/**
+ * Fetches the models advertised by the endpoint's `/models` route.
+ */
+export async function listOpenAIModels(target: OpenAIChatTarget): Promise<OpenAIModelEntry[]> {
+  const response = await fetch(`${target.baseUrl.replace(/\/+$/, '')}/models`, { headers: buildHeaders(target) });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch models: ${parseOpenAIErrorMessage(target, response.status, await response.text())}`);
+  }
+  const data = await response.json();
+  if (!data || !Array.isArray(data.data)) { throw new Error(`Invalid data structure received from ${target.label}.`); }
+  return data.data;
+}
@@ -0,0 +1,64 @@
+/**
+ * @fileOverview Provider for user-configured endpoints that speak the OpenAI `/v1/chat/completions`
+ * and `/v1/models` protocol (vLLM, LiteLLM, llama.cpp server, ...). The endpoint's base URL and
+ * headers travel with each request; the endpoint ID is part of the model ID. Since the server makes
+ * the requests, only base URLs allowed by OPENAI_COMPATIBLE_ALLOWED_URLS are contacted.
+ */
+
+import type { SmartAssistantPromptingInput, SmartAssistantPromptingOutput, SmartAssistantChunkCallback, SmartAssistantReasoningCallback } from '@/ai/flows/smart-assistant-prompting';
+import type { ModelProvider, ListModelsOptions } from '@/ai/providers/types';
+import type { ToolSession } from '@/ai/tools';
+import type { OpenAICompatibleEndpointConfig, ProviderModelInfo } from '@/ai/providers/descriptors';
+import { OPENAI_COMPATIBLE_PROVIDER, parseOpenAICompatibleModelId, toOpenAICompatibleModelId } from '@/ai/providers/descriptors';
+import { assertRemoteUrlAllowed } from '@/ai/remote-access';
+import { createChatCompletion, listOpenAIModels, streamChatCompletion, type OpenAIChatTarget } from '@/ai/providers/openai-chat-api';
+
+function toTarget(endpoint: OpenAICompatibleEndpointConfig | undefined, apiKey: string | undefined): OpenAIChatTarget {
+  if (!endpoint?.baseUrl) {
+    throw new Error("No endpoint configured for this OpenAI-compatible model. Add it in the Settings tab.");
+  }
+  assertRemoteUrlAllowed(endpoint.baseUrl, 'OPENAI_COMPATIBLE_ALLOWED_URLS', 'OpenAI-compatible endpoint');
+  return {
+    label: `${OPENAI_COMPATIBLE_PROVIDER.label} endpoint ${endpoint.baseUrl}`,
+    baseUrl: endpoint.baseUrl,
+    apiKey,
+    headers: endpoint.headers,
+  };
+}
+
+function resolveRemoteModel(modelId: string): string {
+  const parsed = parseOpenAICompatibleModelId(modelId);
+  if (!parsed) {
+    throw new Error(`Invalid OpenAI-compatible model ID: ${modelId}. Expected "${OPENAI_COMPATIBLE_PROVIDER.prefix}<endpoint>/<model>".`);
+  }
+  return parsed.model;
+}
+
+async function generate(input: SmartAssistantPromptingInput, signal?: AbortSignal, tools?: ToolSession): Promise<SmartAssistantPromptingOutput> {
+  return createChatCompletion(toTarget(input.endpoint, input.apiKey), resolveRemoteModel(input.modelId), input, signal, tools);
+}
+
+async function stream(input: SmartAssistantPromptingInput, onChunk: SmartAssistantChunkCallback, signal?: AbortSignal, tools?: ToolSession, onReasoning?: SmartAssistantReasoningCallback): Promise<SmartAssistantPromptingOutput> {
+  return streamChatCompletion(toTarget(input.endpoint, input.apiKey), resolveRemoteModel(input.modelId), input, onChunk, signal, tools, onReasoning);
+}
+
+async function listModels(options: ListModelsOptions = {}): Promise<ProviderModelInfo[]> {
+  if (!options.endpointId) {
+    throw new Error("An endpoint ID is required to list OpenAI-compatible models.");
+  }
+  const endpointId = options.endpointId;
+  const models = await listOpenAIModels(toTarget(options.endpoint, options.apiKey));
+  return models.map(model => ({
+    id: toOpenAICompatibleModelId(endpointId, model.id),
+    name: model.name ?? model.id,
+    provider: OPENAI_COMPATIBLE_PROVIDER.id,
+    context_length: model.context_length,
+  }));
+}
+
+export const openAICompatibleProvider: ModelProvider = {
+  ...OPENAI_COMPATIBLE_PROVIDER,
+  listModels,
+  generate,
+  stream,
+};
@@ -0,0 +1,97 @@
+/**
+ * @fileOverview OpenRouter model provider, calling the OpenRouter chat completions API directly.
+ */
+
+import type { SmartAssistantPromptingInput, SmartAssistantPromptingOutput, SmartAssistantChunkCallback, SmartAssistantReasoningCallback } from '@/ai/flows/smart-assistant-prompting';
+import type { ModelProvider, ListModelsOptions } from '@/ai/providers/types';
+import type { ToolSession } from '@/ai/tools';
+import type { ProviderModelInfo } from '@/ai/providers/descriptors';
+import { OPENROUTER_PROVIDER } from '@/ai/providers/descriptors';
+import { createChatCompletion, listOpenAIModels, streamChatCompletion, type OpenAIChatTarget, type OpenAIModelEntry } from '@/ai/providers/openai-chat-api';
+
+const OPENROUTER_API_BASE_URL = "https://openrouter.ai/api/v1";
+
+/** The extra metadata OpenRouter includes in each `/models` entry (prices are decimal strings, USD per token). */
+interface OpenRouterModelEntry extends OpenAIModelEntry {
+  description?: string;
+  pricing?: { prompt?: string; completion?: string; request?: string; image?: string };
+  architecture?: { modality?: string; input_modalities?: string[]; output_modalities?: string[] };
+  top_provider?: { max_completion_tokens?: number | null; is_moderated?: boolean };
+  /** Request parameters the model accepts, e.g. "tools" or "reasoning". */
+  supported_parameters?: string[];
+}
+
+function parsePrice(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+/** Reads modalities from the explicit lists, or from the older "text+image->text" modality string. */
+function parseModalities(architecture: OpenRouterModelEntry['architecture']): { input?: string[]; output?: string[] } {
+  if (architecture?.input_modalities || architecture?.output_modalities) {
+    return { input: architecture.input_modalities, output: architecture.output_modalities };
+  }
+  const [input, output] = (architecture?.modality ?? '').split('->');
+  return {
+    input: input ? input.split('+') : undefined,
+    output: output ? output.split('+') : undefined,
+  };
+}
+
+function toProviderModelInfo(model: OpenRouterModelEntry): ProviderModelInfo {
+  const modalities = parseModalities(model.architecture);
+  const prompt = parsePrice(model.pricing?.prompt);
+  const completion = parsePrice(model.pricing?.completion);
+  return {
+    id: `${OPENROUTER_PROVIDER.prefix}${model.id}`,
+    name: model.name ?? model.id,
+    provider: OPENROUTER_PROVIDER.id,
+    context_length: model.context_length,
+    description: model.description,
+    inputModalities: modalities.input,
+    outputModalities: modalities.output,
+    ...(prompt !== undefined && completion !== undefined && {
+      pricing: { prompt, completion, request: parsePrice(model.pricing?.request), image: parsePrice(model.pricing?.image) },
+    }),
+    maxCompletionTokens: model.top_provider?.max_completion_tokens ?? undefined,
+    isModerated: model.top_provider?.is_moderated,
+    supportsReasoning: model.supported_parameters?.some(parameter => parameter === 'reasoning' || parameter === 'include_reasoning'),
+  };
+}
+
+function resolveOpenRouterTarget(apiKey: string | undefined): OpenAIChatTarget {
+  const resolvedKey = apiKey || process.env.OPENROUTER_API_KEY;
+  if (!resolvedKey) {
+    console.error("OpenRouter API key is missing.");
+    throw new Error("OpenRouter API key is missing. Please set it in the Settings tab or configure the OPENROUTER_API_KEY environment variable.");
+  }
+  return { label: OPENROUTER_PROVIDER.label, baseUrl: OPENROUTER_API_BASE_URL, apiKey: resolvedKey, supportsImages: OPENROUTER_PROVIDER.capabilities.imageInput, requestReasoning: true };
+}
+
+function toOpenRouterModelId(modelId: string): string {
+  // Extract the actual model ID expected by the OpenRouter API
+  return modelId.slice(OPENROUTER_PROVIDER.prefix.length);
+}
+
+async function generate(input: SmartAssistantPromptingInput, signal?: AbortSignal, tools?: ToolSession): Promise<SmartAssistantPromptingOutput> {
+  const openRouterModelId = toOpenRouterModelId(input.modelId);
+  console.log(`Routing to OpenRouter model: ${openRouterModelId} (Original Input ID: ${input.modelId})`);
+  return createChatCompletion(resolveOpenRouterTarget(input.apiKey), openRouterModelId, input, signal, tools);
+}
+
+async function stream(input: SmartAssistantPromptingInput, onChunk: SmartAssistantChunkCallback, signal?: AbortSignal, tools?: ToolSession, onReasoning?: SmartAssistantReasoningCallback): Promise<SmartAssistantPromptingOutput> {
+  return streamChatCompletion(resolveOpenRouterTarget(input.apiKey), toOpenRouterModelId(input.modelId), input, onChunk, signal, tools, onReasoning);
+}
+
+async function listModels(options: ListModelsOptions = {}): Promise<ProviderModelInfo[]> {
+  const models = await listOpenAIModels(resolveOpenRouterTarget(options.apiKey));
+  return (models as OpenRouterModelEntry[]).map(toProviderModelInfo);
+}
+
+export const openRouterProvider: ModelProvider = {
+  ...OPENROUTER_PROVIDER,
+  listModels,
+  generate,
+  stream,
+};
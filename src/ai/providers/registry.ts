@@ -0,0 +1,41 @@
+/**
+ * @fileOverview Registry of model providers, keyed by model ID prefix.
+ *
+ * - registerModelProvider - Adds (or replaces) a provider.
+ * - resolveModelProvider - Finds the provider that serves a model ID.
+ * - listModelProviders - Returns all registered providers.
+ */
+
+import type { ModelProvider } from '@/ai/providers/types';
+
+const providersByPrefix = new Map<string, ModelProvider>();
+
+export function registerModelProvider(provider: ModelProvider): void {
+  if (!provider.prefix.endsWith('/')) {
+    throw new Error(`Provider prefix must end with "/": ${provider.prefix}`);
+  }
+  providersByPrefix.set(provider.prefix, provider);
+}
+
+/**
+ * Returns the provider whose prefix matches the model ID. When prefixes overlap, the longest one wins.
+ *
+ * @throws If no registered provider serves the model ID.
+ */
+export function resolveModelProvider(modelId: string): ModelProvider {
+  let match: ModelProvider | undefined;
+  for (const [prefix, provider] of providersByPrefix) {
+    if (modelId.startsWith(prefix) && (!match || prefix.length > match.prefix.length)) {
+      match = provider;
+    }
+  }
+  if (!match) {
+    const knownPrefixes = Array.from(providersByPrefix.keys()).map(prefix => `"${prefix}"`).join(', ');
+    throw new Error(`Unsupported model provider for ID: ${modelId}. Must start with one of: ${knownPrefixes}.`);
+  }
+  return match;
+}
+
+export function listModelProviders(): ModelProvider[] {
+  return Array.from(providersByPrefix.values());
+}
@@ -0,0 +1,40 @@
+import type { SmartAssistantPromptingInput, SmartAssistantPromptingOutput, SmartAssistantChunkCallback, SmartAssistantReasoningCallback } from '@/ai/flows/smart-assistant-prompting';
+import type { ModelProviderDescriptor, OpenAICompatibleEndpointConfig, ProviderModelInfo } from '@/ai/providers/descriptors';
+import type { ToolSession } from '@/ai/tools';
+
+/**
+ * Options passed to ModelProvider.listModels.
+ */
+export interface ListModelsOptions {
+  /** API key supplied by the user, if the provider needs one. */
+  apiKey?: string;
+  /** Endpoint to query, for providers that serve user-configured endpoints. */
+  endpoint?: OpenAICompatibleEndpointConfig;
+  /** ID of that endpoint, encoded into the returned model IDs. */
+  endpointId?: string;
+}
+
+/**
+ * A backend that can serve models to the smart assistant flow. Providers are looked up by
+ * model ID prefix in the registry, so adding a backend does not require editing the flow.
+ * Inputs have already been validated; errors are thrown as plain `Error`s with a readable message.
+ */
+export interface ModelProvider extends ModelProviderDescriptor {
+  /** Lists the models this provider can serve, with IDs that include the provider prefix. */
+  listModels(options?: ListModelsOptions): Promise<ProviderModelInfo[]>;
+  /**
+   * Generates a complete response. Aborting `signal` cancels the underlying request.
+   * `tools` is only passed when `canCallTools` allows it for the model; the model may call them before answering.
+   */
+  generate(input: SmartAssistantPromptingInput, signal?: AbortSignal, tools?: ToolSession): Promise<SmartAssistantPromptingOutput>;
+  /**
+   * Generates a response, passing text deltas to `onChunk` as they arrive. Aborting `signal` stops generation.
+   * Models that stream their reasoning report it through `onReasoning`; the complete trace is also returned.
+   */
+  stream(input: SmartAssistantPromptingInput, onChunk: SmartAssistantChunkCallback, signal?: AbortSignal, tools?: ToolSession, onReasoning?: SmartAssistantReasoningCallback): Promise<SmartAssistantPromptingOutput>;
+  /**
+   * Embeds each text with an embedding model of this provider (`embedderId` includes the provider prefix).
+   * Optional: only providers that serve embedding models implement it.
+   */
+  embed?(embedderId: string, texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { assertRemoteUrlAllowed } from '@/ai/remote-access';
+
+const ENV_VAR = 'TEST_ALLOWED_URLS';
+const check = (url: string) => () => assertRemoteUrlAllowed(url, ENV_VAR, 'test endpoint');
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('assertRemoteUrlAllowed', () => {
+  it('allows nothing when the allowlist is unset', () => {
+    expect(check('http://localhost:8000/v1')).toThrow(/not allowed by the server. Add its URL to TEST_ALLOWED_URLS/);
+  });
+
+  it('allows URLs at or below a listed prefix', () => {
+    vi.stubEnv(ENV_VAR, 'http://localhost:8000/v1/, https://llm.example.com');
+    expect(check('http://localhost:8000/v1')).not.toThrow();
+    expect(check('http://localhost:8000/v1/chat/completions')).not.toThrow();
+    expect(check('https://llm.example.com/anything')).not.toThrow();
+  });
+
+  it.each([
+    ['another path at a prefix boundary', 'http://localhost:8000/v10'],
+    ['another port', 'http://localhost:8001/v1'],
+    ['another scheme', 'https://localhost:8000/v1'],
+    ['a host that only starts like a listed one', 'https://llm.example.com.attacker.net/v1'],
+    ['credentials before a listed host', 'http://llm.example.com@169.254.169.254/'],
+  ])('rejects %s', (_, url) => {
+    vi.stubEnv(ENV_VAR, 'http://localhost:8000/v1,https://llm.example.com');
+    expect(check(url)).toThrow(/not allowed/);
+  });
+
+  it('allows any http(s) URL with *', () => {
+    vi.stubEnv(ENV_VAR, '*');
+    expect(check('http://10.0.0.5:1234/v1')).not.toThrow();
+    expect(check('file:///etc/passwd')).toThrow(/must use http or https/);
+  });
+
+  it('rejects invalid URLs and skips invalid allowlist entries', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv(ENV_VAR, 'not a url,http://localhost:8000');
+    expect(check('localhost/v1')).toThrow(/Invalid URL/);
+    expect(check('http://localhost:8000/v1')).not.toThrow();
+    vi.restoreAllMocks();
+  });
+});
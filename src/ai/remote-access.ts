@@ -0,0 +1,49 @@
+/**
+ * @fileOverview Gate for URLs the browser asks the server to connect to (OpenAI-compatible endpoints,
+ * HTTP and SSE MCP servers). The server can reach hosts the browser cannot, such as internal services
+ * or cloud metadata addresses, so it only connects to URLs its operator has allowed.
+ *
+ * - assertRemoteUrlAllowed - Throws unless a URL is allowed by an allowlist environment variable.
+ *
+ * An allowlist is a comma-separated list of URL prefixes (e.g. "http://localhost:8000/v1,https://llm.example.com"),
+ * or `*` to allow any URL. Unset, nothing is allowed.
+ */
+
+/** Whether `url` is `prefix` or below it: same origin, and a path that continues at a segment boundary. */
+function isBelowPrefix(url: URL, prefix: URL): boolean {
+  if (url.origin !== prefix.origin) return false;
+  const prefixPath = prefix.pathname.replace(/\/+$/, '');
+  return url.pathname === prefixPath || url.pathname.startsWith(`${prefixPath}/`);
+}
+
+function parsePrefix(entry: string): URL | null {
+  try {
+    return new URL(entry);
+  } catch {
+    console.warn(`Ignoring invalid URL prefix in allowlist: ${entry}`);
+    return null;
+  }
+}
+
+/**
+ * Checks `url` against the allowlist in the environment variable `envVar`.
+ *
+ * @param label What is being connected to, for the error message (e.g. "OpenAI-compatible endpoint").
+ * @throws If the URL is invalid, not HTTP(S), or not allowed.
+ */
+export function assertRemoteUrlAllowed(url: string, envVar: string, label: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL for the ${label}: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`The ${label} must use http or https: ${url}`);
+  }
+
+  const entries = (process.env[envVar] ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+  if (entries.includes('*')) return;
+  if (entries.map(parsePrefix).some(prefix => prefix && isBelowPrefix(parsed, prefix))) return;
+  throw new Error(`The ${label} ${parsed.origin} is not allowed by the server. Add its URL to ${envVar} on the server running this app.`);
+}
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProviderHttpError, getRetryDelay, parseRetryAfter, sleep, type RetryOptions } from '@/ai/retry';
+
+const options: RetryOptions = { maxRetries: 3, initialDelayMs: 1000, maxDelayMs: 5000 };
+const httpError = (status: number, retryAfterMs?: number) => new ProviderHttpError(`HTTP ${status}`, status, retryAfterMs);
+const genkitError = (status: string) => Object.assign(new Error(status), { status });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getRetryDelay', () => {
+  it.each([408, 409, 425, 429, 500, 502, 503, 504])('retries HTTP %i', status => {
+    expect(getRetryDelay(httpError(status), 1, options)).toBe(1000);
+  });
+
+  it.each([400, 401, 403, 404, 413, 422, 501])('does not retry HTTP %i', status => {
+    expect(getRetryDelay(httpError(status), 1, options)).toBeNull();
+  });
+
+  it.each(['RESOURCE_EXHAUSTED', 'UNAVAILABLE', 'DEADLINE_EXCEEDED'])('retries the Genkit status %s', status => {
+    expect(getRetryDelay(genkitError(status), 1, options)).toBe(1000);
+  });
+
+  it.each(['INVALID_ARGUMENT', 'PERMISSION_DENIED'])('does not retry the Genkit status %s', status => {
+    expect(getRetryDelay(genkitError(status), 1, options)).toBeNull();
+  });
+
+  it('does not retry errors without a status', () => {
+    expect(getRetryDelay(new Error('Invalid model ID'), 1, options)).toBeNull();
+    expect(getRetryDelay('failed', 1, options)).toBeNull();
+  });
+
+  it('finds the status in the cause chain of wrapped errors', () => {
+    const wrapped = new Error('Failed during Ollama interaction', { cause: new Error('Request failed', { cause: httpError(503) }) });
+    expect(getRetryDelay(wrapped, 1, options)).toBe(1000);
+    expect(getRetryDelay(new Error('Wrapped', { cause: httpError(400) }), 1, options)).toBeNull();
+  });
+
+  it('stops at the first HTTP error in the chain', () => {
+    const error = httpError(400);
+    Object.defineProperty(error, 'cause', { value: httpError(503) });
+    expect(getRetryDelay(error, 1, options)).toBeNull();
+  });
+
+  it('doubles the delay for every retry, up to maxDelayMs', () => {
+    expect([1, 2, 3].map(retryNumber => getRetryDelay(httpError(503), retryNumber, { ...options, maxRetries: 5 }))).toEqual([1000, 2000, 4000]);
+    expect(getRetryDelay(httpError(503), 4, { ...options, maxRetries: 5 })).toBe(5000);
+  });
+
+  it('gives up after maxRetries', () => {
+    expect(getRetryDelay(httpError(503), 4, options)).toBeNull();
+    expect(getRetryDelay(httpError(503), 1, { ...options, maxRetries: 0 })).toBeNull();
+  });
+
+  it('waits for Retry-After when it is within maxDelayMs', () => {
+    expect(getRetryDelay(httpError(429, 3000), 1, options)).toBe(3000);
+    expect(getRetryDelay(httpError(429, 0), 2, options)).toBe(0);
+  });
+
+  it('moves on to the next model when Retry-After exceeds maxDelayMs', () => {
+    expect(getRetryDelay(httpError(429, 60_000), 1, options)).toBeNull();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    vi.useFakeTimers({ now: Date.parse('2025-01-01T00:00:00Z') });
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT')).toBe(30_000);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing and malformed values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('sleep', () => {
+  it('resolves after the delay', async () => {
+    vi.useFakeTimers();
+    let resolved = false;
+    const sleeping = sleep(1000).then(() => { resolved = true; });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(resolved).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await sleeping;
+    expect(resolved).toBe(true);
+  });
+
+  it('rejects with the abort reason when aborted while waiting', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const sleeping = sleep(10_000, controller.signal);
+    controller.abort(new Error('Stopped by the user'));
+    await expect(sleeping).rejects.toThrow('Stopped by the user');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('rejects right away when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Already stopped'));
+    await expect(sleep(10_000, controller.signal)).rejects.toThrow('Already stopped');
+  });
+});
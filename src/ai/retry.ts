@@ -0,0 +1,98 @@
+/**
+ * @fileOverview Retry helpers for transient provider failures (rate limits, overloaded upstreams).
+ *
+ * - RetryOptions - How often and how long to wait before retrying a failed model call.
+ * - DEFAULT_RETRY_OPTIONS - The options used when a request does not specify its own.
+ * - ProviderHttpError - An error carrying the HTTP status (and Retry-After delay) of a failed provider response.
+ * - parseRetryAfter - Converts a `Retry-After` header value to milliseconds.
+ * - getRetryDelay - Returns how long to wait before the next attempt, or null if the error should not be retried.
+ * - sleep - Waits for a number of milliseconds, rejecting early if the signal is aborted.
+ */
+
+export interface RetryOptions {
+  /** Retries per model after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  /** Delay before the first retry; doubled for every further retry. */
+  initialDelayMs: number;
+  /** Upper bound for a single wait. A Retry-After longer than this skips to the next fallback model instead. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  initialDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+// Request timeouts, rate limits and upstream failures are worth another try; other 4xx responses are not
+const RETRYABLE_HTTP_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+// Genkit (Google AI) reports failures with gRPC-style status names instead of HTTP codes
+const RETRYABLE_GENKIT_STATUSES = new Set(['RESOURCE_EXHAUSTED', 'UNAVAILABLE', 'DEADLINE_EXCEEDED']);
+
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    /** Delay requested by the provider's `Retry-After` header, if it sent one. */
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+/**
+ * Converts a `Retry-After` header (delta-seconds or an HTTP date) to milliseconds.
+ *
+ * @returns The delay, or undefined if the header is missing or malformed.
+ */
+export function parseRetryAfter(headerValue: string | null | undefined): number | undefined {
+  if (!headerValue) return undefined;
+  const seconds = Number(headerValue);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(headerValue);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Walks the `cause` chain, since providers wrap low-level errors with model context. */
+function findRetryableCause(error: unknown): { retryAfterMs?: number } | null {
+  for (let current = error, depth = 0; current && depth < 5; current = (current as { cause?: unknown }).cause, depth++) {
+    if (current instanceof ProviderHttpError) {
+      return RETRYABLE_HTTP_STATUSES.has(current.status) ? { retryAfterMs: current.retryAfterMs } : null;
+    }
+    const status = (current as { status?: unknown }).status;
+    if (typeof status === 'string' && RETRYABLE_GENKIT_STATUSES.has(status)) return {};
+  }
+  return null;
+}
+
+/**
+ * Decides whether a failed attempt should be retried and how long to wait first.
+ *
+ * @param error The error thrown by the attempt.
+ * @param retryNumber The retry about to be made (1 for the first retry).
+ * @param options The retry configuration.
+ * @returns The delay in milliseconds, or null to give up on this model.
+ */
+export function getRetryDelay(error: unknown, retryNumber: number, options: RetryOptions): number | null {
+  if (retryNumber > options.maxRetries) return null;
+  const retryable = findRetryableCause(error);
+  if (!retryable) return null;
+  if (retryable.retryAfterMs !== undefined) {
+    // Honour the provider's requested delay, unless it is longer than we are willing to wait
+    return retryable.retryAfterMs <= options.maxDelayMs ? retryable.retryAfterMs : null;
+  }
+  return Math.min(options.initialDelayMs * 2 ** (retryNumber - 1), options.maxDelayMs);
+}
+
+/**
+ * Resolves after `ms` milliseconds, or rejects with the abort reason if `signal` fires first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) { reject(signal.reason); return; }
+    const onAbort = () => { clearTimeout(timer); reject(signal?.reason); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
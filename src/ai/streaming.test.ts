@@ -0,0 +1,68 @@
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { readSseData } from '@/ai/streaming';
+
+// Answers every request by writing the parts of the current body one after another, so events can
+// be split across network reads the way real providers split them
+let bodyParts: (string | Uint8Array)[] = [];
+let server: Server;
+let baseUrl: string;
+
+const writeParts = (response: ServerResponse, parts: (string | Uint8Array)[]) => {
+  if (parts.length === 0) return void response.end();
+  response.write(parts[0], () => setTimeout(() => writeParts(response, parts.slice(1)), 5));
+};
+
+beforeAll(async () => {
+  server = createServer((_, response) => {
+    response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    writeParts(response, bodyParts);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function fetchBody(parts: (string | Uint8Array)[]): Promise<ReadableStream<Uint8Array>> {
+  bodyParts = parts;
+  const response = await fetch(baseUrl);
+  return response.body!;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('readSseData', () => {
+  it('yields the data payloads and skips comments, event names and blank lines', async () => {
+    const body = await fetchBody([
+      ': OPENROUTER PROCESSING\n\n',
+      'event: message\ndata: {"id":1}\n\n',
+      'data:{"id":2}\r\n\r\n',
+    ]);
+    await expect(collect(readSseData(body))).resolves.toEqual(['{"id":1}', '{"id":2}']);
+  });
+
+  it('joins events and characters split across reads', async () => {
+    const euro = Buffer.from('€');
+    const body = await fetchBody(['da', 'ta: {"text":"Hel', 'lo"}\n\ndata: "', euro.subarray(0, 2), euro.subarray(2), '"\n\n']);
+    await expect(collect(readSseData(body))).resolves.toEqual(['{"text":"Hello"}', '"€"']);
+  });
+
+  it('stops at the [DONE] sentinel', async () => {
+    const body = await fetchBody(['data: "a"\n\ndata: [DONE]\n\n', 'data: "after"\n\n']);
+    await expect(collect(readSseData(body))).resolves.toEqual(['"a"']);
+  });
+
+  it('drops a trailing line without a newline', async () => {
+    const body = await fetchBody(['data: "a"\n\n', 'data: "partial"']);
+    await expect(collect(readSseData(body))).resolves.toEqual(['"a"']);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @fileOverview Helpers for consuming streamed HTTP response bodies from AI providers.
+ *
+ * - readSseData - Yields the `data:` payloads of a Server-Sent Events stream (e.g. OpenRouter `stream: true`).
+ * - readNdjson - Yields the parsed objects of a newline-delimited JSON stream (e.g. Ollama `/api/chat`).
+ */
+
+/**
+ * Reads a Server-Sent Events body and yields the payload of every `data:` field.
+ * Comment lines (such as OpenRouter's `: OPENROUTER PROCESSING` keep-alives) are skipped,
+ * and iteration stops at the OpenAI-style `[DONE]` sentinel.
+ *
+ * @param body The response body stream to read.
+ * @returns An async iterable of raw `data:` payload strings.
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by newlines; keep the trailing partial line in the buffer
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (!line.startsWith('data:')) continue; // Skip comments, event names and blank separators
+        const data = line.slice(5).trimStart();
+        if (data === '[DONE]') return;
+        yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Reads a newline-delimited JSON body and yields each parsed line. Blank lines are skipped;
+ * a malformed line throws, since NDJSON producers never emit partial objects on purpose.
+ *
+ * @param body The response body stream to read.
+ * @returns An async iterable of parsed JSON values.
+ */
+export async function* readNdjson<T = unknown>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? ''; // Keep the trailing partial line
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T;
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield JSON.parse(buffer) as T;
+  } finally {
+    reader.releaseLock();
+  }
+}
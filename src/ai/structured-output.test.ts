@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SmartAssistantPromptingInput, SmartAssistantPromptingOutput } from '@/ai/flows/smart-assistant-prompting';
+import type { ModelProvider } from '@/ai/providers/types';
+import { validateSchema } from 'genkit/schema';
+import { ensureStructuredOutput, toResponseFormatName, validateStructuredResponse, type OutputSchema } from '@/ai/structured-output';
+
+vi.mock('genkit/schema', async importOriginal => {
+  const original = await importOriginal<typeof import('genkit/schema')>();
+  return { ...original, validateSchema: vi.fn(original.validateSchema) };
+});
+
+const personSchema: OutputSchema = {
+  name: 'person',
+  schema: { type: 'object', properties: { name: { type: 'string' }, age: { type: 'integer' } }, required: ['name', 'age'] },
+};
+
+describe('validateStructuredResponse', () => {
+  it.each([
+    ['plain JSON', '{"name":"Ada","age":36}'],
+    ['a json code fence', '```json\n{"name":"Ada","age":36}\n```'],
+    ['a code fence without a language', '```\n{"name":"Ada","age":36}```'],
+    ['surrounding whitespace', '\n  ```JSON\n{"name":"Ada","age":36}\n```  \n'],
+  ])('accepts %s', (_, text) => {
+    expect(validateStructuredResponse(text, personSchema)).toEqual({ valid: true, data: { name: 'Ada', age: 36 } });
+  });
+
+  it('does not strip a fence around only part of the response', () => {
+    const result = validateStructuredResponse('Here you go:\n```json\n{"name":"Ada","age":36}\n```', personSchema);
+    expect(result.valid).toBe(false);
+  });
+
+  it('reports a response that is not JSON', () => {
+    const result = validateStructuredResponse('Ada is 36', personSchema);
+    expect(result).toEqual({ valid: false, errors: [expect.stringMatching(/^The response is not valid JSON: /)] });
+  });
+
+  it('reports each violation with its path', () => {
+    const result = validateStructuredResponse('{"name":"Ada","age":"36"}', personSchema);
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.errors).toEqual([expect.stringMatching(/age.*integer/)]);
+  });
+
+  it('reports at most 10 violations', () => {
+    // Genkit's validator stops at the first violation, so fake one that reports them all
+    const errors = Array.from({ length: 13 }, (_, i) => ({ path: `field${i}`, message: 'must be number' }));
+    vi.mocked(validateSchema).mockReturnValueOnce({ valid: false, errors, schema: {} });
+    const result = validateStructuredResponse('{}', { schema: { type: 'object' } });
+    expect(!result.valid && result.errors).toHaveLength(11);
+    expect(!result.valid && result.errors[9]).toBe('field9: must be number');
+    expect(!result.valid && result.errors.at(-1)).toBe('...and 3 more');
+  });
+
+  it('throws if the schema itself is invalid', () => {
+    expect(() => validateStructuredResponse('{}', { schema: { type: 'no-such-type' } })).toThrow(/The output schema is not a valid JSON Schema/);
+  });
+});
+
+describe('toResponseFormatName', () => {
+  it('keeps only the characters OpenAI accepts', () => {
+    expect(toResponseFormatName({ name: 'Invoice (v2)', schema: {} })).toBe('Invoice_v2');
+    expect(toResponseFormatName({ name: 'x'.repeat(80), schema: {} })).toHaveLength(64);
+    expect(toResponseFormatName({ name: '***', schema: {} })).toBe('response');
+    expect(toResponseFormatName({ schema: {} })).toBe('response');
+  });
+});
+
+describe('ensureStructuredOutput', () => {
+  const input: SmartAssistantPromptingInput = {
+    modelId: 'ollama/llama3.2',
+    prompt: 'Who wrote the first program?',
+    history: [{ sender: 'user', text: 'Hi' }, { sender: 'ai', text: 'Hello!' }],
+    outputSchema: personSchema,
+  };
+
+  // A provider whose generate() returns `responses` in turn
+  const correctingProvider = (...responses: string[]) => {
+    const generate = vi.fn(async (): Promise<SmartAssistantPromptingOutput> => ({ response: responses.shift() ?? '' }));
+    return { provider: { generate } as unknown as ModelProvider, generate };
+  };
+
+  it('returns a matching response reformatted, with the parsed data', async () => {
+    const { provider, generate } = correctingProvider();
+    const output = await ensureStructuredOutput(provider, input, { response: '```json\n{"name":"Ada","age":36}\n```' }, undefined, () => {});
+    expect(output).toEqual({ response: JSON.stringify({ name: 'Ada', age: 36 }, null, 2), data: { name: 'Ada', age: 36 } });
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('sends an invalid response back with the validation errors until it matches', async () => {
+    const { provider, generate } = correctingProvider('{"name":"Ada","age":36}');
+    const steps: string[] = [];
+    const output = await ensureStructuredOutput(provider, input, { response: '{"name":"Ada","age":"36"}' }, undefined, step => steps.push(step));
+
+    expect(output.data).toEqual({ name: 'Ada', age: 36 });
+    expect(steps).toEqual([expect.stringMatching(/^Response does not match the output schema \(.*age.*\); asking ollama\/llama3.2 to correct it$/)]);
+    expect(generate).toHaveBeenCalledTimes(1);
+    const [request] = generate.mock.calls[0] as unknown as [SmartAssistantPromptingInput];
+    expect(request.history).toEqual([
+      ...input.history!,
+      { sender: 'user', text: 'Who wrote the first program?' },
+      { sender: 'ai', text: '{"name":"Ada","age":"36"}' },
+    ]);
+    // The correction prompt is rendered from prompts/schema-correction.prompt
+    expect(request.prompt).toMatch(/does not match the required JSON Schema:\n- .*age.*integer/);
+    expect(request.prompt).toContain('Reply with only the corrected JSON.');
+  });
+
+  it('gives up after two corrections', async () => {
+    const { provider, generate } = correctingProvider('still not JSON', '{"name":"Ada"}');
+    const steps: string[] = [];
+    await expect(ensureStructuredOutput(provider, input, { response: 'not JSON' }, undefined, step => steps.push(step)))
+      .rejects.toThrow(/^The response did not match the output schema after 2 corrections: .*age/);
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(steps).toHaveLength(2);
+  });
+});
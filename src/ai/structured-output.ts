@@ -0,0 +1,125 @@
+/**
+ * @fileOverview Structured (JSON Schema constrained) responses.
+ *
+ * - OutputSchema - A named JSON Schema the response must match.
+ * - buildOutputSchemaInstruction - System prompt text asking for JSON matching the schema (prompts/output-schema.prompt).
+ * - toResponseFormatName - The schema name as accepted by OpenAI-style `response_format`.
+ * - assertValidOutputSchema - Checks that a schema compiles, before any model is called.
+ * - validateStructuredResponse - Parses a response as JSON and validates it against the schema.
+ * - ensureStructuredOutput - Validates a model's response and asks the model to correct it until it matches.
+ *
+ * Providers pass the schema to the model natively where they can (Genkit `output`, OpenAI
+ * `response_format: json_schema`, Ollama `format`), but models do not always comply, so the flow
+ * validates every response and asks the model to correct invalid ones.
+ */
+
+import { validateSchema } from 'genkit/schema';
+import type { JSONSchema7 } from 'genkit';
+import { renderPrompt } from '@/ai/prompts';
+import type { SmartAssistantPromptingInput, SmartAssistantPromptingOutput, SmartAssistantStepCallback } from '@/ai/flows/smart-assistant-prompting';
+import type { ModelProvider } from '@/ai/providers/types';
+import type { ToolSession } from '@/ai/tools';
+
+export interface OutputSchema {
+  /** Short name of the schema, e.g. "invoice". */
+  name?: string;
+  /** The JSON Schema (draft-07 or compatible) the response must match. */
+  schema: Record<string, unknown>;
+}
+
+// Models often wrap JSON in a Markdown code block despite being asked not to
+const CODE_FENCE_PATTERN = /^```[a-z0-9]*\s*\n([\s\S]*?)\n?```$/i;
+// Keeps correction prompts and steps readable when a response has many violations
+const MAX_REPORTED_ERRORS = 10;
+// Requests asking the model to fix a response that does not match the output schema
+const MAX_SCHEMA_CORRECTIONS = 2;
+// Length of the problems quoted in a correction step, to keep the thinking steps list readable
+const MAX_STEP_PROBLEMS_LENGTH = 200;
+
+export async function buildOutputSchemaInstruction(outputSchema: OutputSchema): Promise<string> {
+  return renderPrompt('output-schema', { schema: JSON.stringify(outputSchema.schema, null, 2) });
+}
+
+/** OpenAI requires names of at most 64 characters from [a-zA-Z0-9_-]. */
+export function toResponseFormatName(outputSchema: OutputSchema): string {
+  return (outputSchema.name ?? '').replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 64) || 'response';
+}
+
+function validateAgainstSchema(data: unknown, outputSchema: OutputSchema): ReturnType<typeof validateSchema> {
+  try {
+    return validateSchema(data, { jsonSchema: outputSchema.schema as JSONSchema7 });
+  } catch (error) {
+    throw new Error(`The output schema is not a valid JSON Schema: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * @throws If the schema is not a valid JSON Schema.
+ */
+export function assertValidOutputSchema(outputSchema: OutputSchema): void {
+  validateAgainstSchema(null, outputSchema);
+}
+
+/**
+ * Parses `text` as JSON (ignoring a surrounding code fence) and validates it against the schema.
+ *
+ * @returns The parsed value, or a description of each problem found.
+ * @throws If the schema itself is not a valid JSON Schema.
+ */
+export function validateStructuredResponse(text: string, outputSchema: OutputSchema): { valid: true; data: unknown } | { valid: false; errors: string[] } {
+  const trimmed = text.trim();
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed.match(CODE_FENCE_PATTERN)?.[1] ?? trimmed);
+  } catch (error) {
+    return { valid: false, errors: [`The response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = validateAgainstSchema(data, outputSchema);
+  if (result.valid) return { valid: true, data };
+  const errors: string[] = (result.errors ?? []).map((error: { path: string; message: string }) => `${error.path}: ${error.message}`);
+  return {
+    valid: false,
+    errors: errors.length > MAX_REPORTED_ERRORS ? [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${errors.length - MAX_REPORTED_ERRORS} more`] : errors,
+  };
+}
+
+/**
+ * Validates a response against the input's output schema. Invalid responses are sent back to the
+ * model (as the last turn, followed by the validation errors) up to MAX_SCHEMA_CORRECTIONS times.
+ *
+ * @returns The output with the response reformatted as JSON and the parsed value as `data`.
+ * @throws If no response matched the schema.
+ */
+export async function ensureStructuredOutput(
+  provider: ModelProvider,
+  input: SmartAssistantPromptingInput,
+  output: SmartAssistantPromptingOutput,
+  tools: ToolSession | undefined,
+  recordStep: SmartAssistantStepCallback,
+  signal?: AbortSignal
+): Promise<SmartAssistantPromptingOutput> {
+  const outputSchema = input.outputSchema!;
+  let current = output;
+  for (let correction = 0; ; correction++) {
+    const result = validateStructuredResponse(current.response, outputSchema);
+    if (result.valid) {
+      return { ...current, response: JSON.stringify(result.data, null, 2), data: result.data };
+    }
+    const problems = result.errors.join('; ');
+    if (correction === MAX_SCHEMA_CORRECTIONS) {
+      throw new Error(`The response did not match the output schema after ${MAX_SCHEMA_CORRECTIONS} corrections: ${problems}`);
+    }
+    recordStep(`Response does not match the output schema (${problems.slice(0, MAX_STEP_PROBLEMS_LENGTH)}); asking ${input.modelId} to correct it`);
+    current = await provider.generate({
+      ...input,
+      history: [
+        ...(input.history ?? []),
+        { sender: 'user', text: input.prompt, ...(input.fileDataUris && { fileDataUris: input.fileDataUris }) },
+        { sender: 'ai', text: current.response },
+      ],
+      prompt: await renderPrompt('schema-correction', { errors: result.errors }),
+      fileDataUris: undefined,
+    }, signal, tools);
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from '@/ai/tools/calculator';
+
+describe('evaluateExpression', () => {
+  it.each([
+    ['2 + 3 * 4', 14],
+    ['(2 + 3) * 4', 20],
+    ['10 - 4 - 3', 3],
+    ['100 / 10 / 5', 2],
+    ['7 % 4 * 2', 6],
+    ['2 * 3 ^ 2', 18],
+  ])('applies operator precedence and associativity: %s', (expression, expected) => {
+    expect(evaluateExpression(expression)).toBe(expected);
+  });
+
+  it.each([
+    ['2 ^ 3 ^ 2', 512],
+    ['2 ** 3 ** 2', 512],
+    ['(2 ^ 3) ^ 2', 64],
+    ['2 ^ -1', 0.5],
+  ])('evaluates powers right to left: %s', (expression, expected) => {
+    expect(evaluateExpression(expression)).toBe(expected);
+  });
+
+  it.each([
+    ['-2 ^ 2', -4],
+    ['(-2) ^ 2', 4],
+    ['--3', 3],
+    ['+-3', -3],
+    ['4 * -2', -8],
+    ['-(1 + 2)', -3],
+  ])('applies unary minus after powers: %s', (expression, expected) => {
+    expect(evaluateExpression(expression)).toBe(expected);
+  });
+
+  it('reads decimals, exponents, constants and functions', () => {
+    expect(evaluateExpression('.5 + 1.25e2')).toBe(125.5);
+    expect(evaluateExpression('2 * PI')).toBeCloseTo(2 * Math.PI);
+    expect(evaluateExpression('ln(e)')).toBe(1);
+    expect(evaluateExpression('2^10 / (3 + sqrt(16))')).toBeCloseTo(1024 / 7);
+    expect(evaluateExpression('max(1, 7, 3) + min(4, 2)')).toBe(9);
+    expect(evaluateExpression('log(1000) + log2(8)')).toBe(6);
+  });
+
+  it.each(['1 / 0', '0 / 0', '10 ^ 400', 'sqrt(-1)', '5 % 0'])('rejects %s, which has no finite result', expression => {
+    expect(() => evaluateExpression(expression)).toThrow('The expression has no finite result.');
+  });
+
+  it.each([
+    ['', 'The expression is empty.'],
+    ['   ', 'The expression is empty.'],
+    ['2 +', 'Unexpected end of expression.'],
+    ['(1 + 2', 'Expected ")" in expression.'],
+    ['1 + 2)', 'Unexpected ")" in expression.'],
+    ['2 3', 'Unexpected "3" in expression.'],
+    ['* 2', 'Unexpected "*" in expression.'],
+    ['2 & 3', 'Unexpected character "&" at position 3.'],
+    ['foo(2)', 'Unknown function "foo".'],
+    ['x + 1', 'Unknown name "x".'],
+    ['process.exit()', 'Unexpected character "." at position 8.'],
+  ])('rejects the malformed expression %j', (expression, message) => {
+    expect(() => evaluateExpression(expression)).toThrow(message);
+  });
+});
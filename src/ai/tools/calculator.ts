@@ -0,0 +1,132 @@
+/**
+ * @fileOverview A small arithmetic evaluator for the calculator tool. Expressions are parsed by a
+ * recursive-descent parser rather than `eval`, so model-supplied input can never run code.
+ *
+ * - evaluateExpression - Evaluates an expression such as "2^10 / (3 + sqrt(16))".
+ *
+ * Supports + - * / % ^ (or **), parentheses, the constants pi and e, and the functions below
+ * (trigonometric functions take radians).
+ */
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, exp: Math.exp,
+  ln: Math.log, log: Math.log10, log10: Math.log10, log2: Math.log2,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  min: Math.min, max: Math.max, pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/iy;
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'symbol'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    const position = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      const rest = expression.slice(position);
+      if (!rest.trim()) break; // Trailing whitespace
+      const offset = position + rest.length - rest.trimStart().length;
+      throw new Error(`Unexpected character "${expression[offset]}" at position ${offset + 1}.`);
+    }
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ type: 'symbol', value: match[3] === '**' ? '^' : match[3] });
+  }
+  return tokens;
+}
+
+/**
+ * Evaluates an arithmetic expression.
+ *
+ * @returns The result as a finite number.
+ * @throws If the expression is malformed, uses an unknown name or has no finite result (e.g. 1/0).
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const isSymbol = (value: string): boolean => peek()?.type === 'symbol' && peek()!.value === value;
+  const expect = (value: string) => {
+    if (!isSymbol(value)) throw new Error(`Expected "${value}" in expression.`);
+    index++;
+  };
+
+  // expression := term (("+" | "-") term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[index++].value;
+      const right = parseTerm();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := unary (("*" | "/" | "%") unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isSymbol('*') || isSymbol('/') || isSymbol('%')) {
+      const operator = tokens[index++].value;
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ("+" | "-") unary | power; so -2^2 is -(2^2)
+  const parseUnary = (): number => {
+    if (isSymbol('-')) { index++; return -parseUnary(); }
+    if (isSymbol('+')) { index++; return parseUnary(); }
+    return parsePower();
+  };
+
+  // power := primary ("^" unary)?, right-associative
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isSymbol('^')) {
+      index++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression.');
+    index++;
+    if (token.type === 'number') return token.value;
+    if (token.type === 'symbol') {
+      if (token.value !== '(') throw new Error(`Unexpected "${token.value}" in expression.`);
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (isSymbol('(')) {
+      const fn = FUNCTIONS[token.value];
+      if (!fn) throw new Error(`Unknown function "${token.value}".`);
+      index++;
+      const args: number[] = [];
+      if (!isSymbol(')')) {
+        args.push(parseExpression());
+        while (isSymbol(',')) { index++; args.push(parseExpression()); }
+      }
+      expect(')');
+      return fn(...args);
+    }
+    if (token.value in CONSTANTS) return CONSTANTS[token.value];
+    throw new Error(`Unknown name "${token.value}".`);
+  };
+
+  if (tokens.length === 0) throw new Error('The expression is empty.');
+  const result = parseExpression();
+  if (index < tokens.length) throw new Error(`Unexpected "${String(tokens[index].value)}" in expression.`);
+  if (!Number.isFinite(result)) throw new Error('The expression has no finite result.');
+  return result;
+}
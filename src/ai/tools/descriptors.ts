@@ -0,0 +1,25 @@
+/**
+ * @fileOverview Client-safe metadata for the built-in tools the assistant can call.
+ * The Genkit tool definitions live in `./index.ts` (server-side); this module only describes
+ * them so the UI can list and toggle tools without importing Genkit.
+ *
+ * - ToolDescriptor - ID, label and description of a built-in tool.
+ * - BUILT_IN_TOOLS - Descriptors for all built-in tools.
+ * - CHAT_HISTORY_SEARCH_TOOL_ID - The tool that needs the user's other chats sent with the request.
+ */
+
+export interface ToolDescriptor {
+  /** Tool name as the model sees it; also the ID stored in a session's enabled tools. */
+  id: string;
+  label: string;
+  description: string;
+}
+
+export const CHAT_HISTORY_SEARCH_TOOL_ID = 'searchChatHistory';
+
+export const BUILT_IN_TOOLS: ToolDescriptor[] = [
+  { id: 'calculator', label: 'Calculator', description: 'Evaluates arithmetic expressions exactly instead of estimating.' },
+  { id: 'currentDateTime', label: 'Date & time', description: 'Current date and time in the Gregorian and Jalali (Persian) calendars.' },
+  { id: 'convertUnits', label: 'Unit conversion', description: 'Converts length, mass, volume, area, speed, time, data and temperature.' },
+  { id: CHAT_HISTORY_SEARCH_TOOL_ID, label: 'Chat history search', description: 'Searches your other chats saved in this browser.' },
+];
@@ -0,0 +1,162 @@
+/**
+ * @fileOverview Built-in tools the assistant can call, defined with Genkit `defineTool`, and the
+ * assembly of a request's tool session from them and the user's MCP servers.
+ * Google models receive the tool actions directly through `ai.generate`; OpenAI-style providers
+ * advertise them as functions and run the requested calls through executeToolCall.
+ *
+ * - createToolSession - Resolves enabled tool IDs and MCP servers to a ToolSession (undefined when there are none).
+ * - executeToolCall - Runs a tool requested by name with JSON arguments (see `./session`).
+ * - ToolSession / SessionTool / ToolContext - See `./session`.
+ */
+
+import { z } from 'genkit';
+import { ai } from '@/ai/ai-instance';
+import type { ArchivedChat, McpServerConfig } from '@/ai/flows/smart-assistant-prompting';
+import { CHAT_HISTORY_SEARCH_TOOL_ID } from '@/ai/tools/descriptors';
+import { evaluateExpression } from '@/ai/tools/calculator';
+import { convertUnits } from '@/ai/tools/units';
+import { loadMcpTools } from '@/ai/tools/mcp';
+import { getToolName, runReportedTool, type SessionTool, type ToolContext, type ToolSession } from '@/ai/tools/session';
+
+export { executeToolCall, type SessionTool, type ToolContext, type ToolSession } from '@/ai/tools/session';
+
+const DEFAULT_SEARCH_RESULTS = 5;
+const MAX_SEARCH_RESULTS = 10;
+const SEARCH_EXCERPT_CHARS = 300;
+
+/** Defines a tool whose input is validated against its schema, and whose calls and results are reported as steps. */
+function defineBuiltInTool<I extends z.ZodTypeAny>(
+  config: { name: string; description: string; inputSchema: I },
+  run: (input: z.infer<I>, context: ToolContext) => unknown
+): SessionTool {
+  const invoke = (input: unknown, context: ToolContext): Promise<unknown> => runReportedTool(config.name, input, context, () => {
+    const parsed = config.inputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new Error(`Invalid arguments: ${parsed.error.errors.map(e => `${e.path.join('.') || 'input'} - ${e.message}`).join(', ')}`);
+    }
+    return run(parsed.data, context);
+  });
+  return {
+    action: ai.defineTool({ ...config, outputSchema: z.any() }, (input, { context }) => invoke(input, context as ToolContext)),
+    invoke,
+  };
+}
+
+const calculatorTool = defineBuiltInTool(
+  {
+    name: 'calculator',
+    description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and the functions sqrt, cbrt, abs, exp, ln, log (base 10), log2, sin, cos, tan, asin, acos, atan (radians), round, floor, ceil, min, max and pow. Use it for any calculation instead of computing in your head.',
+    inputSchema: z.object({ expression: z.string().describe('The expression to evaluate, e.g. "(17.5 * 3) / 2^4".') }),
+  },
+  ({ expression }) => ({ expression, result: evaluateExpression(expression) })
+);
+
+const currentDateTimeTool = defineBuiltInTool(
+  {
+    name: 'currentDateTime',
+    description: "Returns the current date and time in both the Gregorian and the Jalali (Solar Hijri, Persian) calendars. Use it whenever the answer depends on today's date or the time.",
+    inputSchema: z.object({
+      timeZone: z.string().optional().describe('IANA time zone, e.g. "Asia/Tehran". Defaults to the user\'s time zone.'),
+    }),
+  },
+  ({ timeZone }, context) => {
+    const now = new Date();
+    const zone = timeZone || context.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const dateTimeOptions: Intl.DateTimeFormatOptions = { timeZone: zone, dateStyle: 'full', timeStyle: 'long' };
+    const jalaliParts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US-u-ca-persian-nu-latn', { timeZone: zone, year: 'numeric', month: '2-digit', day: '2-digit' })
+        .formatToParts(now)
+        .map(part => [part.type, part.value])
+    );
+    return {
+      timeZone: zone,
+      iso: now.toISOString(),
+      gregorian: new Intl.DateTimeFormat('en-US', dateTimeOptions).format(now),
+      jalali: new Intl.DateTimeFormat('en-US-u-ca-persian', dateTimeOptions).format(now),
+      jalaliPersian: new Intl.DateTimeFormat('fa-IR-u-ca-persian', dateTimeOptions).format(now),
+      jalaliDate: `${jalaliParts.year}/${jalaliParts.month}/${jalaliParts.day}`,
+    };
+  }
+);
+
+const convertUnitsTool = defineBuiltInTool(
+  {
+    name: 'convertUnits',
+    description: 'Converts a value between units of length, mass, volume, area, speed, time, digital storage or temperature, e.g. miles to km or °F to °C.',
+    inputSchema: z.object({
+      value: z.number().describe('The value to convert.'),
+      fromUnit: z.string().describe('The unit of the value, as a symbol or name, e.g. "mi", "pound", "°F".'),
+      toUnit: z.string().describe('The unit to convert to.'),
+    }),
+  },
+  ({ value, fromUnit, toUnit }) => {
+    const converted = convertUnits(value, fromUnit, toUnit);
+    return { value, fromUnit, toUnit, result: converted.value, quantity: converted.quantity };
+  }
+);
+
+/** Ranks messages of the archive by how many query terms they contain, then by how often. */
+function searchChatArchive(archive: ArchivedChat[], query: string, limit: number) {
+  const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 1);
+  if (terms.length === 0) throw new Error('The query has no searchable words.');
+
+  const matches: { chat: string; sender: string; date?: string; excerpt: string; matchedTerms: number; occurrences: number }[] = [];
+  for (const chat of archive) {
+    for (const message of chat.messages) {
+      const text = message.text.toLowerCase();
+      const found = terms.filter(term => text.includes(term));
+      if (found.length === 0) continue;
+      const firstIndex = Math.min(...found.map(term => text.indexOf(term)));
+      const start = Math.max(0, firstIndex - SEARCH_EXCERPT_CHARS / 3);
+      matches.push({
+        chat: chat.title,
+        sender: message.sender === 'user' ? 'user' : 'assistant',
+        ...(message.timestamp && { date: new Date(message.timestamp).toISOString().slice(0, 10) }),
+        excerpt: `${start > 0 ? '…' : ''}${message.text.slice(start, start + SEARCH_EXCERPT_CHARS).trim()}${start + SEARCH_EXCERPT_CHARS < message.text.length ? '…' : ''}`,
+        matchedTerms: found.length,
+        occurrences: found.reduce((count, term) => count + text.split(term).length - 1, 0),
+      });
+    }
+  }
+  return matches
+    .sort((a, b) => b.matchedTerms - a.matchedTerms || b.occurrences - a.occurrences)
+    .slice(0, limit)
+    .map(({ matchedTerms, occurrences, ...match }) => match);
+}
+
+const searchChatHistoryTool = defineBuiltInTool(
+  {
+    name: CHAT_HISTORY_SEARCH_TOOL_ID,
+    description: "Searches the user's other saved chats for messages containing the given words. Use it when the user refers to something discussed in an earlier conversation.",
+    inputSchema: z.object({
+      query: z.string().describe('Words to look for; messages containing more of them rank higher.'),
+      limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional().describe(`Maximum number of messages to return (default ${DEFAULT_SEARCH_RESULTS}).`),
+    }),
+  },
+  ({ query, limit }, context) => {
+    const results = searchChatArchive(context.chatArchive ?? [], query, limit ?? DEFAULT_SEARCH_RESULTS);
+    return { query, resultCount: results.length, results };
+  }
+);
+
+const BUILT_IN_TOOL_LIST: SessionTool[] = [calculatorTool, currentDateTimeTool, convertUnitsTool, searchChatHistoryTool];
+
+/**
+ * Resolves the enabled built-in tools of a request and connects to its MCP servers. Servers that
+ * cannot be reached are reported through `context.onStep` and skipped.
+ *
+ * @returns The session to pass to providers, or undefined when there are no tools.
+ * @throws If an ID does not name a built-in tool.
+ */
+export async function createToolSession(toolIds: string[] | undefined, mcpServers: McpServerConfig[] | undefined, context: ToolContext): Promise<ToolSession | undefined> {
+  const tools = (toolIds ?? []).map(id => {
+    const tool = BUILT_IN_TOOL_LIST.find(builtIn => getToolName(builtIn) === id);
+    if (!tool) throw new Error(`Unknown tool: ${id}.`);
+    return tool;
+  });
+  if (!mcpServers?.length) return tools.length > 0 ? { tools, context } : undefined;
+  const mcpTools = await loadMcpTools(mcpServers, context);
+  tools.push(...mcpTools);
+  const mcpToolInvokers = new Map(mcpTools.map(tool => [getToolName(tool), tool.invoke]));
+  return tools.length > 0 ? { tools, context: { ...context, mcpToolInvokers } } : undefined;
+}
@@ -0,0 +1,299 @@
+/**
+ * @fileOverview Model Context Protocol client: connects to the MCP servers configured in Settings
+ * and exposes their tools (and, through a read tool, their resources) to the model.
+ *
+ * - loadMcpTools - Lists the tools and resources of the given servers as SessionTools.
+ * - describeMcpServer - Lists a server's tools and resources, for the Settings connection test.
+ * - McpServerSchema / McpServerConfig - Connection settings of a configured server.
+ *
+ * Supports the stdio, Streamable HTTP and (legacy) HTTP+SSE transports. stdio servers run a
+ * command on the machine hosting the app, so they are only started when MCP_ALLOW_STDIO=true;
+ * HTTP and SSE servers are reached from that machine too, so only URLs in MCP_ALLOWED_URLS are contacted.
+ * Connections are kept open between requests, and closed when the transport fails, when they have been
+ * idle for a while, or when the server's connection settings change.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { CallToolResultSchema, McpError, type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z, type JSONSchema7 } from 'genkit';
+import { runOutsideActionRuntimeContext } from '@genkit-ai/core';
+import { ai } from '@/ai/ai-instance';
+import { assertRemoteUrlAllowed } from '@/ai/remote-access';
+import { runReportedTool, type SessionTool, type ToolContext } from '@/ai/tools/session';
+
+const CONNECT_TIMEOUT_MS = 10_000;
+const REQUEST_TIMEOUT_MS = 30_000;
+// Open connections (and started stdio processes) are closed once unused for this long
+const IDLE_CONNECTION_TIMEOUT_MS = 5 * 60_000;
+// OpenAI function names allow at most 64 characters from [a-zA-Z0-9_-]
+const MAX_TOOL_NAME_LENGTH = 64;
+// Resources listed in the read tool's description; the model can still read any URI the server knows
+const MAX_LISTED_RESOURCES = 25;
+
+interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+interface McpResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+type ContentBlock = CallToolResult['content'][number];
+
+/** Connection settings of an MCP server, as configured in Settings. */
+export const McpServerSchema = z.object({
+  id: z.string().describe('Client-side ID of the server configuration.'),
+  name: z.string().describe('Display name; also prefixes the names of the server\'s tools.'),
+  transport: z.enum(['stdio', 'http', 'sse']).describe('stdio starts `command` locally; http uses Streamable HTTP and sse the legacy HTTP+SSE transport at `url`.'),
+  command: z.string().optional().describe('The command that starts a stdio server.'),
+  args: z.array(z.string()).optional().describe('Arguments of the stdio command.'),
+  env: z.record(z.string()).optional().describe('Extra environment variables of the stdio command.'),
+  url: z.string().url().optional().describe('Endpoint of an HTTP or SSE server.'),
+  headers: z.record(z.string()).optional().describe('Extra headers sent to an HTTP or SSE server, e.g. Authorization.'),
+});
+export type McpServerConfig = z.infer<typeof McpServerSchema>;
+
+interface Connection {
+  client: Promise<Client>;
+  activeRequests: number;
+  idleTimer?: ReturnType<typeof setTimeout>;
+  /** Replaced by a connection with newer settings; closed once its last request ends. */
+  isRetired?: boolean;
+  isClosed?: boolean;
+}
+
+// Keyed by the connection settings, so requests with different settings (e.g. tokens) never share a connection
+const connections = new Map<string, Connection>();
+// The settings each configured server was last used with, to close its connection when they change
+const connectionKeysByServerId = new Map<string, string>();
+// Tool actions are registered once per name and redefined only when the server's description of the tool
+// changes. The actions are shared by all requests, so they run the requesting server's tool through the
+// invoker in the request's tool context (see createToolSession).
+const definedTools = new Map<string, { signature: string; action: SessionTool['action'] }>();
+
+// The connection settings that identify a server; the display name does not
+function getConnectionKey(server: McpServerConfig): string {
+  return JSON.stringify([server.transport, server.command, server.args, server.env, server.url, server.headers]);
+}
+
+function createTransport(server: McpServerConfig): Transport {
+  if (server.transport === 'stdio') {
+    if (process.env.MCP_ALLOW_STDIO !== 'true') {
+      throw new Error('stdio MCP servers are disabled. Set MCP_ALLOW_STDIO=true on the server running this app to allow them.');
+    }
+    if (!server.command?.trim()) throw new Error('A command is required for stdio MCP servers.');
+    return new StdioClientTransport({
+      command: server.command,
+      args: server.args ?? [],
+      env: { ...getDefaultEnvironment(), ...server.env },
+      stderr: 'ignore',
+    });
+  }
+  if (!server.url) throw new Error(`A URL is required for ${server.transport === 'sse' ? 'SSE' : 'HTTP'} MCP servers.`);
+  assertRemoteUrlAllowed(server.url, 'MCP_ALLOWED_URLS', 'MCP server');
+  const requestInit: RequestInit | undefined = server.headers ? { headers: server.headers } : undefined;
+  return server.transport === 'sse'
+    ? new SSEClientTransport(new URL(server.url), { requestInit })
+    : new StreamableHTTPClientTransport(new URL(server.url), { requestInit });
+}
+
+/** Closes a connection and forgets it, unless a newer connection has taken its place. */
+function closeConnection(key: string, connection: Connection): void {
+  if (connection.isClosed) return;
+  connection.isClosed = true;
+  clearTimeout(connection.idleTimer);
+  if (connections.get(key) === connection) connections.delete(key);
+  connection.client.then(client => client.close()).catch(() => {});
+}
+
+function openConnection(server: McpServerConfig, key: string): Connection {
+  const connection: Connection = {
+    client: (async () => {
+      const mcpClient = new Client({ name: 'smart-assistant', version: '1.0.0' });
+      mcpClient.onclose = () => {
+        connection.isClosed = true;
+        clearTimeout(connection.idleTimer);
+        if (connections.get(key) === connection) connections.delete(key);
+      };
+      await mcpClient.connect(createTransport(server), { timeout: CONNECT_TIMEOUT_MS });
+      return mcpClient;
+    })(),
+    activeRequests: 0,
+  };
+  connection.client.catch(() => {
+    if (connections.get(key) === connection) connections.delete(key);
+  });
+  return connection;
+}
+
+/** Returns the open connection to `server`, opening one if needed and retiring the one of its previous settings. */
+function acquireConnection(server: McpServerConfig): { key: string; connection: Connection } {
+  const key = getConnectionKey(server);
+  const previousKey = connectionKeysByServerId.get(server.id);
+  connectionKeysByServerId.set(server.id, key);
+  const previous = previousKey !== undefined && previousKey !== key ? connections.get(previousKey) : undefined;
+  if (previous) {
+    connections.delete(previousKey!);
+    previous.isRetired = true;
+    if (previous.activeRequests === 0) closeConnection(previousKey!, previous);
+  }
+
+  let connection = connections.get(key);
+  if (!connection) {
+    connection = openConnection(server, key);
+    connections.set(key, connection);
+  }
+  clearTimeout(connection.idleTimer);
+  connection.activeRequests++;
+  return { key, connection };
+}
+
+function releaseConnection(key: string, connection: Connection): void {
+  connection.activeRequests--;
+  if (connection.activeRequests > 0) return;
+  if (connection.isRetired || connection.isClosed) {
+    closeConnection(key, connection);
+    return;
+  }
+  connection.idleTimer = setTimeout(() => closeConnection(key, connection), IDLE_CONNECTION_TIMEOUT_MS);
+}
+
+/**
+ * Runs a request on the server's connection (opening it if needed), closing the connection if it
+ * failed rather than the request.
+ *
+ * @throws If the server cannot be started or reached, does not complete the MCP handshake in time, or the request fails.
+ */
+async function withConnection<T>(server: McpServerConfig, request: (client: Client) => Promise<T>): Promise<T> {
+  const { key, connection } = acquireConnection(server);
+  try {
+    return await request(await connection.client);
+  } catch (error) {
+    // McpErrors are answers from a working server (e.g. invalid params); anything else is a broken connection
+    if (!(error instanceof McpError)) closeConnection(key, connection);
+    throw error;
+  } finally {
+    releaseConnection(key, connection);
+  }
+}
+
+function toToolNamePart(text: string): string {
+  return text.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || 'server';
+}
+
+// Prefixed with the server name so tools of different servers cannot collide
+function toToolName(server: McpServerConfig, name: string): string {
+  return `${toToolNamePart(server.name)}__${toToolNamePart(name)}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/** Flattens MCP content blocks to text; binary content is described rather than inlined. */
+function contentToText(content: ContentBlock[]): string {
+  return content.map(block => {
+    switch (block.type) {
+      case 'text':
+        return block.text;
+      case 'resource':
+        return 'text' in block.resource ? block.resource.text : `[Binary resource ${block.resource.uri} (${block.resource.mimeType ?? 'unknown type'})]`;
+      case 'resource_link':
+        return `[Resource ${block.uri}]`;
+      default:
+        return `[${block.type} content (${block.mimeType}) omitted]`;
+    }
+  }).join('\n');
+}
+
+/** Defines (or reuses) the Genkit action for a tool, running `call` when the model calls it. */
+function defineMcpTool(name: string, description: string, inputJsonSchema: Record<string, unknown>, call: (input: unknown) => Promise<unknown>): SessionTool {
+  const signature = JSON.stringify([description, inputJsonSchema]);
+  const invoke = (input: unknown, context: ToolContext) => runReportedTool(name, input, context, () => call(input));
+  const existing = definedTools.get(name);
+  if (existing?.signature === signature) return { action: existing.action, invoke };
+  // Tools are listed while the smart assistant flow runs, and Genkit refuses to define actions inside a running action
+  const action = runOutsideActionRuntimeContext(ai.registry, () => ai.defineTool(
+    { name, description, inputJsonSchema: inputJsonSchema as JSONSchema7, outputSchema: z.any() },
+    (input, { context }) => {
+      const toolContext = context as ToolContext;
+      const requestInvoke = toolContext.mcpToolInvokers?.get(name);
+      if (!requestInvoke) return runReportedTool(name, input, toolContext, () => { throw new Error(`The tool ${name} is not available in this request.`); });
+      return requestInvoke(input, toolContext);
+    }
+  ));
+  definedTools.set(name, { signature, action });
+  return { action, invoke };
+}
+
+function createServerTools(server: McpServerConfig, tools: McpToolInfo[], resources: McpResourceInfo[]): SessionTool[] {
+  const sessionTools = tools.map(tool => defineMcpTool(
+    toToolName(server, tool.name),
+    `${tool.description ?? tool.name} (from the "${server.name}" MCP server)`,
+    tool.inputSchema,
+    async input => {
+      const result = await withConnection(server, client =>
+        client.callTool({ name: tool.name, arguments: (input ?? {}) as Record<string, unknown> }, undefined, { timeout: REQUEST_TIMEOUT_MS })
+      );
+      // Servers on protocol versions before 2024-11-05 answer with `toolResult` instead of content blocks
+      const parsed = CallToolResultSchema.safeParse(result);
+      const text = parsed.success ? contentToText(parsed.data.content) : JSON.stringify(result.toolResult ?? null);
+      if (result.isError) throw new Error(text || 'The tool reported an error.');
+      return result.structuredContent ?? { content: text };
+    }
+  ));
+
+  if (resources.length > 0) {
+    const listed = resources.slice(0, MAX_LISTED_RESOURCES)
+      .map(resource => `- ${resource.uri} (${resource.name}${resource.description ? `: ${resource.description}` : ''})`);
+    sessionTools.push(defineMcpTool(
+      toToolName(server, 'read_resource'),
+      [`Reads a resource of the "${server.name}" MCP server by URI. Available resources:`, ...listed, ...(resources.length > listed.length ? [`...and ${resources.length - listed.length} more.`] : [])].join('\n'),
+      { type: 'object', properties: { uri: { type: 'string', description: 'The URI of the resource to read.' } }, required: ['uri'] },
+      async input => {
+        const { uri } = z.object({ uri: z.string() }).parse(input);
+        const result = await withConnection(server, client => client.readResource({ uri }, { timeout: REQUEST_TIMEOUT_MS }));
+        return { uri, content: contentToText(result.contents.map(resource => ({ type: 'resource' as const, resource }))) };
+      }
+    ));
+  }
+  return sessionTools;
+}
+
+/**
+ * Lists a server's tools and resources.
+ *
+ * @throws If the server cannot be reached or a listing request fails.
+ */
+export function describeMcpServer(server: McpServerConfig): Promise<{ tools: McpToolInfo[]; resources: McpResourceInfo[] }> {
+  return withConnection(server, async client => {
+    const capabilities = client.getServerCapabilities();
+    const tools = capabilities?.tools ? (await client.listTools(undefined, { timeout: REQUEST_TIMEOUT_MS })).tools : [];
+    const resources = capabilities?.resources ? (await client.listResources(undefined, { timeout: REQUEST_TIMEOUT_MS })).resources : [];
+    return { tools, resources };
+  });
+}
+
+/**
+ * Connects to each server and returns its tools, plus a resource read tool for servers with resources.
+ * A server that cannot be reached is reported through `context.onStep` and skipped.
+ */
+export async function loadMcpTools(servers: McpServerConfig[], context: ToolContext): Promise<SessionTool[]> {
+  const toolsPerServer = await Promise.all(servers.map(async server => {
+    try {
+      const { tools, resources } = await describeMcpServer(server);
+      return createServerTools(server, tools, resources);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`MCP server "${server.name}" is unavailable:`, message);
+      context.onStep?.(`MCP server ${server.name} is unavailable: ${message}`);
+      return [];
+    }
+  }));
+  return toolsPerServer.flat();
+}
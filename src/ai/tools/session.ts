@@ -0,0 +1,95 @@
+/**
+ * @fileOverview The tools available to one request, whatever their source (built-in tools or
+ * tools of the user's MCP servers), and how a model's tool call is run.
+ *
+ * - ToolContext - Request data the tools read (time zone, chat archive) and the step reporter.
+ * - SessionTool - A Genkit tool action with a direct way to invoke it.
+ * - ToolSession - The tools enabled for one request, with the context they run in.
+ * - runReportedTool - Runs a tool implementation, reporting the call and its result as steps.
+ * - executeToolCall - Runs a tool requested by name with JSON arguments, returning its result or error.
+ *
+ * Tool failures are returned to the model as `{ error }` rather than thrown, so it can correct
+ * its input or answer without the tool.
+ */
+
+import type { ToolAction } from 'genkit';
+import type { ArchivedChat } from '@/ai/flows/smart-assistant-prompting';
+
+export interface ToolContext {
+  /** IANA time zone of the user, e.g. "Asia/Tehran"; the server's time zone when unset. */
+  timeZone?: string;
+  /** The user's other chats, searched by the chat history tool. */
+  chatArchive?: ArchivedChat[];
+  /** Reports each tool call and result. */
+  onStep?: (step: string) => void;
+  /**
+   * How this request runs each MCP tool, by tool name. MCP tool actions are shared by all requests
+   * (Genkit registers an action once per name), so they look up the requesting server's tool here.
+   */
+  mcpToolInvokers?: ReadonlyMap<string, SessionTool['invoke']>;
+  [key: string]: unknown;
+}
+
+export interface SessionTool {
+  /** Genkit tool action, passed to `ai.generate` and described to OpenAI-style models as a function. */
+  action: ToolAction;
+  /**
+   * Runs the tool with arguments produced by a model, reporting the call and result. Used for
+   * OpenAI-style tool calls, so they do not depend on the Genkit plugins being configured.
+   */
+  invoke: (input: unknown, context: ToolContext) => Promise<unknown>;
+}
+
+export interface ToolSession {
+  tools: SessionTool[];
+  context: ToolContext;
+}
+
+// Keeps tool steps readable in the thinking steps list
+const MAX_STEP_DETAIL_LENGTH = 200;
+
+function truncate(text: string): string {
+  return text.length > MAX_STEP_DETAIL_LENGTH ? `${text.slice(0, MAX_STEP_DETAIL_LENGTH)}…` : text;
+}
+
+export function getToolName(tool: SessionTool): string {
+  return tool.action.__action.name;
+}
+
+/**
+ * Runs `run`, reporting the call and its result (or failure) through the context's `onStep`.
+ *
+ * @returns The result, or `{ error }` if `run` threw.
+ */
+export async function runReportedTool(name: string, input: unknown, context: ToolContext, run: () => unknown): Promise<unknown> {
+  context.onStep?.(truncate(`Calling tool ${name} with ${JSON.stringify(input)}`));
+  try {
+    const result = await run();
+    context.onStep?.(truncate(`Tool ${name} returned ${JSON.stringify(result)}`));
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    context.onStep?.(truncate(`Tool ${name} failed: ${message}`));
+    return { error: message };
+  }
+}
+
+/**
+ * Runs a tool call requested by an OpenAI-style model.
+ *
+ * @param argumentsJson The call's arguments as the JSON string the model produced.
+ * @returns The tool's result, or `{ error }` if the tool is unknown or the arguments are not valid JSON.
+ */
+export async function executeToolCall(session: ToolSession, name: string, argumentsJson: string): Promise<unknown> {
+  const tool = session.tools.find(candidate => getToolName(candidate) === name);
+  let input: unknown;
+  try {
+    if (!tool) throw new Error(`Unknown tool: ${name}.`);
+    input = argumentsJson.trim() ? JSON.parse(argumentsJson) : {};
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    session.context.onStep?.(truncate(`Tool ${name} failed: ${message}`));
+    return { error: message };
+  }
+  return tool.invoke(input, session.context);
+}
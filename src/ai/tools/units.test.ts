@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { convertUnits } from '@/ai/tools/units';
+
+describe('convertUnits', () => {
+  it.each([
+    [0, 'C', 'F', 32],
+    [100, 'celsius', 'fahrenheit', 212],
+    [-40, '°C', '°F', -40],
+    [32, 'F', 'C', 0],
+    [0, 'K', 'C', -273.15],
+    [300, 'kelvin', 'F', 80.33],
+    [98.6, 'F', 'K', 310.15],
+  ])('converts %d %s to %s', (value, from, to, expected) => {
+    const result = convertUnits(value, from, to);
+    expect(result.quantity).toBe('temperature');
+    expect(result.value).toBeCloseTo(expected, 2);
+  });
+
+  it.each([
+    ['C', 'F'], ['F', 'K'], ['K', 'C'],
+  ])('round-trips temperatures between %s and %s', (from, to) => {
+    for (const value of [-273.15, -40, 0, 21.5, 1000]) {
+      expect(convertUnits(convertUnits(value, from, to).value, to, from).value).toBeCloseTo(value, 9);
+    }
+  });
+
+  it('goes around C, F and K back to the start', () => {
+    const fahrenheit = convertUnits(37, 'C', 'F').value;
+    const kelvin = convertUnits(fahrenheit, 'F', 'K').value;
+    expect(convertUnits(kelvin, 'K', 'C').value).toBeCloseTo(37, 9);
+  });
+
+  it('converts linear units through their base unit', () => {
+    expect(convertUnits(5, 'km', 'miles').value).toBeCloseTo(3.10686, 5);
+    expect(convertUnits(1, 'gal', 'L')).toEqual({ value: 3.785411784, quantity: 'volume' });
+    expect(convertUnits(1, 'GiB', 'MB').value).toBeCloseTo(1073.741824, 6);
+    expect(convertUnits(2, 'square  feet', 'm²').value).toBeCloseTo(0.18580608, 8);
+  });
+
+  it('accepts plurals of names but not of short symbols', () => {
+    expect(convertUnits(12, 'inches', 'feet').value).toBeCloseTo(1);
+    expect(() => convertUnits(1, 'ms', 'kms')).toThrow('Unknown unit "kms".');
+  });
+
+  it('rejects unknown units and mixed quantities', () => {
+    expect(() => convertUnits(1, 'furlong', 'm')).toThrow('Unknown unit "furlong".');
+    expect(() => convertUnits(1, 'kg', 'm')).toThrow('Cannot convert mass (kg) to length (m).');
+    expect(() => convertUnits(1, 'C', 'm')).toThrow('only one of them is a temperature');
+  });
+});
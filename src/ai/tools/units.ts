@@ -0,0 +1,123 @@
+/**
+ * @fileOverview Unit conversion for the unit conversion tool.
+ *
+ * - convertUnits - Converts a value between two units of the same quantity.
+ *
+ * Units are matched case-insensitively by symbol or name (singular or plural), e.g. "km",
+ * "kilometer", "kilometers". Temperatures are converted through Kelvin; every other quantity
+ * uses a linear factor to its SI (or base) unit.
+ */
+
+interface UnitDefinition {
+  quantity: string;
+  /** Value of one of this unit in the quantity's base unit. */
+  factor: number;
+  names: string[];
+}
+
+const UNITS: UnitDefinition[] = [
+  // Length (meter)
+  { quantity: 'length', factor: 1e-3, names: ['mm', 'millimeter', 'millimetre'] },
+  { quantity: 'length', factor: 1e-2, names: ['cm', 'centimeter', 'centimetre'] },
+  { quantity: 'length', factor: 1, names: ['m', 'meter', 'metre'] },
+  { quantity: 'length', factor: 1e3, names: ['km', 'kilometer', 'kilometre'] },
+  { quantity: 'length', factor: 0.0254, names: ['in', 'inch', 'inches'] },
+  { quantity: 'length', factor: 0.3048, names: ['ft', 'foot', 'feet'] },
+  { quantity: 'length', factor: 0.9144, names: ['yd', 'yard'] },
+  { quantity: 'length', factor: 1609.344, names: ['mi', 'mile'] },
+  { quantity: 'length', factor: 1852, names: ['nmi', 'nautical mile'] },
+  // Mass (kilogram)
+  { quantity: 'mass', factor: 1e-6, names: ['mg', 'milligram'] },
+  { quantity: 'mass', factor: 1e-3, names: ['g', 'gram'] },
+  { quantity: 'mass', factor: 1, names: ['kg', 'kilogram'] },
+  { quantity: 'mass', factor: 1e3, names: ['t', 'tonne', 'metric ton'] },
+  { quantity: 'mass', factor: 0.028349523125, names: ['oz', 'ounce'] },
+  { quantity: 'mass', factor: 0.45359237, names: ['lb', 'lbs', 'pound'] },
+  { quantity: 'mass', factor: 6.35029318, names: ['st', 'stone'] },
+  // Volume (liter)
+  { quantity: 'volume', factor: 1e-3, names: ['ml', 'milliliter', 'millilitre'] },
+  { quantity: 'volume', factor: 1, names: ['l', 'liter', 'litre'] },
+  { quantity: 'volume', factor: 1e3, names: ['m3', 'cubic meter', 'cubic metre'] },
+  { quantity: 'volume', factor: 0.00492892159375, names: ['tsp', 'teaspoon'] },
+  { quantity: 'volume', factor: 0.01478676478125, names: ['tbsp', 'tablespoon'] },
+  { quantity: 'volume', factor: 0.0295735295625, names: ['fl oz', 'fluid ounce'] },
+  { quantity: 'volume', factor: 0.2365882365, names: ['cup'] },
+  { quantity: 'volume', factor: 0.473176473, names: ['pt', 'pint'] },
+  { quantity: 'volume', factor: 0.946352946, names: ['qt', 'quart'] },
+  { quantity: 'volume', factor: 3.785411784, names: ['gal', 'gallon'] },
+  // Area (square meter)
+  { quantity: 'area', factor: 1e-4, names: ['cm2', 'square centimeter', 'square centimetre'] },
+  { quantity: 'area', factor: 1, names: ['m2', 'square meter', 'square metre'] },
+  { quantity: 'area', factor: 1e6, names: ['km2', 'square kilometer', 'square kilometre'] },
+  { quantity: 'area', factor: 0.09290304, names: ['ft2', 'square foot', 'square feet'] },
+  { quantity: 'area', factor: 4046.8564224, names: ['ac', 'acre'] },
+  { quantity: 'area', factor: 1e4, names: ['ha', 'hectare'] },
+  { quantity: 'area', factor: 2589988.110336, names: ['mi2', 'square mile'] },
+  // Speed (meter per second)
+  { quantity: 'speed', factor: 1, names: ['m/s', 'meter per second', 'metre per second'] },
+  { quantity: 'speed', factor: 1 / 3.6, names: ['km/h', 'kph', 'kilometer per hour', 'kilometre per hour'] },
+  { quantity: 'speed', factor: 0.44704, names: ['mph', 'mile per hour'] },
+  { quantity: 'speed', factor: 1852 / 3600, names: ['kn', 'knot'] },
+  // Time (second)
+  { quantity: 'time', factor: 1e-3, names: ['ms', 'millisecond'] },
+  { quantity: 'time', factor: 1, names: ['s', 'sec', 'second'] },
+  { quantity: 'time', factor: 60, names: ['min', 'minute'] },
+  { quantity: 'time', factor: 3600, names: ['h', 'hr', 'hour'] },
+  { quantity: 'time', factor: 86400, names: ['d', 'day'] },
+  { quantity: 'time', factor: 604800, names: ['wk', 'week'] },
+  { quantity: 'time', factor: 31557600, names: ['yr', 'year'] }, // Julian year of 365.25 days
+  // Digital storage (byte); decimal and binary prefixes are distinct
+  { quantity: 'data', factor: 1 / 8, names: ['bit'] },
+  { quantity: 'data', factor: 1, names: ['b', 'byte'] },
+  { quantity: 'data', factor: 1e3, names: ['kb', 'kilobyte'] },
+  { quantity: 'data', factor: 1e6, names: ['mb', 'megabyte'] },
+  { quantity: 'data', factor: 1e9, names: ['gb', 'gigabyte'] },
+  { quantity: 'data', factor: 1e12, names: ['tb', 'terabyte'] },
+  { quantity: 'data', factor: 1024, names: ['kib', 'kibibyte'] },
+  { quantity: 'data', factor: 1024 ** 2, names: ['mib', 'mebibyte'] },
+  { quantity: 'data', factor: 1024 ** 3, names: ['gib', 'gibibyte'] },
+  { quantity: 'data', factor: 1024 ** 4, names: ['tib', 'tebibyte'] },
+];
+
+// Temperatures are not proportional, so each scale converts to and from Kelvin
+const TEMPERATURE_SCALES: { names: string[]; toKelvin: (value: number) => number; fromKelvin: (kelvin: number) => number }[] = [
+  { names: ['c', '°c', 'celsius'], toKelvin: value => value + 273.15, fromKelvin: kelvin => kelvin - 273.15 },
+  { names: ['f', '°f', 'fahrenheit'], toKelvin: value => (value - 32) * 5 / 9 + 273.15, fromKelvin: kelvin => (kelvin - 273.15) * 9 / 5 + 32 },
+  { names: ['k', 'kelvin'], toKelvin: value => value, fromKelvin: kelvin => kelvin },
+];
+
+function normalizeUnitName(unit: string): string {
+  return unit.trim().toLowerCase().replace(/\s+/g, ' ').replace(/²/g, '2').replace(/³/g, '3');
+}
+
+// Also accepts plurals ("miles", "inches"); symbols of one or two letters are matched exactly
+function matchesName(names: string[], unit: string): boolean {
+  return names.some(name => name === unit || (name.length >= 3 && (unit === `${name}s` || unit === `${name}es`)));
+}
+
+/**
+ * Converts `value` from one unit to another.
+ *
+ * @returns The converted value and the quantity both units measure (e.g. "length").
+ * @throws If a unit is unknown or the units measure different quantities.
+ */
+export function convertUnits(value: number, fromUnit: string, toUnit: string): { value: number; quantity: string } {
+  const from = normalizeUnitName(fromUnit);
+  const to = normalizeUnitName(toUnit);
+
+  const fromScale = TEMPERATURE_SCALES.find(scale => matchesName(scale.names, from));
+  const toScale = TEMPERATURE_SCALES.find(scale => matchesName(scale.names, to));
+  if (fromScale || toScale) {
+    if (!fromScale || !toScale) throw new Error(`Cannot convert between ${fromUnit} and ${toUnit}: only one of them is a temperature.`);
+    return { value: toScale.fromKelvin(fromScale.toKelvin(value)), quantity: 'temperature' };
+  }
+
+  const fromDefinition = UNITS.find(unit => matchesName(unit.names, from));
+  const toDefinition = UNITS.find(unit => matchesName(unit.names, to));
+  if (!fromDefinition) throw new Error(`Unknown unit "${fromUnit}".`);
+  if (!toDefinition) throw new Error(`Unknown unit "${toUnit}".`);
+  if (fromDefinition.quantity !== toDefinition.quantity) {
+    throw new Error(`Cannot convert ${fromDefinition.quantity} (${fromUnit}) to ${toDefinition.quantity} (${toUnit}).`);
+  }
+  return { value: value * fromDefinition.factor / toDefinition.factor, quantity: fromDefinition.quantity };
+}
@@ -0,0 +1,55 @@
+import { streamSmartAssistantPrompting, SmartAssistantPromptingInput } from '@/ai/flows/smart-assistant-prompting';
+import type { SmartAssistantStreamEvent } from '@/services/smart-assistant-stream';
+
+/**
+ * Streams a smart assistant response to the browser as newline-delimited JSON
+ * (`SmartAssistantStreamEvent` per line). Server actions resolve only once, so the
+ * token-by-token variant of the flow is exposed through this route instead.
+ * Generation is aborted when the client cancels the request (Stop button) or disconnects.
+ */
+export async function POST(request: Request): Promise<Response> {
+  let input: SmartAssistantPromptingInput;
+  try {
+    input = await request.json();
+  } catch (error) {
+    return Response.json({ error: 'Request body must be valid JSON.' }, { status: 400 });
+  }
+
+  const abortController = new AbortController();
+  request.signal.addEventListener('abort', () => abortController.abort(request.signal.reason));
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: SmartAssistantStreamEvent) => {
+        if (abortController.signal.aborted) return; // Nobody is reading any more
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const output = await streamSmartAssistantPrompting(
+          input,
+          (text) => send({ type: 'chunk', text }),
+          abortController.signal,
+          (step) => send({ type: 'step', step }),
+          (text) => send({ type: 'reasoning', text })
+        );
+        send({ type: 'done', output });
+      } catch (error) {
+        send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      } finally {
+        if (!abortController.signal.aborted) controller.close();
+      }
+    },
+    cancel(reason) {
+      abortController.abort(reason);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { BarChart } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TabsContent } from '@/components/ui/tabs';
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useChatStore } from '@/hooks/use-chat-store';
+import { selectAiResponses, selectTotalCost } from '@/lib/chat-store';
+import { formatCurrency } from '@/lib/utils';
+
+interface ChatAnalysisTabProps {
+  getModelName: (modelId: string | undefined) => string;
+  /** The response still being generated, left out of the table. */
+  generatingMessageId: string | null;
+}
+
+/** The "Analyse" tab: estimated cost of every AI response across all chats. */
+export default function ChatAnalysisTab({ getModelName, generatingMessageId }: ChatAnalysisTabProps) {
+  const chatState = useChatStore();
+  const responses = React.useMemo(() => selectAiResponses(chatState, generatingMessageId), [chatState, generatingMessageId]);
+  const totalCost = React.useMemo(() => selectTotalCost(chatState), [chatState]);
+
+  return (
+    <TabsContent value="analyse" className="flex-1 overflow-hidden p-0 m-0 data-[state=inactive]:hidden">
+      <ScrollArea className="h-full p-4">
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold mb-2 text-primary">API Usage Analysis</h3>
+           {responses.length > 0 ? (
+             <Table>
+               <TableCaption>Est. cost per successful AI response. Total est. cost across all sessions: {formatCurrency(totalCost)}</TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Timestamp</TableHead>
+                    <TableHead>Model Used</TableHead>
+                     <TableHead>Session</TableHead>
+                    <TableHead>Response Snippet</TableHead>
+                    <TableHead className="text-right">Est. Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {responses.map(({ message, session }) => (
+                      <TableRow key={message.id}>
+                        <TableCell className="text-xs">{new Date(message.timestamp).toLocaleString()}</TableCell>
+                        <TableCell className="text-xs">{getModelName(message.modelId)}</TableCell>
+                         <TableCell className="text-xs truncate max-w-[100px]" title={session.name}>{session.name || 'Unknown Session'}</TableCell>
+                        <TableCell className="max-w-[200px] truncate text-xs">{message.text}</TableCell>
+                        <TableCell className="text-right text-xs">{formatCurrency(message.cost)}</TableCell>
+                      </TableRow>
+                   ))}
+                  <TableRow className="font-semibold bg-muted/50">
+                      <TableCell colSpan={4}>Total Estimated Cost (All Sessions)</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totalCost)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+           ) : (
+             <div className="text-center text-muted-foreground py-8">
+               <BarChart className="mx-auto h-12 w-12 mb-2 opacity-50" />
+               <p>No successful AI interactions yet.</p>
+             </div>
+           )}
+        </div>
+      </ScrollArea>
+    </TabsContent>
+  );
+}
@@ -0,0 +1,726 @@
+'use client';
+
+import React, { useCallback, useDeferredValue, useMemo, useRef, useState } from 'react';
+import { Bookmark, CheckCircle, Download, Edit2, FolderPlus, Loader2, PlusCircle, Search, Trash2, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TabsContent } from '@/components/ui/tabs';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { chatStore, useChatStore } from '@/hooks/use-chat-store';
+import { DEFAULT_SESSION_NAME, MAX_SESSION_NAME_LENGTH, createFolderId, selectAllTags, selectHistoryModelIds, selectHistorySessions } from '@/lib/chat-store';
+import { deleteKnowledgeBase, sessionKnowledgeBaseId } from '@/lib/knowledge-base';
+import { exportChats, type ChatExportFormat } from '@/lib/chat-export';
+import { CHAT_IMPORT_ACCEPT, CHAT_IMPORT_SOURCE_LABELS, readChatImportFile, type ChatImport } from '@/lib/chat-import';
+import { createChatSearchIndex, type ChatSearchResult, type SnippetPart } from '@/lib/chat-search';
+import type { ChatSession } from '@/lib/chat-storage';
+import { cn, isPersian } from '@/lib/utils';
+
+const MAX_TAG_LENGTH = 20;
+
+// Values of the folder filter besides folder IDs
+const ALL_FOLDERS = 'all';
+const NO_FOLDER = 'none';
+// Value of the model filter besides model IDs (a Select item cannot have an empty value)
+const ALL_MODELS = '*';
+
+// Kept for the whole page, so reopening the tab only re-indexes the sessions that changed meanwhile
+const chatSearchIndex = createChatSearchIndex();
+
+// Bounds of a day picked in a date input ("YYYY-MM-DD"), in local time
+const startOfDay = (date: string): number | undefined => date ? new Date(`${date}T00:00:00`).getTime() : undefined;
+const endOfDay = (date: string): number | undefined => date ? new Date(`${date}T23:59:59.999`).getTime() : undefined;
+
+const EXPORT_FORMATS: { format: ChatExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'html', label: 'Web Page (.html)' },
+  { format: 'pdf', label: 'PDF (Print)' },
+  { format: 'json', label: 'JSON (.json, complete)' },
+];
+
+// Search result text with the matched words highlighted
+function HighlightedSnippet({ parts }: { parts: SnippetPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) => part.isMatch
+        ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm px-0.5">{part.text}</mark>
+        : <React.Fragment key={index}>{part.text}</React.Fragment>)}
+    </>
+  );
+}
+
+interface ChatHistoryTabProps {
+  /** Opens a session in the Chat tab, scrolled to `messageId` if given. */
+  onSelectSession: (sessionId: string, messageId?: string) => void;
+  onNewChat: () => void;
+  /** Names the model of each response in exports and import previews. */
+  getModelName: (modelId: string | undefined) => string;
+}
+
+/**
+ * The "History" tab: lists and searches the sessions, and renames, bookmarks, tags, files, exports, imports and deletes them.
+ */
+export default function ChatHistoryTab({ onSelectSession, onNewChat, getModelName }: ChatHistoryTabProps) {
+  const { toast } = useToast();
+  const chatState = useChatStore();
+  const { sessions, folders, activeSessionId } = chatState;
+  const { dispatch } = chatStore;
+
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [editingSessionName, setEditingSessionName] = useState<string>("");
+  // --- Folder State ---
+  const [showCreateFolderModal, setShowCreateFolderModal] = useState(false);
+  const [newFolderName, setNewFolderName] = useState("");
+  const [showMoveToFolderModal, setShowMoveToFolderModal] = useState(false);
+  const [sessionToMove, setSessionToMove] = useState<string | null>(null);
+  // --- Tag State ---
+  const [editingTagsSessionId, setEditingTagsSessionId] = useState<string | null>(null);
+  const [editingTags, setEditingTags] = useState<string[]>([]);
+  const [newTagInput, setNewTagInput] = useState("");
+  const [filterTags, setFilterTags] = useState<Set<string>>(new Set());
+  const [filterFolder, setFilterFolder] = useState<string>(ALL_FOLDERS);
+  // --- Search State ---
+  const [searchQuery, setSearchQuery] = useState("");
+  const [filterModelId, setFilterModelId] = useState<string>(ALL_MODELS);
+  const [filterBookmarked, setFilterBookmarked] = useState(false);
+  const [filterFromDate, setFilterFromDate] = useState(""); // Date input values, "YYYY-MM-DD"
+  const [filterToDate, setFilterToDate] = useState("");
+  // Typing stays responsive while results for the previous query are still being rendered
+  const deferredSearchQuery = useDeferredValue(searchQuery.trim());
+  // --- Import State ---
+  const [pendingImport, setPendingImport] = useState<ChatImport | null>(null);
+  const [isReadingImport, setIsReadingImport] = useState(false);
+
+  const editNameInputRef = useRef<HTMLInputElement>(null);
+  const newTagInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const allAvailableTags = useMemo(() => selectAllTags(chatState), [chatState]);
+  // A deleted folder's ID no longer matches any session; show all of them instead
+  const folderFilterId = filterFolder === NO_FOLDER ? null
+    : filterFolder === ALL_FOLDERS || !folders.some(f => f.id === filterFolder) ? undefined
+    : filterFolder;
+  const historyModelIds = useMemo(() => selectHistoryModelIds(chatState), [chatState]);
+  const modelFilterId = filterModelId === ALL_MODELS ? undefined : filterModelId;
+  const from = startOfDay(filterFromDate);
+  const to = endOfDay(filterToDate);
+  const filteredAndSortedSessions = useMemo(
+    () => selectHistorySessions(chatState, { tags: filterTags, folderId: folderFilterId, bookmarkedOnly: filterBookmarked, modelId: modelFilterId, from, to }),
+    [chatState, filterTags, folderFilterId, filterBookmarked, modelFilterId, from, to]
+  );
+  const hasActiveFilters = filterTags.size > 0 || folderFilterId !== undefined || filterBookmarked || !!modelFilterId || !!filterFromDate || !!filterToDate;
+
+  // Messages and session names matching the query, in the sessions the filters leave
+  const searchResults = useMemo((): ChatSearchResult[] | null => {
+    if (!deferredSearchQuery) return null;
+    chatSearchIndex.update(sessions);
+    return chatSearchIndex.search(deferredSearchQuery, { sessionIds: new Set(filteredAndSortedSessions.map(s => s.id)), from, to });
+  }, [deferredSearchQuery, sessions, filteredAndSortedSessions, from, to]);
+  // What the Export menu exports: the listed sessions, or while searching, those with results
+  const exportableSessions = useMemo(() => {
+    if (!searchResults) return filteredAndSortedSessions;
+    const matchingSessionIds = new Set(searchResults.map(result => result.sessionId));
+    return filteredAndSortedSessions.filter(session => matchingSessionIds.has(session.id));
+  }, [searchResults, filteredAndSortedSessions]);
+
+  // --- Session Functions ---
+  const deleteSession = useCallback((sessionIdToDelete: string) => {
+    dispatch({ type: 'deleteSession', sessionId: sessionIdToDelete });
+    deleteKnowledgeBase(sessionKnowledgeBaseId(sessionIdToDelete)).catch(error => console.error("Failed to delete the chat's knowledge base:", error));
+    toast({ title: "Session Deleted", description: "The chat history has been removed." });
+    console.log(`Deleted session: ${sessionIdToDelete}`);
+  }, [dispatch, toast]);
+
+  const startEditingSessionName = useCallback((sessionId: string) => {
+      const session = sessions.find(s => s.id === sessionId);
+      if (session) {
+          setEditingSessionId(sessionId);
+          setEditingSessionName(session.name);
+          setTimeout(() => editNameInputRef.current?.focus(), 50);
+      }
+  }, [sessions]);
+
+  const cancelEditingSessionName = useCallback(() => {
+      setEditingSessionId(null);
+      setEditingSessionName("");
+  }, []);
+
+  const saveEditedSessionName = useCallback((sessionId: string) => {
+      const trimmedName = editingSessionName.trim();
+      if (!trimmedName) {
+          toast({ variant: "destructive", title: "Invalid Name", description: "Session name cannot be empty." });
+          return;
+      }
+      if (trimmedName.length > MAX_SESSION_NAME_LENGTH) {
+           toast({ variant: "destructive", title: "Name Too Long", description: `Session name cannot exceed ${MAX_SESSION_NAME_LENGTH} characters.` });
+           return;
+       }
+      dispatch({ type: 'renameSession', sessionId, name: trimmedName });
+      setEditingSessionId(null);
+      setEditingSessionName("");
+      toast({ title: "Name Updated", description: "Session name has been saved." });
+  }, [editingSessionName, dispatch, toast]);
+
+  const handleEditNameKeyDown = (event: React.KeyboardEvent<HTMLInputElement>, sessionId: string) => {
+      if (event.key === 'Enter') {
+          saveEditedSessionName(sessionId);
+      } else if (event.key === 'Escape') {
+          cancelEditingSessionName();
+      }
+  };
+
+  const toggleBookmark = useCallback((sessionId: string) => {
+      const session = sessions.find(s => s.id === sessionId);
+      dispatch({ type: 'toggleBookmark', sessionId });
+      if (session) {
+          toast({
+              title: session.isBookmarked ? "Bookmark Removed" : "Bookmark Added",
+              description: `Session "${session.name}" ${session.isBookmarked ? 'removed from' : 'added to'} bookmarks.`
+          });
+      }
+  }, [sessions, dispatch, toast]);
+
+  // --- Folder Functions ---
+  const handleCreateFolder = useCallback(() => {
+      const trimmedName = newFolderName.trim();
+      if (!trimmedName) {
+           toast({ variant: "destructive", title: "Invalid Name", description: "Folder name cannot be empty." });
+           return;
+      }
+      dispatch({ type: 'createFolder', folder: { id: createFolderId(), name: trimmedName, createdAt: Date.now() } });
+      toast({ title: "Folder Created", description: `Folder "${trimmedName}" created.`});
+      setNewFolderName("");
+      setShowCreateFolderModal(false);
+  }, [newFolderName, dispatch, toast]);
+
+  const openMoveToFolderModal = useCallback((sessionId: string) => {
+      setSessionToMove(sessionId);
+      setShowMoveToFolderModal(true);
+  }, []);
+
+  const handleMoveSessionToFolder = useCallback((folderId: string | null) => {
+      if (!sessionToMove) return;
+      dispatch({ type: 'moveToFolder', sessionId: sessionToMove, folderId });
+      const session = sessions.find(s => s.id === sessionToMove);
+      const folder = folders.find(f => f.id === folderId);
+      toast({
+           title: "Session Moved",
+           description: `Session "${session?.name}" moved ${folderId ? `to folder "${folder?.name}"` : 'out of folder'}.`
+      });
+      setShowMoveToFolderModal(false);
+      setSessionToMove(null);
+  }, [sessionToMove, sessions, folders, dispatch, toast]);
+
+  // --- Tag Functions ---
+  const startEditingTags = useCallback((sessionId: string) => {
+      const session = sessions.find(s => s.id === sessionId);
+      if (session) {
+          setEditingTagsSessionId(sessionId);
+          setEditingTags(session.tags || []);
+          setNewTagInput("");
+           // Focus input after modal renders
+          setTimeout(() => newTagInputRef.current?.focus(), 50);
+      }
+  }, [sessions]);
+
+  const cancelEditingTags = useCallback(() => {
+      setEditingTagsSessionId(null);
+      setEditingTags([]);
+      setNewTagInput("");
+  }, []);
+
+  const handleAddTag = useCallback(() => {
+      const tagToAdd = newTagInput.trim().toLowerCase();
+      if (tagToAdd && !editingTags.includes(tagToAdd) && tagToAdd.length <= MAX_TAG_LENGTH) {
+          setEditingTags(prev => [...prev, tagToAdd]);
+          setNewTagInput("");
+      } else if (editingTags.includes(tagToAdd)) {
+          toast({ variant: "default", title: "Tag Exists", description: "This tag is already added." });
+      } else if (tagToAdd.length > MAX_TAG_LENGTH) {
+           toast({ variant: "destructive", title: "Tag Too Long", description: `Tags cannot exceed ${MAX_TAG_LENGTH} characters.` });
+      }
+  }, [newTagInput, editingTags, toast]);
+
+  const handleRemoveTag = useCallback((tagToRemove: string) => {
+      setEditingTags(prev => prev.filter(tag => tag !== tagToRemove));
+  }, []);
+
+  const handleSaveTags = useCallback(() => {
+      if (!editingTagsSessionId) return;
+      dispatch({ type: 'setTags', sessionId: editingTagsSessionId, tags: editingTags });
+      toast({ title: "Tags Updated", description: "Session tags have been saved." });
+      cancelEditingTags(); // Close the modal/editing state
+  }, [editingTagsSessionId, editingTags, dispatch, toast, cancelEditingTags]);
+
+  const handleNewTagKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === 'Enter') {
+           event.preventDefault(); // Prevent form submission if inside a form
+           handleAddTag();
+      } else if (event.key === 'Escape') {
+          setNewTagInput(""); // Clear input on escape
+      }
+  };
+
+  const handleTagFilterChange = useCallback((tag: string) => {
+       setFilterTags(prev => {
+           const newSet = new Set(prev);
+           if (newSet.has(tag)) { newSet.delete(tag); }
+           else { newSet.add(tag); }
+           return newSet;
+       });
+   }, []);
+
+  const clearTagFilters = useCallback(() => {
+       setFilterTags(new Set());
+   }, []);
+
+  const clearFilters = useCallback(() => {
+       setFilterTags(new Set());
+       setFilterFolder(ALL_FOLDERS);
+       setFilterModelId(ALL_MODELS);
+       setFilterBookmarked(false);
+       setFilterFromDate("");
+       setFilterToDate("");
+   }, []);
+
+  // --- Export Functions ---
+  const handleExport = useCallback((sessionsToExport: ChatSession[], format: ChatExportFormat, name: string) => {
+      if (sessionsToExport.length === 0) return;
+      try {
+          exportChats(sessionsToExport, format, name, { folders, getModelName });
+      } catch (error) {
+          console.error("Error exporting chats:", error);
+          toast({ variant: "destructive", title: "Export Failed", description: error instanceof Error ? error.message : "Could not export the chats." });
+      }
+  }, [folders, getModelName, toast]);
+
+  // --- Import Functions ---
+  // Sessions of the pending import that were not imported before
+  const newImportedSessions = useMemo(() => {
+      const sessionIds = new Set(sessions.map(s => s.id));
+      return (pendingImport?.sessions ?? []).filter(session => !sessionIds.has(session.id));
+  }, [pendingImport, sessions]);
+
+  const handleImportFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (importInputRef.current) importInputRef.current.value = '';
+      if (!file) return;
+      setIsReadingImport(true);
+      try {
+          setPendingImport(await readChatImportFile(file));
+      } catch (error) {
+          console.error(`Error reading ${file.name}:`, error);
+          toast({ variant: "destructive", title: "Import Failed", description: error instanceof Error ? error.message : "Could not read the file." });
+      } finally {
+          setIsReadingImport(false);
+      }
+  }, [toast]);
+
+  const handleConfirmImport = useCallback(() => {
+      if (!pendingImport) return;
+      dispatch({ type: 'importChats', sessions: newImportedSessions, folders: pendingImport.folders });
+      toast({ title: "Chats Imported", description: `${newImportedSessions.length} chat${newImportedSessions.length !== 1 ? 's' : ''} imported from ${CHAT_IMPORT_SOURCE_LABELS[pendingImport.source]}.` });
+      setPendingImport(null);
+  }, [pendingImport, newImportedSessions, dispatch, toast]);
+
+  // Names the export of the listed sessions after what they are filtered by
+  const filteredExportName = folderFilterId ? folders.find(f => f.id === folderFilterId)?.name ?? 'chats'
+    : folderFilterId === null ? 'chats-without-folder'
+    : filterTags.size > 0 ? `chats-${Array.from(filterTags).join('-')}`
+    : searchResults ? `chats-${deferredSearchQuery}`
+    : 'chat-history';
+
+  return (
+        <TabsContent value="history" className="flex-1 overflow-hidden p-0 m-0 data-[state=inactive]:hidden">
+          <div className="h-full flex flex-col">
+              <div className="p-4 border-b flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+                 <div className="flex items-center gap-3 flex-wrap">
+                     <h3 className="text-lg font-semibold text-primary">Chat History</h3>
+                     <Button size="sm" variant="outline" onClick={() => setShowCreateFolderModal(true)}>
+                         <FolderPlus className="mr-2 h-4 w-4" /> Create Folder
+                     </Button>
+                     <Button size="sm" onClick={onNewChat}>
+                         <PlusCircle className="mr-2 h-4 w-4" /> New Chat
+                     </Button>
+                     <input type="file" ref={importInputRef} onChange={handleImportFileChange} className="hidden" accept={CHAT_IMPORT_ACCEPT} />
+                     <Button size="sm" variant="outline" onClick={() => importInputRef.current?.click()} disabled={isReadingImport} title="Import chats from ChatGPT, Claude, TypingMind or an export of this app">
+                         {isReadingImport ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />} Import
+                     </Button>
+                     <DropdownMenu>
+                         <DropdownMenuTrigger asChild>
+                             <Button size="sm" variant="outline" disabled={exportableSessions.length === 0}>
+                                 <Download className="mr-2 h-4 w-4" /> Export
+                             </Button>
+                         </DropdownMenuTrigger>
+                         <DropdownMenuContent align="start">
+                             <DropdownMenuLabel>Export {exportableSessions.length} listed chat{exportableSessions.length !== 1 ? 's' : ''}</DropdownMenuLabel>
+                             <DropdownMenuSeparator />
+                             {EXPORT_FORMATS.map(({ format, label }) => (
+                                 <DropdownMenuItem key={format} onSelect={() => handleExport(exportableSessions, format, filteredExportName)}>{label}</DropdownMenuItem>
+                             ))}
+                         </DropdownMenuContent>
+                     </DropdownMenu>
+                 </div>
+                 {/* Tag Filter Section */}
+                  {allAvailableTags.length > 0 && (
+                    <div className="flex items-center gap-2 flex-wrap">
+                        <Label className="text-sm font-medium shrink-0">Filter by Tags:</Label>
+                        <div className="flex gap-1 flex-wrap">
+                            {allAvailableTags.map(tag => (
+                                <Badge
+                                    key={tag}
+                                    variant={filterTags.has(tag) ? "default" : "secondary"}
+                                    onClick={() => handleTagFilterChange(tag)}
+                                    className="cursor-pointer text-xs"
+                                >
+                                    {tag}
+                                </Badge>
+                            ))}
+                        </div>
+                         {filterTags.size > 0 && (
+                             <Button variant="ghost" size="sm" onClick={clearTagFilters} className="text-xs h-auto p-1 text-muted-foreground">Clear</Button>
+                         )}
+                    </div>
+                  )}
+              </div>
+              {/* Search and Filters */}
+              <div className="px-4 py-2 border-b flex items-center gap-2 flex-wrap">
+                  <div className="relative flex-1 min-w-[12rem]">
+                      <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                          type="search"
+                          placeholder="Search messages, chat names, files and models..."
+                          value={searchQuery}
+                          onChange={(e) => setSearchQuery(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Escape' && setSearchQuery("")}
+                          className="h-8 pl-8 text-sm"
+                          dir={isPersian(searchQuery) ? 'rtl' : 'ltr'}
+                      />
+                  </div>
+                  {folders.length > 0 && (
+                      <Select value={folderFilterId === undefined ? ALL_FOLDERS : filterFolder} onValueChange={setFilterFolder}>
+                          <SelectTrigger className="h-8 w-36 text-xs" aria-label="Folder"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                              <SelectItem value={ALL_FOLDERS}>All folders</SelectItem>
+                              <SelectItem value={NO_FOLDER}>Not in a folder</SelectItem>
+                              {folders.map(folder => (<SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>))}
+                          </SelectContent>
+                      </Select>
+                  )}
+                  {historyModelIds.length > 0 && (
+                      <Select value={modelFilterId && historyModelIds.includes(modelFilterId) ? modelFilterId : ALL_MODELS} onValueChange={setFilterModelId}>
+                          <SelectTrigger className="h-8 w-40 text-xs" aria-label="Model"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                              <SelectItem value={ALL_MODELS}>All models</SelectItem>
+                              {historyModelIds.map(modelId => (<SelectItem key={modelId} value={modelId}>{getModelName(modelId)}</SelectItem>))}
+                          </SelectContent>
+                      </Select>
+                  )}
+                  <div className="flex items-center gap-1">
+                      <Input type="date" value={filterFromDate} max={filterToDate || undefined} onChange={(e) => setFilterFromDate(e.target.value)} className="h-8 w-36 text-xs" aria-label="From date" title="From date" />
+                      <span className="text-xs text-muted-foreground">-</span>
+                      <Input type="date" value={filterToDate} min={filterFromDate || undefined} onChange={(e) => setFilterToDate(e.target.value)} className="h-8 w-36 text-xs" aria-label="To date" title="To date" />
+                  </div>
+                  <Button size="sm" variant={filterBookmarked ? "default" : "outline"} className="h-8 text-xs" onClick={() => setFilterBookmarked(prev => !prev)} aria-pressed={filterBookmarked}>
+                      <Bookmark className="mr-1 h-3 w-3" fill={filterBookmarked ? 'currentColor' : 'none'} /> Bookmarked
+                  </Button>
+                  {hasActiveFilters && (
+                      <Button variant="ghost" size="sm" onClick={clearFilters} className="text-xs h-auto p-1 text-muted-foreground">Clear filters</Button>
+                  )}
+              </div>
+               <ScrollArea className="flex-1 p-4">
+                   {searchResults ? (
+                       searchResults.length > 0 ? (
+                           <ul className="space-y-2">
+                               {searchResults.map(result => {
+                                   const session = sessions.find(s => s.id === result.sessionId);
+                                   const message = result.messageId ? session?.messages.find(m => m.id === result.messageId) : undefined;
+                                   const snippetText = result.snippet.map(part => part.text).join('');
+                                   return (
+                                       <li
+                                           key={`${result.sessionId}/${result.messageId ?? ''}`}
+                                           className="p-3 rounded-md border cursor-pointer transition-colors hover:bg-muted/50"
+                                           onClick={() => onSelectSession(result.sessionId, result.messageId ?? undefined)}
+                                       >
+                                           <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                               {session?.isBookmarked && <Bookmark size={12} className="text-yellow-500 shrink-0" fill="currentColor" />}
+                                               <span className="font-medium text-foreground truncate">{message ? session?.name || DEFAULT_SESSION_NAME : <HighlightedSnippet parts={result.snippet} />}</span>
+                                               {message && <span className="shrink-0">· {message.sender === 'user' ? 'You' : getModelName(message.modelId)}</span>}
+                                               <span className="ml-auto shrink-0">{new Date(result.timestamp).toLocaleString()}</span>
+                                           </div>
+                                           {message && (
+                                               <p className={cn("mt-1 text-sm whitespace-pre-wrap break-words line-clamp-3", isPersian(snippetText) ? 'rtl-text' : 'ltr-text')}>
+                                                   <HighlightedSnippet parts={result.snippet} />
+                                               </p>
+                                           )}
+                                       </li>
+                                   );
+                               })}
+                           </ul>
+                       ) : (
+                           <div className="text-center text-muted-foreground py-8">
+                               <p>No messages match &quot;{deferredSearchQuery}&quot;.</p>
+                               {hasActiveFilters && <p className="text-sm mt-1">Try clearing the filters.</p>}
+                           </div>
+                       )
+                   ) : filteredAndSortedSessions.length > 0 ? (
+                       <ul className="space-y-2">
+                           {/* TODO: Group by folder */}
+                           {filteredAndSortedSessions.map((session) => (
+                               <li
+                                   key={session.id}
+                                   className={cn(
+                                       "p-3 rounded-md border flex items-center justify-between gap-2 cursor-pointer transition-colors hover:bg-muted/50",
+                                       session.id === activeSessionId && "bg-accent/20 border-accent"
+                                   )}
+                                   onClick={() => onSelectSession(session.id)}
+                               >
+                                  <div className="flex-1 min-w-0 flex items-center gap-2">
+                                      {/* Bookmark Icon */}
+                                      <TooltipProvider delayDuration={100}>
+                                          <Tooltip>
+                                              <TooltipTrigger asChild>
+                                                  <Button variant="ghost" size="icon" className={cn("h-7 w-7 shrink-0 text-muted-foreground hover:text-yellow-500", session.isBookmarked && "text-yellow-500 hover:text-yellow-600")} onClick={(e) => { e.stopPropagation(); toggleBookmark(session.id); }}>
+                                                      <Bookmark size={14} fill={session.isBookmarked ? 'currentColor' : 'none'} />
+                                                      <span className="sr-only">{session.isBookmarked ? 'Remove Bookmark' : 'Add Bookmark'}</span>
+                                                  </Button>
+                                              </TooltipTrigger>
+                                              <TooltipContent side="top"><p>{session.isBookmarked ? 'Remove Bookmark' : 'Add Bookmark'}</p></TooltipContent>
+                                          </Tooltip>
+                                      </TooltipProvider>
+
+                                      {/* Session Info */}
+                                      <div className="flex-1 min-w-0">
+                                          {editingSessionId === session.id ? (
+                                              <div className="flex items-center gap-2">
+                                                  <Input ref={editNameInputRef} type="text" value={editingSessionName} onClick={(e) => e.stopPropagation()} onChange={(e) => setEditingSessionName(e.target.value)} onKeyDown={(e) => handleEditNameKeyDown(e, session.id)} onBlur={() => saveEditedSessionName(session.id)} className="h-8 text-sm flex-1" maxLength={MAX_SESSION_NAME_LENGTH}/>
+                                                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={(e) => { e.stopPropagation(); saveEditedSessionName(session.id); }}> <CheckCircle size={16} className="text-green-600" /> </Button>
+                                                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={(e) => { e.stopPropagation(); cancelEditingSessionName(); }}> <X size={16} /> </Button>
+                                              </div>
+                                          ) : (
+                                              <p className="text-sm font-medium truncate" title={session.name}>{session.name || DEFAULT_SESSION_NAME}</p>
+                                          )}
+                                          <p className="text-xs text-muted-foreground mt-1">
+                                              {session.messages.length} message{session.messages.length !== 1 ? 's' : ''} - {new Date(session.lastModified).toLocaleString()}
+                                              {session.folderId && <Badge variant="outline" className="ml-2 text-xs">{folders.find(f => f.id === session.folderId)?.name || 'Folder'}</Badge>}
+                                          </p>
+                                          {/* Display Tags */}
+                                          {session.tags && session.tags.length > 0 && (
+                                             <div className="mt-1 flex flex-wrap gap-1">
+                                                 {session.tags.map(tag => (
+                                                     <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                                                 ))}
+                                             </div>
+                                          )}
+                                      </div>
+                                  </div>
+
+                                  {/* Action Buttons */}
+                                   <div className="flex items-center gap-1 shrink-0">
+                                      {/* Edit Name */}
+                                     {!editingSessionId && (
+                                      <TooltipProvider delayDuration={100}>
+                                       <Tooltip><TooltipTrigger asChild>
+                                         <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-primary" onClick={(e) => { e.stopPropagation(); startEditingSessionName(session.id); }}><Edit2 size={14} /><span className="sr-only">Rename</span></Button>
+                                        </TooltipTrigger><TooltipContent side="top"><p>Rename</p></TooltipContent></Tooltip>
+                                       </TooltipProvider>
+                                     )}
+                                      {/* Delete Session */}
+                                      <AlertDialog>
+                                         <AlertDialogTrigger asChild>
+                                           <TooltipProvider delayDuration={100}><Tooltip><TooltipTrigger asChild>
+                                             <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive" onClick={(e) => e.stopPropagation()}><Trash2 size={14} /><span className="sr-only">Delete</span></Button>
+                                           </TooltipTrigger><TooltipContent side="top"><p>Delete</p></TooltipContent></Tooltip></TooltipProvider>
+                                          </AlertDialogTrigger>
+                                         <AlertDialogContent onClick={(e) => e.stopPropagation()}> <AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. This will permanently delete the chat session "{session.name}".</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={() => deleteSession(session.id)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction></AlertDialogFooter></AlertDialogContent>
+                                     </AlertDialog>
+                                     {/* Move to Folder */}
+                                       <TooltipProvider delayDuration={100}><Tooltip><TooltipTrigger asChild>
+                                          <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-blue-500" onClick={(e) => {e.stopPropagation(); openMoveToFolderModal(session.id); }}><FolderPlus size={14} /><span className="sr-only">Move to Folder</span></Button>
+                                         </TooltipTrigger><TooltipContent side="top"><p>Move to Folder</p></TooltipContent></Tooltip></TooltipProvider>
+                                      {/* Edit Tags */}
+                                       <TooltipProvider delayDuration={100}><Tooltip><TooltipTrigger asChild>
+                                          <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-purple-500" onClick={(e) => { e.stopPropagation(); startEditingTags(session.id); }}>
+                                             <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-tags"><path d="M9 5H2v7l6.29 6.29c.94.94 2.48.94 3.42 0l3.58-3.58c.94-.94.94-2.48 0-3.42L9 5Z"/><path d="M6 9.01V9"/><path d="m15 5 6.3 6.3a2.65 2.65 0 0 1 0 3.72L18.7 17.6a2.65 2.65 0 0 1-3.72 0L15 15"/><path d="m12 15-3-3"/></svg>
+                                             <span className="sr-only">Edit Tags</span>
+                                          </Button>
+                                         </TooltipTrigger><TooltipContent side="top"><p>Edit Tags</p></TooltipContent></Tooltip></TooltipProvider>
+                                      {/* Export */}
+                                      <DropdownMenu>
+                                         <DropdownMenuTrigger asChild>
+                                            <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-green-600" title="Export" onClick={(e) => e.stopPropagation()}><Download size={14} /><span className="sr-only">Export</span></Button>
+                                         </DropdownMenuTrigger>
+                                         <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                                            <DropdownMenuLabel>Export Chat</DropdownMenuLabel>
+                                            <DropdownMenuSeparator />
+                                            {EXPORT_FORMATS.map(({ format, label }) => (
+                                                <DropdownMenuItem key={format} onSelect={() => handleExport([session], format, session.name || DEFAULT_SESSION_NAME)}>{label}</DropdownMenuItem>
+                                            ))}
+                                         </DropdownMenuContent>
+                                      </DropdownMenu>
+                                   </div>
+                               </li>
+                           ))}
+                       </ul>
+                   ) : (
+                       <div className="text-center text-muted-foreground py-8">
+                           <p>No chat history found.</p>
+                           {hasActiveFilters && <p className="text-sm mt-1">Try clearing the filters.</p>}
+                           <Button size="sm" variant="link" onClick={onNewChat} className="mt-2">Start a new chat</Button>
+                       </div>
+                   )}
+                </ScrollArea>
+
+                 {/* Create Folder Modal */}
+                 <AlertDialog open={showCreateFolderModal} onOpenChange={setShowCreateFolderModal}>
+                     <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Create New Folder</AlertDialogTitle>
+                            <AlertDialogDescription>Enter a name for your new folder.</AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <div className="py-4">
+                              <Input
+                                  id="new-folder-name"
+                                  placeholder="Folder Name"
+                                  value={newFolderName}
+                                  onChange={(e) => setNewFolderName(e.target.value)}
+                                  maxLength={30} // Optional: Limit folder name length
+                              />
+                          </div>
+                          <AlertDialogFooter>
+                              <AlertDialogCancel onClick={() => setNewFolderName("")}>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={handleCreateFolder} disabled={!newFolderName.trim()}>Create</AlertDialogAction>
+                          </AlertDialogFooter>
+                     </AlertDialogContent>
+                 </AlertDialog>
+
+                  {/* Move to Folder Modal */}
+                 <AlertDialog open={showMoveToFolderModal} onOpenChange={setShowMoveToFolderModal}>
+                     <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Move Session to Folder</AlertDialogTitle>
+                            <AlertDialogDescription>Select a folder to move this session to, or move it out of folders.</AlertDialogDescription>
+                          </AlertDialogHeader>
+                           <ScrollArea className="max-h-60 my-4">
+                             <div className="space-y-2 pr-4">
+                                 <Button variant="ghost" className="w-full justify-start" onClick={() => handleMoveSessionToFolder(null)}>
+                                     (Move out of folder)
+                                 </Button>
+                                 {folders.map(folder => (
+                                     <Button key={folder.id} variant="ghost" className="w-full justify-start" onClick={() => handleMoveSessionToFolder(folder.id)}>
+                                         <FolderPlus size={16} className="mr-2"/> {folder.name}
+                                     </Button>
+                                 ))}
+                                 {folders.length === 0 && <p className="text-sm text-muted-foreground text-center py-2">No folders created yet.</p>}
+                              </div>
+                            </ScrollArea>
+                          <AlertDialogFooter>
+                              <AlertDialogCancel onClick={() => setSessionToMove(null)}>Cancel</AlertDialogCancel>
+                          </AlertDialogFooter>
+                     </AlertDialogContent>
+                 </AlertDialog>
+
+                 {/* Import Preview Modal */}
+                 <AlertDialog open={!!pendingImport} onOpenChange={(open) => !open && setPendingImport(null)}>
+                     <AlertDialogContent className="max-w-2xl">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Import from {pendingImport && CHAT_IMPORT_SOURCE_LABELS[pendingImport.source]}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                {pendingImport?.sessions.length} conversation{pendingImport?.sessions.length !== 1 ? 's' : ''} found
+                                {pendingImport && newImportedSessions.length < pendingImport.sessions.length && `, ${pendingImport.sessions.length - newImportedSessions.length} of which were imported before and will be skipped`}.
+                                {' '}Branched conversations are imported with the branch that was shown last.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <ScrollArea className="max-h-80 my-2">
+                              <ul className="space-y-1 pr-4">
+                                  {pendingImport?.sessions.map(session => {
+                                      const isNew = newImportedSessions.includes(session);
+                                      return (
+                                          <li key={session.id} className={cn("flex items-center gap-2 text-sm py-1", !isNew && "text-muted-foreground")}>
+                                              <span className="truncate flex-1" title={session.name}>{session.name}</span>
+                                              {session.modelId && <Badge variant="secondary" className="text-xs shrink-0">{getModelName(session.modelId)}</Badge>}
+                                              <span className="text-xs text-muted-foreground whitespace-nowrap">{session.messages.length} message{session.messages.length !== 1 ? 's' : ''} - {new Date(session.createdAt).toLocaleDateString()}</span>
+                                              {!isNew && <Badge variant="outline" className="text-xs shrink-0">Already imported</Badge>}
+                                          </li>
+                                      );
+                                  })}
+                              </ul>
+                          </ScrollArea>
+                          <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={handleConfirmImport} disabled={newImportedSessions.length === 0}>
+                                  Import {newImportedSessions.length} Chat{newImportedSessions.length !== 1 ? 's' : ''}
+                              </AlertDialogAction>
+                          </AlertDialogFooter>
+                     </AlertDialogContent>
+                 </AlertDialog>
+
+                 {/* Edit Tags Modal */}
+                 <AlertDialog open={!!editingTagsSessionId} onOpenChange={(open) => !open && cancelEditingTags()}>
+                      <AlertDialogContent>
+                         <AlertDialogHeader>
+                             <AlertDialogTitle>Edit Tags</AlertDialogTitle>
+                             <AlertDialogDescription>Add or remove tags for this session.</AlertDialogDescription>
+                         </AlertDialogHeader>
+                         <div className="py-4 space-y-4">
+                              {/* Existing Tags */}
+                              <div className="flex flex-wrap gap-2">
+                                  {editingTags.length > 0 ? editingTags.map(tag => (
+                                      <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+                                         {tag}
+                                          <Button variant="ghost" size="icon" onClick={() => handleRemoveTag(tag)} className="h-4 w-4 ml-1 p-0">
+                                             <X size={12} />
+                                             <span className="sr-only">Remove tag {tag}</span>
+                                          </Button>
+                                      </Badge>
+                                  )) : <p className="text-sm text-muted-foreground">No tags yet.</p>}
+                              </div>
+                              {/* Add New Tag Input */}
+                              <div className="flex items-center gap-2">
+                                  <Input
+                                      ref={newTagInputRef}
+                                      id="new-tag-input"
+                                      placeholder="Add a tag (e.g., project-alpha)"
+                                      value={newTagInput}
+                                      onChange={(e) => setNewTagInput(e.target.value)}
+                                      onKeyDown={handleNewTagKeyDown}
+                                      maxLength={MAX_TAG_LENGTH}
+                                      className="flex-1"
+                                  />
+                                  <Button onClick={handleAddTag} disabled={!newTagInput.trim()}>Add</Button>
+                              </div>
+                         </div>
+                          <AlertDialogFooter>
+                             <AlertDialogCancel onClick={cancelEditingTags}>Cancel</AlertDialogCancel>
+                             <AlertDialogAction onClick={handleSaveTags}>Save Tags</AlertDialogAction>
+                         </AlertDialogFooter>
+                      </AlertDialogContent>
+                  </AlertDialog>
+
+             </div>
+        </TabsContent>
+  );
+}
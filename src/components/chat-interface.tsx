@@ -1,28 +1,33 @@
-
-
-
-
 'use client';
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Send, Paperclip, Mic, Bot, User, DollarSign, BarChart, BrainCircuit, ChevronDown, Settings, Key, Save, CheckCircle, RefreshCw, Loader2, Trash2, FolderPlus, Bookmark, PlusCircle, Edit2, X } from 'lucide-react';
+import { Send, Paperclip, Mic, BrainCircuit, ChevronDown, RefreshCw, Loader2, PlusCircle, X, Square, Repeat, SlidersHorizontal, Sparkles, BookOpen, Wrench, Braces } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { ScrollArea } from '@/components/ui/scroll-area';
-import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { smartAssistantPrompting, SmartAssistantPromptingInput, SmartAssistantPromptingOutput } from '@/ai/flows/smart-assistant-prompting';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { GOOGLE_PROVIDER, OPENAI_COMPATIBLE_PROVIDER, canCallTools, getAttachmentSupport, getProviderDescriptor, getProviderDescriptorForModel, type ProviderModelInfo } from '@/ai/providers/descriptors';
+import { BUILT_IN_TOOLS } from '@/ai/tools/descriptors';
+import { estimateTokens } from '@/ai/context-window';
+import type { AIModelOptions } from '@/services/ai-api';
 import { cn, isPersian } from '@/lib/utils';
-import { Skeleton } from '@/components/ui/skeleton';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableCaption } from "@/components/ui/table";
+import { EXTRACTABLE_DOCUMENT_ACCEPT, extractDocumentText, isExtractableDocument } from '@/lib/document-extraction';
+import { getStorageEstimate, type Attachment, type ChatSession } from '@/lib/chat-storage';
+import { DEFAULT_SESSION_NAME, createSessionId, selectActiveSession, type SessionSettings } from '@/lib/chat-store';
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import GenerationOptionsFields from '@/components/generation-options-fields';
+import KnowledgeBasePanel from '@/components/knowledge-base-panel';
+import OutputSchemaPicker from '@/components/output-schema-picker';
+import ChatMessagesTab, { isImageAttachment } from '@/components/chat-messages-tab';
+import ChatHistoryTab from '@/components/chat-history-tab';
+import ChatAnalysisTab from '@/components/chat-analysis-tab';
+import ChatSettingsTab from '@/components/chat-settings-tab';
+import type { OutputSchema } from '@/ai/structured-output';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
@@ -35,264 +40,126 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { chatStore, loadChats, useChatStore } from "@/hooks/use-chat-store";
+import { DEFAULT_GOOGLE_MODELS, toRequestOptions, useChatSettings, type Assistant } from "@/hooks/use-chat-settings";
+import { getSessionFallbackModels, getSessionKnowledgeBases, useChatSend } from "@/hooks/use-chat-send";
 
-// --- Constants ---
-const DEFAULT_SESSION_NAME = "New Chat";
-const MAX_SESSION_NAME_LENGTH = 50;
-const SESSION_NAME_TRUNCATE_LENGTH = 30;
-const MAX_SELECTABLE_OPENROUTER_MODELS = 20; // Maximum number of models user can select
-
-// --- Local Storage Keys ---
-const CHAT_SESSIONS_STORAGE_KEY = 'chat_sessions';
-const ACTIVE_SESSION_ID_STORAGE_KEY = 'active_chat_session_id';
-const OPENROUTER_API_KEY_STORAGE_KEY = 'openrouter_api_key';
-const SELECTED_OPENROUTER_MODELS_KEY = 'selected_openrouter_models';
-const CHAT_FOLDERS_STORAGE_KEY = 'chat_folders'; // Placeholder for future folder feature
-
-// --- Default Models ---
-const DEFAULT_GOOGLE_MODELS = [
-  { id: 'googleai/gemini-2.0-flash', name: 'Google Gemini 2.0 Flash', provider: 'google' as const },
-];
-
-// --- Interfaces ---
-interface Message {
-  id: string;
-  sender: 'user' | 'ai';
-  text: string;
-  file?: { name: string; dataUri: string };
-  cost?: number;
-  timestamp: number;
-  modelId?: string;
-  isError?: boolean;
-  thinkingSteps?: string[]; // Added for thinking steps
-}
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 
-interface AIModelInfo {
-    id: string;
-    name: string;
-    provider: 'google' | 'openrouter';
-    context_length?: number;
-}
+const MAX_ATTACHMENTS = 10;
+const MAX_ATTACHMENT_SIZE_BYTES = 10 * 1024 * 1024;
 
-interface OpenRouterApiModel {
-    id: string;
-    name: string;
-    description: string;
-    pricing: { prompt: string; completion: string; request: string; image: string; };
-    context_length: number;
-    architecture: { modality: string; tokenizer: string; instruct_type: string | null; };
-    top_provider: { max_completion_tokens: number | null; is_moderated: boolean; };
-    per_request_limits: { prompt_tokens: string; completion_tokens: string; } | null;
-}
-
-// --- Chat Session Interface ---
-interface ChatSession {
-  id: string;
-  name: string;
-  messages: Message[];
-  createdAt: number;
-  lastModified: number;
-  totalCost: number;
-  modelId?: string; // Optional: Store the *last used* or *predominant* model for the session
-  folderId?: string | null; // For future folder feature
-  isBookmarked?: boolean; // For bookmark feature
-  tags?: string[]; // Add tags field
-}
+// Matches a file name's extension against an `accept` list such as ".png,.jpg" (null accepts nothing)
+const isFileAccepted = (fileName: string, accept: string | null): boolean => {
+  if (!accept) return false;
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+  return accept.split(',').includes(extension);
+};
 
-// --- Folder Interface (Placeholder) ---
-interface ChatFolder {
-    id: string;
-    name: string;
-    createdAt: number;
-}
+const readFileAsDataUri = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
 
+// Extracted documents can go to any model; other files only to models that read them directly
+const isAttachmentSendable = (attachment: Attachment, accept: string | null): boolean =>
+  attachment.extractedText !== undefined || isFileAccepted(attachment.name, accept);
 
-// --- Pricing Simulation ---
-const COST_PER_INPUT_CHAR_DEFAULT = 0.000005;
-const COST_PER_OUTPUT_CHAR_DEFAULT = 0.000015;
-const COST_PER_FILE_ANALYSIS_GOOGLE = 0.01;
-
-const formatCurrency = (amount: number | undefined | null): string => {
-  if (amount === undefined || amount === null) return '$0.0000';
-  if (amount === 0) return '$0.0000';
-  if (amount < 0.0001 && amount > 0) return `$${amount.toExponential(2)}`;
-  if (amount < 0.01 && amount > 0) return `$${amount.toFixed(6)}`;
-  return `$${amount.toFixed(4)}`;
-};
-
-const calculateCost = (modelId: string, inputLength: number, outputLength: number, hasFile: boolean): number => {
-  let inputCostPerChar = COST_PER_INPUT_CHAR_DEFAULT;
-  let outputCostPerChar = COST_PER_OUTPUT_CHAR_DEFAULT;
-  let fileCost = 0;
-
-  if (modelId.includes('gpt-4') || modelId.includes('claude-3-opus') || modelId.includes('gemini-1.5-pro')) {
-      inputCostPerChar = 0.000015; outputCostPerChar = 0.000045;
-  } else if (modelId.includes('claude-3-sonnet') || modelId.includes('gpt-4o') || modelId.includes('gemini-1.5-flash')) {
-      inputCostPerChar = 0.000005; outputCostPerChar = 0.000015;
-  } else if (modelId.startsWith('googleai/gemini-2.0-flash')) {
-      inputCostPerChar = 0.000001; outputCostPerChar = 0.000002;
-  } else if (modelId.startsWith('openrouter/')) {
-      // Example: Using OpenRouter's published pricing (adjust as needed per model)
-      // Mistral 7B: $0.07 / 1M input, $0.25 / 1M output tokens
-      // Roughly: 1 token ~ 4 chars
-      inputCostPerChar = (0.07 / 1_000_000) / 4; // ~$0.0000000175 per char
-      outputCostPerChar = (0.25 / 1_000_000) / 4; // ~$0.0000000625 per char
-      // Use defaults as a fallback or more specific logic if needed
-      // inputCostPerChar = COST_PER_INPUT_CHAR_DEFAULT;
-      // outputCostPerChar = COST_PER_OUTPUT_CHAR_DEFAULT;
-  }
-
-  if (hasFile && modelId.startsWith('googleai/')) { fileCost = COST_PER_FILE_ANALYSIS_GOOGLE; }
-  else if (hasFile && modelId.startsWith('openrouter/')) { fileCost = 0.005; console.warn(`File cost for ${modelId} is placeholder.`); }
-
-  return (inputLength * inputCostPerChar) + (outputLength * outputCostPerChar) + fileCost;
-};
+// Warn when attached documents would take up more than this share of the model's context window
+const DOCUMENT_CONTEXT_WARNING_RATIO = 0.75;
 
 
 // --- Component ---
 export default function ChatInterface() {
   const { toast } = useToast();
   const [input, setInput] = useState<string>('');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [fileDataUri, setFileDataUri] = useState<string | undefined>(undefined);
-  const [isSending, setIsSending] = useState<boolean>(false);
+  const [attachments, setAttachments] = useState<Attachment[]>([]); // Files to send with the next message
+  const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
+  const [isProcessingAttachments, setIsProcessingAttachments] = useState<boolean>(false); // Reading files and extracting document text
   const [error, setError] = useState<string | null>(null);
   const [isListening, setIsListening] = useState<boolean>(false);
   const [isSpeechRecognitionSupported, setIsSpeechRecognitionSupported] = useState<boolean>(false);
-  const [thinkingMessageId, setThinkingMessageId] = useState<string | null>(null); // ID of the message currently showing thinking steps
-  const [openRouterApiKey, setOpenRouterApiKey] = useState<string>('');
-  const [apiKeySaved, setApiKeySaved] = useState<boolean>(false);
-  const [allOpenRouterModels, setAllOpenRouterModels] = useState<OpenRouterApiModel[]>([]);
-  const [selectedOpenRouterModelIds, setSelectedOpenRouterModelIds] = useState<Set<string>>(new Set());
-  const [activeModels, setActiveModels] = useState<AIModelInfo[]>(DEFAULT_GOOGLE_MODELS);
-  const [selectedModel, setSelectedModel] = useState<AIModelInfo>(DEFAULT_GOOGLE_MODELS[0]);
-  const [isFetchingModels, setIsFetchingModels] = useState<boolean>(false);
-  const [fetchModelsError, setFetchModelsError] = useState<string | null>(null);
-  const [filterTerm, setFilterTerm] = useState<string>("");
+  const [selectedModel, setSelectedModel] = useState<ProviderModelInfo>(DEFAULT_GOOGLE_MODELS[0]);
   const [activeTab, setActiveTab] = useState<string>("chat");
 
-  // --- Session State ---
-  const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
-  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
-  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
-  const [editingSessionName, setEditingSessionName] = useState<string>("");
-  // --- Folder State ---
-  const [folders, setFolders] = useState<ChatFolder[]>([]);
-  const [showCreateFolderModal, setShowCreateFolderModal] = useState(false);
-  const [newFolderName, setNewFolderName] = useState("");
-  const [showMoveToFolderModal, setShowMoveToFolderModal] = useState(false);
-  const [sessionToMove, setSessionToMove] = useState<string | null>(null);
-  // --- Tag State ---
-  const [editingTagsSessionId, setEditingTagsSessionId] = useState<string | null>(null);
-  const [editingTags, setEditingTags] = useState<string[]>([]);
-  const [newTagInput, setNewTagInput] = useState("");
-  const [filterTags, setFilterTags] = useState<Set<string>>(new Set());
+  // --- Settings (saved in localStorage, changed in the Settings tab) ---
+  const settings = useChatSettings();
+  const { assistants, availableModels, knowledgeSettings, savedOutputSchemas, saveOutputSchemas, getModelConnection } = settings;
+  const enabledMcpServers = settings.mcpServers.filter(server => server.enabled);
+
+  // --- Session State (shared with the tab components through the chat store) ---
+  const chatState = useChatStore();
+  const { sessions: chatSessions, folders, activeSessionId, isLoaded: isChatDataLoaded, storageQuotaExceeded } = chatState;
+  const { dispatch } = chatStore;
+  // Message opened from a History search result, scrolled to and highlighted until the next message is sent
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
 
+  const { send, stop: handleStop, isSending, generatingMessageId } = useChatSend(settings, setError);
 
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const chatScrollAreaRef = useRef<HTMLDivElement>(null);
-  const analyseScrollAreaRef = useRef<HTMLDivElement>(null);
-  const settingsScrollAreaRef = useRef<HTMLDivElement>(null);
-  const historyScrollAreaRef = useRef<HTMLDivElement>(null);
-  const editNameInputRef = useRef<HTMLInputElement>(null);
-  const newTagInputRef = useRef<HTMLInputElement>(null);
+  const dragDepthRef = useRef(0); // dragenter/dragleave also fire for child elements; count them to know when the drag leaves
   const recognitionRef = useRef<SpeechRecognition | null>(null); // Ref for SpeechRecognition instance
 
   // --- Derived State ---
-  const activeSession = React.useMemo(() => {
-      return chatSessions.find(session => session.id === activeSessionId) || null;
-  }, [chatSessions, activeSessionId]);
+  const activeSession = React.useMemo(() => selectActiveSession(chatState), [chatState]);
 
-  const messages = React.useMemo(() => {
-      return activeSession?.messages ?? [];
-  }, [activeSession]);
+  // Knowledge bases searched for the active chat: its own, plus its folder's when it is in one
+  const activeKnowledgeBases = React.useMemo(
+      () => activeSession ? getSessionKnowledgeBases(activeSession, folders) : [],
+      [activeSession, folders]
+  );
 
-  const totalCost = React.useMemo(() => {
-      return chatSessions.reduce((sum, session) => sum + (session.totalCost ?? 0), 0);
-  }, [chatSessions]);
+  const selectedProvider = React.useMemo(() => getProviderDescriptorForModel(selectedModel.id), [selectedModel.id]);
+  // Which files the selected model accepts; `reason` explains why attachments are blocked or limited
+  const attachmentSupport = React.useMemo(() => getAttachmentSupport(selectedModel), [selectedModel]);
+  const attachmentAccept = [EXTRACTABLE_DOCUMENT_ACCEPT, attachmentSupport.accept].filter(Boolean).join(',');
+  // An attachment the selected model cannot read, e.g. a PDF added before switching to a vision model
+  const unsupportedAttachment = attachments.find(attachment => !isAttachmentSendable(attachment, attachmentSupport.accept));
+  // Extracted documents are sent as text, so a large one can crowd out (or overflow) the model's context window
+  const documentTokenEstimate = React.useMemo(
+      () => attachments.reduce((sum, attachment) => sum + (attachment.extractedText ? estimateTokens(attachment.extractedText) : 0), 0),
+      [attachments]
+  );
+  const documentContextWarning = selectedModel.context_length && documentTokenEstimate > selectedModel.context_length * DOCUMENT_CONTEXT_WARNING_RATIO
+      ? `Attached documents are about ${documentTokenEstimate.toLocaleString()} tokens, ${documentTokenEstimate > selectedModel.context_length ? 'more than' : 'close to'} ${selectedModel.name}'s context window of ${selectedModel.context_length.toLocaleString()} tokens. Earlier messages will be dropped and the request may fail; consider a model with a larger context window.`
+      : null;
 
-  const allAiMessages = React.useMemo(() => {
-      return chatSessions.flatMap(session =>
-          session.messages.filter(m => m.sender === 'ai' && !m.isError && m.id !== thinkingMessageId) // Exclude thinking messages
-      );
-  }, [chatSessions, thinkingMessageId]);
+  const isApiKeyMissing = !!selectedProvider?.requiresApiKey && !getModelConnection(selectedModel.id).apiKey;
+
+  const activeAssistant = React.useMemo(() => {
+      return activeSession?.assistantId ? assistants.find(assistant => assistant.id === activeSession.assistantId) ?? null : null;
+  }, [activeSession?.assistantId, assistants]);
+
+  const activeRequestOptions = React.useMemo(() => toRequestOptions(activeSession?.generationOptions), [activeSession?.generationOptions]);
+
+  const sessionFallbackModels = React.useMemo(
+      () => getSessionFallbackModels(activeSession, selectedModel.id, availableModels),
+      [activeSession, availableModels, selectedModel.id]
+  );
 
   // --- Utility Functions ---
   const getModelName = useCallback((modelId: string | undefined): string => {
     if (!modelId) return 'Unknown Model';
-    const model = activeModels.find(m => m.id === modelId) || allOpenRouterModels.find(m => m.id === modelId.replace(/^openrouter\//, ''));
-    return model?.name || modelId;
-  }, [activeModels, allOpenRouterModels]);
-
-  const generateSessionName = (firstMessageText: string): string => {
-    if (!firstMessageText) return DEFAULT_SESSION_NAME;
-    const name = firstMessageText.substring(0, SESSION_NAME_TRUNCATE_LENGTH);
-    return name.length === SESSION_NAME_TRUNCATE_LENGTH ? `${name}...` : name;
-  };
-
-  const generateMessageId = (): string => {
-    return `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-  };
-
-  // --- Local Storage Interaction ---
-  const saveToLocalStorage = useCallback((key: string, data: any) => {
-    try {
-      localStorage.setItem(key, JSON.stringify(data));
-      console.log(`Saved ${key} to localStorage.`);
-    } catch (error) {
-      console.error(`Error saving ${key} to localStorage:`, error);
-      toast({ variant: "destructive", title: `Error Saving ${key}`, description: `Could not save ${key}.` });
-    }
-  }, [toast]);
+    return availableModels.find(m => m.id === modelId)?.name || modelId;
+  }, [availableModels]);
 
-  const loadFromLocalStorage = useCallback(<T>(key: string, defaultValue: T): T => {
-    try {
-      const storedData = localStorage.getItem(key);
-      if (storedData) {
-         // Handle potential non-JSON data for specific keys like API key
-        if (key === OPENROUTER_API_KEY_STORAGE_KEY && !storedData.startsWith('{') && !storedData.startsWith('[')) {
-             console.log(`Loaded ${key} (non-JSON) from localStorage.`);
-             return storedData as T;
-        }
-        const parsedData = JSON.parse(storedData);
-        console.log(`Loaded ${key} from localStorage.`);
-        return parsedData as T;
-      }
-    } catch (error) {
-      console.error(`Error loading ${key} from localStorage:`, error);
-      if (error instanceof SyntaxError && key === OPENROUTER_API_KEY_STORAGE_KEY) {
-          console.warn(`Attempting to load API key ${key} as plain text due to JSON parse error.`);
-          const plainTextKey = localStorage.getItem(key);
-          if (plainTextKey) return plainTextKey as T;
-      } else if (error instanceof SyntaxError) {
-           console.error(`Invalid JSON found for key ${key}, using default value. Data: ${localStorage.getItem(key)}`);
-      }
-      // Do not remove item if it's just a parse error, might be valid non-JSON like API key
-      // localStorage.removeItem(key);
-    }
-    return defaultValue;
+  // Writes again whatever a failed save left out, e.g. after chats were deleted to free space
+  const retryChatSave = useCallback(() => {
+    void chatStore.flush();
   }, []);
 
 
   // --- Session Management Functions ---
-  const createNewSession = useCallback(() => {
-    const newSessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  const createNewSession = useCallback((assistant?: Assistant) => {
+    const newSessionId = createSessionId();
     const newSession: ChatSession = {
       id: newSessionId,
-      name: DEFAULT_SESSION_NAME,
+      name: assistant ? assistant.name : DEFAULT_SESSION_NAME,
       messages: [],
       createdAt: Date.now(),
       lastModified: Date.now(),
@@ -300,384 +167,104 @@ export default function ChatInterface() {
       folderId: null,
       isBookmarked: false,
       tags: [], // Initialize tags
+      ...(assistant && { assistantId: assistant.id, generationOptions: assistant.defaultOptions }),
     };
 
-    setChatSessions(prevSessions => {
-        const updatedSessions = [newSession, ...prevSessions];
-        saveToLocalStorage(CHAT_SESSIONS_STORAGE_KEY, updatedSessions);
-        return updatedSessions;
-    });
-    setActiveSessionId(newSessionId);
-    localStorage.setItem(ACTIVE_SESSION_ID_STORAGE_KEY, newSessionId);
+    dispatch({ type: 'createSession', session: newSession });
     setInput('');
-    setSelectedFile(null);
-    setFileDataUri(undefined);
+    setAttachments([]);
     setError(null);
-    setThinkingMessageId(null); // Clear thinking message on new session
+    setFocusedMessageId(null);
     setActiveTab("chat");
-    console.log(`Created new session: ${newSessionId}`);
-  }, [saveToLocalStorage]);
+    console.log(`Created new session: ${newSessionId}${assistant ? ` from assistant ${assistant.name}` : ''}`);
+  }, [dispatch]);
+
+
+  // Starts a chat from an assistant, switching to its default model when that model is available
+  const startSessionWithAssistant = useCallback((assistant: Assistant) => {
+    createNewSession(assistant);
+    const defaultModel = assistant.defaultModelId ? availableModels.find(model => model.id === assistant.defaultModelId) : undefined;
+    if (defaultModel) {
+        setSelectedModel(defaultModel);
+    } else if (assistant.defaultModelId) {
+        toast({ variant: "destructive", title: "Model Unavailable", description: `${assistant.name}'s default model is not available; using ${selectedModel.name}.` });
+    }
+  }, [createNewSession, availableModels, selectedModel.name, toast]);
 
-  const switchSession = useCallback((sessionId: string) => {
-    if (sessionId === activeSessionId) return;
+  const switchSession = useCallback((sessionId: string, messageId?: string) => {
+    setFocusedMessageId(messageId ?? null);
+    if (sessionId === activeSessionId) {
+      if (messageId) setActiveTab("chat");
+      return;
+    }
     const sessionExists = chatSessions.some(s => s.id === sessionId);
     if (sessionExists) {
-      setActiveSessionId(sessionId);
-      localStorage.setItem(ACTIVE_SESSION_ID_STORAGE_KEY, sessionId);
+      dispatch({ type: 'setActiveSession', sessionId });
       setInput('');
-      setSelectedFile(null);
-      setFileDataUri(undefined);
+      setAttachments([]);
       setError(null);
-      setThinkingMessageId(null); // Clear thinking message on session switch
       setActiveTab("chat");
       console.log(`Switched to session: ${sessionId}`);
     } else {
       console.warn(`Attempted to switch to non-existent session: ${sessionId}`);
-      const currentActive = localStorage.getItem(ACTIVE_SESSION_ID_STORAGE_KEY);
-      if (!currentActive || !chatSessions.some(s => s.id === currentActive)) {
+      if (!activeSessionId || !chatSessions.some(s => s.id === activeSessionId)) {
          createNewSession();
       }
     }
-  }, [chatSessions, activeSessionId, createNewSession]);
-
-  const deleteSession = useCallback((sessionIdToDelete: string) => {
-    setChatSessions(prevSessions => {
-      const updatedSessions = prevSessions.filter(session => session.id !== sessionIdToDelete);
-      saveToLocalStorage(CHAT_SESSIONS_STORAGE_KEY, updatedSessions);
-
-      if (activeSessionId === sessionIdToDelete) {
-        let newActiveSessionId: string | null = null;
-        if (updatedSessions.length > 0) {
-          newActiveSessionId = updatedSessions[0].id;
-        } else {
-          setActiveSessionId(null);
-          localStorage.removeItem(ACTIVE_SESSION_ID_STORAGE_KEY);
-        }
-
-        if (newActiveSessionId) {
-           setActiveSessionId(newActiveSessionId);
-           localStorage.setItem(ACTIVE_SESSION_ID_STORAGE_KEY, newActiveSessionId);
-        } else {
-            createNewSession(); // Create a new one if all are deleted
-        }
-      }
-      return updatedSessions;
-    });
-    toast({ title: "Session Deleted", description: "The chat history has been removed." });
-    console.log(`Deleted session: ${sessionIdToDelete}`);
-  }, [activeSessionId, saveToLocalStorage, toast, createNewSession]);
-
-  const startEditingSessionName = useCallback((sessionId: string) => {
-      const session = chatSessions.find(s => s.id === sessionId);
-      if (session) {
-          setEditingSessionId(sessionId);
-          setEditingSessionName(session.name);
-          setTimeout(() => editNameInputRef.current?.focus(), 50);
-      }
-  }, [chatSessions]);
+  }, [chatSessions, activeSessionId, dispatch, createNewSession]);
 
-  const cancelEditingSessionName = useCallback(() => {
-      setEditingSessionId(null);
-      setEditingSessionName("");
-  }, []);
+   const updateActiveSessionSettings = useCallback((sessionSettings: Partial<SessionSettings>) => {
+       if (!activeSessionId) return;
+       dispatch({ type: 'updateSessionSettings', sessionId: activeSessionId, settings: sessionSettings });
+   }, [activeSessionId, dispatch]);
 
-  const saveEditedSessionName = useCallback((sessionId: string) => {
-      const trimmedName = editingSessionName.trim();
-      if (!trimmedName) {
-          toast({ variant: "destructive", title: "Invalid Name", description: "Session name cannot be empty." });
-          return;
-      }
-      if (trimmedName.length > MAX_SESSION_NAME_LENGTH) {
-           toast({ variant: "destructive", title: "Name Too Long", description: `Session name cannot exceed ${MAX_SESSION_NAME_LENGTH} characters.` });
-           return;
-       }
-
-      setChatSessions(prevSessions => {
-          const updatedSessions = prevSessions.map(session =>
-              session.id === sessionId ? { ...session, name: trimmedName, lastModified: Date.now() } : session
-          );
-          saveToLocalStorage(CHAT_SESSIONS_STORAGE_KEY, updatedSessions);
-          return updatedSessions;
-      });
-      setEditingSessionId(null);
-      setEditingSessionName("");
-      toast({ title: "Name Updated", description: "Session name has been saved." });
-  }, [editingSessionName, saveToLocalStorage, toast]);
-
-   const toggleBookmark = useCallback((sessionId: string) => {
-       setChatSessions(prevSessions => {
-           const updatedSessions = prevSessions.map(session =>
-               session.id === sessionId ? { ...session, isBookmarked: !session.isBookmarked, lastModified: Date.now() } : session
-           );
-           saveToLocalStorage(CHAT_SESSIONS_STORAGE_KEY, updatedSessions);
-           return updatedSessions;
-       });
-       const session = chatSessions.find(s => s.id === sessionId);
-       if (session) {
-           toast({
-               title: session.isBookmarked ? "Bookmark Removed" : "Bookmark Added",
-               description: `Session "${session.name}" ${session.isBookmarked ? 'removed from' : 'added to'} bookmarks.`
-           });
-       }
-   }, [chatSessions, saveToLocalStorage, toast]);
-
-   // --- Folder Functions ---
-   const handleCreateFolder = useCallback(() => {
-        const trimmedName = newFolderName.trim();
-        if (!trimmedName) {
-             toast({ variant: "destructive", title: "Invalid Name", description: "Folder name cannot be empty." });
-             return;
-        }
-        const newFolder: ChatFolder = {
-           id: `folder_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-           name: trimmedName,
-           createdAt: Date.now(),
-        };
-        setFolders(prev => {
-           const updated = [...prev, newFolder];
-           saveToLocalStorage(CHAT_FOLDERS_STORAGE_KEY, updated);
-           return updated;
-        });
-        toast({ title: "Folder Created", description: `Folder "${trimmedName}" created.`});
-        setNewFolderName("");
-        setShowCreateFolderModal(false);
-   }, [newFolderName, toast, saveToLocalStorage]);
-
-   const openMoveToFolderModal = useCallback((sessionId: string) => {
-        setSessionToMove(sessionId);
-        setShowMoveToFolderModal(true);
-   }, []);
-
-   const handleMoveSessionToFolder = useCallback((folderId: string | null) => {
-        if (!sessionToMove) return;
-
-        setChatSessions(prevSessions => {
-            const updatedSessions = prevSessions.map(session =>
-                session.id === sessionToMove ? { ...session, folderId: folderId, lastModified: Date.now() } : session
-            );
-            saveToLocalStorage(CHAT_SESSIONS_STORAGE_KEY, updatedSessions);
-            return updatedSessions;
-        });
-        const session = chatSessions.find(s => s.id === sessionToMove);
-        const folder = folders.find(f => f.id === folderId);
-        toast({
-             title: "Session Moved",
-             description: `Session "${session?.name}" moved ${folderId ? `to folder "${folder?.name}"` : 'out of folder'}.`
-        });
-        setShowMoveToFolderModal(false);
-        setSessionToMove(null);
-   }, [sessionToMove, chatSessions, folders, saveToLocalStorage, toast]);
-
-    // --- Tag Functions ---
-    const startEditingTags = useCallback((sessionId: string) => {
-        const session = chatSessions.find(s => s.id === sessionId);
-        if (session) {
-            setEditingTagsSessionId(sessionId);
-            setEditingTags(session.tags || []);
-            setNewTagInput("");
-             // Focus input after modal renders
-            setTimeout(() => newTagInputRef.current?.focus(), 50);
-        }
-    }, [chatSessions]);
-
-    const cancelEditingTags = useCallback(() => {
-        setEditingTagsSessionId(null);
-        setEditingTags([]);
-        setNewTagInput("");
-    }, []);
-
-    const handleAddTag = useCallback(() => {
-        const tagToAdd = newTagInput.trim().toLowerCase();
-        if (tagToAdd && !editingTags.includes(tagToAdd) && tagToAdd.length <= 20) { // Add length limit if needed
-            setEditingTags(prev => [...prev, tagToAdd]);
-            setNewTagInput("");
-        } else if (editingTags.includes(tagToAdd)) {
-            toast({ variant: "default", title: "Tag Exists", description: "This tag is already added." });
-        } else if (tagToAdd.length > 20) {
-             toast({ variant: "destructive", title: "Tag Too Long", description: "Tags cannot exceed 20 characters." });
-        }
-    }, [newTagInput, editingTags, toast]);
-
-    const handleRemoveTag = useCallback((tagToRemove: string) => {
-        setEditingTags(prev => prev.filter(tag => tag !== tagToRemove));
-    }, []);
-
-    const handleSaveTags = useCallback(() => {
-        if (!editingTagsSessionId) return;
-        setChatSessions(prevSessions => {
-            const updatedSessions = prevSessions.map(session =>
-                session.id === editingTagsSessionId ? { ...session, tags: editingTags, lastModified: Date.now() } : session
-            );
-            saveToLocalStorage(CHAT_SESSIONS_STORAGE_KEY, updatedSessions);
-            return updatedSessions;
-        });
-        toast({ title: "Tags Updated", description: "Session tags have been saved." });
-        cancelEditingTags(); // Close the modal/editing state
-    }, [editingTagsSessionId, editingTags, saveToLocalStorage, toast, cancelEditingTags]);
-
-    const handleTagFilterChange = useCallback((tag: string) => {
-         setFilterTags(prev => {
-             const newSet = new Set(prev);
-             if (newSet.has(tag)) { newSet.delete(tag); }
-             else { newSet.add(tag); }
-             return newSet;
-         });
-     }, []);
-
-    const clearTagFilters = useCallback(() => {
-         setFilterTags(new Set());
-     }, []);
-
-    const allAvailableTags = React.useMemo(() => {
-        const tags = new Set<string>();
-        chatSessions.forEach(session => {
-            (session.tags || []).forEach(tag => tags.add(tag));
-        });
-        return Array.from(tags).sort();
-    }, [chatSessions]);
-
-
-
-  // --- Model Fetching & Management ---
-  const calculateActiveModels = useCallback((selectedIds: Set<string>, allFetchedModels: OpenRouterApiModel[]): AIModelInfo[] => {
-      const selectedOpenRouterModels = allFetchedModels
-        .filter(model => selectedIds.has(model.id))
-        .map(model => ({
-          id: `openrouter/${model.id}`,
-          name: model.name,
-          provider: 'openrouter' as const,
-          context_length: model.context_length,
-        }));
-      // Limit the number of displayed models from OpenRouter
-      const limitedOpenRouterModels = selectedOpenRouterModels.slice(0, MAX_SELECTABLE_OPENROUTER_MODELS);
-      const newActiveModels = [...DEFAULT_GOOGLE_MODELS, ...limitedOpenRouterModels];
-      return newActiveModels;
-  }, []);
+   // Adds the model to the end of the active session's fallback chain, or removes it
+   const toggleFallbackModel = useCallback((modelId: string) => {
+       const current = activeSession?.fallbackModelIds ?? [];
+       updateActiveSessionSettings({ fallbackModelIds: current.includes(modelId) ? current.filter(id => id !== modelId) : [...current, modelId] });
+   }, [activeSession?.fallbackModelIds, updateActiveSessionSettings]);
 
-  const fetchOpenRouterModels = useCallback(async (apiKey: string) => {
-    if (!apiKey) {
-        setAllOpenRouterModels([]);
-        setFetchModelsError("API Key is required to fetch models.");
-        setActiveModels(DEFAULT_GOOGLE_MODELS); // Reset to default if key removed
-        return;
-    }
-    setIsFetchingModels(true);
-    setFetchModelsError(null);
-    try {
-      const response = await fetch("https://openrouter.ai/api/v1/models", { headers: { "Authorization": `Bearer ${apiKey}` } });
-      if (!response.ok) {
-          let errorBody = await response.text();
-           let errorMessage = `Failed to fetch models: ${response.status}`;
-           try { const errorJson = JSON.parse(errorBody); errorMessage = errorJson?.error?.message || errorBody; } catch {}
-           console.error("OpenRouter API Error:", errorMessage);
-           throw new Error(errorMessage);
-       }
-      const data = await response.json();
-      if (!data || !Array.isArray(data.data)) { throw new Error("Invalid data structure received from OpenRouter."); }
-      const fetchedModels: OpenRouterApiModel[] = data.data;
-      setAllOpenRouterModels(fetchedModels);
-       // Re-calculate active models based on fetched models and *existing* selection
-       setSelectedOpenRouterModelIds(prevSelectedIds => {
-           const validSelectedIds = new Set<string>();
-           fetchedModels.forEach(model => {
-               if (prevSelectedIds.has(model.id)) {
-                   validSelectedIds.add(model.id);
-               }
-           });
-            // Ensure the selection doesn't exceed the limit after refresh
-           const limitedValidSelectedIds = new Set(Array.from(validSelectedIds).slice(0, MAX_SELECTABLE_OPENROUTER_MODELS));
-           if (limitedValidSelectedIds.size < validSelectedIds.size) {
-                toast({ title: "Model Limit Reached", description: `Selection trimmed to ${MAX_SELECTABLE_OPENROUTER_MODELS} models after refresh.` });
-           }
-            setActiveModels(calculateActiveModels(limitedValidSelectedIds, fetchedModels));
-            // Save the potentially trimmed selection
-           localStorage.setItem(SELECTED_OPENROUTER_MODELS_KEY, JSON.stringify(Array.from(limitedValidSelectedIds)));
-           return limitedValidSelectedIds;
-       });
-
-    } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error fetching models.';
-        console.error("Error fetching OpenRouter models:", error);
-        setFetchModelsError(`Error: ${message}`);
-        setAllOpenRouterModels([]);
-        setActiveModels(DEFAULT_GOOGLE_MODELS); // Reset on error
-    } finally {
-      setIsFetchingModels(false);
-    }
-  }, [toast, calculateActiveModels]);
+   // Enables or disables one built-in tool for the active session
+   const toggleSessionTool = useCallback((toolId: string) => {
+       const current = activeSession?.enabledToolIds ?? [];
+       updateActiveSessionSettings({ enabledToolIds: current.includes(toolId) ? current.filter(id => id !== toolId) : [...current, toolId] });
+   }, [activeSession?.enabledToolIds, updateActiveSessionSettings]);
 
+   const setSessionOutputSchema = useCallback((outputSchema: OutputSchema | null) => {
+       updateActiveSessionSettings({ outputSchema });
+   }, [updateActiveSessionSettings]);
 
-  // --- Effects ---
+   // Updates (or clears, when `value` is undefined) one generation option of the active session
+   const updateSessionOption = useCallback(<K extends keyof AIModelOptions,>(key: K, value: AIModelOptions[K]) => {
+       updateActiveSessionSettings({ generationOptions: { ...activeSession?.generationOptions, [key]: value } });
+   }, [activeSession?.generationOptions, updateActiveSessionSettings]);
 
-  // Effect 1: Load initial data from localStorage & setup Speech Recognition
-  useEffect(() => {
-    // Load Sessions
-     const loadedSessions = loadFromLocalStorage<ChatSession[]>(CHAT_SESSIONS_STORAGE_KEY, []).map(s => ({
-         ...s,
-         messages: s.messages?.map(m => ({ ...m, id: m.id ?? generateMessageId() })) || [], // Ensure messages have IDs
-         tags: s.tags || [],
-         isBookmarked: s.isBookmarked || false,
-         folderId: s.folderId || null,
-         totalCost: s.totalCost || 0,
-         createdAt: s.createdAt || Date.now(),
-         lastModified: s.lastModified || Date.now(),
-         name: s.name || DEFAULT_SESSION_NAME,
-     }));
-    setChatSessions(loadedSessions);
-
-    // Load Settings
-    const storedApiKey = loadFromLocalStorage<string>(OPENROUTER_API_KEY_STORAGE_KEY, '');
-    const storedSelectedModelIds = loadFromLocalStorage<string[]>(SELECTED_OPENROUTER_MODELS_KEY, []);
-    const initialSelectedIds = new Set(storedSelectedModelIds.slice(0, MAX_SELECTABLE_OPENROUTER_MODELS));
-
-    setOpenRouterApiKey(storedApiKey);
-    setSelectedOpenRouterModelIds(initialSelectedIds);
-
-    if (storedApiKey) {
-      fetchOpenRouterModels(storedApiKey);
-    } else {
-      setActiveModels(calculateActiveModels(initialSelectedIds, []));
-    }
+   const resetSessionOptions = useCallback(() => {
+       updateActiveSessionSettings({ generationOptions: undefined });
+   }, [updateActiveSessionSettings]);
 
-    // Load Folders
-    const loadedFolders = loadFromLocalStorage<ChatFolder[]>(CHAT_FOLDERS_STORAGE_KEY, []);
-    setFolders(loadedFolders);
-
-    // Determine initial active session
-    const storedActiveId = localStorage.getItem(ACTIVE_SESSION_ID_STORAGE_KEY);
-    let activeIdToSet = null;
-    if (storedActiveId && loadedSessions.some(s => s.id === storedActiveId)) {
-        activeIdToSet = storedActiveId;
-    } else if (loadedSessions.length > 0) {
-        activeIdToSet = loadedSessions[0].id;
-    }
 
-    if (activeIdToSet) {
-        setActiveSessionId(activeIdToSet);
-        if (activeIdToSet !== storedActiveId) {
-            localStorage.setItem(ACTIVE_SESSION_ID_STORAGE_KEY, activeIdToSet);
-        }
-    } else {
-        createNewSession();
-    }
+  // --- Effects ---
 
-    // Speech Recognition Setup
+  // Effect 1: Set up Speech Recognition
+  useEffect(() => {
     const SpeechRecognition = window.SpeechRecognition || (window as any).webkitSpeechRecognition;
     if (SpeechRecognition) {
         setIsSpeechRecognitionSupported(true);
-        recognitionRef.current = new SpeechRecognition();
-        recognitionRef.current.continuous = false; // Stop listening after first result
-        recognitionRef.current.lang = 'en-US'; // Adjust language as needed
-        recognitionRef.current.interimResults = false; // Get final result only
+        const recognition: SpeechRecognition = new SpeechRecognition();
+        recognitionRef.current = recognition;
+        recognition.continuous = false; // Stop listening after first result
+        recognition.lang = 'en-US'; // Adjust language as needed
+        recognition.interimResults = false; // Get final result only
 
-        recognitionRef.current.onresult = (event) => {
+        recognition.onresult = (event) => {
             const transcript = event.results[event.results.length - 1][0].transcript.trim();
             setInput(prev => prev + transcript); // Append transcript to input
             setIsListening(false);
             console.log("Speech recognition result:", transcript);
         };
 
-        recognitionRef.current.onerror = (event) => {
+        recognition.onerror = (event) => {
             // Don't log 'no-speech' error to console, as it's expected user behavior
             if (event.error !== 'no-speech') {
                 console.error('Speech recognition error:', event.error);
@@ -695,7 +282,7 @@ export default function ChatInterface() {
              setIsListening(false);
         };
 
-        recognitionRef.current.onend = () => {
+        recognition.onend = () => {
             console.log("Speech recognition ended.");
             // Ensure listening state is reset if recognition ends naturally
             if (isListening) {
@@ -712,38 +299,38 @@ export default function ChatInterface() {
         recognitionRef.current?.abort(); // Stop listening if component unmounts
     };
 
-  }, [loadFromLocalStorage, fetchOpenRouterModels, createNewSession, calculateActiveModels, toast]); // Added toast dependency
+  }, [toast]);
+
+  // Effect 1.2: Load chats and folders from IndexedDB (importing chats saved in localStorage by older versions)
+  useEffect(() => {
+    void loadChats();
+  }, []);
+
+  // Effect 1.3: Show how much storage is used while saving fails for lack of space
+  useEffect(() => {
+    if (!storageQuotaExceeded) return;
+    getStorageEstimate().then(setStorageEstimate, () => setStorageEstimate(null));
+  }, [storageQuotaExceeded]);
 
 
    // Effect 1.5: Ensure an active session exists if needed
    useEffect(() => {
+      if (!isChatDataLoaded) return; // Saved chats are still loading
       if (!activeSessionId && chatSessions.length > 0) {
           const firstSessionId = chatSessions[0].id;
-          setActiveSessionId(firstSessionId);
-          localStorage.setItem(ACTIVE_SESSION_ID_STORAGE_KEY, firstSessionId);
+          dispatch({ type: 'setActiveSession', sessionId: firstSessionId });
           console.log("Active session was null, defaulting to first available session:", firstSessionId);
       } else if (!activeSessionId && chatSessions.length === 0 && activeTab !== 'settings') {
           console.log("No active session and no sessions exist, creating a new one.");
           createNewSession();
       }
-   }, [activeSessionId, chatSessions, createNewSession, activeTab]);
-
-  // Effect 2: Update `activeModels` whenever selected IDs or fetched models change
-  useEffect(() => {
-      // Ensure selectedOpenRouterModelIds respects the limit before calculating
-      const limitedSelection = new Set(Array.from(selectedOpenRouterModelIds).slice(0, MAX_SELECTABLE_OPENROUTER_MODELS));
-      if (limitedSelection.size < selectedOpenRouterModelIds.size) {
-          console.warn(`Selected models exceed limit (${MAX_SELECTABLE_OPENROUTER_MODELS}), trimming.`);
-          setSelectedOpenRouterModelIds(limitedSelection); // Update state if trimmed
-      }
-      setActiveModels(calculateActiveModels(limitedSelection, allOpenRouterModels));
-  }, [selectedOpenRouterModelIds, allOpenRouterModels, calculateActiveModels]);
+   }, [isChatDataLoaded, activeSessionId, chatSessions, dispatch, createNewSession, activeTab]);
 
 
   // Effect 3: Reset `selectedModel` if it's no longer in `activeModels`
   useEffect(() => {
-      if (!activeModels.some(m => m.id === selectedModel.id)) {
-          const defaultModel = activeModels.find(m => m.id === DEFAULT_GOOGLE_MODELS[0].id) || activeModels[0];
+      if (!availableModels.some(m => m.id === selectedModel.id)) {
+          const defaultModel = availableModels.find(m => m.id === DEFAULT_GOOGLE_MODELS[0].id) || availableModels[0];
           if (defaultModel) {
               setSelectedModel(defaultModel);
               console.log("Selected model reset to:", defaultModel.name);
@@ -752,19 +339,9 @@ export default function ChatInterface() {
               // Handle case where activeModels might be empty (e.g., API key removed, no defaults)
           }
       }
-  }, [activeModels, selectedModel.id]);
+  }, [availableModels, selectedModel.id]);
 
 
-  // Effect 4: Scroll chat to bottom
-  useEffect(() => {
-    if (chatScrollAreaRef.current && activeTab === 'chat') {
-      chatScrollAreaRef.current.scrollTo({
-        top: chatScrollAreaRef.current.scrollHeight,
-        behavior: 'smooth',
-      });
-    }
-  }, [messages, activeTab, thinkingMessageId]); // Added thinkingMessageId dependency
-
  // Effect 5: Ensure `isListening` state matches recognitionRef state
   useEffect(() => {
     const recognition = recognitionRef.current;
@@ -786,254 +363,111 @@ export default function ChatInterface() {
 
   // --- Event Handlers ---
 
-  const handleSaveApiKey = () => {
-    localStorage.setItem(OPENROUTER_API_KEY_STORAGE_KEY, openRouterApiKey);
-    setApiKeySaved(true);
-    toast({ title: "API Key Saved", description: "OpenRouter API key saved." });
-    fetchOpenRouterModels(openRouterApiKey); // Fetch models with the new key
-    setTimeout(() => setApiKeySaved(false), 2000);
+  // Reads a file; documents get their text extracted, unless the model reads the file directly and none was found
+  const readAttachment = useCallback(async (file: File, problems: string[]): Promise<Attachment | null> => {
+    const dataUri = await readFileAsDataUri(file);
+    const readsDirectly = isFileAccepted(file.name, attachmentSupport.accept);
+    if (!isExtractableDocument(file.name)) return { name: file.name, dataUri };
+    try {
+        const extractedText = await extractDocumentText(file);
+        if (extractedText) return { name: file.name, dataUri, extractedText };
+        if (!readsDirectly) { problems.push(`no text could be extracted from ${file.name}`); return null; }
+    } catch (extractionError) {
+        console.error(`Failed to extract text from ${file.name}:`, extractionError);
+        if (!readsDirectly) { problems.push(`${file.name} could not be read`); return null; }
+    }
+    return { name: file.name, dataUri };
+  }, [attachmentSupport.accept]);
+
+  // Validates and reads files from the file picker, drag-and-drop or the clipboard into the pending attachments
+  const addAttachments = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    const problems: string[] = [];
+    const accepted = files.filter(file => {
+        if (file.size > MAX_ATTACHMENT_SIZE_BYTES) { problems.push(`${file.name} exceeds 10MB`); return false; }
+        if (!isExtractableDocument(file.name) && !isFileAccepted(file.name, attachmentSupport.accept)) { problems.push(`${file.name} is not supported (${attachmentSupport.reason ?? 'unsupported file type'})`); return false; }
+        return true;
+    });
+    const room = Math.max(0, MAX_ATTACHMENTS - attachments.length);
+    if (accepted.length > room) { problems.push(`at most ${MAX_ATTACHMENTS} files can be attached to a message`); }
+    setIsProcessingAttachments(true);
+    try {
+        const read = await Promise.all(accepted.slice(0, room).map(file => readAttachment(file, problems)));
+        setAttachments(prev => [...prev, ...read.filter((attachment): attachment is Attachment => attachment !== null)].slice(0, MAX_ATTACHMENTS));
+        setError(problems.length > 0 ? `Some files were not attached: ${problems.join('; ')}.` : null);
+    } catch (readError) {
+        console.error("Failed to read attachment:", readError);
+        setError("Failed to read file.");
+    } finally {
+        setIsProcessingAttachments(false);
+    }
+  }, [attachmentSupport, attachments.length, readAttachment]);
+
+   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    void addAttachments(Array.from(event.target.files ?? []));
+    if (fileInputRef.current) { fileInputRef.current.value = ''; }
   };
 
-  const handleRefreshModels = () => {
-      if (!openRouterApiKey) { toast({ variant: "destructive", title: "API Key Missing", description: "Enter API key first." }); return; }
-      fetchOpenRouterModels(openRouterApiKey);
-   };
-
-  const handleModelSelectionChange = (modelId: string, checked: boolean | 'indeterminate') => {
-      if (typeof checked === 'boolean') {
-         setSelectedOpenRouterModelIds(prev => {
-             const newSet = new Set(prev);
-             if (checked) {
-                 if (newSet.size < MAX_SELECTABLE_OPENROUTER_MODELS) {
-                     newSet.add(modelId);
-                 } else {
-                     toast({
-                         variant: "destructive",
-                         title: "Model Limit Reached",
-                         description: `You can only select up to ${MAX_SELECTABLE_OPENROUTER_MODELS} OpenRouter models.`
-                     });
-                     // Don't add the model if the limit is reached
-                     return prev; // Return previous state
-                 }
-             } else {
-                 newSet.delete(modelId);
-             }
-             return newSet;
-         });
-      }
-   };
-
-   const handleSelectAllFilteredModels = () => {
-     setSelectedOpenRouterModelIds(prev => {
-       const newSet = new Set(prev);
-       let addedCount = 0;
-       filteredModels.forEach(model => {
-            if (newSet.size < MAX_SELECTABLE_OPENROUTER_MODELS && !newSet.has(model.id)) {
-                 newSet.add(model.id);
-                 addedCount++;
-            }
-       });
-        if (addedCount < filteredModels.length && newSet.size === MAX_SELECTABLE_OPENROUTER_MODELS) {
-            toast({
-                 variant: "default", // Use default variant for info
-                 title: "Model Limit Reached",
-                 description: `Added ${addedCount} models. Reached the limit of ${MAX_SELECTABLE_OPENROUTER_MODELS}.`
-             });
-        }
-       return newSet;
-     });
-   };
-
-   const handleDeselectAllFilteredModels = () => {
-      setSelectedOpenRouterModelIds(prev => {
-          const newSet = new Set(prev);
-          filteredModels.forEach(model => newSet.delete(model.id));
-          return newSet;
-      });
-    };
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(event.clipboardData.files);
+    if (files.length === 0) return; // Plain text is pasted as usual
+    event.preventDefault();
+    void addAttachments(files);
+  };
 
-  const handleImportSelectedModels = () => {
-      // Double-check limit before saving (although handleModelSelectionChange should prevent exceeding it)
-       const selectedIdsArray = Array.from(selectedOpenRouterModelIds).slice(0, MAX_SELECTABLE_OPENROUTER_MODELS);
-      saveToLocalStorage(SELECTED_OPENROUTER_MODELS_KEY, selectedIdsArray);
-      toast({ title: "Models Selection Saved", description: `${selectedIdsArray.length} models available in chat.` });
-      // Recalculate active models based on the final saved selection
-      setActiveModels(calculateActiveModels(new Set(selectedIdsArray), allOpenRouterModels));
-   };
+  const removeAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+    setError(null);
+  };
 
-   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-        if (file.size > 10 * 1024 * 1024) { setError("File size exceeds 10MB."); if (fileInputRef.current) fileInputRef.current.value = ''; return; }
-        if (selectedModel.provider === 'openrouter') { setError(`File input not supported with OpenRouter model ${selectedModel.name}.`); if (fileInputRef.current) fileInputRef.current.value = ''; return; }
-
-        setSelectedFile(file);
-        const reader = new FileReader();
-        reader.onloadend = () => { setFileDataUri(reader.result as string); setError(null); };
-        reader.onerror = () => { setError("Failed to read file."); setSelectedFile(null); setFileDataUri(undefined); }
-        reader.readAsDataURL(file);
-    }
-    if (fileInputRef.current) { fileInputRef.current.value = ''; }
+  // Drag-and-drop onto the chat area; only drags carrying files are handled
+  const isFileDrag = (event: React.DragEvent) => event.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDraggingFiles(true);
   };
 
-   const handleEditNameKeyDown = (event: React.KeyboardEvent<HTMLInputElement>, sessionId: string) => {
-       if (event.key === 'Enter') {
-           saveEditedSessionName(sessionId);
-       } else if (event.key === 'Escape') {
-           cancelEditingSessionName();
-       }
-   };
-
-    const handleNewTagKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
-        if (event.key === 'Enter') {
-             event.preventDefault(); // Prevent form submission if inside a form
-             handleAddTag();
-        } else if (event.key === 'Escape') {
-            setNewTagInput(""); // Clear input on escape
-        }
-    };
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = isSending ? 'none' : 'copy';
+  };
 
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
 
-  const handleSend = useCallback(async () => {
+  const handleDrop = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    if (isSending || !activeSessionId) return;
+    void addAttachments(Array.from(event.dataTransfer.files));
+  };
+
+  const handleSend = useCallback(() => {
     if (!activeSessionId) {
         console.error("No active session to send message to.");
         toast({ variant: "destructive", title: "Error", description: "No active chat session found. Please create a new chat."});
         return;
     }
-    if (!input.trim() && !selectedFile) return;
-    if (selectedFile && selectedModel.provider === 'openrouter') { setError(`File input not supported with ${selectedModel.name}.`); return; }
-    if (selectedModel.provider === 'openrouter' && !openRouterApiKey && !process.env.NEXT_PUBLIC_OPENROUTER_API_KEY) { setError(`API key required for ${selectedModel.name}.`); toast({ variant: "destructive", title: "API Key Missing", description: "Set key in Settings." }); return; }
+    if (!input.trim() && attachments.length === 0) return;
+    if (isProcessingAttachments) return;
+    if (unsupportedAttachment) { setError(`${selectedModel.name} cannot read ${unsupportedAttachment.name}. ${attachmentSupport.reason ?? ''}`.trim()); return; }
+    if (isApiKeyMissing) { setError(`API key required for ${selectedModel.name}.`); toast({ variant: "destructive", title: "API Key Missing", description: "Set key in Settings." }); return; }
 
     setError(null);
-    const userMessageId = generateMessageId();
-    const timestamp = Date.now();
-    const userMessageText = input;
-    const userMessageFile = selectedFile ? { name: selectedFile.name, dataUri: fileDataUri! } : undefined;
-
-    const userMessage: Message = {
-      id: userMessageId, sender: 'user', text: userMessageText, timestamp: timestamp,
-      ...(userMessageFile && { file: userMessageFile }),
-    };
-
-     // Placeholder for thinking message
-     const thinkingMsgId = generateMessageId();
-     const initialThinkingSteps = ["Preparing request..."]; // Generic initial step
-     const thinkingMessage: Message = {
-         id: thinkingMsgId,
-         sender: 'ai',
-         text: 'Thinking...', // Placeholder text
-         timestamp: Date.now() + 1, // Ensure it appears after user message
-         modelId: selectedModel.id,
-         thinkingSteps: initialThinkingSteps,
-     };
-     setThinkingMessageId(thinkingMsgId); // Set the ID of the thinking message
-
-    let isFirstMessage = false;
-    setChatSessions(prevSessions => {
-        const updatedSessions = prevSessions.map(session => {
-            if (session.id === activeSessionId) {
-                isFirstMessage = session.messages.length === 0;
-                return {
-                    ...session,
-                    messages: [...session.messages, userMessage, thinkingMessage], // Add user and thinking message
-                    lastModified: timestamp,
-                    name: (session.name === DEFAULT_SESSION_NAME && isFirstMessage)
-                          ? generateSessionName(userMessageText)
-                          : session.name,
-                    modelId: selectedModel.id, // Store last used model
-                };
-            }
-            return session;
-        });
-        saveToLocalStorage(CHAT_SESSIONS_STORAGE_KEY, updatedSessions);
-        return updatedSessions;
-    });
-
+    setFocusedMessageId(null);
+    void send({ sessionId: activeSessionId, text: input, files: attachments, model: selectedModel });
     setInput('');
-    setSelectedFile(null);
-    setFileDataUri(undefined);
-    setIsSending(true);
-
-    try {
-      const assistantInput: SmartAssistantPromptingInput = {
-        modelId: selectedModel.id, prompt: userMessageText,
-        ...(userMessageFile && { fileDataUri: userMessageFile.dataUri }),
-        ...(selectedModel.provider === 'openrouter' && { apiKey: openRouterApiKey || process.env.NEXT_PUBLIC_OPENROUTER_API_KEY }),
-      };
-
-
-      // Call the server function (no callback passed)
-      const response = await smartAssistantPrompting(assistantInput);
-
-      const calculatedCost = calculateCost(selectedModel.id, userMessageText.length, response.response.length, !!userMessageFile);
-
-      const aiMessage: Message = {
-        id: generateMessageId(), // Use a NEW ID for the final response
-        sender: 'ai',
-        text: response.response,
-        cost: calculatedCost,
-        timestamp: Date.now(),
-        modelId: selectedModel.id,
-      };
-
-      // Replace thinking message with final AI response
-      setChatSessions(prevSessions => {
-          const updatedSessions = prevSessions.map(session => {
-              if (session.id === activeSessionId) {
-                  return {
-                      ...session,
-                      messages: session.messages
-                                  .filter(msg => msg.id !== thinkingMsgId) // Remove thinking message
-                                  .concat(aiMessage), // Add final AI message
-                      lastModified: Date.now(),
-                      totalCost: (session.totalCost ?? 0) + calculatedCost,
-                  };
-              }
-              return session;
-          });
-          saveToLocalStorage(CHAT_SESSIONS_STORAGE_KEY, updatedSessions);
-          return updatedSessions;
-      });
-
-
-    } catch (err) {
-      console.error("Error calling AI:", err);
-      const errorMessage = err instanceof Error ? err.message : "Unknown error.";
-      // Improve error message shown to user for server errors
-      const displayErrorMessage = errorMessage.includes("Server-side error")
-        ? "An unexpected error occurred on the server. Please check logs or try again later."
-        : `Failed to get response: ${errorMessage}`;
-      setError(displayErrorMessage);
-      const errorTimestamp = Date.now();
-      const errorAiMessage: Message = {
-           id: generateMessageId(), // Use a NEW ID for the error message
-           sender: 'ai', text: `Error: ${errorMessage}`, cost: 0, // Keep detailed error here
-           timestamp: errorTimestamp, modelId: selectedModel.id, isError: true
-      };
-
-       // Replace thinking message with error message
-       setChatSessions(prevSessions => {
-           const updatedSessions = prevSessions.map(session => {
-               if (session.id === activeSessionId) {
-                   return {
-                       ...session,
-                       messages: session.messages
-                                  .filter(msg => msg.id !== thinkingMsgId) // Remove thinking message
-                                  .concat(errorAiMessage), // Add error message
-                       lastModified: errorTimestamp,
-                   };
-               }
-               return session;
-           });
-           saveToLocalStorage(CHAT_SESSIONS_STORAGE_KEY, updatedSessions);
-           return updatedSessions;
-       });
-       toast({ variant: "destructive", title: "AI Error", description: displayErrorMessage }); // Show user-friendly error
-    } finally {
-      setIsSending(false);
-      setThinkingMessageId(null); // Clear thinking message ID regardless of success/error
-    }
-  }, [activeSessionId, input, selectedFile, fileDataUri, selectedModel, openRouterApiKey, toast, chatSessions, saveToLocalStorage]);
+    setAttachments([]);
+  }, [activeSessionId, input, attachments, isProcessingAttachments, selectedModel, unsupportedAttachment, attachmentSupport, isApiKeyMissing, send, toast]);
 
 
   const handleKeyPress = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -1077,35 +511,6 @@ export default function ChatInterface() {
   };
 
 
-  // --- Memoized Values ---
-  const filteredModels = React.useMemo(() => {
-      if (!filterTerm) { return allOpenRouterModels; }
-      const lowerCaseFilter = filterTerm.toLowerCase();
-      return allOpenRouterModels.filter(model =>
-          model.name.toLowerCase().includes(lowerCaseFilter) ||
-          model.id.toLowerCase().includes(lowerCaseFilter)
-      );
-  }, [allOpenRouterModels, filterTerm]);
-
-   // Filter and Sort sessions for the History tab
-   const filteredAndSortedSessions = React.useMemo(() => {
-       // TODO: Implement folder filtering here when UI is ready
-       // Filter by selected tags (if any)
-       const tagFilteredSessions = filterTags.size === 0
-           ? chatSessions
-           : chatSessions.filter(session =>
-               (session.tags || []).some(tag => filterTags.has(tag))
-           );
-
-       // Sort: Bookmarked first, then by last modified date (newest first)
-       return [...tagFilteredSessions].sort((a, b) => {
-          if (a.isBookmarked && !b.isBookmarked) return -1;
-          if (!a.isBookmarked && b.isBookmarked) return 1;
-          return b.lastModified - a.lastModified;
-       });
-    }, [chatSessions, filterTags]); // Add folders dependency when implemented
-
-
   // --- Render ---
   return (
     <Card className="w-full max-w-4xl h-[80vh] flex flex-col shadow-lg rounded-lg">
@@ -1122,7 +527,7 @@ export default function ChatInterface() {
                  <TooltipProvider delayDuration={100}>
                     <Tooltip>
                         <TooltipTrigger asChild>
-                             <Button size="icon" variant="ghost" onClick={createNewSession} className="h-7 w-7 text-muted-foreground hover:text-primary">
+                             <Button size="icon" variant="ghost" onClick={() => createNewSession()} className="h-7 w-7 text-muted-foreground hover:text-primary">
                                  <PlusCircle size={16} />
                                  <span className="sr-only">New Chat</span>
                              </Button>
@@ -1130,6 +535,27 @@ export default function ChatInterface() {
                          <TooltipContent side="bottom"><p>New Chat</p></TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
+                 {/* Start a chat from an assistant persona */}
+                 {assistants.length > 0 && (
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button size="icon" variant="ghost" className="h-7 w-7 text-muted-foreground hover:text-primary" title="New chat with an assistant">
+                                <Sparkles size={16} />
+                                <span className="sr-only">New chat with an assistant</span>
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="start" className="w-60 max-h-80 overflow-y-auto">
+                            <DropdownMenuLabel>New Chat With Assistant</DropdownMenuLabel>
+                            <DropdownMenuSeparator />
+                            {assistants.map(assistant => (
+                                <DropdownMenuItem key={assistant.id} onSelect={() => startSessionWithAssistant(assistant)}>
+                                    <span className="mr-2">{assistant.avatar}</span><span className="truncate">{assistant.name}</span>
+                                </DropdownMenuItem>
+                            ))}
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                 )}
+                 {activeAssistant && <Badge variant="outline" className="text-xs whitespace-nowrap" title={activeAssistant.systemPrompt}>{activeAssistant.avatar} {activeAssistant.name}</Badge>}
              </div>
 
                {/* Model Selector Dropdown */}
@@ -1138,7 +564,7 @@ export default function ChatInterface() {
                      <Button variant="outline" className="w-full md:w-auto justify-between min-w-[200px]">
                        <BrainCircuit className="mr-2 h-4 w-4" />
                         <span className="truncate flex-1 text-left">
-                          {activeModels.length > 0 ? (selectedModel?.name ?? "Select Model") : "Loading/Setup..."}
+                          {availableModels.length > 0 ? (selectedModel?.name ?? "Select Model") : "Loading/Setup..."}
                          </span>
                        <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
                      </Button>
@@ -1146,13 +572,110 @@ export default function ChatInterface() {
                    <DropdownMenuContent align="end" className="w-[--radix-dropdown-menu-trigger-width] max-h-80 overflow-y-auto">
                      <DropdownMenuLabel>Select AI Model</DropdownMenuLabel>
                      <DropdownMenuSeparator />
-                      {activeModels.length > 0 ? (
-                       activeModels.map((model) => (
+                      {availableModels.length > 0 ? (
+                       availableModels.map((model) => (
                          <DropdownMenuItem key={model.id} onSelect={() => setSelectedModel(model)} disabled={isSending} className={cn(selectedModel?.id === model.id && "bg-accent/50")}>
-                           {model.name} {model.provider === 'openrouter' && <Badge variant="secondary" className="ml-auto text-xs">OpenRouter</Badge>}
+                           {model.name} {model.provider !== GOOGLE_PROVIDER.id && <Badge variant="secondary" className="ml-auto text-xs">{getProviderDescriptor(model.provider)?.label ?? model.provider}</Badge>}
                          </DropdownMenuItem>
                        ))
-                      ) : ( <DropdownMenuItem disabled>{isFetchingModels ? "Loading..." : "No models selected/available. Check Settings."}</DropdownMenuItem> )}
+                      ) : ( <DropdownMenuItem disabled>No models selected/available. Check Settings.</DropdownMenuItem> )}
+                   </DropdownMenuContent>
+                 </DropdownMenu>
+
+               {/* Generation Parameters for the active session */}
+               <Popover>
+                   <PopoverTrigger asChild>
+                     <Button variant="outline" size="sm" disabled={!activeSessionId} title="Generation parameters for this chat">
+                       <SlidersHorizontal className="mr-2 h-4 w-4" /> Parameters
+                       {activeRequestOptions && <Badge variant="secondary" className="ml-2 text-xs">{Object.keys(activeRequestOptions).length}</Badge>}
+                     </Button>
+                   </PopoverTrigger>
+                   <PopoverContent align="end" className="w-80 space-y-3">
+                     <div className="flex items-center justify-between">
+                       <h4 className="text-sm font-medium">Generation Parameters</h4>
+                       <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={resetSessionOptions}>Reset</Button>
+                     </div>
+                     <p className="text-xs text-muted-foreground">Saved with this chat. Leave a field empty to use the model's default.</p>
+                     <GenerationOptionsFields idPrefix="session-param" options={activeSession?.generationOptions} onChange={updateSessionOption} />
+                   </PopoverContent>
+               </Popover>
+
+               {/* Knowledge bases searched for the active session */}
+               <Popover>
+                   <PopoverTrigger asChild>
+                     <Button variant="outline" size="sm" disabled={!activeSessionId} title="Documents searched for relevant excerpts with every prompt">
+                       <BookOpen className="mr-2 h-4 w-4" /> Knowledge
+                     </Button>
+                   </PopoverTrigger>
+                   <PopoverContent align="end" className="w-96 space-y-3">
+                     <h4 className="text-sm font-medium">Knowledge Base</h4>
+                     <p className="text-xs text-muted-foreground">Documents are chunked and embedded in your browser. The {knowledgeSettings.topK} most relevant excerpts are added to each prompt, and answers cite them. Change the embedder in Settings.</p>
+                     <KnowledgeBasePanel knowledgeBases={activeKnowledgeBases} embedderId={knowledgeSettings.embedderId} />
+                   </PopoverContent>
+               </Popover>
+
+               {/* Built-in tools the model may call in the active session */}
+               <DropdownMenu>
+                   <DropdownMenuTrigger asChild>
+                     <Button variant="outline" size="sm" disabled={!activeSessionId || isSending} title="Tools the model may call while answering">
+                       <Wrench className="mr-2 h-4 w-4" /> Tools
+                       {(activeSession?.enabledToolIds?.length ?? 0) > 0 && <Badge variant="secondary" className="ml-2 text-xs">{activeSession!.enabledToolIds!.length}</Badge>}
+                     </Button>
+                   </DropdownMenuTrigger>
+                   <DropdownMenuContent align="end" className="w-80">
+                     <DropdownMenuLabel>Tools</DropdownMenuLabel>
+                     <DropdownMenuSeparator />
+                     {BUILT_IN_TOOLS.map(tool => (
+                         <DropdownMenuCheckboxItem key={tool.id} checked={activeSession?.enabledToolIds?.includes(tool.id) ?? false} onCheckedChange={() => toggleSessionTool(tool.id)} onSelect={(e) => e.preventDefault()}>
+                           <div className="flex flex-col">
+                             <span>{tool.label}</span>
+                             <span className="text-xs text-muted-foreground">{tool.description}</span>
+                           </div>
+                         </DropdownMenuCheckboxItem>
+                     ))}
+                     {enabledMcpServers.length > 0 && (
+                         <DropdownMenuItem disabled>Also using the tools of {enabledMcpServers.length} MCP server{enabledMcpServers.length !== 1 ? 's' : ''} (see Settings).</DropdownMenuItem>
+                     )}
+                     {selectedProvider && !canCallTools(selectedProvider, getModelConnection(selectedModel.id).endpoint) && (
+                         <DropdownMenuItem disabled>{selectedProvider.id === OPENAI_COMPATIBLE_PROVIDER.id ? 'Tool calling is turned off for this endpoint (see Settings).' : `${selectedProvider.label} models cannot call tools.`}</DropdownMenuItem>
+                     )}
+                   </DropdownMenuContent>
+               </DropdownMenu>
+
+               {/* JSON Schema the active session's responses must match */}
+               <Popover>
+                   <PopoverTrigger asChild>
+                     <Button variant="outline" size="sm" disabled={!activeSessionId || isSending} title="Get responses as JSON matching a schema">
+                       <Braces className="mr-2 h-4 w-4" /> JSON
+                       {activeSession?.outputSchema && <Badge variant="secondary" className="ml-2 text-xs max-w-[6rem] truncate">{activeSession.outputSchema.name ?? 'custom'}</Badge>}
+                     </Button>
+                   </PopoverTrigger>
+                   <PopoverContent align="end" className="w-96">
+                     <OutputSchemaPicker activeSchema={activeSession?.outputSchema} onActiveSchemaChange={setSessionOutputSchema} savedSchemas={savedOutputSchemas} onSavedSchemasChange={saveOutputSchemas} />
+                   </PopoverContent>
+               </Popover>
+
+               {/* Fallback Chain for the active session */}
+               <DropdownMenu>
+                   <DropdownMenuTrigger asChild>
+                     <Button variant="outline" size="sm" disabled={!activeSessionId || isSending} title="Models tried in order when the selected model fails">
+                       <Repeat className="mr-2 h-4 w-4" /> Fallbacks
+                       {sessionFallbackModels.length > 0 && <Badge variant="secondary" className="ml-2 text-xs">{sessionFallbackModels.length}</Badge>}
+                     </Button>
+                   </DropdownMenuTrigger>
+                   <DropdownMenuContent align="end" className="w-72 max-h-80 overflow-y-auto">
+                     <DropdownMenuLabel>Fallback Models (in order)</DropdownMenuLabel>
+                     <DropdownMenuSeparator />
+                     {availableModels.filter(model => model.id !== selectedModel.id).map(model => {
+                         const position = sessionFallbackModels.findIndex(fallback => fallback.id === model.id);
+                         return (
+                           <DropdownMenuCheckboxItem key={model.id} checked={position !== -1} onCheckedChange={() => toggleFallbackModel(model.id)} onSelect={(e) => e.preventDefault()}>
+                             <span className="truncate flex-1">{model.name}</span>
+                             {position !== -1 && <Badge variant="outline" className="ml-2 text-xs">{position + 1}</Badge>}
+                           </DropdownMenuCheckboxItem>
+                         );
+                     })}
+                     {availableModels.length <= 1 && <DropdownMenuItem disabled>Add more models in Settings to use fallbacks.</DropdownMenuItem>}
                    </DropdownMenuContent>
                  </DropdownMenu>
 
@@ -1164,428 +687,48 @@ export default function ChatInterface() {
             </TabsList>
           </CardHeader>
 
-          {/* Chat Tab */}
-          <TabsContent value="chat" className="flex-1 overflow-hidden p-0 m-0 data-[state=inactive]:hidden">
-             <ScrollArea className="h-full p-4" ref={chatScrollAreaRef}>
-              <div className="space-y-4">
-                {messages.map((message) => (
-                  <div key={message.id} className={cn('flex items-start gap-3', message.sender === 'user' ? 'justify-end' : 'justify-start')}>
-                    {message.sender === 'ai' && (<Avatar className="h-8 w-8 border shrink-0"><AvatarFallback><Bot size={16} /></AvatarFallback></Avatar>)}
-                    {/* Conditional Styling for Thinking Message */}
-                     <div className={cn(
-                         'max-w-[75%] rounded-lg shadow-sm relative group', // Common styles
-                         message.sender === 'user' ? 'bg-primary text-primary-foreground ltr-text p-3' :
-                         message.isError ? 'bg-destructive/10 border border-destructive/30 text-destructive ltr-text p-3' :
-                         message.id === thinkingMessageId ? 'bg-muted/30 border border-dashed border-accent p-0' : // Specific style for thinking
-                         'bg-secondary text-secondary-foreground p-3', // Default AI message style
-                         message.sender === 'ai' && !message.isError && message.id !== thinkingMessageId && (isPersian(message.text) ? 'rtl-text' : 'ltr-text') // Directionality for final AI message
-                      )}>
-                          {/* Thinking Indicator and Steps */}
-                         {message.id === thinkingMessageId && (
-                            <div className="p-3"> {/* Padding for thinking block */}
-                                 <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
-                                     <Loader2 className="h-4 w-4 animate-spin" /> Thinking...
-                                 </div>
-                                {/* Display Thinking Steps (Optional) */}
-                                {message.thinkingSteps && message.thinkingSteps.length > 0 && (
-                                     <ScrollArea className="max-h-32 pr-2">
-                                         <ul className="text-xs text-muted-foreground/80 space-y-1 list-disc list-inside">
-                                             {message.thinkingSteps.map((step, index) => (
-                                                  <li key={index} className="whitespace-pre-wrap">{step}</li>
-                                             ))}
-                                         </ul>
-                                      </ScrollArea>
-                                 )}
-                            </div>
-                         )}
-
-                        {/* Main Message Content (not shown for thinking message) */}
-                         {message.id !== thinkingMessageId && (
-                             <>
-                                 {message.file && (<div className="mb-2 p-2 border rounded-md bg-muted/50 flex items-center gap-2 text-sm ltr-text"><Paperclip size={14} /><span>{message.file.name}</span></div>)}
-                                 <p className="text-sm whitespace-pre-wrap">{message.text}</p>
-                                 {message.sender === 'ai' && !message.isError && message.cost !== undefined && (
-                                    <TooltipProvider delayDuration={100}>
-                                       <Tooltip>
-                                         <TooltipTrigger asChild><Badge variant="secondary" className="absolute -bottom-2 -right-2 opacity-70 group-hover:opacity-100 transition-opacity text-xs px-1.5 py-0.5 cursor-help">~{formatCurrency(message.cost)}</Badge></TooltipTrigger>
-                                         <TooltipContent side="bottom" align="end"><p>Model: {getModelName(message.modelId)}</p><p>Est. Cost: {formatCurrency(message.cost)}</p></TooltipContent>
-                                       </Tooltip>
-                                    </TooltipProvider>
-                                 )}
-                                  {/* Display Tags for AI message */}
-                                  {message.sender === 'ai' && !message.isError && activeSession?.tags && activeSession.tags.length > 0 && (
-                                       <div className="mt-2 flex flex-wrap gap-1">
-                                           {activeSession.tags.map(tag => (
-                                               <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
-                                           ))}
-                                       </div>
-                                  )}
-                              </>
-                         )}
-                    </div>
-                     {message.sender === 'user' && (<Avatar className="h-8 w-8 border shrink-0"><AvatarFallback><User size={16} /></AvatarFallback></Avatar>)}
-                  </div>
-                ))}
-              </div>
-            </ScrollArea>
-          </TabsContent>
-
-          {/* History Tab */}
-           <TabsContent value="history" className="flex-1 overflow-hidden p-0 m-0 data-[state=inactive]:hidden">
-             <div className="h-full flex flex-col">
-                 <div className="p-4 border-b flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
-                    <div className="flex items-center gap-3 flex-wrap">
-                        <h3 className="text-lg font-semibold text-primary">Chat History</h3>
-                        <Button size="sm" variant="outline" onClick={() => setShowCreateFolderModal(true)}>
-                            <FolderPlus className="mr-2 h-4 w-4" /> Create Folder
-                        </Button>
-                        <Button size="sm" onClick={createNewSession}>
-                            <PlusCircle className="mr-2 h-4 w-4" /> New Chat
-                        </Button>
-                    </div>
-                    {/* Tag Filter Section */}
-                     {allAvailableTags.length > 0 && (
-                       <div className="flex items-center gap-2 flex-wrap">
-                           <Label className="text-sm font-medium shrink-0">Filter by Tags:</Label>
-                           <div className="flex gap-1 flex-wrap">
-                               {allAvailableTags.map(tag => (
-                                   <Badge
-                                       key={tag}
-                                       variant={filterTags.has(tag) ? "default" : "secondary"}
-                                       onClick={() => handleTagFilterChange(tag)}
-                                       className="cursor-pointer text-xs"
-                                   >
-                                       {tag}
-                                   </Badge>
-                               ))}
-                           </div>
-                            {filterTags.size > 0 && (
-                                <Button variant="ghost" size="sm" onClick={clearTagFilters} className="text-xs h-auto p-1 text-muted-foreground">Clear</Button>
-                            )}
-                       </div>
-                     )}
-                 </div>
-                  <ScrollArea className="flex-1 p-4" ref={historyScrollAreaRef}>
-                      {filteredAndSortedSessions.length > 0 ? (
-                          <ul className="space-y-2">
-                              {/* TODO: Group by folder */}
-                              {filteredAndSortedSessions.map((session) => (
-                                  <li
-                                      key={session.id}
-                                      className={cn(
-                                          "p-3 rounded-md border flex items-center justify-between gap-2 cursor-pointer transition-colors hover:bg-muted/50",
-                                          session.id === activeSessionId && "bg-accent/20 border-accent"
-                                      )}
-                                      onClick={() => switchSession(session.id)}
-                                  >
-                                     <div className="flex-1 min-w-0 flex items-center gap-2">
-                                         {/* Bookmark Icon */}
-                                         <TooltipProvider delayDuration={100}>
-                                             <Tooltip>
-                                                 <TooltipTrigger asChild>
-                                                     <Button variant="ghost" size="icon" className={cn("h-7 w-7 shrink-0 text-muted-foreground hover:text-yellow-500", session.isBookmarked && "text-yellow-500 hover:text-yellow-600")} onClick={(e) => { e.stopPropagation(); toggleBookmark(session.id); }}>
-                                                         <Bookmark size={14} fill={session.isBookmarked ? 'currentColor' : 'none'} />
-                                                         <span className="sr-only">{session.isBookmarked ? 'Remove Bookmark' : 'Add Bookmark'}</span>
-                                                     </Button>
-                                                 </TooltipTrigger>
-                                                 <TooltipContent side="top"><p>{session.isBookmarked ? 'Remove Bookmark' : 'Add Bookmark'}</p></TooltipContent>
-                                             </Tooltip>
-                                         </TooltipProvider>
-
-                                         {/* Session Info */}
-                                         <div className="flex-1 min-w-0">
-                                             {editingSessionId === session.id ? (
-                                                 <div className="flex items-center gap-2">
-                                                     <Input ref={editNameInputRef} type="text" value={editingSessionName} onClick={(e) => e.stopPropagation()} onChange={(e) => setEditingSessionName(e.target.value)} onKeyDown={(e) => handleEditNameKeyDown(e, session.id)} onBlur={() => saveEditedSessionName(session.id)} className="h-8 text-sm flex-1" maxLength={MAX_SESSION_NAME_LENGTH}/>
-                                                     <Button variant="ghost" size="icon" className="h-7 w-7" onClick={(e) => { e.stopPropagation(); saveEditedSessionName(session.id); }}> <CheckCircle size={16} className="text-green-600" /> </Button>
-                                                     <Button variant="ghost" size="icon" className="h-7 w-7" onClick={(e) => { e.stopPropagation(); cancelEditingSessionName(); }}> <X size={16} /> </Button>
-                                                 </div>
-                                             ) : (
-                                                 <p className="text-sm font-medium truncate" title={session.name}>{session.name || DEFAULT_SESSION_NAME}</p>
-                                             )}
-                                             <p className="text-xs text-muted-foreground mt-1">
-                                                 {session.messages.length} message{session.messages.length !== 1 ? 's' : ''} - {new Date(session.lastModified).toLocaleString()}
-                                                 {session.folderId && <Badge variant="outline" className="ml-2 text-xs">{folders.find(f => f.id === session.folderId)?.name || 'Folder'}</Badge>}
-                                             </p>
-                                             {/* Display Tags */}
-                                             {session.tags && session.tags.length > 0 && (
-                                                <div className="mt-1 flex flex-wrap gap-1">
-                                                    {session.tags.map(tag => (
-                                                        <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
-                                                    ))}
-                                                </div>
-                                             )}
-                                         </div>
-                                     </div>
-
-                                     {/* Action Buttons */}
-                                      <div className="flex items-center gap-1 shrink-0">
-                                         {/* Edit Name */}
-                                        {!editingSessionId && (
-                                         <TooltipProvider delayDuration={100}>
-                                          <Tooltip><TooltipTrigger asChild>
-                                            <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-primary" onClick={(e) => { e.stopPropagation(); startEditingSessionName(session.id); }}><Edit2 size={14} /><span className="sr-only">Rename</span></Button>
-                                           </TooltipTrigger><TooltipContent side="top"><p>Rename</p></TooltipContent></Tooltip>
-                                          </TooltipProvider>
-                                        )}
-                                         {/* Delete Session */}
-                                         <AlertDialog>
-                                            <AlertDialogTrigger asChild>
-                                              <TooltipProvider delayDuration={100}><Tooltip><TooltipTrigger asChild>
-                                                <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive" onClick={(e) => e.stopPropagation()}><Trash2 size={14} /><span className="sr-only">Delete</span></Button>
-                                              </TooltipTrigger><TooltipContent side="top"><p>Delete</p></TooltipContent></Tooltip></TooltipProvider>
-                                             </AlertDialogTrigger>
-                                            <AlertDialogContent onClick={(e) => e.stopPropagation()}> <AlertDialogHeader><AlertDialogTitle>Are you sure?</AlertDialogTitle><AlertDialogDescription>This action cannot be undone. This will permanently delete the chat session "{session.name}".</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={() => deleteSession(session.id)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction></AlertDialogFooter></AlertDialogContent>
-                                        </AlertDialog>
-                                        {/* Move to Folder */}
-                                          <TooltipProvider delayDuration={100}><Tooltip><TooltipTrigger asChild>
-                                             <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-blue-500" onClick={(e) => {e.stopPropagation(); openMoveToFolderModal(session.id); }}><FolderPlus size={14} /><span className="sr-only">Move to Folder</span></Button>
-                                            </TooltipTrigger><TooltipContent side="top"><p>Move to Folder</p></TooltipContent></Tooltip></TooltipProvider>
-                                         {/* Edit Tags */}
-                                          <TooltipProvider delayDuration={100}><Tooltip><TooltipTrigger asChild>
-                                             <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-purple-500" onClick={(e) => { e.stopPropagation(); startEditingTags(session.id); }}>
-                                                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-tags"><path d="M9 5H2v7l6.29 6.29c.94.94 2.48.94 3.42 0l3.58-3.58c.94-.94.94-2.48 0-3.42L9 5Z"/><path d="M6 9.01V9"/><path d="m15 5 6.3 6.3a2.65 2.65 0 0 1 0 3.72L18.7 17.6a2.65 2.65 0 0 1-3.72 0L15 15"/><path d="m12 15-3-3"/></svg>
-                                                <span className="sr-only">Edit Tags</span>
-                                             </Button>
-                                            </TooltipTrigger><TooltipContent side="top"><p>Edit Tags</p></TooltipContent></Tooltip></TooltipProvider>
-                                      </div>
-                                  </li>
-                              ))}
-                          </ul>
-                      ) : (
-                          <div className="text-center text-muted-foreground py-8">
-                              <p>No chat history found.</p>
-                              {filterTags.size > 0 && <p className="text-sm mt-1">Try clearing tag filters.</p>}
-                              <Button size="sm" variant="link" onClick={createNewSession} className="mt-2">Start a new chat</Button>
-                          </div>
-                      )}
-                   </ScrollArea>
-
-                    {/* Create Folder Modal */}
-                    <AlertDialog open={showCreateFolderModal} onOpenChange={setShowCreateFolderModal}>
-                        <AlertDialogContent>
-                             <AlertDialogHeader>
-                               <AlertDialogTitle>Create New Folder</AlertDialogTitle>
-                               <AlertDialogDescription>Enter a name for your new folder.</AlertDialogDescription>
-                             </AlertDialogHeader>
-                             <div className="py-4">
-                                 <Input
-                                     id="new-folder-name"
-                                     placeholder="Folder Name"
-                                     value={newFolderName}
-                                     onChange={(e) => setNewFolderName(e.target.value)}
-                                     maxLength={30} // Optional: Limit folder name length
-                                 />
-                             </div>
-                             <AlertDialogFooter>
-                                 <AlertDialogCancel onClick={() => setNewFolderName("")}>Cancel</AlertDialogCancel>
-                                 <AlertDialogAction onClick={handleCreateFolder} disabled={!newFolderName.trim()}>Create</AlertDialogAction>
-                             </AlertDialogFooter>
-                        </AlertDialogContent>
-                    </AlertDialog>
-
-                     {/* Move to Folder Modal */}
-                    <AlertDialog open={showMoveToFolderModal} onOpenChange={setShowMoveToFolderModal}>
-                        <AlertDialogContent>
-                             <AlertDialogHeader>
-                               <AlertDialogTitle>Move Session to Folder</AlertDialogTitle>
-                               <AlertDialogDescription>Select a folder to move this session to, or move it out of folders.</AlertDialogDescription>
-                             </AlertDialogHeader>
-                              <ScrollArea className="max-h-60 my-4">
-                                <div className="space-y-2 pr-4">
-                                    <Button variant="ghost" className="w-full justify-start" onClick={() => handleMoveSessionToFolder(null)}>
-                                        (Move out of folder)
-                                    </Button>
-                                    {folders.map(folder => (
-                                        <Button key={folder.id} variant="ghost" className="w-full justify-start" onClick={() => handleMoveSessionToFolder(folder.id)}>
-                                            <FolderPlus size={16} className="mr-2"/> {folder.name}
-                                        </Button>
-                                    ))}
-                                    {folders.length === 0 && <p className="text-sm text-muted-foreground text-center py-2">No folders created yet.</p>}
-                                 </div>
-                               </ScrollArea>
-                             <AlertDialogFooter>
-                                 <AlertDialogCancel onClick={() => setSessionToMove(null)}>Cancel</AlertDialogCancel>
-                             </AlertDialogFooter>
-                        </AlertDialogContent>
-                    </AlertDialog>
-
-                    {/* Edit Tags Modal */}
-                    <AlertDialog open={!!editingTagsSessionId} onOpenChange={(open) => !open && cancelEditingTags()}>
-                         <AlertDialogContent>
-                            <AlertDialogHeader>
-                                <AlertDialogTitle>Edit Tags</AlertDialogTitle>
-                                <AlertDialogDescription>Add or remove tags for this session.</AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <div className="py-4 space-y-4">
-                                 {/* Existing Tags */}
-                                 <div className="flex flex-wrap gap-2">
-                                     {editingTags.length > 0 ? editingTags.map(tag => (
-                                         <Badge key={tag} variant="secondary" className="flex items-center gap-1">
-                                            {tag}
-                                             <Button variant="ghost" size="icon" onClick={() => handleRemoveTag(tag)} className="h-4 w-4 ml-1 p-0">
-                                                <X size={12} />
-                                                <span className="sr-only">Remove tag {tag}</span>
-                                             </Button>
-                                         </Badge>
-                                     )) : <p className="text-sm text-muted-foreground">No tags yet.</p>}
-                                 </div>
-                                 {/* Add New Tag Input */}
-                                 <div className="flex items-center gap-2">
-                                     <Input
-                                         ref={newTagInputRef}
-                                         id="new-tag-input"
-                                         placeholder="Add a tag (e.g., project-alpha)"
-                                         value={newTagInput}
-                                         onChange={(e) => setNewTagInput(e.target.value)}
-                                         onKeyDown={handleNewTagKeyDown}
-                                         maxLength={20}
-                                         className="flex-1"
-                                     />
-                                     <Button onClick={handleAddTag} disabled={!newTagInput.trim()}>Add</Button>
-                                 </div>
-                            </div>
-                             <AlertDialogFooter>
-                                <AlertDialogCancel onClick={cancelEditingTags}>Cancel</AlertDialogCancel>
-                                <AlertDialogAction onClick={handleSaveTags}>Save Tags</AlertDialogAction>
-                            </AlertDialogFooter>
-                         </AlertDialogContent>
-                     </AlertDialog>
-
+          {storageQuotaExceeded && (
+            <Alert variant="destructive" className="mx-4 mb-2 w-auto">
+              <AlertTitle>Storage Full: Chats Are Not Being Saved</AlertTitle>
+              <AlertDescription className="space-y-2">
+                <p>
+                  The browser has no space left for this app{storageEstimate && ` (${formatMegabytes(storageEstimate.usage)} of ${formatMegabytes(storageEstimate.quota)} used)`}, so recent messages will be lost when the page is closed.
+                  Delete chats with large attachments, then retry saving.
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setActiveTab("history")}>Manage Chats</Button>
+                  <Button size="sm" variant="outline" onClick={retryChatSave}><RefreshCw className="mr-1 h-3 w-3" /> Retry Saving</Button>
                 </div>
-           </TabsContent>
-
-
-          {/* Analyse Tab */}
-          <TabsContent value="analyse" className="flex-1 overflow-hidden p-0 m-0 data-[state=inactive]:hidden">
-            <ScrollArea className="h-full p-4" ref={analyseScrollAreaRef}>
-              <div className="space-y-4">
-                <h3 className="text-lg font-semibold mb-2 text-primary">API Usage Analysis</h3>
-                 {allAiMessages.length > 0 ? (
-                   <Table>
-                     <TableCaption>Est. cost per successful AI response. Total est. cost across all sessions: {formatCurrency(totalCost)}</TableCaption>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Timestamp</TableHead>
-                          <TableHead>Model Used</TableHead>
-                           <TableHead>Session</TableHead>
-                          <TableHead>Response Snippet</TableHead>
-                          <TableHead className="text-right">Est. Cost</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {allAiMessages.map((msg) => {
-                            const session = chatSessions.find(s => s.messages.some(m => m.id === msg.id));
-                            return (
-                                <TableRow key={msg.id}>
-                                  <TableCell className="text-xs">{new Date(msg.timestamp).toLocaleString()}</TableCell>
-                                  <TableCell className="text-xs">{getModelName(msg.modelId)}</TableCell>
-                                   <TableCell className="text-xs truncate max-w-[100px]" title={session?.name}>{session?.name || 'Unknown Session'}</TableCell>
-                                  <TableCell className="max-w-[200px] truncate text-xs">{msg.text}</TableCell>
-                                  <TableCell className="text-right text-xs">{formatCurrency(msg.cost)}</TableCell>
-                                </TableRow>
-                            );
-                         })}
-                        <TableRow className="font-semibold bg-muted/50">
-                            <TableCell colSpan={4}>Total Estimated Cost (All Sessions)</TableCell>
-                            <TableCell className="text-right">{formatCurrency(totalCost)}</TableCell>
-                        </TableRow>
-                      </TableBody>
-                    </Table>
-                 ) : (
-                   <div className="text-center text-muted-foreground py-8">
-                     <BarChart className="mx-auto h-12 w-12 mb-2 opacity-50" />
-                     <p>No successful AI interactions yet.</p>
-                   </div>
-                 )}
-              </div>
-            </ScrollArea>
-          </TabsContent>
-
-          {/* Settings Tab */}
-           <TabsContent value="settings" className="flex-1 overflow-hidden p-0 m-0 data-[state=inactive]:hidden">
-              <ScrollArea className="h-full p-6" ref={settingsScrollAreaRef}>
-                <div className="space-y-8 max-w-3xl mx-auto">
-                  <h3 className="text-xl font-semibold mb-4 text-primary flex items-center"><Settings className="mr-2 h-5 w-5" /> Settings</h3>
-
-                  {/* API Key Section */}
-                  <div className="space-y-3 p-4 border rounded-lg shadow-sm">
-                    <Label htmlFor="openrouter-api-key" className="flex items-center text-base font-medium"><Key className="mr-2 h-4 w-4" /> OpenRouter API Key</Label>
-                    <p className="text-sm text-muted-foreground">Enter your key from <a href="https://openrouter.ai/keys" target="_blank" rel="noopener noreferrer" className="underline text-accent hover:text-accent/80">OpenRouter Keys</a>.</p>
-                    <div className="flex flex-col sm:flex-row items-center gap-2">
-                      <Input id="openrouter-api-key" type="password" placeholder="sk-or-v1-..." value={openRouterApiKey} onChange={(e) => setOpenRouterApiKey(e.target.value)} className="flex-1"/>
-                      <Button onClick={handleSaveApiKey} disabled={!openRouterApiKey.trim()} className="w-full sm:w-auto">
-                         {apiKeySaved ? <CheckCircle className="mr-2 h-4 w-4" /> : <Save className="mr-2 h-4 w-4" />} {apiKeySaved ? 'Saved!' : 'Save Key'}
-                      </Button>
-                    </div>
-                    <Alert className="mt-3"><AlertTitle>Security Note</AlertTitle><AlertDescription>Key stored in browser local storage.</AlertDescription></Alert>
-                  </div>
-
-                  {/* Model Selection Section */}
-                  <div className="space-y-4 p-4 border rounded-lg shadow-sm">
-                    <div className="flex justify-between items-center gap-2 flex-wrap">
-                       <h4 className="text-base font-medium flex items-center"><BrainCircuit className="mr-2 h-4 w-4" /> Manage OpenRouter Models</h4>
-                       <Button onClick={handleRefreshModels} variant="outline" size="sm" disabled={isFetchingModels || !openRouterApiKey}>
-                         {isFetchingModels ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />} {isFetchingModels ? 'Fetching...' : 'Refresh List'}
-                       </Button>
-                     </div>
-                     <p className="text-sm text-muted-foreground">Select up to {MAX_SELECTABLE_OPENROUTER_MODELS} models for the chat dropdown. Click 'Save Selections'.</p>
-
-                     {fetchModelsError && (<Alert variant="destructive"><AlertTitle>Error Fetching</AlertTitle><AlertDescription>{fetchModelsError}</AlertDescription></Alert>)}
-                      {!openRouterApiKey && (<Alert variant="default"><AlertTitle>API Key Required</AlertTitle><AlertDescription>Enter API key to fetch and select models.</AlertDescription></Alert>)}
-
-                     {openRouterApiKey && !isFetchingModels && allOpenRouterModels.length > 0 && (
-                         <>
-                           <div className="flex flex-col sm:flex-row gap-2">
-                              <Input type="search" placeholder="Filter models..." value={filterTerm} onChange={(e) => setFilterTerm(e.target.value)} className="flex-1"/>
-                              <div className="flex gap-2"><Button onClick={handleSelectAllFilteredModels} variant="secondary" size="sm" className="flex-1 sm:flex-none">Select Filtered</Button><Button onClick={handleDeselectAllFilteredModels} variant="secondary" size="sm" className="flex-1 sm:flex-none">Deselect Filtered</Button></div>
-                           </div>
-                            <p className="text-sm text-muted-foreground">Selected: {selectedOpenRouterModelIds.size} / {MAX_SELECTABLE_OPENROUTER_MODELS}</p>
-                           <ScrollArea className="h-64 border rounded-md">
-                             <div className="p-4 space-y-3">
-                               {filteredModels.length > 0 ? ( filteredModels.map((model) => (
-                                   <div key={model.id} className="flex items-center space-x-3 bg-background p-2 rounded hover:bg-muted/50 transition-colors">
-                                     <Checkbox
-                                        id={`model-${model.id}`}
-                                        checked={selectedOpenRouterModelIds.has(model.id)}
-                                        onCheckedChange={(checked) => handleModelSelectionChange(model.id, checked)}
-                                        // Disable checkbox if limit is reached and this model is not already selected
-                                        disabled={selectedOpenRouterModelIds.size >= MAX_SELECTABLE_OPENROUTER_MODELS && !selectedOpenRouterModelIds.has(model.id)}
-                                     />
-                                     <div className="grid gap-1.5 leading-none flex-1 min-w-0">
-                                       <label
-                                            htmlFor={`model-${model.id}`}
-                                            className={cn("text-sm font-medium truncate cursor-pointer", (selectedOpenRouterModelIds.size >= MAX_SELECTABLE_OPENROUTER_MODELS && !selectedOpenRouterModelIds.has(model.id)) && "text-muted-foreground opacity-70 cursor-not-allowed")}
-                                            title={model.name}
-                                       >
-                                            {model.name || model.id}
-                                       </label>
-                                       {model.context_length && (<p className="text-xs text-muted-foreground">Context: {model.context_length.toLocaleString()} tokens</p>)}
-                                     </div>
-                                   </div> ))
-                               ) : ( <p className="text-sm text-muted-foreground text-center py-4">No models match filter.</p> )}
-                             </div>
-                           </ScrollArea>
-                           <div className="flex justify-end pt-2">
-                              <Button onClick={handleImportSelectedModels}><Save className="mr-2 h-4 w-4" /> Save {selectedOpenRouterModelIds.size} Selected Model{selectedOpenRouterModelIds.size !== 1 ? 's' : ''}</Button>
-                            </div>
-                         </>
-                       )}
-                       {openRouterApiKey && !isFetchingModels && allOpenRouterModels.length === 0 && !fetchModelsError && ( <p className="text-sm text-muted-foreground text-center py-4">No models found. Click 'Refresh List'.</p> )}
-                  </div>
-                </div>
-              </ScrollArea>
-            </TabsContent>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <ChatMessagesTab
+            assistant={activeAssistant}
+            generatingMessageId={generatingMessageId}
+            getModelName={getModelName}
+            isDraggingFiles={isDraggingFiles}
+            isActive={activeTab === 'chat'}
+            focusedMessageId={focusedMessageId}
+            onDragEnter={handleDragEnter}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          />
+          <ChatHistoryTab onSelectSession={switchSession} onNewChat={() => createNewSession()} getModelName={getModelName} />
+          <ChatAnalysisTab getModelName={getModelName} generatingMessageId={generatingMessageId} />
+
+          <ChatSettingsTab settings={settings} getModelName={getModelName} onStartAssistantChat={startSessionWithAssistant} />
 
 
           <CardFooter className="border-t p-4 flex-col items-start gap-2">
              {error && (<Alert variant="destructive" className="mb-2 w-full"><AlertTitle>Error</AlertTitle><AlertDescription>{error}</AlertDescription></Alert>)}
             <div className="flex items-center gap-2 w-full">
-              <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-accent shrink-0" onClick={() => fileInputRef.current?.click()} aria-label="Attach file" disabled={isSending || selectedModel.provider === 'openrouter'} title={selectedModel.provider === 'openrouter' ? "File attachment not supported" : "Attach file"}>
-                <Paperclip className="h-5 w-5" />
+              <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-accent shrink-0" onClick={() => fileInputRef.current?.click()} aria-label="Attach file" disabled={isSending || isProcessingAttachments} title={isProcessingAttachments ? "Reading attachments..." : attachmentSupport.reason ? `Attach documents (${attachmentSupport.reason})` : "Attach files"}>
+                {isProcessingAttachments ? <Loader2 className="h-5 w-5 animate-spin" /> : <Paperclip className="h-5 w-5" />}
               </Button>
-              <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept=".txt,.pdf,.jpg,.jpeg,.png,.webp,.md" disabled={selectedModel.provider === 'openrouter'} />
-               <Textarea placeholder={isListening ? "Listening..." : "Type message or use microphone..."} value={input} onChange={(e) => setInput(e.target.value)} onKeyPress={handleKeyPress} className="flex-1 resize-none min-h-[40px] max-h-[150px] text-sm" rows={1} disabled={isSending || !activeSessionId} dir={isPersian(input) ? 'rtl' : 'ltr'} />
+              <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept={attachmentAccept} multiple />
+               <Textarea placeholder={isListening ? "Listening..." : "Type message or use microphone..."} value={input} onChange={(e) => setInput(e.target.value)} onKeyPress={handleKeyPress} onPaste={handlePaste} className="flex-1 resize-none min-h-[40px] max-h-[150px] text-sm" rows={1} disabled={isSending || !activeSessionId} dir={isPersian(input) ? 'rtl' : 'ltr'} />
               <TooltipProvider delayDuration={100}>
                  <Tooltip>
                       <TooltipTrigger asChild>
@@ -1606,14 +749,28 @@ export default function ChatInterface() {
                        </TooltipContent>
                  </Tooltip>
               </TooltipProvider>
-              <Button size="icon" onClick={handleSend} disabled={isSending || !activeSessionId || (!input.trim() && !selectedFile) || (selectedFile && selectedModel.provider === 'openrouter') || (selectedModel.provider === 'openrouter' && !openRouterApiKey && !process.env.NEXT_PUBLIC_OPENROUTER_API_KEY)} aria-label="Send message" className="bg-accent hover:bg-accent/90 text-accent-foreground shrink-0" title={!activeSessionId ? "Create a new chat first" : selectedFile && selectedModel.provider === 'openrouter' ? `Cannot send file with ${selectedModel.name}` : (selectedModel.provider === 'openrouter' && !openRouterApiKey && !process.env.NEXT_PUBLIC_OPENROUTER_API_KEY) ? 'OpenRouter API key required' : "Send message"}>
-               {isSending ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
+              {isSending ? (
+                <Button size="icon" variant="destructive" onClick={handleStop} aria-label="Stop generating" className="shrink-0" title="Stop generating">
+                  <Square className="h-4 w-4 fill-current" />
+                </Button>
+              ) : (
+              <Button size="icon" onClick={handleSend} disabled={isSending || !activeSessionId || (!input.trim() && attachments.length === 0) || !!unsupportedAttachment || isProcessingAttachments || isApiKeyMissing} aria-label="Send message" className="bg-accent hover:bg-accent/90 text-accent-foreground shrink-0" title={!activeSessionId ? "Create a new chat first" : unsupportedAttachment ? `Cannot send ${unsupportedAttachment.name} to ${selectedModel.name}: ${attachmentSupport.reason ?? 'unsupported file type'}` : isApiKeyMissing ? `${selectedProvider?.label} API key required` : "Send message"}>
+               <Send className="h-5 w-5" />
               </Button>
+              )}
             </div>
-             {selectedFile && (
-                <div className="mt-2 text-sm text-muted-foreground flex items-center gap-2 w-full ltr-text">
-                  <Paperclip size={14} /> <span className="truncate max-w-[calc(100%-80px)]">{selectedFile.name}</span>
-                  <Button variant="ghost" size="sm" onClick={() => {setSelectedFile(null); setFileDataUri(undefined); setError(null); if(fileInputRef.current) fileInputRef.current.value = '';}} className="p-1 h-auto text-destructive hover:text-destructive/80 ml-auto">Remove</Button>
+             {documentContextWarning && (<p className="mt-2 text-xs text-destructive w-full">{documentContextWarning}</p>)}
+             {attachments.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2 w-full ltr-text">
+                  {attachments.map((attachment, index) => (
+                    <div key={index} className={cn("flex items-center gap-2 rounded-md border bg-muted/50 p-1 pr-2 text-sm text-muted-foreground max-w-[14rem]", !isAttachmentSendable(attachment, attachmentSupport.accept) && "border-destructive")} title={attachment.extractedText !== undefined ? `${attachment.name} (about ${estimateTokens(attachment.extractedText).toLocaleString()} tokens of extracted text)` : attachment.name}>
+                      {isImageAttachment(attachment)
+                        ? <img src={attachment.dataUri} alt={attachment.name} className="h-10 w-10 rounded object-cover shrink-0" />
+                        : <Paperclip size={14} className="ml-1 shrink-0" />}
+                      <span className="truncate">{attachment.name}</span>
+                      <Button variant="ghost" size="icon" onClick={() => removeAttachment(index)} className="h-5 w-5 shrink-0 text-destructive hover:text-destructive/80" aria-label={`Remove ${attachment.name}`} disabled={isSending}><X className="h-3 w-3" /></Button>
+                    </div>
+                  ))}
                 </div>
               )}
           </CardFooter>
@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Bot, BrainCircuit, Loader2, Paperclip, User } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TabsContent } from '@/components/ui/tabs';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import JsonTree from '@/components/json-tree';
+import { estimateTokens } from '@/ai/context-window';
+import { useChatStore } from '@/hooks/use-chat-store';
+import { selectActiveSession } from '@/lib/chat-store';
+import type { Attachment } from '@/lib/chat-storage';
+import type { RetrievedChunk } from '@/lib/knowledge-base';
+import { cn, formatCurrency, isPersian } from '@/lib/utils';
+
+export const isImageAttachment = (attachment: Attachment): boolean => attachment.dataUri.startsWith('data:image/');
+
+// Knowledge base excerpts cited in an answer as [n] or [n, m]
+const getCitedSourceNumbers = (text: string): Set<number> => {
+  const cited = new Set<number>();
+  for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    match[1].split(',').forEach(number => cited.add(Number(number.trim())));
+  }
+  return cited;
+};
+
+// Summarises a message's steps, e.g. "2 attempts, 3 tool calls"
+const formatStepSummary = (steps: string[]): string => {
+  const attemptCount = steps.filter(step => step.startsWith('Attempt ')).length;
+  const toolCallCount = steps.filter(step => step.startsWith('Calling tool ')).length;
+  return [
+    `${attemptCount} ${attemptCount === 1 ? 'attempt' : 'attempts'}`,
+    ...(toolCallCount > 0 ? [`${toolCallCount} ${toolCallCount === 1 ? 'tool call' : 'tool calls'}`] : []),
+  ].join(', ');
+};
+
+/** The knowledge base excerpts an answer cites, or every excerpt sent when it cites none. */
+function KnowledgeSourcesList({ sources, answer }: { sources: RetrievedChunk[]; answer: string }) {
+  const cited = getCitedSourceNumbers(answer);
+  const numbered = sources.map((source, index) => ({ ...source, number: index + 1 }));
+  const citedSources = numbered.filter(source => cited.has(source.number));
+  const shown = citedSources.length > 0 ? citedSources : numbered;
+  return (
+    <details className="mt-2 text-xs text-muted-foreground">
+      <summary className="cursor-pointer select-none">{citedSources.length > 0 ? `Sources (${citedSources.length})` : `Knowledge base excerpts, not cited (${sources.length})`}</summary>
+      <ul className="mt-1 space-y-2">
+        {shown.map(source => (
+          <li key={source.number}>
+            <span className="font-medium">[{source.number}] {source.documentName}{source.location ? `, ${source.location}` : ''}</span>
+            <span className="ml-1 opacity-70">({Math.round(source.score * 100)}% match)</span>
+            <p className="mt-0.5 whitespace-pre-wrap line-clamp-4">{source.text}</p>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+// Open while the model is still thinking, so the trace can be followed live
+function ReasoningTrace({ reasoning, isLive = false }: { reasoning: string; isLive?: boolean }) {
+  return (
+    <details className="mb-2 text-xs text-muted-foreground" open={isLive || undefined}>
+      <summary className="cursor-pointer select-none flex items-center gap-1"><BrainCircuit className="h-3 w-3" /> Reasoning (~{estimateTokens(reasoning).toLocaleString()} tokens)</summary>
+      <div className={cn("mt-1 pl-4 border-l-2 border-muted whitespace-pre-wrap overflow-y-auto", isLive ? "max-h-40" : "max-h-96", isPersian(reasoning) ? 'rtl-text' : 'ltr-text')}>{reasoning}</div>
+    </details>
+  );
+}
+
+type FileDropHandlers = Pick<React.HTMLAttributes<HTMLDivElement>, 'onDragEnter' | 'onDragOver' | 'onDragLeave' | 'onDrop'>;
+
+interface ChatMessagesTabProps extends FileDropHandlers {
+  /** The persona of the active chat, shown as the AI's avatar. */
+  assistant: { name: string; avatar: string } | null;
+  /** The response still being generated, shown with its progress instead of as a finished message. */
+  generatingMessageId: string | null;
+  getModelName: (modelId: string | undefined) => string;
+  /** A file drag is over the tab (the handlers are the parent's, which owns the pending attachments). */
+  isDraggingFiles: boolean;
+  isActive: boolean;
+  /** Scrolled to and highlighted instead of following the newest message, e.g. a search result. */
+  focusedMessageId: string | null;
+}
+
+/** The "Chat" tab: the messages of the active session. */
+export default function ChatMessagesTab({ assistant, generatingMessageId, getModelName, isDraggingFiles, isActive, focusedMessageId, ...fileDropHandlers }: ChatMessagesTabProps) {
+  const chatState = useChatStore();
+  const activeSession = React.useMemo(() => selectActiveSession(chatState), [chatState]);
+  const messages = React.useMemo(() => activeSession?.messages ?? [], [activeSession]);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+
+  // Scroll to the newest message as messages arrive and stream in
+  useEffect(() => {
+    if (scrollAreaRef.current && isActive && !focusedMessageId) {
+      scrollAreaRef.current.scrollTo({
+        top: scrollAreaRef.current.scrollHeight,
+        behavior: 'smooth',
+      });
+    }
+  }, [messages, isActive, generatingMessageId, focusedMessageId]);
+
+  useEffect(() => {
+    if (!focusedMessageId || !isActive) return;
+    scrollAreaRef.current?.querySelector(`[data-message-id="${CSS.escape(focusedMessageId)}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [focusedMessageId, isActive]);
+
+  return (
+    <TabsContent value="chat" className="relative flex-1 overflow-hidden p-0 m-0 data-[state=inactive]:hidden" {...fileDropHandlers}>
+       {isDraggingFiles && (
+         <div className="pointer-events-none absolute inset-2 z-10 flex items-center justify-center rounded-lg border-2 border-dashed border-accent bg-background/80 text-sm text-muted-foreground">
+           Drop files to attach them
+         </div>
+       )}
+       <ScrollArea className="h-full p-4" ref={scrollAreaRef}>
+        <div className="space-y-4">
+          {messages.map((message) => (
+            <div key={message.id} data-message-id={message.id} className={cn('flex items-start gap-3', message.sender === 'user' ? 'justify-end' : 'justify-start')}>
+              {message.sender === 'ai' && (<Avatar className="h-8 w-8 border shrink-0" title={assistant?.name}><AvatarFallback>{assistant ? <span className="text-sm">{assistant.avatar}</span> : <Bot size={16} />}</AvatarFallback></Avatar>)}
+              {/* Conditional Styling for Thinking Message */}
+               <div className={cn(
+                   'max-w-[75%] rounded-lg shadow-sm relative group', // Common styles
+                   message.id === focusedMessageId && 'ring-2 ring-yellow-400 ring-offset-2 ring-offset-background', // Opened from search
+                   message.sender === 'user' ? 'bg-primary text-primary-foreground ltr-text p-3' :
+                   message.isError ? 'bg-destructive/10 border border-destructive/30 text-destructive ltr-text p-3' :
+                   message.id === generatingMessageId ? 'bg-muted/30 border border-dashed border-accent p-0' : // Specific style for thinking
+                   'bg-secondary text-secondary-foreground p-3', // Default AI message style
+                   message.sender === 'ai' && !message.isError && message.id !== generatingMessageId && (isPersian(message.text) ? 'rtl-text' : 'ltr-text') // Directionality for final AI message
+                )}>
+                    {/* Thinking Indicator and Steps */}
+                   {message.id === generatingMessageId && (
+                      <div className="p-3"> {/* Padding for thinking block */}
+                           <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+                               <Loader2 className="h-4 w-4 animate-spin" /> {message.text ? 'Generating...' : 'Thinking...'}
+                           </div>
+                          {message.reasoning && <ReasoningTrace reasoning={message.reasoning} isLive={!message.text} />}
+                          {/* Streamed response so far */}
+                          {message.text && (
+                               <p className={cn("text-sm whitespace-pre-wrap", isPersian(message.text) ? 'rtl-text' : 'ltr-text')}>{message.text}</p>
+                          )}
+                          {/* Display Thinking Steps (Optional) */}
+                          {!message.text && message.thinkingSteps && message.thinkingSteps.length > 0 && (
+                               <ScrollArea className="max-h-32 pr-2">
+                                   <ul className="text-xs text-muted-foreground/80 space-y-1 list-disc list-inside">
+                                       {message.thinkingSteps.map((step, index) => (
+                                            <li key={index} className="whitespace-pre-wrap">{step}</li>
+                                       ))}
+                                   </ul>
+                                </ScrollArea>
+                           )}
+                      </div>
+                   )}
+
+                  {/* Main Message Content (not shown for thinking message) */}
+                   {message.id !== generatingMessageId && (
+                       <>
+                           {message.files && message.files.length > 0 && (
+                              <div className="mb-2 flex flex-wrap gap-2 ltr-text">
+                                 {message.files.map((file, index) => isImageAttachment(file) ? (
+                                    <img key={index} src={file.dataUri} alt={file.name} title={file.name} className="h-24 max-w-[12rem] rounded-md border object-cover" />
+                                 ) : (
+                                    <div key={index} className="p-2 border rounded-md bg-muted/50 flex items-center gap-2 text-sm"><Paperclip size={14} /><span>{file.name}</span></div>
+                                 ))}
+                              </div>
+                           )}
+                           {message.reasoning && <ReasoningTrace reasoning={message.reasoning} />}
+                           {message.structuredData !== undefined ? (
+                              <JsonTree data={message.structuredData} fileName={`${activeSession?.outputSchema?.name ?? 'response'}-${message.timestamp}`} />
+                           ) : (
+                              <p className="text-sm whitespace-pre-wrap">{message.text}</p>
+                           )}
+                           {message.id !== generatingMessageId && message.thinkingSteps && message.thinkingSteps.length > 0 && (
+                              <details className="mt-2 text-xs text-muted-foreground ltr-text">
+                                 <summary className="cursor-pointer select-none">{message.isError ? 'Attempts' : `Answered by ${getModelName(message.modelId)}`} ({formatStepSummary(message.thinkingSteps)})</summary>
+                                 <ul className="mt-1 space-y-0.5 list-disc list-inside">
+                                    {message.thinkingSteps.map((step, index) => (<li key={index} className="whitespace-pre-wrap">{step}</li>))}
+                                 </ul>
+                              </details>
+                           )}
+                           {message.knowledgeSources && message.knowledgeSources.length > 0 && (
+                              <KnowledgeSourcesList sources={message.knowledgeSources} answer={message.text} />
+                           )}
+                           {message.isStopped && (
+                              <Badge variant="outline" className="mt-2 text-xs text-muted-foreground">Stopped</Badge>
+                           )}
+                           {message.sender === 'ai' && !message.isError && message.cost !== undefined && (
+                              <TooltipProvider delayDuration={100}>
+                                 <Tooltip>
+                                   <TooltipTrigger asChild><Badge variant="secondary" className="absolute -bottom-2 -right-2 opacity-70 group-hover:opacity-100 transition-opacity text-xs px-1.5 py-0.5 cursor-help">~{formatCurrency(message.cost)}</Badge></TooltipTrigger>
+                                   <TooltipContent side="bottom" align="end"><p>Model: {getModelName(message.modelId)}</p><p>Est. Cost: {formatCurrency(message.cost)}</p></TooltipContent>
+                                 </Tooltip>
+                              </TooltipProvider>
+                           )}
+                            {/* Display Tags for AI message */}
+                            {message.sender === 'ai' && !message.isError && activeSession?.tags && activeSession.tags.length > 0 && (
+                                 <div className="mt-2 flex flex-wrap gap-1">
+                                     {activeSession.tags.map(tag => (
+                                         <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                                     ))}
+                                 </div>
+                            )}
+                        </>
+                   )}
+              </div>
+               {message.sender === 'user' && (<Avatar className="h-8 w-8 border shrink-0"><AvatarFallback><User size={16} /></AvatarFallback></Avatar>)}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </TabsContent>
+  );
+}
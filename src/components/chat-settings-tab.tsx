@@ -0,0 +1,510 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { BookOpen, BrainCircuit, CheckCircle, Edit2, HardDrive, Key, Loader2, Plug, PlusCircle, RefreshCw, Repeat, Save, Server, Settings, Sparkles, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { TabsContent } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import GenerationOptionsFields from '@/components/generation-options-fields';
+import McpServersSettings from '@/components/mcp-servers-settings';
+import { OPENROUTER_PROVIDER, type ProviderModelInfo } from '@/ai/providers/descriptors';
+import { getAIModels, type ModelCatalogQuery } from '@/services/ai-api';
+import { DEFAULT_KNOWLEDGE_SETTINGS } from '@/lib/knowledge-base';
+import { cn, isPersian, parseHeaderLines } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MAX_SELECTABLE_OPENROUTER_MODELS,
+  toRequestOptions,
+  type Assistant,
+  type AssistantDraft,
+  type ChatSettings,
+  type OpenAICompatibleEndpoint,
+} from '@/hooks/use-chat-settings';
+
+// Models per page of the OpenRouter catalog (searching narrows it server-side)
+const OPENROUTER_CATALOG_PAGE_SIZE = 100;
+const CATALOG_SEARCH_DEBOUNCE_MS = 300;
+
+const EMPTY_ASSISTANT_DRAFT: AssistantDraft = { name: '', avatar: '🤖', systemPrompt: '' };
+
+// Saved OpenRouter selections use the bare OpenRouter model ID, without the provider prefix
+const toOpenRouterSelectionId = (modelId: string): string => modelId.slice(OPENROUTER_PROVIDER.prefix.length);
+
+const formatPricePerMillion = (pricePerToken: number): string => {
+  return pricePerToken === 0 ? 'free' : `$${(pricePerToken * 1_000_000).toFixed(2)}/M`;
+};
+
+interface ChatSettingsTabProps {
+  settings: ChatSettings;
+  getModelName: (modelId: string | undefined) => string;
+  /** Starts a chat from an assistant, e.g. with the Chat button next to it. */
+  onStartAssistantChat: (assistant: Assistant) => void;
+}
+
+export default function ChatSettingsTab({ settings, getModelName, onStartAssistantChat }: ChatSettingsTabProps) {
+  const { toast } = useToast();
+  const {
+    openRouterApiKey, selectedOpenRouterModelIds, setSelectedOpenRouterModelIds,
+    ollamaModels, isFetchingOllamaModels, ollamaError,
+    openAICompatibleEndpoints, fetchingEndpointId, endpointFetchErrors,
+    retrySettings, updateRetrySetting, knowledgeSettings, updateKnowledgeSetting,
+    assistants, availableModels,
+  } = settings;
+  const [apiKeyInput, setApiKeyInput] = useState<string>('');
+  const [apiKeySaved, setApiKeySaved] = useState<boolean>(false);
+  // --- OpenRouter Catalog State ---
+  const [openRouterCatalog, setOpenRouterCatalog] = useState<ProviderModelInfo[]>([]); // Current page for the filters
+  const [openRouterCatalogTotal, setOpenRouterCatalogTotal] = useState<number>(0);
+  const [catalogFilters, setCatalogFilters] = useState<{ imageInput: boolean; freeOnly: boolean }>({ imageInput: false, freeOnly: false });
+  const [filterTerm, setFilterTerm] = useState<string>('');
+  const [isFetchingModels, setIsFetchingModels] = useState<boolean>(false);
+  const [fetchModelsError, setFetchModelsError] = useState<string | null>(null);
+  // --- New Endpoint Form ---
+  const [newEndpointName, setNewEndpointName] = useState<string>('');
+  const [newEndpointBaseUrl, setNewEndpointBaseUrl] = useState<string>('');
+  const [newEndpointApiKey, setNewEndpointApiKey] = useState<string>('');
+  const [newEndpointHeaders, setNewEndpointHeaders] = useState<string>('');
+  // --- Assistant Form ---
+  const [assistantDraft, setAssistantDraft] = useState<AssistantDraft>(EMPTY_ASSISTANT_DRAFT);
+  const [editingAssistantId, setEditingAssistantId] = useState<string | null>(null);
+
+  // The key field starts with the saved key, which is loaded after the first render
+  useEffect(() => {
+    setApiKeyInput(openRouterApiKey);
+  }, [openRouterApiKey]);
+
+  // Loads one page of the OpenRouter catalog, filtered server-side
+  const fetchOpenRouterModels = useCallback(async (apiKey: string, search: string, forceRefresh = false) => {
+    if (!apiKey) {
+      setOpenRouterCatalog([]);
+      setOpenRouterCatalogTotal(0);
+      setFetchModelsError(null);
+      return;
+    }
+    setIsFetchingModels(true);
+    setFetchModelsError(null);
+    try {
+      const query: ModelCatalogQuery = {
+        providers: [OPENROUTER_PROVIDER.id],
+        search,
+        limit: OPENROUTER_CATALOG_PAGE_SIZE,
+        forceRefresh,
+        credentials: { apiKeys: { [OPENROUTER_PROVIDER.id]: apiKey } },
+        ...(catalogFilters.imageInput && { inputModalities: ['image'] }),
+        ...(catalogFilters.freeOnly && { freeOnly: true }),
+      };
+      const page = await getAIModels(query);
+      if (page.errors.length > 0) throw new Error(page.errors[0].message);
+      setOpenRouterCatalog(page.models);
+      setOpenRouterCatalogTotal(page.total);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error fetching models.';
+      console.error("Error fetching OpenRouter models:", error);
+      setFetchModelsError(`Error: ${message}`);
+      setOpenRouterCatalog([]);
+      setOpenRouterCatalogTotal(0);
+    } finally {
+      setIsFetchingModels(false);
+    }
+  }, [catalogFilters]);
+
+  // Re-query the catalog when the key, search term or filters change (search is debounced)
+  useEffect(() => {
+    const timer = setTimeout(() => fetchOpenRouterModels(openRouterApiKey, filterTerm), filterTerm ? CATALOG_SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timer);
+  }, [openRouterApiKey, filterTerm, fetchOpenRouterModels]);
+
+  const handleSaveApiKey = () => {
+    settings.saveOpenRouterApiKey(apiKeyInput);
+    setApiKeySaved(true);
+    toast({ title: "API Key Saved", description: "OpenRouter API key saved." });
+    setTimeout(() => setApiKeySaved(false), 2000);
+  };
+
+  const handleRefreshModels = () => {
+    if (!openRouterApiKey) { toast({ variant: "destructive", title: "API Key Missing", description: "Save an API key first." }); return; }
+    fetchOpenRouterModels(openRouterApiKey, filterTerm, true);
+    settings.refreshActiveModels();
+  };
+
+  const handleModelSelectionChange = (modelId: string, checked: boolean | 'indeterminate') => {
+    if (typeof checked !== 'boolean') return;
+    setSelectedOpenRouterModelIds(prev => {
+      const newSet = new Set(prev);
+      if (!checked) {
+        newSet.delete(modelId);
+      } else if (newSet.size < MAX_SELECTABLE_OPENROUTER_MODELS) {
+        newSet.add(modelId);
+      } else {
+        toast({ variant: "destructive", title: "Model Limit Reached", description: `You can only select up to ${MAX_SELECTABLE_OPENROUTER_MODELS} OpenRouter models.` });
+        return prev;
+      }
+      return newSet;
+    });
+  };
+
+  const handleSelectAllFilteredModels = () => {
+    setSelectedOpenRouterModelIds(prev => {
+      const newSet = new Set(prev);
+      let addedCount = 0;
+      openRouterCatalog.map(model => toOpenRouterSelectionId(model.id)).forEach(selectionId => {
+        if (newSet.size < MAX_SELECTABLE_OPENROUTER_MODELS && !newSet.has(selectionId)) {
+          newSet.add(selectionId);
+          addedCount++;
+        }
+      });
+      if (addedCount < openRouterCatalog.length && newSet.size === MAX_SELECTABLE_OPENROUTER_MODELS) {
+        toast({ title: "Model Limit Reached", description: `Added ${addedCount} models. Reached the limit of ${MAX_SELECTABLE_OPENROUTER_MODELS}.` });
+      }
+      return newSet;
+    });
+  };
+
+  const handleDeselectAllFilteredModels = () => {
+    setSelectedOpenRouterModelIds(prev => {
+      const newSet = new Set(prev);
+      openRouterCatalog.forEach(model => newSet.delete(toOpenRouterSelectionId(model.id)));
+      return newSet;
+    });
+  };
+
+  const handleSaveSelectedModels = () => {
+    settings.saveOpenRouterSelection();
+    toast({ title: "Models Selection Saved", description: `${Math.min(selectedOpenRouterModelIds.size, MAX_SELECTABLE_OPENROUTER_MODELS)} models available in chat.` });
+  };
+
+  const handleAddEndpoint = () => {
+    const name = newEndpointName.trim();
+    const baseUrl = newEndpointBaseUrl.trim();
+    if (!name) {
+      toast({ variant: "destructive", title: "Invalid Name", description: "Endpoint name cannot be empty." });
+      return;
+    }
+    try {
+      const url = new URL(baseUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('Unsupported protocol');
+    } catch {
+      toast({ variant: "destructive", title: "Invalid URL", description: "Enter a base URL such as http://localhost:8000/v1." });
+      return;
+    }
+    const headers = parseHeaderLines(newEndpointHeaders);
+    if (!headers) {
+      toast({ variant: "destructive", title: "Invalid Headers", description: "Enter one header per line as 'Name: value'." });
+      return;
+    }
+    const endpoint: OpenAICompatibleEndpoint = {
+      id: `endpoint_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      name,
+      baseUrl,
+      ...(newEndpointApiKey.trim() && { apiKey: newEndpointApiKey.trim() }),
+      ...(Object.keys(headers).length > 0 && { headers }),
+      models: [],
+    };
+    settings.addEndpoint(endpoint);
+    setNewEndpointName('');
+    setNewEndpointBaseUrl('');
+    setNewEndpointApiKey('');
+    setNewEndpointHeaders('');
+  };
+
+  const cancelEditingAssistant = () => {
+    setEditingAssistantId(null);
+    setAssistantDraft(EMPTY_ASSISTANT_DRAFT);
+  };
+
+  const handleSaveAssistant = () => {
+    const name = assistantDraft.name.trim();
+    if (!name || !assistantDraft.systemPrompt.trim()) {
+      toast({ variant: "destructive", title: "Incomplete Assistant", description: "An assistant needs a name and a system prompt." });
+      return;
+    }
+    settings.saveAssistant(editingAssistantId, {
+      ...assistantDraft, name,
+      avatar: assistantDraft.avatar.trim() || EMPTY_ASSISTANT_DRAFT.avatar,
+      defaultOptions: toRequestOptions(assistantDraft.defaultOptions),
+    });
+    toast({ title: editingAssistantId ? "Assistant Updated" : "Assistant Created", description: `Assistant "${name}" saved.` });
+    cancelEditingAssistant();
+  };
+
+  const handleEditAssistant = (assistant: Assistant) => {
+    setEditingAssistantId(assistant.id);
+    setAssistantDraft({
+      name: assistant.name, avatar: assistant.avatar, systemPrompt: assistant.systemPrompt,
+      defaultModelId: assistant.defaultModelId, defaultOptions: assistant.defaultOptions,
+    });
+  };
+
+  const handleDeleteAssistant = (assistant: Assistant) => {
+    settings.deleteAssistant(assistant.id);
+    if (editingAssistantId === assistant.id) cancelEditingAssistant();
+    toast({ title: "Assistant Deleted", description: `Assistant "${assistant.name}" deleted.` });
+  };
+
+  return (
+    <TabsContent value="settings" className="flex-1 overflow-hidden p-0 m-0 data-[state=inactive]:hidden">
+      <ScrollArea className="h-full p-6">
+        <div className="space-y-8 max-w-3xl mx-auto">
+          <h3 className="text-xl font-semibold mb-4 text-primary flex items-center"><Settings className="mr-2 h-5 w-5" /> Settings</h3>
+
+          {/* API Key Section */}
+          <div className="space-y-3 p-4 border rounded-lg shadow-sm">
+            <Label htmlFor="openrouter-api-key" className="flex items-center text-base font-medium"><Key className="mr-2 h-4 w-4" /> OpenRouter API Key</Label>
+            <p className="text-sm text-muted-foreground">Enter your key from <a href="https://openrouter.ai/keys" target="_blank" rel="noopener noreferrer" className="underline text-accent hover:text-accent/80">OpenRouter Keys</a>.</p>
+            <div className="flex flex-col sm:flex-row items-center gap-2">
+              <Input id="openrouter-api-key" type="password" placeholder="sk-or-v1-..." value={apiKeyInput} onChange={(e) => setApiKeyInput(e.target.value)} className="flex-1"/>
+              <Button onClick={handleSaveApiKey} disabled={!apiKeyInput.trim()} className="w-full sm:w-auto">
+                {apiKeySaved ? <CheckCircle className="mr-2 h-4 w-4" /> : <Save className="mr-2 h-4 w-4" />} {apiKeySaved ? 'Saved!' : 'Save Key'}
+              </Button>
+            </div>
+            <Alert className="mt-3"><AlertTitle>Security Note</AlertTitle><AlertDescription>Key stored in browser local storage.</AlertDescription></Alert>
+          </div>
+
+          {/* Model Selection Section */}
+          <div className="space-y-4 p-4 border rounded-lg shadow-sm">
+            <div className="flex justify-between items-center gap-2 flex-wrap">
+              <h4 className="text-base font-medium flex items-center"><BrainCircuit className="mr-2 h-4 w-4" /> Manage OpenRouter Models</h4>
+              <Button onClick={handleRefreshModels} variant="outline" size="sm" disabled={isFetchingModels || !openRouterApiKey}>
+                {isFetchingModels ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />} {isFetchingModels ? 'Fetching...' : 'Refresh List'}
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">Select up to {MAX_SELECTABLE_OPENROUTER_MODELS} models for the chat dropdown. Click 'Save Selections'.</p>
+
+            {fetchModelsError && (<Alert variant="destructive"><AlertTitle>Error Fetching</AlertTitle><AlertDescription>{fetchModelsError}</AlertDescription></Alert>)}
+            {!openRouterApiKey && (<Alert variant="default"><AlertTitle>API Key Required</AlertTitle><AlertDescription>Enter API key to fetch and select models.</AlertDescription></Alert>)}
+
+            {openRouterApiKey && !fetchModelsError && (
+              <>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input type="search" placeholder="Search models..." value={filterTerm} onChange={(e) => setFilterTerm(e.target.value)} className="flex-1"/>
+                  <div className="flex gap-2"><Button onClick={handleSelectAllFilteredModels} variant="secondary" size="sm" className="flex-1 sm:flex-none" disabled={openRouterCatalog.length === 0}>Select Filtered</Button><Button onClick={handleDeselectAllFilteredModels} variant="secondary" size="sm" className="flex-1 sm:flex-none" disabled={openRouterCatalog.length === 0}>Deselect Filtered</Button></div>
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  <div className="flex items-center gap-2"><Checkbox id="catalog-filter-image" checked={catalogFilters.imageInput} onCheckedChange={(checked) => setCatalogFilters(prev => ({ ...prev, imageInput: checked === true }))} /><Label htmlFor="catalog-filter-image" className="font-normal">Accepts images</Label></div>
+                  <div className="flex items-center gap-2"><Checkbox id="catalog-filter-free" checked={catalogFilters.freeOnly} onCheckedChange={(checked) => setCatalogFilters(prev => ({ ...prev, freeOnly: checked === true }))} /><Label htmlFor="catalog-filter-free" className="font-normal">Free only</Label></div>
+                </div>
+                <p className="text-sm text-muted-foreground">Selected: {selectedOpenRouterModelIds.size} / {MAX_SELECTABLE_OPENROUTER_MODELS} - Showing {openRouterCatalog.length} of {openRouterCatalogTotal} matching models</p>
+                <ScrollArea className="h-64 border rounded-md">
+                  <div className="p-4 space-y-3">
+                    {isFetchingModels ? ( <div className="space-y-2">{[0, 1, 2].map(i => <Skeleton key={i} className="h-10 w-full" />)}</div>
+                    ) : openRouterCatalog.length > 0 ? ( openRouterCatalog.map((model) => {
+                      const selectionId = toOpenRouterSelectionId(model.id);
+                      const isSelected = selectedOpenRouterModelIds.has(selectionId);
+                      const isLimitReached = selectedOpenRouterModelIds.size >= MAX_SELECTABLE_OPENROUTER_MODELS && !isSelected;
+                      return (
+                        <div key={model.id} className="flex items-center space-x-3 bg-background p-2 rounded hover:bg-muted/50 transition-colors">
+                          <Checkbox
+                            id={`model-${model.id}`}
+                            checked={isSelected}
+                            onCheckedChange={(checked) => handleModelSelectionChange(selectionId, checked)}
+                            // Disable checkbox if limit is reached and this model is not already selected
+                            disabled={isLimitReached}
+                          />
+                          <div className="grid gap-1.5 leading-none flex-1 min-w-0">
+                            <label
+                              htmlFor={`model-${model.id}`}
+                              className={cn("text-sm font-medium truncate cursor-pointer", isLimitReached && "text-muted-foreground opacity-70 cursor-not-allowed")}
+                              title={model.description || model.name}
+                            >
+                              {model.name || model.id}
+                            </label>
+                            <p className="text-xs text-muted-foreground">
+                              {[
+                                model.context_length && `Context: ${model.context_length.toLocaleString()} tokens`,
+                                model.maxCompletionTokens && `Max output: ${model.maxCompletionTokens.toLocaleString()}`,
+                                model.pricing && `In ${formatPricePerMillion(model.pricing.prompt)} / Out ${formatPricePerMillion(model.pricing.completion)}`,
+                              ].filter(Boolean).join(' - ')}
+                            </p>
+                          </div>
+                          {model.inputModalities?.includes('image') && <Badge variant="outline" className="text-xs shrink-0">Vision</Badge>}
+                          {model.isModerated && <Badge variant="outline" className="text-xs shrink-0">Moderated</Badge>}
+                        </div> );
+                    })
+                    ) : ( <p className="text-sm text-muted-foreground text-center py-4">No models match filter.</p> )}
+                  </div>
+                </ScrollArea>
+                <div className="flex justify-end pt-2">
+                  <Button onClick={handleSaveSelectedModels}><Save className="mr-2 h-4 w-4" /> Save {selectedOpenRouterModelIds.size} Selected Model{selectedOpenRouterModelIds.size !== 1 ? 's' : ''}</Button>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Local Ollama Section */}
+          <div className="space-y-4 p-4 border rounded-lg shadow-sm">
+            <div className="flex justify-between items-center gap-2 flex-wrap">
+              <h4 className="text-base font-medium flex items-center"><HardDrive className="mr-2 h-4 w-4" /> Local Ollama Models</h4>
+              <Button onClick={() => settings.discoverOllamaModels(true)} variant="outline" size="sm" disabled={isFetchingOllamaModels}>
+                {isFetchingOllamaModels ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />} {isFetchingOllamaModels ? 'Discovering...' : 'Discover Models'}
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">Models pulled into a local Ollama daemon are added to the chat dropdown automatically and work without cloud API keys. The daemon address is configured with the <code>OLLAMA_BASE_URL</code> environment variable.</p>
+            {ollamaError && (<Alert variant="default"><AlertTitle>Ollama Not Available</AlertTitle><AlertDescription>{ollamaError}</AlertDescription></Alert>)}
+            {ollamaModels.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {ollamaModels.map(model => (<Badge key={model.id} variant="secondary" className="text-xs">{model.name}</Badge>))}
+              </div>
+            ) : (!ollamaError && !isFetchingOllamaModels && <p className="text-sm text-muted-foreground text-center py-2">No local models found. Pull one with <code>ollama pull</code>.</p>)}
+          </div>
+
+          {/* Assistants Section */}
+          <div className="space-y-4 p-4 border rounded-lg shadow-sm">
+            <h4 className="text-base font-medium flex items-center"><Sparkles className="mr-2 h-4 w-4" /> Assistants</h4>
+            <p className="text-sm text-muted-foreground">Reusable personas with their own system prompt, default model and parameters. Start a chat with one from the <Sparkles className="inline h-3 w-3" /> button next to New Chat.</p>
+
+            {assistants.length > 0 && (
+              <ul className="space-y-2">
+                {assistants.map(assistant => (
+                  <li key={assistant.id} className={cn("p-3 border rounded-md flex items-start justify-between gap-2", editingAssistantId === assistant.id && "border-accent")}>
+                    <div className="flex items-start gap-3 min-w-0">
+                      <span className="text-xl leading-none">{assistant.avatar}</span>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{assistant.name}</p>
+                        <p className="text-xs text-muted-foreground line-clamp-2">{assistant.systemPrompt}</p>
+                        {assistant.defaultModelId && <p className="text-xs text-muted-foreground">Model: {getModelName(assistant.defaultModelId)}</p>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button variant="outline" size="sm" onClick={() => onStartAssistantChat(assistant)}><PlusCircle className="mr-2 h-4 w-4" /> Chat</Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-primary" onClick={() => handleEditAssistant(assistant)}><Edit2 size={14} /><span className="sr-only">Edit assistant</span></Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => handleDeleteAssistant(assistant)}><Trash2 size={14} /><span className="sr-only">Delete assistant</span></Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="space-y-3">
+              <div className="grid gap-2 grid-cols-[4rem_1fr]">
+                <Input placeholder="🤖" value={assistantDraft.avatar} onChange={(e) => setAssistantDraft(prev => ({ ...prev, avatar: e.target.value }))} maxLength={4} className="text-center" aria-label="Avatar" />
+                <Input placeholder="Name (e.g. Code Reviewer)" value={assistantDraft.name} onChange={(e) => setAssistantDraft(prev => ({ ...prev, name: e.target.value }))} maxLength={40} />
+              </div>
+              <Textarea placeholder="System prompt, e.g. You are a meticulous code reviewer. Point out bugs before style issues." value={assistantDraft.systemPrompt} onChange={(e) => setAssistantDraft(prev => ({ ...prev, systemPrompt: e.target.value }))} rows={4} className="text-sm" dir={isPersian(assistantDraft.systemPrompt) ? 'rtl' : 'ltr'} />
+              <div className="space-y-1">
+                <Label className="text-xs">Default model</Label>
+                <Select value={assistantDraft.defaultModelId ?? 'none'} onValueChange={(value) => setAssistantDraft(prev => ({ ...prev, defaultModelId: value === 'none' ? undefined : value }))}>
+                  <SelectTrigger className="h-9 text-sm"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Keep the current model</SelectItem>
+                    {availableModels.map(model => (<SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <details className="text-sm">
+                <summary className="cursor-pointer select-none text-muted-foreground">Default parameters</summary>
+                <div className="pt-3">
+                  <GenerationOptionsFields idPrefix="assistant-param" options={assistantDraft.defaultOptions} onChange={(key, value) => setAssistantDraft(prev => ({ ...prev, defaultOptions: { ...prev.defaultOptions, [key]: value } }))} />
+                </div>
+              </details>
+              <div className="flex justify-end gap-2">
+                {editingAssistantId && <Button variant="outline" onClick={cancelEditingAssistant}>Cancel</Button>}
+                <Button onClick={handleSaveAssistant} disabled={!assistantDraft.name.trim() || !assistantDraft.systemPrompt.trim()}>
+                  {editingAssistantId ? <Save className="mr-2 h-4 w-4" /> : <PlusCircle className="mr-2 h-4 w-4" />} {editingAssistantId ? 'Save Assistant' : 'Add Assistant'}
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {/* Knowledge Base Section */}
+          <div className="space-y-4 p-4 border rounded-lg shadow-sm">
+            <h4 className="text-base font-medium flex items-center"><BookOpen className="mr-2 h-4 w-4" /> Knowledge Base</h4>
+            <p className="text-sm text-muted-foreground">Documents added under "Knowledge" in a chat are embedded with this model and stored in your browser. Use <code>googleai/text-embedding-004</code>, or a local Ollama embedding model such as <code>ollama/nomic-embed-text</code>. Documents embedded with a different model must be added again.</p>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-1 sm:col-span-2">
+                <Label htmlFor="knowledge-embedder">Embedding model</Label>
+                <Input id="knowledge-embedder" className="ltr-text" value={knowledgeSettings.embedderId} onChange={(e) => updateKnowledgeSetting('embedderId', e.target.value.trim() || DEFAULT_KNOWLEDGE_SETTINGS.embedderId)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="knowledge-top-k">Excerpts per prompt</Label>
+                <Input id="knowledge-top-k" type="number" min={1} max={20} value={knowledgeSettings.topK} onChange={(e) => { const value = Math.floor(Number(e.target.value)); if (value >= 1) updateKnowledgeSetting('topK', Math.min(20, value)); }} />
+              </div>
+            </div>
+          </div>
+
+          {/* Retry Section */}
+          <div className="space-y-4 p-4 border rounded-lg shadow-sm">
+            <h4 className="text-base font-medium flex items-center"><Repeat className="mr-2 h-4 w-4" /> Retries</h4>
+            <p className="text-sm text-muted-foreground">Rate-limited (429) and failed (5xx) requests are retried with exponential backoff, waiting as long as the provider's <code>Retry-After</code> asks. When a model still fails, the chat's fallback models (set next to the model selector) are tried in order.</p>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="retry-max-retries">Retries per model</Label>
+                <Input id="retry-max-retries" type="number" min={0} max={10} value={retrySettings.maxRetries} onChange={(e) => updateRetrySetting('maxRetries', Math.min(10, Math.floor(Number(e.target.value))))} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="retry-initial-delay">Initial delay (s)</Label>
+                <Input id="retry-initial-delay" type="number" min={0} step={0.5} value={retrySettings.initialDelayMs / 1000} onChange={(e) => updateRetrySetting('initialDelayMs', Math.round(Number(e.target.value) * 1000))} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="retry-max-delay">Longest wait (s)</Label>
+                <Input id="retry-max-delay" type="number" min={1} value={retrySettings.maxDelayMs / 1000} onChange={(e) => updateRetrySetting('maxDelayMs', Math.max(1000, Math.round(Number(e.target.value) * 1000)))} />
+              </div>
+            </div>
+          </div>
+
+          {/* OpenAI-compatible Endpoints Section */}
+          <div className="space-y-4 p-4 border rounded-lg shadow-sm">
+            <h4 className="text-base font-medium flex items-center"><Server className="mr-2 h-4 w-4" /> OpenAI-compatible Endpoints</h4>
+            <p className="text-sm text-muted-foreground">Connect self-hosted gateways (vLLM, LiteLLM, llama.cpp server) that serve <code>/v1/chat/completions</code> and <code>/v1/models</code>. All fetched models appear in the chat dropdown. Endpoints are reached from the app's server, which must list them in <code>OPENAI_COMPATIBLE_ALLOWED_URLS</code>.</p>
+
+            {openAICompatibleEndpoints.length > 0 && (
+              <ul className="space-y-2">
+                {openAICompatibleEndpoints.map(endpoint => (
+                  <li key={endpoint.id} className="p-3 border rounded-md space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate" title={endpoint.name}>{endpoint.name}</p>
+                        <p className="text-xs text-muted-foreground truncate ltr-text" title={endpoint.baseUrl}>{endpoint.baseUrl}</p>
+                        <p className="text-xs text-muted-foreground">{endpoint.models.length} model{endpoint.models.length !== 1 ? 's' : ''}{endpoint.apiKey ? ' - API key set' : ''}{endpoint.headers ? ` - ${Object.keys(endpoint.headers).length} custom header(s)` : ''}</p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button variant="outline" size="sm" onClick={() => settings.fetchEndpointModels(endpoint)} disabled={fetchingEndpointId === endpoint.id}>
+                          {fetchingEndpointId === endpoint.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />} {fetchingEndpointId === endpoint.id ? 'Fetching...' : 'Fetch Models'}
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => settings.removeEndpoint(endpoint.id)}><Trash2 size={14} /><span className="sr-only">Remove endpoint</span></Button>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Checkbox id={`endpoint-tools-${endpoint.id}`} checked={endpoint.toolCalling === true} onCheckedChange={(checked) => settings.setEndpointToolCalling(endpoint.id, checked === true)} />
+                      <Label htmlFor={`endpoint-tools-${endpoint.id}`} className="font-normal text-sm">Send tools to these models (the server must support function calling)</Label>
+                    </div>
+                    {endpointFetchErrors[endpoint.id] && (<Alert variant="destructive"><AlertTitle>Error Fetching</AlertTitle><AlertDescription>{endpointFetchErrors[endpoint.id]}</AlertDescription></Alert>)}
+                    {endpoint.models.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {endpoint.models.map(model => (<Badge key={model.id} variant="secondary" className="text-xs">{model.name}</Badge>))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="grid gap-2 sm:grid-cols-2">
+              <Input placeholder="Name (e.g. Team vLLM)" value={newEndpointName} onChange={(e) => setNewEndpointName(e.target.value)} maxLength={40} />
+              <Input placeholder="Base URL (e.g. http://localhost:8000/v1)" value={newEndpointBaseUrl} onChange={(e) => setNewEndpointBaseUrl(e.target.value)} className="ltr-text" />
+              <Input type="password" placeholder="API key (optional)" value={newEndpointApiKey} onChange={(e) => setNewEndpointApiKey(e.target.value)} className="sm:col-span-2" />
+              <Textarea placeholder={"Custom headers (optional), one per line:\nX-Team: research"} value={newEndpointHeaders} onChange={(e) => setNewEndpointHeaders(e.target.value)} rows={2} className="sm:col-span-2 text-sm ltr-text" />
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleAddEndpoint} disabled={!newEndpointName.trim() || !newEndpointBaseUrl.trim()}><PlusCircle className="mr-2 h-4 w-4" /> Add Endpoint</Button>
+            </div>
+          </div>
+
+          {/* MCP Servers Section */}
+          <div className="space-y-4 p-4 border rounded-lg shadow-sm">
+            <h4 className="text-base font-medium flex items-center"><Plug className="mr-2 h-4 w-4" /> MCP Servers</h4>
+            <p className="text-sm text-muted-foreground">Tools and resources of enabled <a href="https://modelcontextprotocol.io" target="_blank" rel="noopener noreferrer" className="underline">Model Context Protocol</a> servers are offered to models that can call tools, in every chat. Servers are reached from the app's server: HTTP and SSE servers must be listed in its <code>MCP_ALLOWED_URLS</code>, and stdio servers run only when it sets <code>MCP_ALLOW_STDIO=true</code>.</p>
+            <McpServersSettings servers={settings.mcpServers} onServersChange={settings.saveMcpServers} />
+          </div>
+        </div>
+      </ScrollArea>
+    </TabsContent>
+  );
+}
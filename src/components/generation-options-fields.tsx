@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AIModelOptions, AIResponseFormat } from '@/services/ai-api';
+
+interface GenerationOptionsFieldsProps {
+  /** Prefix for the input IDs, so several instances can be on the page at once. */
+  idPrefix: string;
+  options: AIModelOptions | undefined;
+  /** Called with the changed option; `undefined` clears it so the provider default applies. */
+  onChange: <K extends keyof AIModelOptions>(key: K, value: AIModelOptions[K]) => void;
+}
+
+// Empty inputs clear a generation option so the provider default applies
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const NUMBER_FIELDS: { key: Exclude<keyof AIModelOptions, 'stopSequences' | 'responseFormat'>; label: string; min?: number; max?: number; step: number; placeholder: string }[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, placeholder: 'Default' },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05, placeholder: 'Default' },
+  { key: 'maxTokens', label: 'Max tokens', min: 1, step: 1, placeholder: 'Default' },
+  { key: 'seed', label: 'Seed', step: 1, placeholder: 'Random' },
+  { key: 'presencePenalty', label: 'Presence penalty', min: -2, max: 2, step: 0.1, placeholder: 'Default' },
+  { key: 'frequencyPenalty', label: 'Frequency penalty', min: -2, max: 2, step: 0.1, placeholder: 'Default' },
+];
+
+/**
+ * Inputs for every generation parameter, used by the per-chat parameter panel and the assistant editor.
+ */
+export default function GenerationOptionsFields({ idPrefix, options, onChange }: GenerationOptionsFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {NUMBER_FIELDS.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`${idPrefix}-${field.key}`} className="text-xs">{field.label}</Label>
+            <Input id={`${idPrefix}-${field.key}`} type="number" min={field.min} max={field.max} step={field.step} placeholder={field.placeholder} value={options?.[field.key] ?? ''} onChange={(e) => onChange(field.key, parseOptionalNumber(e.target.value))} />
+          </div>
+        ))}
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-stop`} className="text-xs">Stop sequences (one per line, up to 4)</Label>
+        {/* Blank lines are kept while editing so a new line can be typed; they are dropped when sending */}
+        <Textarea id={`${idPrefix}-stop`} rows={2} className="text-sm ltr-text" value={options?.stopSequences?.join('\n') ?? ''} onChange={(e) => onChange('stopSequences', e.target.value ? e.target.value.split('\n').slice(0, 4) : undefined)} />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Response format</Label>
+        <Select value={options?.responseFormat ?? 'text'} onValueChange={(value) => onChange('responseFormat', value === 'text' ? undefined : value as AIResponseFormat)}>
+          <SelectTrigger className="h-8 text-sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="text">Text</SelectItem>
+            <SelectItem value="json">JSON object</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Copy, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+
+interface JsonTreeProps {
+  /** The parsed JSON value to display. */
+  data: unknown;
+  /** File name (without extension) used by the download button. */
+  fileName?: string;
+}
+
+// Deeper objects and arrays start collapsed so large payloads stay readable
+const EXPANDED_DEPTH = 2;
+
+function JsonValue({ value }: { value: unknown }) {
+  if (value === null) return <span className="text-muted-foreground">null</span>;
+  if (typeof value === 'string') return <span className="text-green-700 dark:text-green-400 break-all">{JSON.stringify(value)}</span>;
+  if (typeof value === 'number') return <span className="text-blue-700 dark:text-blue-400">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-purple-700 dark:text-purple-400">{String(value)}</span>;
+  return <span>{JSON.stringify(value)}</span>;
+}
+
+function JsonNode({ label, value, depth }: { label?: string; value: unknown; depth: number }) {
+  const [isExpanded, setIsExpanded] = useState(depth < EXPANDED_DEPTH);
+  const isContainer = typeof value === 'object' && value !== null;
+  const labelElement = label !== undefined && <span className="text-foreground/80">{label}: </span>;
+
+  if (!isContainer) {
+    return <div className="pl-4">{labelElement}<JsonValue value={value} /></div>;
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+  if (entries.length === 0) {
+    return <div className="pl-4">{labelElement}{open}{close}</div>;
+  }
+  return (
+    <div>
+      <button type="button" className="flex items-center hover:bg-muted/50 rounded-sm text-left" onClick={() => setIsExpanded(expanded => !expanded)} aria-expanded={isExpanded}>
+        {isExpanded ? <ChevronDown className="h-3 w-3 mr-1 shrink-0" /> : <ChevronRight className="h-3 w-3 mr-1 shrink-0" />}
+        <span>{labelElement}{open}{!isExpanded && <span className="text-muted-foreground"> {entries.length} {Array.isArray(value) ? 'item' : 'key'}{entries.length !== 1 ? 's' : ''} {close}</span>}</span>
+      </button>
+      {isExpanded && (
+        <>
+          <div className="pl-4 border-l border-border/60 ml-1.5">
+            {entries.map(([key, item]) => <JsonNode key={key} label={Array.isArray(value) ? undefined : key} value={item} depth={depth + 1} />)}
+          </div>
+          <div className="pl-4">{close}</div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Collapsible tree view of a JSON value (a structured response), with copy and download buttons.
+ */
+export default function JsonTree({ data, fileName = 'response' }: JsonTreeProps) {
+  const { toast } = useToast();
+  const json = JSON.stringify(data, null, 2);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(json);
+      toast({ title: "Copied", description: "The JSON was copied to the clipboard." });
+    } catch (error) {
+      console.error("Failed to copy JSON:", error);
+      toast({ variant: "destructive", title: "Copy Failed", description: "The browser did not allow access to the clipboard." });
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-2 ltr-text">
+      <div className="font-mono text-xs leading-relaxed overflow-x-auto">
+        <JsonNode value={data} depth={0} />
+      </div>
+      <div className="flex gap-1">
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleCopy}><Copy className="mr-1 h-3 w-3" /> Copy</Button>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleDownload}><Download className="mr-1 h-3 w-3" /> Download</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { BookOpen, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { EXTRACTABLE_DOCUMENT_ACCEPT, extractDocumentText, isExtractableDocument } from '@/lib/document-extraction';
+import { addKnowledgeDocument, listKnowledgeDocuments, removeKnowledgeDocument, type KnowledgeDocument } from '@/lib/knowledge-base';
+
+interface KnowledgeBasePanelProps {
+  /** The knowledge bases to manage, e.g. the active chat's and its folder's. */
+  knowledgeBases: { id: string; label: string }[];
+  /** Embedder used for newly added documents. */
+  embedderId: string;
+}
+
+/**
+ * Lists, adds and removes the documents of one or more local knowledge bases. Added documents are
+ * extracted and embedded in the browser; their most relevant chunks are added to each prompt.
+ */
+export default function KnowledgeBasePanel({ knowledgeBases, embedderId }: KnowledgeBasePanelProps) {
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<Record<string, KnowledgeDocument[]>>({});
+  const [indexingDocument, setIndexingDocument] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const targetKnowledgeBaseRef = useRef<string | null>(null);
+
+  const refreshDocuments = useCallback(async () => {
+    try {
+      const entries = await Promise.all(knowledgeBases.map(async base => [base.id, await listKnowledgeDocuments(base.id)] as const));
+      setDocuments(Object.fromEntries(entries));
+    } catch (error) {
+      console.error("Failed to load knowledge base documents:", error);
+      toast({ variant: "destructive", title: "Knowledge Base Unavailable", description: "Could not open the browser's IndexedDB storage." });
+    }
+  }, [knowledgeBases, toast]);
+
+  useEffect(() => { refreshDocuments(); }, [refreshDocuments]);
+
+  const openFilePicker = (knowledgeBaseId: string) => {
+    targetKnowledgeBaseRef.current = knowledgeBaseId;
+    fileInputRef.current?.click();
+  };
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    const knowledgeBaseId = targetKnowledgeBaseRef.current;
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!knowledgeBaseId) return;
+
+    for (const file of files) {
+      if (!isExtractableDocument(file.name)) {
+        toast({ variant: "destructive", title: "Unsupported Document", description: `Text cannot be extracted from ${file.name}.` });
+        continue;
+      }
+      setIndexingDocument(file.name);
+      try {
+        const chunkCount = await addKnowledgeDocument(knowledgeBaseId, file.name, await extractDocumentText(file), embedderId);
+        toast({ title: "Document Added", description: `${file.name} was split into ${chunkCount} chunks.` });
+      } catch (error) {
+        console.error(`Failed to add ${file.name} to the knowledge base:`, error);
+        toast({ variant: "destructive", title: "Could Not Add Document", description: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    setIndexingDocument(null);
+    refreshDocuments();
+  };
+
+  const handleRemove = async (knowledgeBaseId: string, documentName: string) => {
+    await removeKnowledgeDocument(knowledgeBaseId, documentName);
+    refreshDocuments();
+  };
+
+  return (
+    <div className="space-y-4">
+      <input type="file" ref={fileInputRef} onChange={handleFilesSelected} className="hidden" accept={EXTRACTABLE_DOCUMENT_ACCEPT} multiple />
+      {knowledgeBases.map(base => (
+        <div key={base.id} className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h5 className="text-sm font-medium flex items-center gap-2"><BookOpen className="h-4 w-4" /> {base.label}</h5>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => openFilePicker(base.id)} disabled={!!indexingDocument}>
+              <PlusCircle className="mr-1 h-3 w-3" /> Add documents
+            </Button>
+          </div>
+          {(documents[base.id] ?? []).length === 0 ? (
+            <p className="text-xs text-muted-foreground">No documents yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {documents[base.id].map(document => (
+                <li key={document.name} className="flex items-center gap-2 text-sm">
+                  <span className="truncate flex-1 ltr-text" title={document.name}>{document.name}</span>
+                  {document.embedderId !== embedderId && (
+                    <Badge variant="outline" className="text-xs" title={`Embedded with ${document.embedderId}; add it again to search it with ${embedderId}.`}>Other embedder</Badge>
+                  )}
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">{document.chunkCount} chunks</span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6 text-destructive hover:text-destructive/80" onClick={() => handleRemove(base.id, document.name)} aria-label={`Remove ${document.name}`} disabled={!!indexingDocument}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+      {indexingDocument && (
+        <p className="text-xs text-muted-foreground flex items-center gap-2"><Loader2 className="h-3 w-3 animate-spin" /> Indexing {indexingDocument}...</p>
+      )}
+    </div>
+  );
+}
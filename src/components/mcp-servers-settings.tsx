@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CheckCircle, Loader2, PlusCircle, Plug, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { parseHeaderLines } from '@/lib/utils';
+import type { McpServerConfig } from '@/ai/flows/smart-assistant-prompting';
+import { testMcpServer, type McpServerTestResult } from '@/ai/flows/mcp-servers';
+
+/** A configured MCP server; only enabled servers are sent with requests. */
+export interface McpServerSettings extends McpServerConfig {
+  enabled: boolean;
+}
+
+interface McpServersSettingsProps {
+  servers: McpServerSettings[];
+  onServersChange: (updater: (prev: McpServerSettings[]) => McpServerSettings[]) => void;
+}
+
+const TRANSPORT_LABELS: Record<McpServerConfig['transport'], string> = {
+  http: 'Streamable HTTP',
+  sse: 'HTTP + SSE (legacy)',
+  stdio: 'stdio (local command)',
+};
+
+// Parses "KEY=VALUE" lines into environment variables; returns null if a line is malformed
+const parseEnvLines = (text: string): Record<string, string> | null => {
+  const env: Record<string, string> = {};
+  for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+    const separatorIndex = line.indexOf('=');
+    if (separatorIndex <= 0) return null;
+    env[line.slice(0, separatorIndex).trim()] = line.slice(separatorIndex + 1).trim();
+  }
+  return env;
+};
+
+/**
+ * Adds, removes, enables and tests the MCP servers whose tools and resources are offered to models.
+ * Servers are connected from the Next.js server, so URLs and commands refer to that machine.
+ */
+export default function McpServersSettings({ servers, onServersChange }: McpServersSettingsProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [transport, setTransport] = useState<McpServerConfig['transport']>('http');
+  const [url, setUrl] = useState('');
+  const [headerLines, setHeaderLines] = useState('');
+  const [command, setCommand] = useState('');
+  const [argLines, setArgLines] = useState('');
+  const [envLines, setEnvLines] = useState('');
+  const [testingServerId, setTestingServerId] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, McpServerTestResult>>({});
+
+  const isStdio = transport === 'stdio';
+
+  const handleTest = async (server: McpServerSettings) => {
+    setTestingServerId(server.id);
+    const { enabled, ...config } = server;
+    const result = await testMcpServer(config).catch((error): McpServerTestResult => ({ ok: false, error: error instanceof Error ? error.message : String(error) }));
+    setTestResults(prev => ({ ...prev, [server.id]: result }));
+    setTestingServerId(null);
+  };
+
+  const handleAdd = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      toast({ variant: "destructive", title: "Invalid Name", description: "Server name cannot be empty." });
+      return;
+    }
+    if (servers.some(server => server.name.toLowerCase() === trimmedName.toLowerCase())) {
+      toast({ variant: "destructive", title: "Duplicate Name", description: "Server names prefix their tool names, so they must be unique." });
+      return;
+    }
+    let server: McpServerSettings;
+    const id = `mcp_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    if (isStdio) {
+      const env = parseEnvLines(envLines);
+      if (!command.trim()) {
+        toast({ variant: "destructive", title: "Invalid Command", description: "Enter the command that starts the server, e.g. npx." });
+        return;
+      }
+      if (!env) {
+        toast({ variant: "destructive", title: "Invalid Environment", description: "Enter one variable per line as 'NAME=value'." });
+        return;
+      }
+      const args = argLines.split('\n').map(arg => arg.trim()).filter(Boolean);
+      server = { id, name: trimmedName, transport, enabled: true, command: command.trim(), ...(args.length > 0 && { args }), ...(Object.keys(env).length > 0 && { env }) };
+    } else {
+      try {
+        const parsedUrl = new URL(url.trim());
+        if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') throw new Error('Unsupported protocol');
+      } catch {
+        toast({ variant: "destructive", title: "Invalid URL", description: "Enter the server endpoint, such as http://localhost:3001/mcp." });
+        return;
+      }
+      const headers = parseHeaderLines(headerLines);
+      if (!headers) {
+        toast({ variant: "destructive", title: "Invalid Headers", description: "Enter one header per line as 'Name: value'." });
+        return;
+      }
+      server = { id, name: trimmedName, transport, enabled: true, url: url.trim(), ...(Object.keys(headers).length > 0 && { headers }) };
+    }
+    onServersChange(prev => [...prev, server]);
+    setName('');
+    setUrl('');
+    setHeaderLines('');
+    setCommand('');
+    setArgLines('');
+    setEnvLines('');
+    handleTest(server);
+  };
+
+  const handleRemove = (server: McpServerSettings) => {
+    onServersChange(prev => prev.filter(s => s.id !== server.id));
+    toast({ title: "Server Removed", description: `MCP server "${server.name}" was removed.` });
+  };
+
+  return (
+    <div className="space-y-4">
+      {servers.length > 0 && (
+        <ul className="space-y-2">
+          {servers.map(server => {
+            const result = testResults[server.id];
+            return (
+              <li key={server.id} className="p-3 border rounded-md space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate" title={server.name}>{server.name}</p>
+                    <p className="text-xs text-muted-foreground truncate ltr-text" title={server.url ?? [server.command, ...(server.args ?? [])].join(' ')}>
+                      {server.url ?? [server.command, ...(server.args ?? [])].join(' ')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{TRANSPORT_LABELS[server.transport]}{server.headers ? ` - ${Object.keys(server.headers).length} custom header(s)` : ''}{server.env ? ` - ${Object.keys(server.env).length} environment variable(s)` : ''}</p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Switch checked={server.enabled} onCheckedChange={(checked) => onServersChange(prev => prev.map(s => s.id === server.id ? { ...s, enabled: checked } : s))} aria-label={`Use ${server.name} in chats`} />
+                    <Button variant="outline" size="sm" onClick={() => handleTest(server)} disabled={testingServerId === server.id}>
+                      {testingServerId === server.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plug className="mr-2 h-4 w-4" />} {testingServerId === server.id ? 'Testing...' : 'Test'}
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => handleRemove(server)}><Trash2 size={14} /><span className="sr-only">Remove server</span></Button>
+                  </div>
+                </div>
+                {result && !result.ok && (<Alert variant="destructive"><AlertTitle>Connection Failed</AlertTitle><AlertDescription>{result.error}</AlertDescription></Alert>)}
+                {result?.ok && (
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground flex items-center"><CheckCircle className="mr-1 h-3 w-3 text-green-600" /> Connected: {result.tools.length} tool{result.tools.length !== 1 ? 's' : ''}, {result.resources.length} resource{result.resources.length !== 1 ? 's' : ''}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {result.tools.map(tool => (<Badge key={tool.name} variant="secondary" className="text-xs" title={tool.description}>{tool.name}</Badge>))}
+                      {result.resources.map(resource => (<Badge key={resource.uri} variant="outline" className="text-xs" title={resource.uri}>{resource.name}</Badge>))}
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Input placeholder="Name (e.g. GitHub)" value={name} onChange={(e) => setName(e.target.value)} maxLength={40} />
+        <Select value={transport} onValueChange={(value) => setTransport(value as McpServerConfig['transport'])}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TRANSPORT_LABELS) as McpServerConfig['transport'][]).map(value => (<SelectItem key={value} value={value}>{TRANSPORT_LABELS[value]}</SelectItem>))}
+          </SelectContent>
+        </Select>
+        {isStdio ? (
+          <>
+            <Input placeholder="Command (e.g. npx)" value={command} onChange={(e) => setCommand(e.target.value)} className="sm:col-span-2 ltr-text" />
+            <Textarea placeholder={"Arguments, one per line:\n-y\n@modelcontextprotocol/server-filesystem"} value={argLines} onChange={(e) => setArgLines(e.target.value)} rows={3} className="text-sm ltr-text" />
+            <Textarea placeholder={"Environment (optional), one per line:\nAPI_TOKEN=..."} value={envLines} onChange={(e) => setEnvLines(e.target.value)} rows={3} className="text-sm ltr-text" />
+          </>
+        ) : (
+          <>
+            <Input placeholder="URL (e.g. http://localhost:3001/mcp)" value={url} onChange={(e) => setUrl(e.target.value)} className="sm:col-span-2 ltr-text" />
+            <Textarea placeholder={"Custom headers (optional), one per line:\nAuthorization: Bearer ..."} value={headerLines} onChange={(e) => setHeaderLines(e.target.value)} rows={2} className="sm:col-span-2 text-sm ltr-text" />
+          </>
+        )}
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={handleAdd} disabled={!name.trim() || (isStdio ? !command.trim() : !url.trim())}><PlusCircle className="mr-2 h-4 w-4" /> Add Server</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import type { OutputSchema } from '@/ai/structured-output';
+
+/** A JSON Schema saved in Settings for reuse across chats. */
+export interface SavedOutputSchema extends OutputSchema {
+  id: string;
+  name: string;
+}
+
+interface OutputSchemaPickerProps {
+  /** The schema responses of the active chat must match, if any. */
+  activeSchema?: OutputSchema | null;
+  onActiveSchemaChange: (schema: OutputSchema | null) => void;
+  savedSchemas: SavedOutputSchema[];
+  onSavedSchemasChange: (updater: (prev: SavedOutputSchema[]) => SavedOutputSchema[]) => void;
+}
+
+const SCHEMA_PLACEHOLDER = `{
+  "type": "object",
+  "properties": {
+    "title": { "type": "string" },
+    "tags": { "type": "array", "items": { "type": "string" } }
+  },
+  "required": ["title"]
+}`;
+
+/**
+ * Picks the JSON Schema the active chat's responses must match: a saved schema, or one pasted in
+ * (optionally saved for later). The schema is validated on the server when a request is sent.
+ */
+export default function OutputSchemaPicker({ activeSchema, onActiveSchemaChange, savedSchemas, onSavedSchemasChange }: OutputSchemaPickerProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [schemaText, setSchemaText] = useState('');
+
+  // Returns the pasted schema, or null (after telling the user why) if it is not a JSON object
+  const parseDraft = (): OutputSchema | null => {
+    let schema: unknown;
+    try {
+      schema = JSON.parse(schemaText);
+    } catch (error) {
+      toast({ variant: "destructive", title: "Invalid JSON", description: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      toast({ variant: "destructive", title: "Invalid Schema", description: "A JSON Schema must be a JSON object." });
+      return null;
+    }
+    return { ...(name.trim() && { name: name.trim() }), schema: schema as Record<string, unknown> };
+  };
+
+  const handleUse = () => {
+    const draft = parseDraft();
+    if (draft) onActiveSchemaChange(draft);
+  };
+
+  const handleSave = () => {
+    const draft = parseDraft();
+    if (!draft) return;
+    if (!draft.name) {
+      toast({ variant: "destructive", title: "Name Required", description: "Name the schema to save it." });
+      return;
+    }
+    const saved: SavedOutputSchema = { id: `schema_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`, name: draft.name, schema: draft.schema };
+    onSavedSchemasChange(prev => [...prev.filter(s => s.name !== saved.name), saved]);
+    onActiveSchemaChange(draft);
+    setName('');
+    setSchemaText('');
+    toast({ title: "Schema Saved", description: `"${saved.name}" is now used for this chat.` });
+  };
+
+  return (
+    <div className="space-y-3">
+      {activeSchema ? (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="truncate">Responses must match <strong>{activeSchema.name ?? 'a custom schema'}</strong>.</span>
+          <Button variant="ghost" size="sm" onClick={() => onActiveSchemaChange(null)}><X className="mr-1 h-3 w-3" /> Off</Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Pick or paste a JSON Schema to get responses as validated JSON. Invalid responses are sent back to the model for correction.</p>
+      )}
+
+      {savedSchemas.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-xs">Saved schemas</Label>
+          <ul className="space-y-1">
+            {savedSchemas.map(saved => (
+              <li key={saved.id} className="flex items-center gap-1">
+                <Button variant={activeSchema?.name === saved.name ? 'secondary' : 'ghost'} size="sm" className="flex-1 justify-start h-7 text-xs truncate" onClick={() => onActiveSchemaChange({ name: saved.name, schema: saved.schema })}>{saved.name}</Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive" onClick={() => onSavedSchemasChange(prev => prev.filter(s => s.id !== saved.id))}><Trash2 size={12} /><span className="sr-only">Delete schema</span></Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Input placeholder="Schema name (e.g. invoice)" value={name} onChange={(e) => setName(e.target.value)} maxLength={64} className="h-8 text-sm" />
+        <Textarea placeholder={SCHEMA_PLACEHOLDER} value={schemaText} onChange={(e) => setSchemaText(e.target.value)} rows={6} className="font-mono text-xs ltr-text" />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={handleSave} disabled={!schemaText.trim()}><Save className="mr-1 h-3 w-3" /> Save &amp; Use</Button>
+          <Button size="sm" onClick={handleUse} disabled={!schemaText.trim()}>Use</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+"use client"
+
+import * as React from "react"
+
+import type { ArchivedChat, SmartAssistantPromptingInput } from "@/ai/flows/smart-assistant-prompting"
+import type { ProviderModelInfo } from "@/ai/providers/descriptors"
+import { CHAT_HISTORY_SEARCH_TOOL_ID } from "@/ai/tools/descriptors"
+import { streamSmartAssistantResponse } from "@/services/smart-assistant-stream"
+import type { Attachment, ChatSession, Message } from "@/lib/chat-storage"
+import { createMessageId } from "@/lib/chat-store"
+import { folderKnowledgeBaseId, retrieveRelevantChunks, sessionKnowledgeBaseId, type RetrievedChunk } from "@/lib/knowledge-base"
+import { chatStore } from "@/hooks/use-chat-store"
+import { toRequestOptions, type ChatSettings } from "@/hooks/use-chat-settings"
+import { toast } from "@/hooks/use-toast"
+
+// --- Pricing Simulation ---
+const COST_PER_INPUT_CHAR_DEFAULT = 0.000005
+const COST_PER_OUTPUT_CHAR_DEFAULT = 0.000015
+const COST_PER_FILE_ANALYSIS_GOOGLE = 0.01
+
+const calculateCost = (modelId: string, inputLength: number, outputLength: number, fileCount: number): number => {
+  let inputCostPerChar = COST_PER_INPUT_CHAR_DEFAULT
+  let outputCostPerChar = COST_PER_OUTPUT_CHAR_DEFAULT
+  let fileCost = 0
+
+  if (modelId.includes("gpt-4") || modelId.includes("claude-3-opus") || modelId.includes("gemini-1.5-pro")) {
+    inputCostPerChar = 0.000015; outputCostPerChar = 0.000045
+  } else if (modelId.includes("claude-3-sonnet") || modelId.includes("gpt-4o") || modelId.includes("gemini-1.5-flash")) {
+    inputCostPerChar = 0.000005; outputCostPerChar = 0.000015
+  } else if (modelId.startsWith("googleai/gemini-2.0-flash")) {
+    inputCostPerChar = 0.000001; outputCostPerChar = 0.000002
+  } else if (modelId.startsWith("openrouter/")) {
+    // Example: Using OpenRouter's published pricing (adjust as needed per model)
+    // Mistral 7B: $0.07 / 1M input, $0.25 / 1M output tokens
+    // Roughly: 1 token ~ 4 chars
+    inputCostPerChar = (0.07 / 1_000_000) / 4 // ~$0.0000000175 per char
+    outputCostPerChar = (0.25 / 1_000_000) / 4 // ~$0.0000000625 per char
+  }
+
+  if (fileCount > 0 && modelId.startsWith("googleai/")) { fileCost = COST_PER_FILE_ANALYSIS_GOOGLE * fileCount }
+  else if (fileCount > 0 && modelId.startsWith("openrouter/")) { fileCost = 0.005 * fileCount; console.warn(`File cost for ${modelId} is placeholder.`) }
+
+  return (inputLength * inputCostPerChar) + (outputLength * outputCostPerChar) + fileCost
+}
+
+// Splits attachments into the request fields: extracted documents as text, everything else as data URIs
+const toRequestAttachments = (files: Attachment[]): Pick<SmartAssistantPromptingInput, "documents" | "fileDataUris"> => {
+  const documents = files.filter(file => file.extractedText !== undefined).map(file => ({ name: file.name, text: file.extractedText! }))
+  const fileDataUris = files.filter(file => file.extractedText === undefined).map(file => file.dataUri)
+  return { ...(documents.length > 0 && { documents }), ...(fileDataUris.length > 0 && { fileDataUris }) }
+}
+
+// Limits on the other chats sent for the chat history search tool (most recently modified first)
+const MAX_ARCHIVED_CHATS = 100
+const MAX_ARCHIVED_MESSAGE_CHARS = 2000
+
+const toArchivedChats = (sessions: ChatSession[], excludeSessionId: string): ArchivedChat[] => sessions
+  .filter(session => session.id !== excludeSessionId && session.messages.length > 0)
+  .sort((a, b) => b.lastModified - a.lastModified)
+  .slice(0, MAX_ARCHIVED_CHATS)
+  .map(session => ({
+    title: session.name,
+    messages: session.messages
+      .filter(msg => !msg.isError && msg.text.trim())
+      .map(msg => ({ sender: msg.sender, text: msg.text.slice(0, MAX_ARCHIVED_MESSAGE_CHARS), timestamp: msg.timestamp })),
+  }))
+
+/** Knowledge bases searched for a session: its own, plus its folder's when it is in one. */
+export function getSessionKnowledgeBases(session: ChatSession, folders: { id: string; name: string }[]): { id: string; label: string }[] {
+  const folder = folders.find(f => f.id === session.folderId)
+  return [
+    { id: sessionKnowledgeBaseId(session.id), label: "This chat" },
+    ...(folder ? [{ id: folderKnowledgeBaseId(folder.id), label: `Folder: ${folder.name}` }] : []),
+  ]
+}
+
+/** Fallback models of a session that are still available (a model is never its own fallback). */
+export function getSessionFallbackModels(session: ChatSession | null, modelId: string, availableModels: ProviderModelInfo[]): ProviderModelInfo[] {
+  return (session?.fallbackModelIds ?? [])
+    .filter(id => id !== modelId)
+    .map(id => availableModels.find(model => model.id === id))
+    .filter((model): model is ProviderModelInfo => !!model)
+}
+
+export interface ChatMessageDraft {
+  sessionId: string
+  text: string
+  files: Attachment[]
+  model: ProviderModelInfo
+}
+
+export interface ChatSend {
+  /**
+   * Adds the message to its session and streams the response into it. The session's settings, history,
+   * assistant and knowledge bases are read from the chat store when it is sent.
+   */
+  send(draft: ChatMessageDraft): Promise<void>
+  /** Cancels the response being generated; the text streamed so far is kept. */
+  stop(): void
+  isSending: boolean
+  /** The response being generated, shown with its thinking steps. */
+  generatingMessageId: string | null
+}
+
+/**
+ * Sends chat messages with the request settings of `settings`; `onError` shows why a response failed.
+ */
+function useChatSend(settings: ChatSettings, onError: (message: string) => void): ChatSend {
+  const [isSending, setIsSending] = React.useState<boolean>(false)
+  const [generatingMessageId, setGeneratingMessageId] = React.useState<string | null>(null)
+  const abortControllerRef = React.useRef<AbortController | null>(null)
+  const { retrySettings, knowledgeSettings, mcpServers, assistants, availableModels, getModelConnection } = settings
+
+  const send = React.useCallback(async ({ sessionId, text, files, model }: ChatMessageDraft) => {
+    const { sessions, folders } = chatStore.getState()
+    const session = sessions.find(s => s.id === sessionId)
+    if (!session) return
+    const { dispatch } = chatStore
+
+    // Prior turns of this session, sent as conversation history (failed and empty responses are skipped)
+    const history = session.messages
+      .filter(msg => !msg.isError && (msg.text.trim() || msg.files?.length))
+      .map(msg => ({ sender: msg.sender, text: msg.text, ...toRequestAttachments(msg.files ?? []) }))
+    const enabledToolIds = session.enabledToolIds ?? []
+    const enabledMcpServers = mcpServers.filter(server => server.enabled)
+    const assistant = session.assistantId ? assistants.find(a => a.id === session.assistantId) : undefined
+    const fallbackModels = getSessionFallbackModels(session, model.id, availableModels)
+    const requestOptions = toRequestOptions(session.generationOptions)
+    const { apiKey, endpoint } = getModelConnection(model.id)
+    const requestAttachments = toRequestAttachments(files)
+    const rawFileCount = requestAttachments.fileDataUris?.length ?? 0
+
+    const userMessage: Message = {
+      id: createMessageId(), sender: "user", text, timestamp: Date.now(),
+      ...(files.length > 0 && { files }),
+    }
+    // Placeholder for the response; its steps are filled in by retrieval, model attempts and tool calls
+    const thinkingMsgId = createMessageId()
+    const thinkingMessage: Message = {
+      id: thinkingMsgId,
+      sender: "ai",
+      text: "", // Filled in progressively as the response streams
+      timestamp: Date.now() + 1, // Ensure it appears after user message
+      modelId: model.id,
+      thinkingSteps: [],
+    }
+    setGeneratingMessageId(thinkingMsgId)
+    dispatch({ type: "appendMessages", sessionId, messages: [userMessage, thinkingMessage], modelId: model.id })
+    setIsSending(true)
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    let streamedText = "" // Kept outside state so a stopped generation can keep its partial text
+    let streamedReasoning = ""
+    const attemptSteps: string[] = [] // Attempts, retries, fallbacks and tool calls reported by the server
+    let knowledgeSources: RetrievedChunk[] = []
+    const appendThinkingStep = (step: string) => {
+      dispatch({ type: "extendMessage", sessionId, messageId: thinkingMsgId, thinkingStep: step })
+    }
+
+    try {
+      // Retrieval failures are reported as a step; the prompt is still sent without excerpts
+      try {
+        const knowledgeBaseIds = getSessionKnowledgeBases(session, folders).map(base => base.id)
+        knowledgeSources = await retrieveRelevantChunks(knowledgeBaseIds, text, knowledgeSettings.embedderId, knowledgeSettings.topK)
+        if (knowledgeSources.length > 0) appendThinkingStep(`Found ${knowledgeSources.length} relevant excerpts in the knowledge base`)
+      } catch (retrievalError) {
+        console.error("Knowledge base retrieval failed:", retrievalError)
+        appendThinkingStep(`Knowledge base search failed: ${retrievalError instanceof Error ? retrievalError.message : String(retrievalError)}`)
+      }
+
+      const assistantInput: SmartAssistantPromptingInput = {
+        modelId: model.id, prompt: text,
+        ...(assistant && { systemPrompt: assistant.systemPrompt }),
+        history,
+        ...(model.context_length && { contextLength: model.context_length }),
+        ...requestAttachments,
+        ...(knowledgeSources.length > 0 && {
+          knowledge: knowledgeSources.map(({ documentName, location, text }) => ({ documentName, ...(location && { location }), text })),
+        }),
+        ...(apiKey && { apiKey }),
+        ...(endpoint && { endpoint }),
+        ...(fallbackModels.length > 0 && {
+          fallbackModels: fallbackModels.map(fallback => ({
+            modelId: fallback.id,
+            ...(fallback.context_length && { contextLength: fallback.context_length }),
+            ...getModelConnection(fallback.id),
+          })),
+        }),
+        retry: retrySettings,
+        ...(requestOptions && { options: requestOptions }),
+        ...(enabledToolIds.length > 0 && {
+          tools: enabledToolIds,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          ...(enabledToolIds.includes(CHAT_HISTORY_SEARCH_TOOL_ID) && { chatArchive: toArchivedChats(sessions, sessionId) }),
+        }),
+        ...(enabledMcpServers.length > 0 && { mcpServers: enabledMcpServers.map(({ enabled, ...server }) => server) }),
+        ...(session.outputSchema && { outputSchema: session.outputSchema }),
+      }
+
+      // Stream the response, filling in the thinking message as text arrives (not persisted until complete)
+      const response = await streamSmartAssistantResponse(assistantInput, (textDelta) => {
+        streamedText += textDelta
+        dispatch({ type: "extendMessage", sessionId, messageId: thinkingMsgId, text: textDelta })
+      }, abortController.signal, (step) => {
+        attemptSteps.push(step)
+        appendThinkingStep(step)
+      }, (reasoningDelta) => {
+        streamedReasoning += reasoningDelta
+        dispatch({ type: "extendMessage", sessionId, messageId: thinkingMsgId, reasoning: reasoningDelta })
+      })
+
+      // A fallback model may have answered instead of the selected one
+      const answeringModelId = response.modelId ?? model.id
+      const calculatedCost = calculateCost(answeringModelId, text.length, response.response.length, rawFileCount)
+      const aiMessage: Message = {
+        id: createMessageId(), // Use a NEW ID for the final response
+        sender: "ai",
+        text: response.response,
+        cost: calculatedCost,
+        timestamp: Date.now(),
+        modelId: answeringModelId,
+        // Keep the step log only when tools were called or something went wrong along the way
+        ...(response.attempts && response.attempts.length > 1 && { thinkingSteps: response.attempts }),
+        ...(knowledgeSources.length > 0 && { knowledgeSources }),
+        ...(response.data !== undefined && { structuredData: response.data }),
+        ...(response.reasoning && { reasoning: response.reasoning }),
+      }
+      dispatch({ type: "replaceMessage", sessionId, messageId: thinkingMsgId, message: aiMessage, cost: calculatedCost })
+    } catch (err) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep whatever was streamed so far (charged for the partial output)
+        console.log("Generation stopped by user after", streamedText.length, "characters.")
+        const partialCost = streamedText ? calculateCost(model.id, text.length, streamedText.length, rawFileCount) : 0
+        const stoppedMessage: Message | null = streamedText || streamedReasoning ? {
+          id: createMessageId(),
+          sender: "ai", text: streamedText, cost: partialCost,
+          timestamp: Date.now(), modelId: model.id, isStopped: true,
+          ...(knowledgeSources.length > 0 && { knowledgeSources }),
+          ...(streamedReasoning && { reasoning: streamedReasoning }),
+        } : null
+        dispatch({ type: "replaceMessage", sessionId, messageId: thinkingMsgId, message: stoppedMessage, cost: partialCost })
+        return
+      }
+      console.error("Error calling AI:", err)
+      const errorMessage = err instanceof Error ? err.message : "Unknown error."
+      const displayErrorMessage = errorMessage.includes("Server-side error")
+        ? "An unexpected error occurred on the server. Please check logs or try again later."
+        : `Failed to get response: ${errorMessage}`
+      onError(displayErrorMessage)
+      const errorAiMessage: Message = {
+        id: createMessageId(), // Use a NEW ID for the error message
+        sender: "ai", text: `Error: ${errorMessage}`, cost: 0, // Keep detailed error here
+        timestamp: Date.now(), modelId: model.id, isError: true,
+        ...(attemptSteps.length > 1 && { thinkingSteps: attemptSteps }),
+      }
+      dispatch({ type: "replaceMessage", sessionId, messageId: thinkingMsgId, message: errorAiMessage })
+      toast({ variant: "destructive", title: "AI Error", description: displayErrorMessage })
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null
+      setIsSending(false)
+      setGeneratingMessageId(null)
+    }
+  }, [retrySettings, knowledgeSettings, mcpServers, assistants, availableModels, getModelConnection, onError])
+
+  const stop = React.useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
+  // Don't leave a generation running on the server after the chat is unmounted
+  React.useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  return { send, stop, isSending, generatingMessageId }
+}
+
+export { useChatSend }
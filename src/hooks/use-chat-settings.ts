@@ -0,0 +1,366 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  GOOGLE_PROVIDER,
+  OLLAMA_PROVIDER,
+  OPENAI_COMPATIBLE_PROVIDER,
+  OPENROUTER_PROVIDER,
+  getProviderDescriptorForModel,
+  parseOpenAICompatibleModelId,
+  type OpenAICompatibleEndpointConfig,
+  type ProviderId,
+  type ProviderModelInfo,
+} from "@/ai/providers/descriptors"
+import { DEFAULT_RETRY_OPTIONS, type RetryOptions } from "@/ai/retry"
+import { getAIModels, type AIModelOptions } from "@/services/ai-api"
+import { DEFAULT_KNOWLEDGE_SETTINGS, type KnowledgeSettings } from "@/lib/knowledge-base"
+import type { McpServerSettings } from "@/components/mcp-servers-settings"
+import type { SavedOutputSchema } from "@/components/output-schema-picker"
+import { chatStore } from "@/hooks/use-chat-store"
+import { toast } from "@/hooks/use-toast"
+
+export const MAX_SELECTABLE_OPENROUTER_MODELS = 20
+
+// --- Local Storage Keys ---
+const OPENROUTER_API_KEY_STORAGE_KEY = "openrouter_api_key"
+const SELECTED_OPENROUTER_MODELS_KEY = "selected_openrouter_models"
+const OPENAI_COMPATIBLE_ENDPOINTS_KEY = "openai_compatible_endpoints"
+const RETRY_SETTINGS_KEY = "retry_settings"
+const KNOWLEDGE_SETTINGS_KEY = "knowledge_settings"
+const ASSISTANTS_STORAGE_KEY = "assistants"
+const MCP_SERVERS_KEY = "mcp_servers"
+const OUTPUT_SCHEMAS_KEY = "output_schemas"
+
+export const DEFAULT_GOOGLE_MODELS: ProviderModelInfo[] = [
+  { id: "googleai/gemini-2.0-flash", name: "Google Gemini 2.0 Flash", provider: GOOGLE_PROVIDER.id, context_length: 1_048_576 },
+]
+
+export interface OpenAICompatibleEndpoint {
+  id: string
+  name: string
+  baseUrl: string // Including the version segment, e.g. http://localhost:8000/v1
+  apiKey?: string
+  headers?: Record<string, string>
+  toolCalling?: boolean // Whether tools are sent to the endpoint's models
+  models: ProviderModelInfo[] // Last fetched model list
+}
+
+/** A reusable persona: a system prompt with a default model and parameters. */
+export interface Assistant {
+  id: string
+  name: string
+  avatar: string // An emoji or short text shown instead of the bot icon
+  systemPrompt: string
+  defaultModelId?: string // Selected when a chat is started from the assistant
+  defaultOptions?: AIModelOptions // Copied into the new chat's generation parameters
+  createdAt: number
+}
+
+export type AssistantDraft = Omit<Assistant, "id" | "createdAt">
+
+/** Credentials and endpoint settings a request for a model is sent with. */
+export interface ModelConnection {
+  apiKey?: string
+  endpoint?: OpenAICompatibleEndpointConfig
+}
+
+// Drops unset fields and blank stop sequences (kept while editing so new lines can be typed)
+export const toRequestOptions = (options: AIModelOptions | undefined): AIModelOptions | undefined => {
+  if (!options) return undefined
+  const stopSequences = options.stopSequences?.filter(sequence => sequence.length > 0)
+  const cleaned: AIModelOptions = { ...options, stopSequences: stopSequences?.length ? stopSequences : undefined }
+  const entries = Object.entries(cleaned).filter(([, value]) => value !== undefined)
+  return entries.length > 0 ? Object.fromEntries(entries) as AIModelOptions : undefined
+}
+
+function saveToLocalStorage(key: string, data: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(data))
+  } catch (error) {
+    console.error(`Error saving ${key} to localStorage:`, error)
+    toast({ variant: "destructive", title: `Error Saving ${key}`, description: `Could not save ${key}.` })
+  }
+}
+
+function loadFromLocalStorage<T>(key: string, defaultValue: T): T {
+  try {
+    const storedData = localStorage.getItem(key)
+    if (storedData) return JSON.parse(storedData) as T
+  } catch (error) {
+    console.error(`Invalid JSON found for key ${key}, using default value:`, error)
+  }
+  return defaultValue
+}
+
+// Saves settings on every change, keeping the state and localStorage in step
+function usePersistentState<T>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>, (updater: (prev: T) => T) => void] {
+  const [value, setValue] = React.useState<T>(initialValue)
+  const update = React.useCallback((updater: (prev: T) => T) => {
+    setValue(prev => {
+      const updated = updater(prev)
+      saveToLocalStorage(key, updated)
+      return updated
+    })
+  }, [key])
+  return [value, setValue, update]
+}
+
+export interface ChatSettings {
+  /** The saved OpenRouter API key; the server's key is used when it is empty. */
+  openRouterApiKey: string
+  saveOpenRouterApiKey(apiKey: string): void
+  /** OpenRouter models (IDs without the provider prefix) shown in the chat dropdown, including unsaved changes. */
+  selectedOpenRouterModelIds: Set<string>
+  setSelectedOpenRouterModelIds: React.Dispatch<React.SetStateAction<Set<string>>>
+  saveOpenRouterSelection(): void
+  /** Resolves the selected OpenRouter models again, e.g. after their catalog entries changed. */
+  refreshActiveModels(): void
+
+  ollamaModels: ProviderModelInfo[]
+  isFetchingOllamaModels: boolean
+  ollamaError: string | null
+  /** Looks for models in the local Ollama daemon; `notify` bypasses the catalog cache and reports the result. */
+  discoverOllamaModels(notify: boolean): Promise<void>
+
+  openAICompatibleEndpoints: OpenAICompatibleEndpoint[]
+  fetchingEndpointId: string | null
+  endpointFetchErrors: Record<string, string>
+  fetchEndpointModels(endpoint: OpenAICompatibleEndpoint): Promise<void>
+  addEndpoint(endpoint: OpenAICompatibleEndpoint): void
+  removeEndpoint(endpointId: string): void
+  setEndpointToolCalling(endpointId: string, enabled: boolean): void
+
+  retrySettings: RetryOptions
+  updateRetrySetting(key: keyof RetryOptions, value: number): void
+  knowledgeSettings: KnowledgeSettings
+  updateKnowledgeSetting<K extends keyof KnowledgeSettings>(key: K, value: KnowledgeSettings[K]): void
+  mcpServers: McpServerSettings[]
+  saveMcpServers(updater: (prev: McpServerSettings[]) => McpServerSettings[]): void
+  savedOutputSchemas: SavedOutputSchema[]
+  saveOutputSchemas(updater: (prev: SavedOutputSchema[]) => SavedOutputSchema[]): void
+
+  assistants: Assistant[]
+  /** Updates the assistant with `assistantId`, or adds a new one when it is null. */
+  saveAssistant(assistantId: string | null, draft: AssistantDraft): void
+  /** Sessions started from the assistant keep their history but lose its system prompt. */
+  deleteAssistant(assistantId: string): void
+
+  /** Default and selected OpenRouter models, discovered Ollama models and the models of every endpoint. */
+  availableModels: ProviderModelInfo[]
+  getModelConnection(modelId: string): ModelConnection
+}
+
+/** The settings of the Settings tab, loaded from and saved to localStorage. */
+function useChatSettings(): ChatSettings {
+  const [openRouterApiKey, setOpenRouterApiKey] = React.useState<string>("")
+  const [selectedOpenRouterModelIds, setSelectedOpenRouterModelIds] = React.useState<Set<string>>(new Set())
+  const [activeModels, setActiveModels] = React.useState<ProviderModelInfo[]>(DEFAULT_GOOGLE_MODELS)
+  const [ollamaModels, setOllamaModels] = React.useState<ProviderModelInfo[]>([])
+  const [isFetchingOllamaModels, setIsFetchingOllamaModels] = React.useState<boolean>(false)
+  const [ollamaError, setOllamaError] = React.useState<string | null>(null)
+  const [fetchingEndpointId, setFetchingEndpointId] = React.useState<string | null>(null)
+  const [endpointFetchErrors, setEndpointFetchErrors] = React.useState<Record<string, string>>({})
+  const [openAICompatibleEndpoints, setOpenAICompatibleEndpoints, updateEndpoints] = usePersistentState<OpenAICompatibleEndpoint[]>(OPENAI_COMPATIBLE_ENDPOINTS_KEY, [])
+  const [retrySettings, setRetrySettings, updateRetrySettings] = usePersistentState<RetryOptions>(RETRY_SETTINGS_KEY, DEFAULT_RETRY_OPTIONS)
+  const [knowledgeSettings, setKnowledgeSettings, updateKnowledgeSettings] = usePersistentState<KnowledgeSettings>(KNOWLEDGE_SETTINGS_KEY, DEFAULT_KNOWLEDGE_SETTINGS)
+  const [mcpServers, setMcpServers, updateMcpServers] = usePersistentState<McpServerSettings[]>(MCP_SERVERS_KEY, [])
+  const [savedOutputSchemas, setSavedOutputSchemas, updateOutputSchemas] = usePersistentState<SavedOutputSchema[]>(OUTPUT_SCHEMAS_KEY, [])
+  const [assistants, setAssistants, updateAssistants] = usePersistentState<Assistant[]>(ASSISTANTS_STORAGE_KEY, [])
+
+  // Resolves the OpenRouter selection to catalog entries for the chat dropdown
+  const resolveSelectedOpenRouterModels = React.useCallback(async (apiKey: string, selectedIds: Set<string>) => {
+    if (!apiKey || selectedIds.size === 0) {
+      setActiveModels(DEFAULT_GOOGLE_MODELS)
+      return
+    }
+    try {
+      const page = await getAIModels({
+        providers: [OPENROUTER_PROVIDER.id],
+        ids: Array.from(selectedIds).map(id => `${OPENROUTER_PROVIDER.prefix}${id}`),
+        limit: MAX_SELECTABLE_OPENROUTER_MODELS,
+        credentials: { apiKeys: { [OPENROUTER_PROVIDER.id]: apiKey } },
+      })
+      if (page.errors.length > 0) throw new Error(page.errors[0].message)
+      setActiveModels([...DEFAULT_GOOGLE_MODELS, ...page.models])
+    } catch (error) {
+      console.error("Error resolving selected OpenRouter models:", error)
+      setActiveModels(DEFAULT_GOOGLE_MODELS)
+    }
+  }, [])
+
+  const discoverOllamaModels = React.useCallback(async (notify: boolean) => {
+    setIsFetchingOllamaModels(true)
+    setOllamaError(null)
+    try {
+      // A manual discovery bypasses the catalog cache, since models may have just been pulled
+      const page = await getAIModels({ providers: [OLLAMA_PROVIDER.id], limit: 500, forceRefresh: notify })
+      if (page.errors.length > 0) throw new Error(page.errors[0].message)
+      setOllamaModels(page.models)
+      if (notify) toast({ title: "Ollama Models Found", description: `${page.models.length} local model${page.models.length !== 1 ? "s" : ""} available.` })
+    } catch (error) {
+      // The daemon is optional; only log when discovery runs in the background
+      const message = error instanceof Error ? error.message : "Unknown error discovering Ollama models."
+      console.warn("Ollama model discovery failed:", message)
+      setOllamaError(`Error: ${message}`)
+      setOllamaModels([])
+    } finally {
+      setIsFetchingOllamaModels(false)
+    }
+  }, [])
+
+  // Load the saved settings, and discover Ollama models (silently; the daemon may not be running)
+  React.useEffect(() => {
+    // Keys saved by older versions are plain text rather than JSON
+    setOpenRouterApiKey(localStorage.getItem(OPENROUTER_API_KEY_STORAGE_KEY) ?? "")
+    setSelectedOpenRouterModelIds(new Set(loadFromLocalStorage<string[]>(SELECTED_OPENROUTER_MODELS_KEY, []).slice(0, MAX_SELECTABLE_OPENROUTER_MODELS)))
+    setOpenAICompatibleEndpoints(loadFromLocalStorage<OpenAICompatibleEndpoint[]>(OPENAI_COMPATIBLE_ENDPOINTS_KEY, []))
+    // Merged over the defaults so new fields get a value
+    setRetrySettings({ ...DEFAULT_RETRY_OPTIONS, ...loadFromLocalStorage<Partial<RetryOptions>>(RETRY_SETTINGS_KEY, {}) })
+    setKnowledgeSettings({ ...DEFAULT_KNOWLEDGE_SETTINGS, ...loadFromLocalStorage<Partial<KnowledgeSettings>>(KNOWLEDGE_SETTINGS_KEY, {}) })
+    setMcpServers(loadFromLocalStorage<McpServerSettings[]>(MCP_SERVERS_KEY, []))
+    setSavedOutputSchemas(loadFromLocalStorage<SavedOutputSchema[]>(OUTPUT_SCHEMAS_KEY, []))
+    setAssistants(loadFromLocalStorage<Assistant[]>(ASSISTANTS_STORAGE_KEY, []))
+    void discoverOllamaModels(false)
+  }, [setOpenAICompatibleEndpoints, setRetrySettings, setKnowledgeSettings, setMcpServers, setSavedOutputSchemas, setAssistants, discoverOllamaModels])
+
+  // Update the chat dropdown's OpenRouter models whenever the selection or the saved API key changes
+  React.useEffect(() => {
+    void resolveSelectedOpenRouterModels(openRouterApiKey, selectedOpenRouterModelIds)
+  }, [openRouterApiKey, selectedOpenRouterModelIds, resolveSelectedOpenRouterModels])
+
+  const saveOpenRouterApiKey = React.useCallback((apiKey: string) => {
+    localStorage.setItem(OPENROUTER_API_KEY_STORAGE_KEY, apiKey)
+    setOpenRouterApiKey(apiKey)
+  }, [])
+
+  const saveOpenRouterSelection = React.useCallback(() => {
+    saveToLocalStorage(SELECTED_OPENROUTER_MODELS_KEY, Array.from(selectedOpenRouterModelIds).slice(0, MAX_SELECTABLE_OPENROUTER_MODELS))
+  }, [selectedOpenRouterModelIds])
+
+  const refreshActiveModels = React.useCallback(() => {
+    void resolveSelectedOpenRouterModels(openRouterApiKey, selectedOpenRouterModelIds)
+  }, [openRouterApiKey, selectedOpenRouterModelIds, resolveSelectedOpenRouterModels])
+
+  const fetchEndpointModels = React.useCallback(async (endpoint: OpenAICompatibleEndpoint) => {
+    setFetchingEndpointId(endpoint.id)
+    setEndpointFetchErrors(prev => { const { [endpoint.id]: _removed, ...rest } = prev; return rest })
+    try {
+      const page = await getAIModels({
+        providers: [OPENAI_COMPATIBLE_PROVIDER.id],
+        limit: 500,
+        forceRefresh: true,
+        credentials: { endpoints: [{ id: endpoint.id, config: { baseUrl: endpoint.baseUrl, headers: endpoint.headers }, apiKey: endpoint.apiKey }] },
+      })
+      if (page.errors.length > 0) throw new Error(page.errors[0].message)
+      const models = page.models
+      updateEndpoints(prev => prev.map(e => e.id === endpoint.id ? { ...e, models } : e))
+      toast({ title: "Models Fetched", description: `${models.length} model${models.length !== 1 ? "s" : ""} available from "${endpoint.name}".` })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error fetching models."
+      console.error(`Error fetching models for endpoint ${endpoint.name}:`, error)
+      setEndpointFetchErrors(prev => ({ ...prev, [endpoint.id]: `Error: ${message}` }))
+    } finally {
+      setFetchingEndpointId(null)
+    }
+  }, [updateEndpoints])
+
+  const addEndpoint = React.useCallback((endpoint: OpenAICompatibleEndpoint) => {
+    updateEndpoints(prev => [...prev, endpoint])
+    void fetchEndpointModels(endpoint)
+  }, [updateEndpoints, fetchEndpointModels])
+
+  const removeEndpoint = React.useCallback((endpointId: string) => {
+    const endpoint = openAICompatibleEndpoints.find(e => e.id === endpointId)
+    updateEndpoints(prev => prev.filter(e => e.id !== endpointId))
+    toast({ title: "Endpoint Removed", description: `Endpoint "${endpoint?.name}" and its models were removed.` })
+  }, [openAICompatibleEndpoints, updateEndpoints])
+
+  const setEndpointToolCalling = React.useCallback((endpointId: string, enabled: boolean) => {
+    updateEndpoints(prev => prev.map(e => e.id === endpointId ? { ...e, toolCalling: enabled } : e))
+  }, [updateEndpoints])
+
+  const updateRetrySetting = React.useCallback((key: keyof RetryOptions, value: number) => {
+    if (!Number.isFinite(value) || value < 0) return
+    updateRetrySettings(prev => ({ ...prev, [key]: value }))
+  }, [updateRetrySettings])
+
+  const updateKnowledgeSetting = React.useCallback(<K extends keyof KnowledgeSettings>(key: K, value: KnowledgeSettings[K]) => {
+    updateKnowledgeSettings(prev => ({ ...prev, [key]: value }))
+  }, [updateKnowledgeSettings])
+
+  const saveMcpServers = React.useCallback((updater: (prev: McpServerSettings[]) => McpServerSettings[]) => {
+    updateMcpServers(updater)
+  }, [updateMcpServers])
+
+  const saveOutputSchemas = React.useCallback((updater: (prev: SavedOutputSchema[]) => SavedOutputSchema[]) => {
+    updateOutputSchemas(updater)
+  }, [updateOutputSchemas])
+
+  const saveAssistant = React.useCallback((assistantId: string | null, draft: AssistantDraft) => {
+    updateAssistants(prev => assistantId
+      ? prev.map(assistant => assistant.id === assistantId ? { ...assistant, ...draft } : assistant)
+      : [...prev, { ...draft, id: `assistant_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`, createdAt: Date.now() }])
+  }, [updateAssistants])
+
+  const deleteAssistant = React.useCallback((assistantId: string) => {
+    updateAssistants(prev => prev.filter(assistant => assistant.id !== assistantId))
+    chatStore.dispatch({ type: "detachAssistant", assistantId })
+  }, [updateAssistants])
+
+  const availableModels = React.useMemo(
+    () => [...activeModels, ...ollamaModels, ...openAICompatibleEndpoints.flatMap(endpoint => endpoint.models)],
+    [activeModels, ollamaModels, openAICompatibleEndpoints]
+  )
+
+  // User-supplied API keys per provider (server environment keys are used when these are empty)
+  const providerApiKeys = React.useMemo<Record<ProviderId, string | undefined>>(() => ({
+    [OPENROUTER_PROVIDER.id]: openRouterApiKey || process.env.NEXT_PUBLIC_OPENROUTER_API_KEY,
+  }), [openRouterApiKey])
+
+  const getModelConnection = React.useCallback((modelId: string): ModelConnection => {
+    const parsed = parseOpenAICompatibleModelId(modelId)
+    if (parsed) {
+      const endpoint = openAICompatibleEndpoints.find(e => e.id === parsed.endpointId)
+      return endpoint ? { apiKey: endpoint.apiKey, endpoint: { baseUrl: endpoint.baseUrl, headers: endpoint.headers, toolCalling: endpoint.toolCalling } } : {}
+    }
+    const provider = getProviderDescriptorForModel(modelId)
+    return { apiKey: provider ? providerApiKeys[provider.id] : undefined }
+  }, [openAICompatibleEndpoints, providerApiKeys])
+
+  return {
+    openRouterApiKey,
+    saveOpenRouterApiKey,
+    selectedOpenRouterModelIds,
+    setSelectedOpenRouterModelIds,
+    saveOpenRouterSelection,
+    refreshActiveModels,
+    ollamaModels,
+    isFetchingOllamaModels,
+    ollamaError,
+    discoverOllamaModels,
+    openAICompatibleEndpoints,
+    fetchingEndpointId,
+    endpointFetchErrors,
+    fetchEndpointModels,
+    addEndpoint,
+    removeEndpoint,
+    setEndpointToolCalling,
+    retrySettings,
+    updateRetrySetting,
+    knowledgeSettings,
+    updateKnowledgeSetting,
+    mcpServers,
+    saveMcpServers,
+    savedOutputSchemas,
+    saveOutputSchemas,
+    assistants,
+    saveAssistant,
+    deleteAssistant,
+    availableModels,
+    getModelConnection,
+  }
+}
+
+export { useChatSettings }
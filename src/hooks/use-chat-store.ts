@@ -0,0 +1,65 @@
+"use client"
+
+import * as React from "react"
+
+import { createChatStore, type ChatState } from "@/lib/chat-store"
+import { StorageQuotaError, loadChatData, saveChatFolders, saveChatSessions } from "@/lib/chat-storage"
+import { toast } from "@/hooks/use-toast"
+
+const ACTIVE_SESSION_ID_STORAGE_KEY = "active_chat_session_id"
+
+// The chats of this page, saved in IndexedDB; every component reads and changes the same store
+export const chatStore = createChatStore({
+  saveSessions: saveChatSessions,
+  saveFolders: saveChatFolders,
+  saveActiveSessionId: (sessionId) => {
+    if (sessionId) localStorage.setItem(ACTIVE_SESSION_ID_STORAGE_KEY, sessionId)
+    else localStorage.removeItem(ACTIVE_SESSION_ID_STORAGE_KEY)
+  },
+  isQuotaError: (error) => error instanceof StorageQuotaError,
+  onError: (error) => {
+    console.error("Error saving chats:", error)
+    // Quota errors are shown as a persistent alert instead, since every further change is lost too
+    if (!(error instanceof StorageQuotaError)) {
+      toast({ variant: "destructive", title: "Error Saving Chats", description: error instanceof Error ? error.message : "Could not save chats." })
+    }
+  },
+})
+
+let loadPromise: Promise<void> | null = null
+
+/**
+ * Loads the saved chats into the store (once per page), importing chats saved in localStorage by
+ * older versions, and selects the session that was active last time.
+ */
+export function loadChats(): Promise<void> {
+  if (!loadPromise) {
+    // Changes of the last half second would otherwise wait for a timer that never fires
+    window.addEventListener("pagehide", () => void chatStore.flush())
+  }
+  loadPromise ??= loadChatData()
+    .then(({ sessions, folders }) => {
+      const storedActiveId = localStorage.getItem(ACTIVE_SESSION_ID_STORAGE_KEY)
+      const activeSessionId = sessions.some(s => s.id === storedActiveId) ? storedActiveId : sessions[0]?.id ?? null
+      chatStore.dispatch({ type: "loaded", sessions, folders, activeSessionId })
+    })
+    .catch((error) => {
+      console.error("Error loading chats:", error)
+      chatStore.dispatch({ type: "loaded", sessions: [], folders: [], activeSessionId: null })
+      if (error instanceof StorageQuotaError) {
+        chatStore.dispatch({ type: "storageQuotaExceeded", exceeded: true })
+      } else {
+        toast({ variant: "destructive", title: "Error Loading Chats", description: error instanceof Error ? error.message : "Could not load saved chats." })
+      }
+    })
+  return loadPromise
+}
+
+const getServerSnapshot = (): ChatState => chatStore.getState()
+
+/** The chat state, re-rendering the component whenever it changes. */
+function useChatStore(): ChatState {
+  return React.useSyncExternalStore(chatStore.subscribe, chatStore.getState, getServerSnapshot)
+}
+
+export { useChatStore }
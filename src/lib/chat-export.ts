@@ -0,0 +1,199 @@
+/**
+ * @fileOverview Export of chat sessions to files: Markdown, standalone HTML, lossless JSON, and PDF
+ * (printed from the HTML export by the browser, so text stays selectable and Persian stays right-to-left).
+ *
+ * - ChatExportFormat - The formats a chat can be exported to.
+ * - ChatExportFile - The JSON export: every session field, attachments included as data URIs.
+ * - CHAT_EXPORT_FILE_FORMAT - Identifies a JSON export, with its version.
+ * - exportChatsToMarkdown / exportChatsToHtml / exportChatsToJson - Render sessions in one format.
+ * - exportChats - Downloads (or for PDF, prints) sessions in the chosen format.
+ */
+
+import type { ChatFolder, ChatSession, Message } from '@/lib/chat-storage';
+import { formatCurrency, isPersian } from '@/lib/utils';
+
+export type ChatExportFormat = 'markdown' | 'html' | 'json' | 'pdf';
+
+export const CHAT_EXPORT_FILE_FORMAT = { name: 'kaveh-ai-chats', version: 1 } as const;
+
+export interface ChatExportFile {
+  format: typeof CHAT_EXPORT_FILE_FORMAT.name;
+  version: number;
+  exportedAt: number;
+  sessions: ChatSession[];
+  folders: ChatFolder[]; // The folders the exported sessions are in
+}
+
+export interface ChatExportOptions {
+  folders: ChatFolder[];
+  getModelName: (modelId: string | undefined) => string;
+}
+
+const formatTimestamp = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+const senderLabel = (message: Message, getModelName: ChatExportOptions['getModelName']): string =>
+  message.sender === 'user' ? 'User' : getModelName(message.modelId);
+
+// Model, time and cost of a message, e.g. "Gemini 2.0 Flash · 5/1/2025, 10:00:00 AM · $0.0012"
+const messageHeading = (message: Message, getModelName: ChatExportOptions['getModelName']): string => [
+  senderLabel(message, getModelName),
+  formatTimestamp(message.timestamp),
+  ...(message.sender === 'ai' && message.cost !== undefined ? [formatCurrency(message.cost)] : []),
+  ...(message.isError ? ['error'] : []),
+  ...(message.isStopped ? ['stopped'] : []),
+].join(' · ');
+
+const sessionDetails = (session: ChatSession, folders: ChatFolder[]): string[] => {
+  const folder = folders.find(f => f.id === session.folderId);
+  return [
+    `Created: ${formatTimestamp(session.createdAt)}`,
+    `Last modified: ${formatTimestamp(session.lastModified)}`,
+    ...(folder ? [`Folder: ${folder.name}`] : []),
+    ...(session.tags?.length ? [`Tags: ${session.tags.join(', ')}`] : []),
+    `Total cost: ${formatCurrency(session.totalCost)}`,
+  ];
+};
+
+export function exportChatsToMarkdown(sessions: ChatSession[], { folders, getModelName }: ChatExportOptions): string {
+  return sessions.map(session => [
+    `# ${session.name}`,
+    sessionDetails(session, folders).map(detail => `- ${detail}`).join('\n'),
+    ...session.messages.map(message => [
+      `### ${messageHeading(message, getModelName)}`,
+      ...(message.files?.length ? [`Attachments: ${message.files.map(file => file.name).join(', ')}`] : []),
+      // Structured responses hold their JSON in `text`
+      message.structuredData !== undefined ? `\`\`\`json\n${message.text}\n\`\`\`` : message.text,
+    ].join('\n\n')),
+  ].join('\n\n')).join('\n\n---\n\n') + '\n';
+}
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const directionOf = (text: string): 'rtl' | 'ltr' => isPersian(text) ? 'rtl' : 'ltr';
+
+const HTML_EXPORT_STYLE = `
+  body { font-family: Vazirmatn, Tahoma, Arial, Helvetica, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.6; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .details { color: #6b7280; font-size: 0.85rem; margin: 0 0 1.5rem; padding: 0; list-style: none; }
+  .message { border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 0 0 1rem; break-inside: avoid; }
+  .message.user { background: #eef2ff; margin-left: 15%; }
+  .message.ai { background: #f3f4f6; margin-right: 15%; }
+  .message.error { background: #fef2f2; color: #b91c1c; }
+  .heading { font-size: 0.75rem; color: #6b7280; margin-bottom: 0.25rem; direction: ltr; text-align: left; }
+  .text { white-space: pre-wrap; margin: 0; }
+  pre.text { font-family: ui-monospace, monospace; font-size: 0.85rem; }
+  [dir="rtl"] .text { text-align: right; }
+  .attachments { display: flex; flex-wrap: wrap; gap: 0.5rem; margin-bottom: 0.5rem; font-size: 0.85rem; }
+  .attachments img { max-height: 12rem; max-width: 100%; border-radius: 0.375rem; }
+  section + section { border-top: 1px solid #e5e7eb; margin-top: 2rem; padding-top: 1rem; }
+  @page { margin: 2cm; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    section + section { break-before: page; border-top: none; margin-top: 0; padding-top: 0; }
+  }
+`;
+
+function messageToHtml(message: Message, getModelName: ChatExportOptions['getModelName']): string {
+  const attachments = (message.files ?? []).map(file => file.dataUri.startsWith('data:image/')
+    ? `<img src="${escapeHtml(file.dataUri)}" alt="${escapeHtml(file.name)}" title="${escapeHtml(file.name)}">`
+    : `<span>📎 ${escapeHtml(file.name)}</span>`);
+  const text = message.structuredData !== undefined
+    ? `<pre class="text" dir="ltr">${escapeHtml(message.text)}</pre>`
+    : `<p class="text">${escapeHtml(message.text)}</p>`;
+  return `<div class="message ${message.sender}${message.isError ? ' error' : ''}" dir="${directionOf(message.text)}">
+<div class="heading">${escapeHtml(messageHeading(message, getModelName))}</div>
+${attachments.length > 0 ? `<div class="attachments">${attachments.join('')}</div>\n` : ''}${text}
+</div>`;
+}
+
+/** A standalone page (no external resources); images are embedded and Persian messages are right-to-left. */
+export function exportChatsToHtml(sessions: ChatSession[], { folders, getModelName }: ChatExportOptions): string {
+  const title = sessions.length === 1 ? sessions[0].name : `${sessions.length} chats`;
+  const body = sessions.map(session => `<section>
+<h1 dir="${directionOf(session.name)}">${escapeHtml(session.name)}</h1>
+<ul class="details">${sessionDetails(session, folders).map(detail => `<li>${escapeHtml(detail)}</li>`).join('')}</ul>
+${session.messages.map(message => messageToHtml(message, getModelName)).join('\n')}
+</section>`).join('\n');
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_EXPORT_STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+export function exportChatsToJson(sessions: ChatSession[], folders: ChatFolder[]): string {
+  const folderIds = new Set(sessions.map(session => session.folderId));
+  const file: ChatExportFile = {
+    format: CHAT_EXPORT_FILE_FORMAT.name,
+    version: CHAT_EXPORT_FILE_FORMAT.version,
+    exportedAt: Date.now(),
+    sessions,
+    folders: folders.filter(folder => folderIds.has(folder.id)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const FILE_TYPES: Record<Exclude<ChatExportFormat, 'pdf'>, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  json: { extension: 'json', mimeType: 'application/json' },
+};
+
+// Keeps letters of any script (session names are often Persian), so the file name stays recognizable
+const toFileName = (name: string): string =>
+  name.trim().replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'chat';
+
+function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers (Safari, Firefox) read the blob after click() returns; revoking right away can cancel large downloads
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+// Prints the page from a hidden frame; the browser's print dialog saves it as a PDF
+function printHtml(html: string): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // print() returns once the dialog closes (or right away in some browsers); keep the frame until then
+    setTimeout(() => frame.remove(), 60_000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
+
+/**
+ * Downloads `sessions` as a file in `format`; for PDF, opens the print dialog instead.
+ *
+ * @param name Used for the file name, e.g. the session or folder name.
+ */
+export function exportChats(sessions: ChatSession[], format: ChatExportFormat, name: string, options: ChatExportOptions): void {
+  if (format === 'pdf') {
+    printHtml(exportChatsToHtml(sessions, options));
+    return;
+  }
+  const content = format === 'markdown' ? exportChatsToMarkdown(sessions, options)
+    : format === 'html' ? exportChatsToHtml(sessions, options)
+    : exportChatsToJson(sessions, options.folders);
+  const { extension, mimeType } = FILE_TYPES[format];
+  downloadFile(content, `${toFileName(name)}-${new Date().toISOString().slice(0, 10)}.${extension}`, mimeType);
+}
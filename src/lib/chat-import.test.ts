@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { CHAT_EXPORT_FILE_FORMAT } from '@/lib/chat-export';
+import { ChatImportError, parseChatImport } from '@/lib/chat-import';
+
+const backup = (sessions: unknown, folders: unknown = []) => ({
+  format: CHAT_EXPORT_FILE_FORMAT.name, version: CHAT_EXPORT_FILE_FORMAT.version, exportedAt: 1, sessions, folders,
+});
+
+const validSession = {
+  id: 'session_1', name: 'Trip', createdAt: 1, lastModified: 2, totalCost: 0.5, folderId: 'folder_1',
+  messages: [
+    { id: 'msg_1', sender: 'user', text: 'Hello', timestamp: 1 },
+    { id: 'msg_2', sender: 'ai', text: 'Hi', timestamp: 2, modelId: 'googleai/gemini-2.0-flash' },
+  ],
+};
+
+describe('parseChatImport of this app\'s export', () => {
+  it('keeps the sessions and folders as exported', () => {
+    const chatImport = parseChatImport(backup([validSession], [{ id: 'folder_1', name: 'Travel', createdAt: 1 }]));
+    expect(chatImport.source).toBe('backup');
+    expect(chatImport.sessions).toEqual([validSession]);
+    expect(chatImport.folders).toEqual([{ id: 'folder_1', name: 'Travel', createdAt: 1 }]);
+  });
+
+  it('rejects a session without a list of messages', () => {
+    const { messages: _messages, ...session } = validSession;
+    expect(() => parseChatImport(backup([session]))).toThrow(ChatImportError);
+  });
+
+  it.each([
+    ['an unknown sender', { id: 'msg_1', sender: 'system', text: 'Hello', timestamp: 1 }],
+    ['no text', { id: 'msg_1', sender: 'user', timestamp: 1 }],
+    ['a date string as timestamp', { id: 'msg_1', sender: 'user', text: 'Hello', timestamp: '2025-01-01' }],
+    ['invalid attachments', { id: 'msg_1', sender: 'user', text: 'Hello', timestamp: 1, files: [{ name: 'a.png' }] }],
+  ])('rejects a message with %s', (_, message) => {
+    expect(() => parseChatImport(backup([{ ...validSession, messages: [message] }]))).toThrow(/Message 1 of conversation 1/);
+  });
+
+  it('rejects an export made by a newer version', () => {
+    expect(() => parseChatImport({ ...backup([validSession]), version: CHAT_EXPORT_FILE_FORMAT.version + 1 })).toThrow(ChatImportError);
+  });
+});
+
+// --- Other apps' exports, trimmed to the fields the converters read ---
+
+const chatGptNode = (id: string, parent: string | null, children: string[], message: { role: string; text: string; time: number } | null) => ({
+  id, parent, children,
+  message: message && {
+    id, author: { role: message.role }, create_time: message.time,
+    content: { content_type: 'text', parts: [message.text] },
+    metadata: message.role === 'assistant' ? { model_slug: 'gpt-4o' } : {},
+  },
+});
+
+// The first answer was regenerated; the user went back to the first one, so it is the current node
+const chatGptConversation = (currentNode?: string) => ({
+  conversation_id: 'conv-1', title: 'Trip planning', create_time: 1_700_000_000, update_time: 1_700_000_300.5,
+  ...(currentNode && { current_node: currentNode }),
+  mapping: {
+    root: chatGptNode('root', null, ['system'], null),
+    system: chatGptNode('system', 'root', ['q1'], { role: 'system', text: 'You are ChatGPT', time: 1_700_000_000 }),
+    q1: chatGptNode('q1', 'system', ['a1', 'a2'], { role: 'user', text: 'Where should I go?', time: 1_700_000_100 }),
+    a1: chatGptNode('a1', 'q1', [], { role: 'assistant', text: 'Lisbon', time: 1_700_000_200 }),
+    a2: chatGptNode('a2', 'q1', [], { role: 'assistant', text: 'Porto', time: 1_700_000_300 }),
+  },
+});
+
+describe('parseChatImport of a ChatGPT export', () => {
+  it('keeps the branch ending at current_node', () => {
+    const { source, sessions: [session] } = parseChatImport([chatGptConversation('a1')]);
+    expect(source).toBe('chatgpt');
+    expect(session.messages.map(message => [message.sender, message.text])).toEqual([['user', 'Where should I go?'], ['ai', 'Lisbon']]);
+    expect(session).toMatchObject({ id: 'chatgpt_conv-1', name: 'Trip planning', modelId: 'gpt-4o' });
+  });
+
+  it('follows the latest child from the root without a current node', () => {
+    const { sessions: [session] } = parseChatImport([chatGptConversation()]);
+    expect(session.messages.map(message => message.text)).toEqual(['Where should I go?', 'Porto']);
+  });
+
+  it('converts timestamps from seconds to milliseconds', () => {
+    const { sessions: [session] } = parseChatImport([chatGptConversation('a1')]);
+    expect(session.createdAt).toBe(1_700_000_000_000);
+    expect(session.lastModified).toBe(1_700_000_300_500);
+    expect(session.messages.map(message => message.timestamp)).toEqual([1_700_000_100_000, 1_700_000_200_000]);
+  });
+});
+
+const claudeConversation = () => ({
+  uuid: 'conv-2', name: 'Contract review', created_at: '2025-03-01T10:00:00Z', updated_at: '2025-03-01T10:05:00Z',
+  chat_messages: [
+    {
+      uuid: 'h1', parent_message_uuid: '00000000-0000-4000-8000-000000000000', sender: 'human', created_at: '2025-03-01T10:00:00Z',
+      content: [{ type: 'text', text: 'Is this clause fair?' }],
+      attachments: [{ file_name: 'contract.txt', extracted_content: 'The tenant pays all repairs.' }],
+    },
+    { uuid: 'a1', parent_message_uuid: 'h1', sender: 'assistant', created_at: '2025-03-01T10:01:00Z', content: [{ type: 'text', text: 'First try' }] },
+    { uuid: 'a2', parent_message_uuid: 'h1', sender: 'assistant', created_at: '2025-03-01T10:02:00Z', content: [{ type: 'text', text: 'Retried answer' }] },
+  ],
+});
+
+describe('parseChatImport of a Claude export', () => {
+  it('keeps the branch ending with the newest message', () => {
+    const { source, sessions: [session] } = parseChatImport([claudeConversation()]);
+    expect(source).toBe('claude');
+    expect(session.messages.map(message => [message.sender, message.text])).toEqual([['user', 'Is this clause fair?'], ['ai', 'Retried answer']]);
+  });
+
+  it('attaches the extracted text of uploaded documents', () => {
+    const { sessions: [session] } = parseChatImport([claudeConversation()]);
+    expect(session.messages[0].files).toEqual([{
+      name: 'contract.txt',
+      dataUri: `data:text/plain;charset=utf-8,${encodeURIComponent('The tenant pays all repairs.')}`,
+      extractedText: 'The tenant pays all repairs.',
+    }]);
+  });
+});
+
+const typingMindBackup = () => ({
+  data: {
+    folders: [{ id: 'f1', title: 'Work', createdAt: '2025-01-01T00:00:00Z' }],
+    chats: [
+      { chatID: 'c1', chatTitle: 'Standup notes', folderID: 'f1', model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Summarize' }, { role: 'assistant', content: 'Done' }] },
+      { chatID: 'c2', chatTitle: 'Recipes', folderID: 'f-deleted', messages: [{ role: 'user', content: [{ type: 'text', text: 'Pasta?' }] }] },
+      { chatID: 'c3', chatTitle: 'Loose', messages: [{ role: 'user', content: 'Hello' }] },
+    ],
+  },
+});
+
+describe('parseChatImport of a TypingMind backup', () => {
+  it('imports folders and moves chats of folders missing from the export out of folders', () => {
+    const { source, sessions, folders } = parseChatImport(typingMindBackup());
+    expect(source).toBe('typingmind');
+    expect(folders).toEqual([{ id: 'typingmind_f1', name: 'Work', createdAt: Date.parse('2025-01-01T00:00:00Z') }]);
+    expect(sessions.map(session => [session.id, session.folderId])).toEqual([
+      ['typingmind_c1', 'typingmind_f1'],
+      ['typingmind_c2', null],
+      ['typingmind_c3', undefined],
+    ]);
+    expect(sessions[0]).toMatchObject({ name: 'Standup notes', modelId: 'gpt-4o-mini' });
+  });
+});
+
+describe('parseChatImport of the same export twice', () => {
+  const ids = (json: unknown) => parseChatImport(json).sessions.map(session => [session.id, ...session.messages.map(message => message.id)]);
+
+  it.each([
+    ['ChatGPT', () => [chatGptConversation('a1')], /^chatgpt_/],
+    ['Claude', () => [claudeConversation()], /^claude_/],
+    ['TypingMind', typingMindBackup, /^typingmind_/],
+  ])('derives the same IDs from a %s export', (_, createExport, prefix) => {
+    const first = ids(createExport());
+    expect(ids(createExport())).toEqual(first);
+    expect(first.flat().every(id => prefix.test(id))).toBe(true);
+  });
+});
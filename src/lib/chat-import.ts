@@ -0,0 +1,336 @@
+/**
+ * @fileOverview Import of chat history exported from other apps (ChatGPT, Claude, TypingMind) and of this
+ * app's own JSON export. Conversations become ChatSessions whose IDs are derived from the source IDs, so
+ * importing the same file again finds the sessions already there instead of duplicating them.
+ *
+ * - ChatImportSource / CHAT_IMPORT_SOURCE_LABELS - The apps whose exports can be imported, and their names.
+ * - ChatImport - The sessions and folders read from an export, shown as a preview before they are added.
+ * - ChatImportError - Thrown when a file is not a supported export.
+ * - CHAT_IMPORT_ACCEPT - File extensions for the import file input's `accept`.
+ * - parseChatImport - Detects the format of parsed export JSON and converts it.
+ * - readChatImportFile - Reads and converts an export file.
+ */
+
+import type { Attachment, ChatFolder, ChatSession, Message } from '@/lib/chat-storage';
+import { CHAT_EXPORT_FILE_FORMAT } from '@/lib/chat-export';
+import { DEFAULT_SESSION_NAME, MAX_SESSION_NAME_LENGTH } from '@/lib/chat-store';
+
+export type ChatImportSource = 'chatgpt' | 'claude' | 'typingmind' | 'backup';
+
+export const CHAT_IMPORT_SOURCE_LABELS: Record<ChatImportSource, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  typingmind: 'TypingMind',
+  backup: 'Chat Export',
+};
+
+export interface ChatImport {
+  source: ChatImportSource;
+  sessions: ChatSession[];
+  folders: ChatFolder[];
+}
+
+export class ChatImportError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ChatImportError';
+  }
+}
+
+// Each app's export is a JSON file (ChatGPT and Claude put conversations.json in a zip archive)
+export const CHAT_IMPORT_ACCEPT = '.json,application/json';
+
+// The exports are untyped JSON; fields are read defensively since their shape changes between app versions
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const asString = (value: unknown): string | undefined => typeof value === 'string' && value ? value : undefined;
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+/** Milliseconds from epoch seconds (ChatGPT), epoch milliseconds or an ISO date; undefined if unreadable. */
+function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value < 1e11 ? Math.round(value * 1000) : value;
+  if (typeof value === 'string') {
+    const timestamp = Date.parse(value);
+    return Number.isNaN(timestamp) ? undefined : timestamp;
+  }
+  return undefined;
+}
+
+const toSessionName = (title: string | undefined): string =>
+  title?.trim().slice(0, MAX_SESSION_NAME_LENGTH) || DEFAULT_SESSION_NAME;
+
+const textAttachment = (name: string, text: string): Attachment => ({
+  name,
+  dataUri: `data:text/plain;charset=utf-8,${encodeURIComponent(text)}`,
+  extractedText: text,
+});
+
+function buildSession(id: string, title: string | undefined, messages: Message[], createdAt: number | undefined, modifiedAt: number | undefined): ChatSession {
+  const created = createdAt ?? messages[0]?.timestamp ?? Date.now();
+  const lastModelId = messages.findLast(message => message.sender === 'ai' && message.modelId)?.modelId;
+  return {
+    id,
+    name: toSessionName(title),
+    messages,
+    createdAt: created,
+    lastModified: modifiedAt ?? messages.at(-1)?.timestamp ?? created,
+    totalCost: 0, // Other apps do not export costs
+    ...(lastModelId && { modelId: lastModelId }),
+  };
+}
+
+// --- ChatGPT (conversations.json) ---
+// Each conversation is a tree of message nodes (`mapping`); editing a prompt or regenerating a response
+// starts a branch, and `current_node` is the leaf of the branch that was shown last.
+
+function chatGptMessageText(message: JsonObject): string {
+  const content = isObject(message.content) ? message.content : {};
+  switch (content.content_type) {
+    case 'text':
+    case 'multimodal_text':
+      // Images are exported as asset pointers to files in the archive, which are not imported
+      return asArray(content.parts).filter((part): part is string => typeof part === 'string').join('\n').trim();
+    case 'code':
+      return asString(content.text)?.trim() ?? '';
+    default: // Tool calls and results, browsing, reasoning summaries
+      return '';
+  }
+}
+
+const lastChildOf = (node: JsonObject): string | undefined =>
+  asArray(node.children).filter((child): child is string => typeof child === 'string').at(-1);
+
+function flattenChatGptConversation(mapping: JsonObject, currentNode: string | undefined): JsonObject[] {
+  const nodeOf = (id: string | undefined): JsonObject | undefined => id && isObject(mapping[id]) ? mapping[id] : undefined;
+  let nodeId = currentNode;
+  if (!nodeOf(nodeId)) {
+    // Without a current node, follow the latest child from the root
+    nodeId = Object.keys(mapping).find(id => nodeOf(id) && !asString(nodeOf(id)!.parent));
+    const visited = new Set<string>();
+    for (let childId = lastChildOf(nodeOf(nodeId) ?? {}); nodeOf(childId) && !visited.has(childId!); childId = lastChildOf(nodeOf(childId)!)) {
+      visited.add(childId!);
+      nodeId = childId;
+    }
+  }
+  const path: JsonObject[] = [];
+  const visited = new Set<string>();
+  for (let node = nodeOf(nodeId); node && !visited.has(nodeId!); node = nodeOf(nodeId)) {
+    visited.add(nodeId!);
+    if (isObject(node.message)) path.push(node.message);
+    nodeId = asString(node.parent);
+  }
+  return path.reverse();
+}
+
+function convertChatGptConversation(conversation: JsonObject, index: number): ChatSession {
+  const conversationId = asString(conversation.conversation_id) ?? asString(conversation.id) ?? String(index);
+  const sessionId = `chatgpt_${conversationId}`;
+  const createdAt = toTimestamp(conversation.create_time);
+  const messages: Message[] = [];
+  const path = flattenChatGptConversation(isObject(conversation.mapping) ? conversation.mapping : {}, asString(conversation.current_node));
+  for (const message of path) {
+    const role = isObject(message.author) ? message.author.role : undefined;
+    const metadata = isObject(message.metadata) ? message.metadata : {};
+    if ((role !== 'user' && role !== 'assistant') || metadata.is_visually_hidden_from_conversation) continue;
+    const text = chatGptMessageText(message);
+    if (!text) continue;
+    messages.push({
+      id: `${sessionId}_${asString(message.id) ?? messages.length}`,
+      sender: role === 'user' ? 'user' : 'ai',
+      text,
+      timestamp: toTimestamp(message.create_time) ?? messages.at(-1)?.timestamp ?? createdAt ?? Date.now(),
+      ...(role === 'assistant' && asString(metadata.model_slug) && { modelId: asString(metadata.model_slug) }),
+    });
+  }
+  return buildSession(sessionId, asString(conversation.title), messages, createdAt, toTimestamp(conversation.update_time));
+}
+
+// --- Claude (conversations.json) ---
+// Messages are listed in order; exports that include edited or retried messages link them with
+// `parent_message_uuid`, and the branch ending with the newest message is kept.
+
+function flattenClaudeMessages(chatMessages: JsonObject[]): JsonObject[] {
+  if (!chatMessages.some(message => asString(message.parent_message_uuid))) return chatMessages;
+  const byId = new Map(chatMessages.map(message => [asString(message.uuid), message]));
+  const latest = chatMessages.reduce((newest, message) =>
+    (toTimestamp(message.created_at) ?? 0) >= (toTimestamp(newest.created_at) ?? 0) ? message : newest);
+  const path: JsonObject[] = [];
+  for (let message: JsonObject | undefined = latest; message && !path.includes(message); message = byId.get(asString(message.parent_message_uuid))) {
+    path.push(message);
+  }
+  return path.reverse();
+}
+
+function claudeMessageText(message: JsonObject): string {
+  const blocks = asArray(message.content).filter(isObject);
+  const text = blocks.length > 0
+    ? blocks.filter(block => block.type === 'text').map(block => asString(block.text) ?? '').join('\n')
+    : asString(message.text) ?? '';
+  return text.trim();
+}
+
+function convertClaudeConversation(conversation: JsonObject, index: number): ChatSession {
+  const sessionId = `claude_${asString(conversation.uuid) ?? index}`;
+  const createdAt = toTimestamp(conversation.created_at);
+  const modelId = asString(conversation.model); // Only in newer exports
+  const messages: Message[] = [];
+  for (const message of flattenClaudeMessages(asArray(conversation.chat_messages).filter(isObject))) {
+    const sender = message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'ai' : null;
+    if (!sender) continue;
+    // Uploaded documents are exported with their extracted text; other files only by name
+    const files = asArray(message.attachments).filter(isObject).flatMap(attachment => {
+      const name = asString(attachment.file_name) ?? 'attachment.txt';
+      const content = asString(attachment.extracted_content);
+      return content ? [textAttachment(name, content)] : [];
+    });
+    const text = claudeMessageText(message);
+    if (!text && files.length === 0) continue;
+    messages.push({
+      id: `${sessionId}_${asString(message.uuid) ?? messages.length}`,
+      sender,
+      text,
+      timestamp: toTimestamp(message.created_at) ?? messages.at(-1)?.timestamp ?? createdAt ?? Date.now(),
+      ...(files.length > 0 && { files }),
+      ...(sender === 'ai' && modelId && { modelId }),
+    });
+  }
+  return buildSession(sessionId, asString(conversation.name), messages, createdAt, toTimestamp(conversation.updated_at));
+}
+
+// --- TypingMind (backup .json) ---
+// `data.chats` holds each chat's current branch in `messages`; folders are in `data.folders`.
+
+function typingMindContent(content: unknown, messageId: string): { text: string; files: Attachment[] } {
+  if (typeof content === 'string') return { text: content.trim(), files: [] };
+  const text: string[] = [];
+  const files: Attachment[] = [];
+  for (const part of asArray(content).filter(isObject)) {
+    if (part.type === 'text' && asString(part.text)) text.push(asString(part.text)!);
+    const imageUrl = isObject(part.image_url) ? asString(part.image_url.url) : undefined;
+    // Only embedded images can be kept; linked ones may be gone by now
+    if (part.type === 'image_url' && imageUrl?.startsWith('data:')) {
+      const extension = imageUrl.match(/^data:image\/(\w+)/)?.[1] ?? 'png';
+      files.push({ name: `${messageId}-image-${files.length + 1}.${extension}`, dataUri: imageUrl });
+    }
+  }
+  return { text: text.join('\n').trim(), files };
+}
+
+function convertTypingMindChat(chat: JsonObject, index: number): ChatSession {
+  const chatId = asString(chat.chatID) ?? asString(chat.id) ?? String(index);
+  const sessionId = `typingmind_${chatId}`;
+  const createdAt = toTimestamp(chat.createdAt);
+  const chatModelId = asString(chat.model);
+  const messages: Message[] = [];
+  for (const [messageIndex, message] of asArray(chat.messages).filter(isObject).entries()) {
+    if (message.role !== 'user' && message.role !== 'assistant') continue;
+    const messageId = `${sessionId}_${asString(message.uuid) ?? asString(message.id) ?? messageIndex}`;
+    const { text, files } = typingMindContent(message.content, String(messageIndex + 1));
+    if (!text && files.length === 0) continue;
+    const modelId = asString(message.model) ?? chatModelId;
+    messages.push({
+      id: messageId,
+      sender: message.role === 'user' ? 'user' : 'ai',
+      text,
+      timestamp: toTimestamp(message.createdAt) ?? messages.at(-1)?.timestamp ?? createdAt ?? Date.now(),
+      ...(files.length > 0 && { files }),
+      ...(message.role === 'assistant' && modelId && { modelId }),
+    });
+  }
+  const session = buildSession(sessionId, asString(chat.chatTitle) ?? asString(chat.title), messages, createdAt, toTimestamp(chat.updatedAt));
+  const folderId = asString(chat.folderID);
+  return folderId ? { ...session, folderId: `typingmind_${folderId}` } : session;
+}
+
+function convertTypingMindBackup(backup: JsonObject): ChatImport {
+  const data = isObject(backup.data) ? backup.data : backup;
+  const sessions = asArray(data.chats).filter(isObject).map(convertTypingMindChat);
+  const folders = asArray(data.folders).filter(isObject).flatMap((folder): ChatFolder[] => {
+    const id = asString(folder.id);
+    return id ? [{ id: `typingmind_${id}`, name: asString(folder.title) ?? asString(folder.name) ?? 'TypingMind', createdAt: toTimestamp(folder.createdAt) ?? Date.now() }] : [];
+  });
+  // Chats in folders that were not exported are left out of folders
+  const folderIds = new Set(folders.map(folder => folder.id));
+  return {
+    source: 'typingmind',
+    sessions: sessions.map(session => session.folderId && !folderIds.has(session.folderId) ? { ...session, folderId: null } : session),
+    folders,
+  };
+}
+
+// --- This app's JSON export ---
+// The file may have been edited or cut short, so every record is checked before it reaches the store
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isAttachment = (value: unknown): value is Attachment =>
+  isObject(value) && typeof value.name === 'string' && typeof value.dataUri === 'string' &&
+  (value.extractedText === undefined || typeof value.extractedText === 'string');
+
+function validateBackupMessage(value: unknown, location: string): Message {
+  if (!isObject(value) || typeof value.id !== 'string' || (value.sender !== 'user' && value.sender !== 'ai') ||
+      typeof value.text !== 'string' || !isFiniteNumber(value.timestamp)) {
+    throw new ChatImportError(`${location} is not a valid message: it needs an ID, a sender ("user" or "ai"), text and a timestamp.`);
+  }
+  if (value.files !== undefined && !(Array.isArray(value.files) && value.files.every(isAttachment))) {
+    throw new ChatImportError(`${location} has invalid attachments.`);
+  }
+  return value as unknown as Message;
+}
+
+function validateBackupSession(value: unknown, index: number): ChatSession {
+  const location = `Conversation ${index + 1}`;
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !Array.isArray(value.messages) ||
+      !isFiniteNumber(value.createdAt) || !isFiniteNumber(value.lastModified)) {
+    throw new ChatImportError(`${location} is not a valid conversation: it needs an ID, a name, dates and a list of messages.`);
+  }
+  const messages = value.messages.map((message, messageIndex) => validateBackupMessage(message, `Message ${messageIndex + 1} of ${location.toLowerCase()}`));
+  return { ...value, messages, totalCost: isFiniteNumber(value.totalCost) ? value.totalCost : 0 } as unknown as ChatSession;
+}
+
+function validateBackupFolder(value: unknown, index: number): ChatFolder {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string') {
+    throw new ChatImportError(`Folder ${index + 1} is not a valid folder: it needs an ID and a name.`);
+  }
+  return { id: value.id, name: value.name, createdAt: isFiniteNumber(value.createdAt) ? value.createdAt : Date.now() };
+}
+
+/**
+ * Converts the parsed JSON of an export file, detecting which app it comes from.
+ * Sessions without any messages (e.g. conversations holding only tool output) are left out.
+ *
+ * @throws ChatImportError if the JSON is not a supported export.
+ */
+export function parseChatImport(json: unknown): ChatImport {
+  let chatImport: ChatImport;
+  if (isObject(json) && json.format === CHAT_EXPORT_FILE_FORMAT.name) {
+    if (typeof json.version === 'number' && json.version > CHAT_EXPORT_FILE_FORMAT.version) {
+      throw new ChatImportError('This export was made by a newer version of the app. Update the app to import it.');
+    }
+    if (!Array.isArray(json.sessions)) throw new ChatImportError('This chat export has no list of conversations.');
+    chatImport = { source: 'backup', sessions: json.sessions.map(validateBackupSession), folders: asArray(json.folders).map(validateBackupFolder) };
+  } else if (isObject(json) && (isObject(json.data) ? Array.isArray(json.data.chats) : Array.isArray(json.chats))) {
+    chatImport = convertTypingMindBackup(json);
+  } else if (Array.isArray(json) && json.some(conversation => isObject(conversation) && isObject(conversation.mapping))) {
+    chatImport = { source: 'chatgpt', sessions: json.filter(isObject).map(convertChatGptConversation), folders: [] };
+  } else if (Array.isArray(json) && json.some(conversation => isObject(conversation) && Array.isArray(conversation.chat_messages))) {
+    chatImport = { source: 'claude', sessions: json.filter(isObject).map(convertClaudeConversation), folders: [] };
+  } else {
+    throw new ChatImportError('This file is not a ChatGPT, Claude or TypingMind export. For ChatGPT and Claude, select conversations.json from the export archive.');
+  }
+  const sessions = chatImport.sessions.filter(session => session.messages.length > 0);
+  if (sessions.length === 0) throw new ChatImportError('The export contains no conversations.');
+  return { ...chatImport, sessions };
+}
+
+/** Reads an export file; see parseChatImport. */
+export async function readChatImportFile(file: File): Promise<ChatImport> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch (error) {
+    throw new ChatImportError(`${file.name} is not a JSON file. ChatGPT and Claude exports are zip archives; select conversations.json inside them.`, { cause: error });
+  }
+  return parseChatImport(json);
+}
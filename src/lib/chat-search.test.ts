@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { createChatSearchIndex, normalizeSearchText } from '@/lib/chat-search';
+import type { ChatSession, Message } from '@/lib/chat-storage';
+
+const message = (id: string, text: string, timestamp = 1): Message => ({ id, sender: 'user', text, timestamp });
+
+const session = (id: string, messages: Message[], name = 'New Chat'): ChatSession => ({
+  id, name, messages, createdAt: 1, lastModified: 10, totalCost: 0,
+});
+
+describe('normalizeSearchText', () => {
+  it.each([
+    ['Arabic yeh and kaf to Persian', 'علي كتاب', 'علی کتاب'],
+    ['alef maksura to Persian yeh', 'موسى', 'موسی'],
+    ['zero-width non-joiner', 'می‌روم', 'میروم'],
+    ['harakat', 'مُحَمَّد', 'محمد'],
+    ['hamza and madda on alef', 'أحمد إيران آب', 'احمد ایران اب'],
+    ['Persian and Arabic-Indic digits', '۱۴۰۲ و ٣', '1402 و 3'],
+    ['case and Latin accents', 'Café CRÈME', 'cafe creme'],
+  ])('folds %s', (_, text, expected) => {
+    expect(normalizeSearchText(text)).toBe(expected);
+  });
+});
+
+describe('ChatSearchIndex.search', () => {
+  const messageIds = (results: { messageId: string | null }[]) => results.map(result => result.messageId);
+
+  it('matches words starting with every query term', () => {
+    const index = createChatSearchIndex();
+    index.update([session('s1', [message('m1', 'Planning a journey to Lisbon'), message('m2', 'Planning dinner')])]);
+    expect(messageIds(index.search('plan lis'))).toEqual(['m1']);
+    expect(messageIds(index.search('plan'))).toHaveLength(2);
+    expect(index.search('plan porto')).toEqual([]);
+    expect(index.search('anning')).toEqual([]);
+  });
+
+  it('matches across the folded spellings', () => {
+    const index = createChatSearchIndex();
+    index.update([session('s1', [message('m1', 'كتاب‌ها را در سال ۱۴۰۲ خریدم')])]);
+    expect(messageIds(index.search('کتاب 1402'))).toEqual(['m1']);
+  });
+
+  it('lists session names first, then messages newest first', () => {
+    const index = createChatSearchIndex();
+    index.update([session('s1', [message('m1', 'Lisbon trip', 1), message('m2', 'Lisbon hotels', 5)], 'Lisbon')]);
+    expect(messageIds(index.search('lisbon'))).toEqual([null, 'm2', 'm1']);
+  });
+
+  it('re-indexes replaced messages and forgets deleted ones', () => {
+    const index = createChatSearchIndex();
+    const kept = message('m1', 'Lisbon trip');
+    index.update([session('s1', [kept, message('m2', 'Porto weather')])]);
+
+    index.update([session('s1', [kept, message('m2', 'Madrid weather')])]);
+    expect(index.search('porto')).toEqual([]);
+    expect(messageIds(index.search('madrid'))).toEqual(['m2']);
+
+    index.update([session('s1', [kept])]);
+    expect(index.search('weather')).toEqual([]);
+    expect(messageIds(index.search('lisbon'))).toEqual(['m1']);
+  });
+
+  it('removes sessions that are no longer passed', () => {
+    const index = createChatSearchIndex();
+    index.update([session('s1', [message('m1', 'Lisbon')], 'Trips'), session('s2', [message('m2', 'Lisbon')])]);
+    index.update([session('s2', [message('m2', 'Lisbon')])]);
+    expect(index.search('lisbon').map(result => result.sessionId)).toEqual(['s2']);
+    expect(index.search('trips')).toEqual([]);
+  });
+});
+
+describe('search snippets', () => {
+  const snippetOf = (text: string, query: string) => {
+    const index = createChatSearchIndex();
+    index.update([session('s1', [message('m1', text)])]);
+    return index.search(query)[0].snippet;
+  };
+
+  it('marks the original characters when normalization shortens the text', () => {
+    const text = 'مُحَمَّد می‌گوید كتاب را بخوان';
+    const snippet = snippetOf(text, 'کتاب');
+    expect(snippet.filter(part => part.isMatch).map(part => part.text)).toEqual(['كتاب']);
+    expect(snippet.map(part => part.text).join('')).toBe(text);
+  });
+
+  it('marks the original characters after surrogate pairs', () => {
+    const snippet = snippetOf('😀 Café au lait', 'cafe');
+    expect(snippet).toEqual([
+      { text: '😀 ', isMatch: false },
+      { text: 'Café', isMatch: true },
+      { text: ' au lait', isMatch: false },
+    ]);
+  });
+
+  it('cuts long texts around the first match', () => {
+    const text = `${'word '.repeat(40)}Lisbon ${'word '.repeat(60)}`.trim();
+    const snippet = snippetOf(text, 'lisbon');
+    expect(snippet[0]).toEqual({ text: '…', isMatch: false });
+    expect(snippet.at(-1)).toEqual({ text: '…', isMatch: false });
+    expect(snippet.find(part => part.isMatch)?.text).toBe('Lisbon');
+  });
+});
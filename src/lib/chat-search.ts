@@ -0,0 +1,244 @@
+/**
+ * @fileOverview Full-text search over chat history: session names and message text, attachment names and
+ * model IDs. An inverted index maps each normalized word to the sessions and messages containing it; it is
+ * updated incrementally, re-indexing only the sessions and messages whose objects changed since the last update.
+ *
+ * - normalizeSearchText - Folds text for matching: case, diacritics, Arabic vs Persian letters, ZWNJ, digits.
+ * - ChatSearchResult / SnippetPart - A matching session or message, with the matched words marked in a snippet.
+ * - ChatSearchOptions - Restricts results to some sessions or a date range.
+ * - ChatSearchIndex / createChatSearchIndex - The index, kept up to date by passing it the current sessions.
+ */
+
+import type { ChatSession, Message } from '@/lib/chat-storage';
+
+// Arabic yeh, alef maksura, kaf and teh marbuta, which Arabic keyboards and older text use instead of the Persian letters
+const LETTER_FOLDS: Record<string, string> = { '\u064A': '\u06CC', '\u0649': '\u06CC', '\u0643': '\u06A9', '\u0629': '\u0647' };
+// Persian and Arabic-Indic digits; the last hex digit of their code points is their value
+const NON_LATIN_DIGIT = /[\u06F0-\u06F9\u0660-\u0669]/;
+// Zero-width non-joiner and joiner, direction marks and tatweel (kashida) don't change a word
+const IGNORED_CHARACTERS = /[\u200C-\u200F\u0640]/;
+const COMBINING_MARK = /\p{M}/gu;
+const WORD = /[\p{L}\p{N}]+/gu;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+// Decomposition separates diacritics (harakat, hamza and madda on alef, Latin accents) from their letters
+function normalizeCharacter(character: string): string {
+  if (IGNORED_CHARACTERS.test(character)) return '';
+  if (NON_LATIN_DIGIT.test(character)) return String(character.charCodeAt(0) % 16);
+  const folded = LETTER_FOLDS[character] ?? character;
+  return folded.normalize('NFD').replace(COMBINING_MARK, '').toLowerCase();
+}
+
+/** Folds `text` so that spellings a reader considers the same word compare equal. */
+export function normalizeSearchText(text: string): string {
+  return Array.from(text, normalizeCharacter).join('');
+}
+
+const tokenize = (text: string): string[] => normalizeSearchText(text).match(WORD) ?? [];
+
+export interface SnippetPart {
+  text: string;
+  isMatch: boolean;
+}
+
+export interface ChatSearchResult {
+  sessionId: string;
+  /** The matching message, or null when the session's name matched. */
+  messageId: string | null;
+  timestamp: number;
+  snippet: SnippetPart[];
+}
+
+export interface ChatSearchOptions {
+  /** Only these sessions are searched; all when undefined. */
+  sessionIds?: ReadonlySet<string>;
+  /** Only messages sent in this range (epoch milliseconds, inclusive) are returned. */
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+const DEFAULT_RESULT_LIMIT = 200;
+// Characters of context shown before the first match of a snippet; about twice as many follow it
+const SNIPPET_CONTEXT_LENGTH = 60;
+
+/**
+ * Cuts the part of `text` around the first word starting with a query term, marking every such word in it.
+ * Matching is done on the normalized text, then mapped back to the original characters.
+ */
+function buildSnippet(text: string, queryTerms: string[]): SnippetPart[] {
+  let normalized = '';
+  const offsets: number[] = []; // Index in `text` of each character of `normalized`
+  let index = 0;
+  for (const character of text) {
+    const folded = normalizeCharacter(character);
+    for (let i = 0; i < folded.length; i++) offsets.push(index);
+    normalized += folded;
+    index += character.length;
+  }
+  offsets.push(text.length);
+
+  const matches: [number, number][] = [];
+  for (const term of queryTerms) {
+    for (let start = normalized.indexOf(term); start !== -1; start = normalized.indexOf(term, start + 1)) {
+      if (start > 0 && WORD_CHARACTER.test(normalized[start - 1])) continue; // Terms match the start of a word
+      matches.push([offsets[start], offsets[start + term.length]]);
+    }
+  }
+  matches.sort((a, b) => a[0] - b[0]);
+  if (matches.length === 0) {
+    const preview = text.slice(0, SNIPPET_CONTEXT_LENGTH * 3);
+    return [{ text: preview.length < text.length ? `${preview}…` : preview, isMatch: false }];
+  }
+
+  // Start and end the snippet at word boundaries
+  let windowStart = Math.max(0, matches[0][0] - SNIPPET_CONTEXT_LENGTH);
+  if (windowStart > 0) windowStart = text.indexOf(' ', windowStart) + 1 || windowStart;
+  if (windowStart > matches[0][0]) windowStart = matches[0][0];
+  let windowEnd = Math.min(text.length, matches[0][1] + SNIPPET_CONTEXT_LENGTH * 2);
+  if (windowEnd < text.length) windowEnd = Math.max(text.lastIndexOf(' ', windowEnd), matches[0][1]);
+
+  const parts: SnippetPart[] = [];
+  let position = windowStart;
+  for (const [start, end] of matches) {
+    if (start < position || start >= windowEnd) continue; // Overlaps the previous match or is outside the snippet
+    if (start > position) parts.push({ text: text.slice(position, start), isMatch: false });
+    parts.push({ text: text.slice(start, Math.min(end, windowEnd)), isMatch: true });
+    position = Math.min(end, windowEnd);
+  }
+  if (position < windowEnd) parts.push({ text: text.slice(position, windowEnd), isMatch: false });
+  if (windowStart > 0) parts.unshift({ text: '…', isMatch: false });
+  if (windowEnd < text.length) parts.push({ text: '…', isMatch: false });
+  return parts;
+}
+
+interface IndexedDocument {
+  sessionId: string;
+  message: Message | null; // null for the session's own document (its name)
+  text: string; // What snippets are cut from
+  terms: Set<string>;
+}
+
+export interface ChatSearchIndex {
+  /** Brings the index up to date with `sessions`; unchanged sessions and messages (same objects) are skipped. */
+  update(sessions: ChatSession[]): void;
+  /**
+   * Documents containing a word starting with each word of `query`, session names first, then newest first.
+   */
+  search(query: string, options?: ChatSearchOptions): ChatSearchResult[];
+}
+
+export function createChatSearchIndex(): ChatSearchIndex {
+  const postings = new Map<string, Set<string>>(); // Term -> keys of the documents containing it
+  const documents = new Map<string, IndexedDocument>();
+  // The objects last indexed, to find what changed
+  const indexedSessions = new Map<string, { session: ChatSession; messages: Map<string, Message> }>();
+
+  const sessionKey = (sessionId: string): string => sessionId;
+  const messageKey = (sessionId: string, messageId: string): string => `${sessionId}/${messageId}`;
+
+  const addDocument = (key: string, document: IndexedDocument): void => {
+    documents.set(key, document);
+    for (const term of document.terms) {
+      let keys = postings.get(term);
+      if (!keys) postings.set(term, keys = new Set());
+      keys.add(key);
+    }
+  };
+
+  const removeDocument = (key: string): void => {
+    const document = documents.get(key);
+    if (!document) return;
+    documents.delete(key);
+    for (const term of document.terms) {
+      const keys = postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) postings.delete(term);
+    }
+  };
+
+  const indexMessage = (sessionId: string, message: Message): void => {
+    const fileNames = (message.files ?? []).map(file => file.name).join(' ');
+    addDocument(messageKey(sessionId, message.id), {
+      sessionId,
+      message,
+      text: fileNames ? `${message.text}\n${fileNames}` : message.text,
+      terms: new Set([...tokenize(message.text), ...tokenize(fileNames), ...tokenize(message.modelId ?? '')]),
+    });
+  };
+
+  const removeSession = (sessionId: string): void => {
+    const indexed = indexedSessions.get(sessionId);
+    if (!indexed) return;
+    removeDocument(sessionKey(sessionId));
+    indexed.messages.forEach((_, messageId) => removeDocument(messageKey(sessionId, messageId)));
+    indexedSessions.delete(sessionId);
+  };
+
+  const update = (sessions: ChatSession[]): void => {
+    const sessionIds = new Set(sessions.map(session => session.id));
+    Array.from(indexedSessions.keys()).filter(id => !sessionIds.has(id)).forEach(removeSession);
+
+    for (const session of sessions) {
+      const indexed = indexedSessions.get(session.id);
+      if (indexed?.session === session) continue;
+
+      if (indexed?.session.name !== session.name || indexed?.session.modelId !== session.modelId) {
+        removeDocument(sessionKey(session.id));
+        addDocument(sessionKey(session.id), {
+          sessionId: session.id,
+          message: null,
+          text: session.name,
+          terms: new Set([...tokenize(session.name), ...tokenize(session.modelId ?? '')]),
+        });
+      }
+
+      const previousMessages = indexed?.messages ?? new Map<string, Message>();
+      const messages = new Map(session.messages.map(message => [message.id, message]));
+      previousMessages.forEach((_, messageId) => {
+        if (!messages.has(messageId)) removeDocument(messageKey(session.id, messageId));
+      });
+      messages.forEach((message, messageId) => {
+        if (previousMessages.get(messageId) === message) return;
+        removeDocument(messageKey(session.id, messageId));
+        indexMessage(session.id, message);
+      });
+      indexedSessions.set(session.id, { session, messages });
+    }
+  };
+
+  const search = (query: string, { sessionIds, from, to, limit = DEFAULT_RESULT_LIMIT }: ChatSearchOptions = {}): ChatSearchResult[] => {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    // Documents matching every query term; each term matches any indexed term it is a prefix of
+    let matchingKeys: Set<string> | null = null;
+    for (const queryTerm of queryTerms) {
+      const termKeys = new Set<string>();
+      const previousKeys = matchingKeys;
+      postings.forEach((keys, term) => {
+        if (!term.startsWith(queryTerm)) return;
+        keys.forEach(key => {
+          if (!previousKeys || previousKeys.has(key)) termKeys.add(key);
+        });
+      });
+      matchingKeys = termKeys;
+      if (matchingKeys.size === 0) return [];
+    }
+
+    const results: (ChatSearchResult & { document: IndexedDocument })[] = [];
+    for (const key of matchingKeys ?? []) {
+      const document = documents.get(key)!;
+      if (sessionIds && !sessionIds.has(document.sessionId)) continue;
+      const timestamp = document.message?.timestamp ?? indexedSessions.get(document.sessionId)!.session.lastModified;
+      if (document.message && ((from !== undefined && timestamp < from) || (to !== undefined && timestamp > to))) continue;
+      results.push({ sessionId: document.sessionId, messageId: document.message?.id ?? null, timestamp, snippet: [], document });
+    }
+    results.sort((a, b) => (a.messageId === null ? 0 : 1) - (b.messageId === null ? 0 : 1) || b.timestamp - a.timestamp);
+
+    // Snippets are only cut for the results that are returned
+    return results.slice(0, limit).map(({ document, ...result }) => ({ ...result, snippet: buildSnippet(document.text, queryTerms) }));
+  };
+
+  return { update, search };
+}
@@ -0,0 +1,406 @@
+/**
+ * @fileOverview Persistence of chats in IndexedDB. Sessions, messages, attachments (as Blobs) and
+ * folders each have their own object store, so saving a change writes only the records that changed
+ * instead of re-serializing every chat, and attachments do not count against the localStorage quota.
+ *
+ * - Attachment / Message / ChatSession / ChatFolder - The chat data kept by the chat interface.
+ * - StorageQuotaError - Thrown when the browser refuses a write because its storage quota is used up.
+ * - loadChatData - Loads all sessions and folders, first importing chats saved in localStorage by older versions.
+ * - saveChatSessions - Writes the sessions that changed since the last save and deletes removed ones.
+ * - saveChatFolders - Writes the folder list.
+ * - getStorageEstimate - How much of the browser's storage quota is in use.
+ *
+ * The schema is versioned: MIGRATIONS[n] upgrades the database from version n to n + 1, so stores
+ * and indexes can change without losing saved chats.
+ */
+
+import type { AIModelOptions } from '@/services/ai-api';
+import type { OutputSchema } from '@/ai/structured-output';
+import type { RetrievedChunk } from '@/lib/knowledge-base';
+
+export interface Attachment {
+  name: string;
+  dataUri: string;
+  /** Text extracted in the browser (PDF, DOCX, spreadsheets, source files); when set it is sent instead of the file. */
+  extractedText?: string;
+}
+
+export interface Message {
+  id: string;
+  sender: 'user' | 'ai';
+  text: string;
+  files?: Attachment[];
+  cost?: number;
+  timestamp: number;
+  modelId?: string;
+  isError?: boolean;
+  isStopped?: boolean; // Generation was cancelled by the user; `text` holds the partial response
+  thinkingSteps?: string[]; // Added for thinking steps
+  knowledgeSources?: RetrievedChunk[]; // Knowledge base excerpts sent with the prompt; excerpt n is cited as [n]
+  structuredData?: unknown; // Parsed response that matched the session's output schema; `text` holds it as JSON
+  reasoning?: string; // The model's reasoning (thinking) trace, for models that expose it
+}
+
+export interface ChatSession {
+  id: string;
+  name: string;
+  messages: Message[];
+  createdAt: number;
+  lastModified: number;
+  totalCost: number;
+  modelId?: string; // Optional: Store the *last used* or *predominant* model for the session
+  folderId?: string | null; // For future folder feature
+  isBookmarked?: boolean; // For bookmark feature
+  tags?: string[]; // Add tags field
+  fallbackModelIds?: string[]; // Tried in order when the selected model fails
+  generationOptions?: AIModelOptions; // Sampling parameters sent with every request of this session
+  assistantId?: string | null; // Assistant persona the session was started from
+  enabledToolIds?: string[]; // Built-in tools the model may call in this session
+  outputSchema?: OutputSchema | null; // Responses must be JSON matching this schema
+}
+
+export interface ChatFolder {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(options?: ErrorOptions) {
+    super('The browser has no storage space left for this app, so recent changes to your chats are not saved.', options);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+// Messages are stored in their own records; the session keeps their order
+type SessionRecord = Omit<ChatSession, 'messages'> & { messageIds: string[] };
+type MessageRecord = Omit<Message, 'files'> & { sessionId: string; attachmentIds?: string[] };
+
+interface AttachmentRecord {
+  id: string;
+  sessionId: string;
+  messageId: string;
+  name: string;
+  blob: Blob;
+  extractedText?: string;
+}
+
+const DB_NAME = 'chat_history';
+const SESSIONS_STORE = 'sessions';
+const MESSAGES_STORE = 'messages';
+const ATTACHMENTS_STORE = 'attachments';
+const FOLDERS_STORE = 'folders';
+const SESSION_INDEX = 'sessionId';
+const MESSAGE_INDEX = 'messageId';
+
+// localStorage keys used before chats moved to IndexedDB; imported once, then removed
+const LEGACY_SESSIONS_KEY = 'chat_sessions';
+const LEGACY_FOLDERS_KEY = 'chat_folders';
+
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // 1: One store per record type; messages and attachments are indexed by the session they belong to
+  (db) => {
+    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' }).createIndex(SESSION_INDEX, SESSION_INDEX);
+    const attachments = db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+    attachments.createIndex(SESSION_INDEX, SESSION_INDEX);
+    attachments.createIndex(MESSAGE_INDEX, MESSAGE_INDEX);
+    db.createObjectStore(FOLDERS_STORE, { keyPath: 'id' });
+  },
+];
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the app, open in another tab, upgrade the schema
+        db.onversionchange = () => { db.close(); dbPromise = null; };
+        resolve(db);
+      };
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === DOMException.QUOTA_EXCEEDED_ERR);
+}
+
+function dataUriToBlob(dataUri: string): Blob {
+  const commaIndex = dataUri.indexOf(',');
+  const header = dataUri.slice(0, commaIndex);
+  const data = dataUri.slice(commaIndex + 1);
+  const mimeType = header.replace(/^data:/, '').replace(/;base64$/, '');
+  if (!header.endsWith(';base64')) return new Blob([decodeURIComponent(data)], { type: mimeType });
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+function blobToDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+const attachmentId = (messageId: string, index: number): string => `${messageId}|${index}`;
+
+function toMessageRecord({ files, ...message }: Message, sessionId: string): MessageRecord {
+  return { ...message, sessionId, ...(files?.length && { attachmentIds: files.map((_, index) => attachmentId(message.id, index)) }) };
+}
+
+function toAttachmentRecords(message: Message, sessionId: string): AttachmentRecord[] {
+  return (message.files ?? []).map((file, index) => ({
+    id: attachmentId(message.id, index),
+    sessionId,
+    messageId: message.id,
+    name: file.name,
+    blob: dataUriToBlob(file.dataUri),
+    ...(file.extractedText !== undefined && { extractedText: file.extractedText }),
+  }));
+}
+
+async function deleteByIndex(store: IDBObjectStore, indexName: string, key: string): Promise<void> {
+  const keys = await requestToPromise(store.index(indexName).getAllKeys(key));
+  keys.forEach(primaryKey => store.delete(primaryKey));
+}
+
+// What one save writes; prepared before the transaction starts, since a transaction closes when it waits on anything but IndexedDB
+interface ChatChanges {
+  sessions: SessionRecord[];
+  messages: MessageRecord[];
+  // Messages whose attachments are replaced by `attachments`
+  attachmentMessageIds: string[];
+  attachments: AttachmentRecord[];
+  deletedMessageIds: string[];
+  deletedSessionIds: string[];
+}
+
+async function writeChanges(changes: ChatChanges): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, MESSAGES_STORE, ATTACHMENTS_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const messages = transaction.objectStore(MESSAGES_STORE);
+  const attachments = transaction.objectStore(ATTACHMENTS_STORE);
+  try {
+    for (const sessionId of changes.deletedSessionIds) {
+      sessions.delete(sessionId);
+      await deleteByIndex(messages, SESSION_INDEX, sessionId);
+      await deleteByIndex(attachments, SESSION_INDEX, sessionId);
+    }
+    for (const messageId of [...changes.deletedMessageIds, ...changes.attachmentMessageIds]) {
+      await deleteByIndex(attachments, MESSAGE_INDEX, messageId);
+    }
+    changes.deletedMessageIds.forEach(messageId => messages.delete(messageId));
+    changes.sessions.forEach(record => sessions.put(record));
+    changes.messages.forEach(record => messages.put(record));
+    changes.attachments.forEach(record => attachments.put(record));
+  } catch (error) {
+    transaction.abort();
+    await done.catch(() => {});
+    throw error;
+  }
+  await done;
+}
+
+// Last saved version of each session. State updates replace only the sessions and messages that
+// changed, so comparing by reference finds what to write without serializing anything
+let savedSessions = new Map<string, ChatSession>();
+// Saves are written one after another, so an older save never overwrites a newer one
+let writeQueue: Promise<void> = Promise.resolve();
+
+function collectChanges(sessions: ChatSession[]): ChatChanges {
+  const changes: ChatChanges = { sessions: [], messages: [], attachmentMessageIds: [], attachments: [], deletedMessageIds: [], deletedSessionIds: [] };
+  const currentIds = new Set(sessions.map(session => session.id));
+  changes.deletedSessionIds = Array.from(savedSessions.keys()).filter(id => !currentIds.has(id));
+
+  for (const session of sessions) {
+    const previous = savedSessions.get(session.id);
+    if (previous === session) continue;
+    const { messages, ...metadata } = session;
+    changes.sessions.push({ ...metadata, messageIds: messages.map(message => message.id) });
+
+    const previousMessages = new Map(previous?.messages.map(message => [message.id, message]));
+    for (const message of messages) {
+      const previousMessage = previousMessages.get(message.id);
+      previousMessages.delete(message.id);
+      if (previousMessage === message) continue;
+      changes.messages.push(toMessageRecord(message, session.id));
+      if (previousMessage?.files !== message.files) {
+        changes.attachmentMessageIds.push(message.id);
+        changes.attachments.push(...toAttachmentRecords(message, session.id));
+      }
+    }
+    changes.deletedMessageIds.push(...previousMessages.keys());
+  }
+  return changes;
+}
+
+/**
+ * Writes the sessions (and messages and attachments) that changed since the last save, and deletes
+ * sessions that are no longer in `sessions`. Saves are queued, so calls do not need to be awaited in order.
+ *
+ * @throws StorageQuotaError if the browser's storage quota is used up; the changes are written again by the next save.
+ */
+export function saveChatSessions(sessions: ChatSession[]): Promise<void> {
+  const previousSessions = savedSessions;
+  const changes = collectChanges(sessions);
+  savedSessions = new Map(sessions.map(session => [session.id, session]));
+
+  const write = writeQueue.then(() => writeChanges(changes)).catch(error => {
+    // Go back to the last written version of what was not written, so the next save diffs against
+    // it again: changed sessions and messages are rewritten, and deleted ones are deleted again
+    const restore = (id: string) => {
+      const previous = previousSessions.get(id);
+      if (previous) savedSessions.set(id, previous);
+      else savedSessions.delete(id);
+    };
+    changes.sessions.forEach(record => restore(record.id));
+    changes.deletedSessionIds.forEach(restore);
+    throw isQuotaExceeded(error) ? new StorageQuotaError({ cause: error }) : error;
+  });
+  writeQueue = write.catch(() => {});
+  return write;
+}
+
+/**
+ * @throws StorageQuotaError if the browser's storage quota is used up.
+ */
+export async function saveChatFolders(folders: ChatFolder[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(FOLDERS_STORE, 'readwrite');
+  const store = transaction.objectStore(FOLDERS_STORE);
+  store.clear();
+  folders.forEach(folder => store.put(folder));
+  try {
+    await transactionDone(transaction);
+  } catch (error) {
+    throw isQuotaExceeded(error) ? new StorageQuotaError({ cause: error }) : error;
+  }
+}
+
+// Sessions saved before multiple attachments were supported hold a single `file` per message
+type LegacyMessage = Partial<Message> & { file?: Attachment };
+
+function parseLegacySessions(json: string): ChatSession[] {
+  const sessions = JSON.parse(json) as (Partial<Omit<ChatSession, 'messages'>> & { id: string; messages?: LegacyMessage[] })[];
+  return sessions.map(session => ({
+    ...session,
+    messages: (session.messages ?? []).map(({ file, ...message }) => ({
+      ...message,
+      id: message.id ?? `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      sender: message.sender ?? 'user',
+      text: message.text ?? '',
+      timestamp: message.timestamp ?? Date.now(),
+      ...(file && !message.files && { files: [file] }),
+    })),
+    tags: session.tags || [],
+    isBookmarked: session.isBookmarked || false,
+    folderId: session.folderId || null,
+    totalCost: session.totalCost || 0,
+    createdAt: session.createdAt || Date.now(),
+    lastModified: session.lastModified || Date.now(),
+    name: session.name || 'New Chat',
+  }));
+}
+
+/** Moves chats saved in localStorage by older versions of the app into the database. */
+async function importLegacyChats(): Promise<void> {
+  const sessionsJson = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  const foldersJson = localStorage.getItem(LEGACY_FOLDERS_KEY);
+  if (sessionsJson === null && foldersJson === null) return;
+
+  let sessions: ChatSession[] = [];
+  let folders: ChatFolder[] = [];
+  try {
+    sessions = sessionsJson ? parseLegacySessions(sessionsJson) : [];
+    folders = foldersJson ? JSON.parse(foldersJson) : [];
+  } catch (error) {
+    // Left in place, so the data is not lost if a later version can read it
+    console.error("Could not read the chats saved in localStorage; they were not imported:", error);
+    return;
+  }
+  await writeChanges({ ...collectChanges(sessions), deletedSessionIds: [] });
+  if (folders.length > 0) await saveChatFolders(folders);
+  localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  localStorage.removeItem(LEGACY_FOLDERS_KEY);
+  console.log(`Imported ${sessions.length} chat(s) and ${folders.length} folder(s) from localStorage.`);
+}
+
+/**
+ * Loads every saved session (with messages and attachments, newest sessions first) and folder.
+ * On first use, chats saved in localStorage by older versions are imported and removed from localStorage.
+ *
+ * @throws StorageQuotaError if the localStorage import does not fit in the browser's storage quota.
+ */
+export async function loadChatData(): Promise<{ sessions: ChatSession[]; folders: ChatFolder[] }> {
+  try {
+    await importLegacyChats();
+  } catch (error) {
+    throw isQuotaExceeded(error) ? new StorageQuotaError({ cause: error }) : error;
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, MESSAGES_STORE, ATTACHMENTS_STORE, FOLDERS_STORE], 'readonly');
+  const [sessionRecords, messageRecords, attachmentRecords, folders] = await Promise.all([
+    requestToPromise(transaction.objectStore(SESSIONS_STORE).getAll() as IDBRequest<SessionRecord[]>),
+    requestToPromise(transaction.objectStore(MESSAGES_STORE).getAll() as IDBRequest<MessageRecord[]>),
+    requestToPromise(transaction.objectStore(ATTACHMENTS_STORE).getAll() as IDBRequest<AttachmentRecord[]>),
+    requestToPromise(transaction.objectStore(FOLDERS_STORE).getAll() as IDBRequest<ChatFolder[]>),
+  ]);
+
+  // The rest of the app works with data URIs (they are sent to the server as such)
+  const attachments = new Map(await Promise.all(attachmentRecords.map(async record => [record.id, {
+    name: record.name,
+    dataUri: await blobToDataUri(record.blob),
+    ...(record.extractedText !== undefined && { extractedText: record.extractedText }),
+  } satisfies Attachment] as const)));
+  const messages = new Map(messageRecords.map(({ sessionId, attachmentIds, ...message }) => [message.id, {
+    ...message,
+    ...(attachmentIds && { files: attachmentIds.flatMap(id => attachments.get(id) ?? []) }),
+  } satisfies Message]));
+
+  const sessions = sessionRecords
+    .map(({ messageIds, ...session }) => ({ ...session, messages: messageIds.flatMap(id => messages.get(id) ?? []) }))
+    .sort((a, b) => b.lastModified - a.lastModified);
+  savedSessions = new Map(sessions.map(session => [session.id, session]));
+  return { sessions, folders: folders.sort((a, b) => a.createdAt - b.createdAt) };
+}
+
+/** Bytes used and available to the app, where the browser reports them. */
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+}
@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatSession, Message } from '@/lib/chat-storage';
+import {
+  chatReducer,
+  createChatStore,
+  DEFAULT_SESSION_NAME,
+  INITIAL_CHAT_STATE,
+  selectActiveSession,
+  selectAiResponses,
+  selectAllTags,
+  selectHistoryModelIds,
+  selectHistorySessions,
+  selectTotalCost,
+  type ChatPersistence,
+  type ChatState,
+} from '@/lib/chat-store';
+
+const message = (id: string, overrides: Partial<Message> = {}): Message => ({ id, sender: 'user', text: id, timestamp: 1, ...overrides });
+
+const session = (id: string, overrides: Partial<ChatSession> = {}): ChatSession => ({
+  id, name: id, messages: [], createdAt: 1, lastModified: 1, totalCost: 0, ...overrides,
+});
+
+const loadedState = (sessions: ChatSession[], activeSessionId: string | null = sessions[0]?.id ?? null): ChatState =>
+  ({ ...INITIAL_CHAT_STATE, sessions, activeSessionId, isLoaded: true });
+
+describe('chatReducer', () => {
+  it('adds a new session first and makes it active', () => {
+    const state = chatReducer(loadedState([session('a')]), { type: 'createSession', session: session('b') });
+    expect(state.sessions.map(s => s.id)).toEqual(['b', 'a']);
+    expect(state.activeSessionId).toBe('b');
+  });
+
+  it('activates the next session when the active one is deleted', () => {
+    const state = chatReducer(loadedState([session('a'), session('b')]), { type: 'deleteSession', sessionId: 'a' });
+    expect(state.sessions.map(s => s.id)).toEqual(['b']);
+    expect(state.activeSessionId).toBe('b');
+  });
+
+  it('keeps the active session when another one is deleted', () => {
+    const state = chatReducer(loadedState([session('a'), session('b')], 'b'), { type: 'deleteSession', sessionId: 'a' });
+    expect(state.activeSessionId).toBe('b');
+  });
+
+  it('names a session after its first message', () => {
+    const initial = loadedState([session('a', { name: DEFAULT_SESSION_NAME })]);
+    const state = chatReducer(initial, { type: 'appendMessages', sessionId: 'a', messages: [message('m1', { text: 'Hello there', timestamp: 5 })], modelId: 'model-1' });
+    expect(state.sessions[0]).toMatchObject({ name: 'Hello there', lastModified: 5, modelId: 'model-1' });
+
+    const truncated = chatReducer(initial, { type: 'appendMessages', sessionId: 'a', messages: [message('m1', { text: 'x'.repeat(40) })] });
+    expect(truncated.sessions[0].name).toBe(`${'x'.repeat(30)}...`);
+  });
+
+  it('keeps the name of a session that was renamed or already has messages', () => {
+    const renamed = chatReducer(loadedState([session('a', { name: 'Mine' })]), { type: 'appendMessages', sessionId: 'a', messages: [message('m1')] });
+    expect(renamed.sessions[0].name).toBe('Mine');
+
+    const started = loadedState([session('a', { name: DEFAULT_SESSION_NAME, messages: [message('m1')] })]);
+    expect(chatReducer(started, { type: 'appendMessages', sessionId: 'a', messages: [message('m2')] }).sessions[0].name).toBe(DEFAULT_SESSION_NAME);
+  });
+
+  it('appends streamed text, reasoning and thinking steps to a message', () => {
+    let state = loadedState([session('a', { messages: [message('m1', { sender: 'ai', text: '' })] })]);
+    state = chatReducer(state, { type: 'extendMessage', sessionId: 'a', messageId: 'm1', text: 'Hel', reasoning: 'Think', thinkingStep: 'Searching' });
+    state = chatReducer(state, { type: 'extendMessage', sessionId: 'a', messageId: 'm1', text: 'lo', reasoning: 'ing' });
+    expect(state.sessions[0].messages[0]).toMatchObject({ text: 'Hello', reasoning: 'Thinking', thinkingSteps: ['Searching'] });
+  });
+
+  it('replaces a message in place and adds its cost', () => {
+    const initial = loadedState([session('a', { messages: [message('m1'), message('m2', { sender: 'ai' }), message('m3')], totalCost: 1 })]);
+    const state = chatReducer(initial, { type: 'replaceMessage', sessionId: 'a', messageId: 'm2', message: message('m2', { sender: 'ai', text: 'Done', timestamp: 9 }), cost: 0.5 });
+    expect(state.sessions[0].messages.map(m => m.text)).toEqual(['m1', 'Done', 'm3']);
+    expect(state.sessions[0]).toMatchObject({ totalCost: 1.5, lastModified: 9 });
+  });
+
+  it('removes a message replaced with null', () => {
+    const initial = loadedState([session('a', { messages: [message('m1'), message('m2')] })]);
+    const state = chatReducer(initial, { type: 'replaceMessage', sessionId: 'a', messageId: 'm1', message: null });
+    expect(state.sessions[0].messages.map(m => m.id)).toEqual(['m2']);
+  });
+
+  it('leaves other sessions unchanged', () => {
+    const other = session('b');
+    const state = chatReducer(loadedState([session('a'), other]), { type: 'renameSession', sessionId: 'a', name: 'Renamed' });
+    expect(state.sessions[0].name).toBe('Renamed');
+    expect(state.sessions[1]).toBe(other);
+  });
+
+  it('changes session settings without counting them as activity', () => {
+    const state = chatReducer(loadedState([session('a')]), { type: 'updateSessionSettings', sessionId: 'a', settings: { enabledToolIds: ['calculator'] } });
+    expect(state.sessions[0]).toMatchObject({ enabledToolIds: ['calculator'], lastModified: 1 });
+  });
+
+  it('skips imported sessions and folders that are already there', () => {
+    const initial = { ...loadedState([session('a', { lastModified: 5 })]), folders: [{ id: 'f1', name: 'Work', createdAt: 1 }] };
+    const state = chatReducer(initial, {
+      type: 'importChats',
+      sessions: [session('a', { name: 'Imported again' }), session('b', { lastModified: 3 })],
+      folders: [{ id: 'f1', name: 'Work', createdAt: 1 }, { id: 'f2', name: 'Home', createdAt: 2 }],
+    });
+    expect(state.sessions.map(s => s.id)).toEqual(['a', 'b']);
+    expect(state.sessions[0].name).toBe('a');
+    expect(state.folders.map(f => f.id)).toEqual(['f1', 'f2']);
+  });
+
+  it('inserts imported sessions by last activity without reordering the others', () => {
+    // 'old' was created first but is listed first, as after a message was sent in it
+    const initial = loadedState([session('old', { createdAt: 1, lastModified: 10 }), session('new', { createdAt: 5, lastModified: 30 })]);
+    const state = chatReducer(initial, {
+      type: 'importChats',
+      sessions: [session('x', { createdAt: 100, lastModified: 20 }), session('y', { createdAt: 0, lastModified: 40 }), session('z', { lastModified: 0 })],
+      folders: [],
+    });
+    expect(state.sessions.map(s => s.id)).toEqual(['y', 'x', 'old', 'new', 'z']);
+  });
+
+  it('detaches a deleted assistant from its sessions', () => {
+    const state = chatReducer(loadedState([session('a', { assistantId: 'x' }), session('b', { assistantId: 'y' })]), { type: 'detachAssistant', assistantId: 'x' });
+    expect(state.sessions.map(s => s.assistantId)).toEqual([null, 'y']);
+  });
+});
+
+describe('selectors', () => {
+  const state = loadedState([
+    session('a', { tags: ['work'], lastModified: 10, totalCost: 1, messages: [message('m1'), message('m2', { sender: 'ai', modelId: 'model-b' })] }),
+    session('b', { tags: ['home', 'work'], lastModified: 20, totalCost: 2, isBookmarked: true, messages: [message('m3', { sender: 'ai', modelId: 'model-a', isError: true })] }),
+    session('c', { lastModified: 30, createdAt: 25, modelId: 'model-a' }),
+  ], 'b');
+
+  it('derive the active session, total cost, tags and model IDs', () => {
+    expect(selectActiveSession(state)?.id).toBe('b');
+    expect(selectTotalCost(state)).toBe(3);
+    expect(selectAllTags(state)).toEqual(['home', 'work']);
+    expect(selectHistoryModelIds(state)).toEqual(['model-a', 'model-b']);
+  });
+
+  it('list history sessions bookmarked first, then most recently modified', () => {
+    expect(selectHistorySessions(state, { tags: new Set() }).map(s => s.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('filter history sessions', () => {
+    const ids = (filters: Partial<Parameters<typeof selectHistorySessions>[1]>) =>
+      selectHistorySessions(state, { tags: new Set(), ...filters }).map(s => s.id);
+    expect(ids({ tags: new Set(['work']) })).toEqual(['b', 'a']);
+    expect(ids({ bookmarkedOnly: true })).toEqual(['b']);
+    expect(ids({ modelId: 'model-a' })).toEqual(['b', 'c']);
+    expect(ids({ from: 15, to: 20 })).toEqual(['b']);
+    expect(ids({ folderId: null })).toEqual(['b', 'c', 'a']);
+  });
+
+  it('list successful AI responses except the one being generated', () => {
+    expect(selectAiResponses(state, null).map(({ message }) => message.id)).toEqual(['m2']);
+    expect(selectAiResponses(state, 'm2')).toEqual([]);
+  });
+});
+
+describe('createChatStore', () => {
+  const createPersistence = () => ({
+    saveSessions: vi.fn<ChatPersistence['saveSessions']>().mockResolvedValue(undefined),
+    saveFolders: vi.fn<ChatPersistence['saveFolders']>().mockResolvedValue(undefined),
+    saveActiveSessionId: vi.fn<ChatPersistence['saveActiveSessionId']>(),
+    onError: vi.fn<NonNullable<ChatPersistence['onError']>>(),
+    isQuotaError: vi.fn<NonNullable<ChatPersistence['isQuotaError']>>().mockReturnValue(false),
+  });
+
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('saves once after a burst of changes', async () => {
+    const persistence = createPersistence();
+    const store = createChatStore(persistence, 500, loadedState([session('a')]));
+    store.dispatch({ type: 'renameSession', sessionId: 'a', name: 'One' });
+    await vi.advanceTimersByTimeAsync(400);
+    store.dispatch({ type: 'renameSession', sessionId: 'a', name: 'Two' });
+    await vi.advanceTimersByTimeAsync(400);
+    expect(persistence.saveSessions).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(persistence.saveSessions).toHaveBeenCalledTimes(1);
+    expect(persistence.saveSessions.mock.calls[0][0][0].name).toBe('Two');
+    expect(persistence.saveFolders).not.toHaveBeenCalled();
+  });
+
+  it('does not save streamed deltas', async () => {
+    const persistence = createPersistence();
+    const store = createChatStore(persistence, 500, loadedState([session('a', { messages: [message('m1', { sender: 'ai' })] })]));
+    store.dispatch({ type: 'extendMessage', sessionId: 'a', messageId: 'm1', text: 'more' });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(persistence.saveSessions).not.toHaveBeenCalled();
+  });
+
+  it('does not save before the saved chats are loaded', async () => {
+    const persistence = createPersistence();
+    const store = createChatStore(persistence, 500);
+    store.dispatch({ type: 'createSession', session: session('a') });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(persistence.saveSessions).not.toHaveBeenCalled();
+    expect(persistence.saveActiveSessionId).toHaveBeenCalledWith('a');
+  });
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const store = createChatStore(createPersistence(), 500, loadedState([session('a')]));
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+    store.dispatch({ type: 'toggleBookmark', sessionId: 'a' });
+    unsubscribe();
+    store.dispatch({ type: 'toggleBookmark', sessionId: 'a' });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a full storage and clears it after the next successful save', async () => {
+    const persistence = createPersistence();
+    const quotaError = new Error('quota');
+    persistence.saveSessions.mockRejectedValueOnce(quotaError);
+    persistence.isQuotaError.mockImplementation(error => error === quotaError);
+    const store = createChatStore(persistence, 500, loadedState([session('a')]));
+
+    store.dispatch({ type: 'renameSession', sessionId: 'a', name: 'Renamed' });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(store.getState().storageQuotaExceeded).toBe(true);
+    expect(persistence.onError).toHaveBeenCalledWith(quotaError);
+
+    await store.flush();
+    expect(persistence.saveSessions).toHaveBeenCalledTimes(2);
+    expect(store.getState().storageQuotaExceeded).toBe(false);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * @fileOverview The chat sessions and folders shown by the chat interface, as a store independent of React:
+ * state changes go through a reducer, and the store persists them after a short delay.
+ *
+ * - ChatState / INITIAL_CHAT_STATE - Sessions, folders, the active session and whether the saved chats are loaded.
+ * - ChatAction - The changes the reducer applies.
+ * - chatReducer - Applies an action to the state (pure).
+ * - selectActiveSession / selectAllTags / selectHistorySessions / selectHistoryModelIds / selectTotalCost / selectAiResponses - Derived values.
+ * - HistoryFilters - The filters of the History tab.
+ * - ChatPersistence - Where the store saves its state.
+ * - ChatStore / createChatStore - A store with subscriptions and debounced persistence.
+ * - DEFAULT_SESSION_NAME / MAX_SESSION_NAME_LENGTH / createSessionId / createMessageId / createFolderId - Naming and IDs of new records.
+ */
+
+import type { ChatFolder, ChatSession, Message } from '@/lib/chat-storage';
+
+export const DEFAULT_SESSION_NAME = "New Chat";
+export const MAX_SESSION_NAME_LENGTH = 50;
+const SESSION_NAME_TRUNCATE_LENGTH = 30;
+
+// Changes are saved once no further change arrived for this long, e.g. after a burst of setting toggles
+const PERSIST_DEBOUNCE_MS = 500;
+
+export interface ChatState {
+  sessions: ChatSession[]; // Newest first
+  folders: ChatFolder[];
+  activeSessionId: string | null;
+  isLoaded: boolean; // Saved chats are loaded asynchronously; nothing is saved before they are
+  storageQuotaExceeded: boolean; // The last save did not fit in the browser's storage
+}
+
+// Per-session settings changed from the chat header; they do not count as activity (lastModified)
+export type SessionSettings = Pick<ChatSession, 'fallbackModelIds' | 'enabledToolIds' | 'outputSchema' | 'generationOptions'>;
+
+export type ChatAction =
+  | { type: 'loaded'; sessions: ChatSession[]; folders: ChatFolder[]; activeSessionId: string | null }
+  | { type: 'createSession'; session: ChatSession }
+  | { type: 'deleteSession'; sessionId: string }
+  | { type: 'setActiveSession'; sessionId: string | null }
+  | { type: 'renameSession'; sessionId: string; name: string }
+  | { type: 'toggleBookmark'; sessionId: string }
+  | { type: 'updateSessionSettings'; sessionId: string; settings: Partial<SessionSettings> }
+  | { type: 'moveToFolder'; sessionId: string; folderId: string | null }
+  | { type: 'setTags'; sessionId: string; tags: string[] }
+  | { type: 'createFolder'; folder: ChatFolder }
+  // Adds imported sessions and folders; those whose ID is already there (imported before) are skipped
+  | { type: 'importChats'; sessions: ChatSession[]; folders: ChatFolder[] }
+  | { type: 'detachAssistant'; assistantId: string }
+  // Adds messages sent in the session; the first one names a session that still has the default name
+  | { type: 'appendMessages'; sessionId: string; messages: Message[]; modelId?: string }
+  // Streamed output of a message in progress (not saved until the message is replaced)
+  | { type: 'extendMessage'; sessionId: string; messageId: string; text?: string; reasoning?: string; thinkingStep?: string }
+  // Replaces (or with `message: null`, removes) a message, adding `cost` to the session's total
+  | { type: 'replaceMessage'; sessionId: string; messageId: string; message: Message | null; cost?: number }
+  | { type: 'storageQuotaExceeded'; exceeded: boolean };
+
+export const INITIAL_CHAT_STATE: ChatState = { sessions: [], folders: [], activeSessionId: null, isLoaded: false, storageQuotaExceeded: false };
+
+const randomIdSuffix = (): string => Math.random().toString(36).substring(2, 9);
+export const createSessionId = (): string => `session_${Date.now()}_${randomIdSuffix()}`;
+export const createMessageId = (): string => `msg_${Date.now()}_${randomIdSuffix()}`;
+export const createFolderId = (): string => `folder_${Date.now()}_${randomIdSuffix()}`;
+
+const generateSessionName = (firstMessageText: string): string => {
+  if (!firstMessageText) return DEFAULT_SESSION_NAME;
+  const name = firstMessageText.substring(0, SESSION_NAME_TRUNCATE_LENGTH);
+  return name.length === SESSION_NAME_TRUNCATE_LENGTH ? `${name}...` : name;
+};
+
+const updateSession = (state: ChatState, sessionId: string, update: (session: ChatSession) => ChatSession): ChatState => ({
+  ...state,
+  sessions: state.sessions.map(session => session.id === sessionId ? update(session) : session),
+});
+
+const updateMessage = (session: ChatSession, messageId: string, update: (message: Message) => Message): ChatSession => ({
+  ...session,
+  messages: session.messages.map(message => message.id === messageId ? update(message) : message),
+});
+
+// Inserts `added` by last activity, as the sessions are loaded, keeping the order of the sessions already there
+const mergeSessions = (sessions: ChatSession[], added: ChatSession[]): ChatSession[] => {
+  const pending = [...added].sort((a, b) => b.lastModified - a.lastModified);
+  const merged: ChatSession[] = [];
+  for (const session of sessions) {
+    while (pending.length > 0 && pending[0].lastModified > session.lastModified) merged.push(pending.shift()!);
+    merged.push(session);
+  }
+  return [...merged, ...pending];
+};
+
+export function chatReducer(state: ChatState, action: ChatAction): ChatState {
+  switch (action.type) {
+    case 'loaded':
+      return { ...state, sessions: action.sessions, folders: action.folders, activeSessionId: action.activeSessionId, isLoaded: true };
+
+    case 'createSession':
+      return { ...state, sessions: [action.session, ...state.sessions], activeSessionId: action.session.id };
+
+    case 'deleteSession': {
+      const sessions = state.sessions.filter(session => session.id !== action.sessionId);
+      const activeSessionId = state.activeSessionId === action.sessionId ? sessions[0]?.id ?? null : state.activeSessionId;
+      return { ...state, sessions, activeSessionId };
+    }
+
+    case 'setActiveSession':
+      return { ...state, activeSessionId: action.sessionId };
+
+    case 'renameSession':
+      return updateSession(state, action.sessionId, session => ({ ...session, name: action.name, lastModified: Date.now() }));
+
+    case 'toggleBookmark':
+      return updateSession(state, action.sessionId, session => ({ ...session, isBookmarked: !session.isBookmarked, lastModified: Date.now() }));
+
+    case 'updateSessionSettings':
+      return updateSession(state, action.sessionId, session => ({ ...session, ...action.settings }));
+
+    case 'moveToFolder':
+      return updateSession(state, action.sessionId, session => ({ ...session, folderId: action.folderId, lastModified: Date.now() }));
+
+    case 'setTags':
+      return updateSession(state, action.sessionId, session => ({ ...session, tags: action.tags, lastModified: Date.now() }));
+
+    case 'createFolder':
+      return { ...state, folders: [...state.folders, action.folder] };
+
+    case 'importChats': {
+      const sessionIds = new Set(state.sessions.map(session => session.id));
+      const folderIds = new Set(state.folders.map(folder => folder.id));
+      const sessions = action.sessions.filter(session => !sessionIds.has(session.id));
+      return {
+        ...state,
+        sessions: mergeSessions(state.sessions, sessions),
+        folders: [...state.folders, ...action.folders.filter(folder => !folderIds.has(folder.id))],
+      };
+    }
+
+    case 'detachAssistant':
+      return {
+        ...state,
+        sessions: state.sessions.map(session => session.assistantId === action.assistantId ? { ...session, assistantId: null } : session),
+      };
+
+    case 'appendMessages':
+      return updateSession(state, action.sessionId, session => {
+        const isFirstMessage = session.messages.length === 0;
+        return {
+          ...session,
+          messages: [...session.messages, ...action.messages],
+          lastModified: action.messages[0]?.timestamp ?? Date.now(),
+          name: session.name === DEFAULT_SESSION_NAME && isFirstMessage ? generateSessionName(action.messages[0]?.text ?? '') : session.name,
+          ...(action.modelId && { modelId: action.modelId }), // Last used model
+        };
+      });
+
+    case 'extendMessage':
+      return updateSession(state, action.sessionId, session => updateMessage(session, action.messageId, message => ({
+        ...message,
+        ...(action.text && { text: message.text + action.text }),
+        ...(action.reasoning && { reasoning: (message.reasoning ?? '') + action.reasoning }),
+        ...(action.thinkingStep && { thinkingSteps: [...(message.thinkingSteps ?? []), action.thinkingStep] }),
+      })));
+
+    case 'replaceMessage': {
+      const { message: replacement } = action;
+      return updateSession(state, action.sessionId, session => ({
+        ...session,
+        // In place, so replacing a message that is not the last one keeps the conversation's order
+        messages: replacement
+          ? session.messages.map(message => message.id === action.messageId ? replacement : message)
+          : session.messages.filter(message => message.id !== action.messageId),
+        lastModified: replacement?.timestamp ?? Date.now(),
+        totalCost: (session.totalCost ?? 0) + (action.cost ?? 0),
+      }));
+    }
+
+    case 'storageQuotaExceeded':
+      return { ...state, storageQuotaExceeded: action.exceeded };
+  }
+}
+
+// --- Selectors ---
+// They derive new arrays, so components should memoize them on the parts of the state they read.
+
+export const selectActiveSession = (state: ChatState): ChatSession | null =>
+  state.sessions.find(session => session.id === state.activeSessionId) ?? null;
+
+export const selectTotalCost = (state: ChatState): number =>
+  state.sessions.reduce((sum, session) => sum + (session.totalCost ?? 0), 0);
+
+export const selectAllTags = (state: ChatState): string[] => {
+  const tags = new Set<string>();
+  state.sessions.forEach(session => (session.tags || []).forEach(tag => tags.add(tag)));
+  return Array.from(tags).sort();
+};
+
+export interface HistoryFilters {
+  /** Sessions with any of these tags; all sessions when empty. */
+  tags: ReadonlySet<string>;
+  /** Sessions in this folder, or (null) in no folder; all sessions when undefined. */
+  folderId?: string | null;
+  bookmarkedOnly?: boolean;
+  /** Sessions in which this model responded. */
+  modelId?: string;
+  /** Sessions active in this range (epoch milliseconds, inclusive). */
+  from?: number;
+  to?: number;
+}
+
+const usesModel = (session: ChatSession, modelId: string): boolean =>
+  session.modelId === modelId || session.messages.some(message => message.modelId === modelId);
+
+/** Sessions matching `filters`, bookmarked first, then newest first. */
+export const selectHistorySessions = (state: ChatState, { tags, folderId, bookmarkedOnly, modelId, from, to }: HistoryFilters): ChatSession[] => {
+  const filteredSessions = state.sessions.filter(session =>
+    (tags.size === 0 || (session.tags || []).some(tag => tags.has(tag))) &&
+    (folderId === undefined || (session.folderId ?? null) === folderId) &&
+    (!bookmarkedOnly || session.isBookmarked) &&
+    (modelId === undefined || usesModel(session, modelId)) &&
+    (from === undefined || session.lastModified >= from) &&
+    (to === undefined || session.createdAt <= to));
+  return filteredSessions.sort((a, b) => {
+    if (a.isBookmarked && !b.isBookmarked) return -1;
+    if (!a.isBookmarked && b.isBookmarked) return 1;
+    return b.lastModified - a.lastModified;
+  });
+};
+
+/** IDs of the models that responded in any session, sorted. */
+export const selectHistoryModelIds = (state: ChatState): string[] => {
+  const modelIds = new Set<string>();
+  state.sessions.forEach(session => session.messages.forEach(message => message.modelId && modelIds.add(message.modelId)));
+  return Array.from(modelIds).sort();
+};
+
+/** Successful AI responses of every session, except `excludeMessageId` (a response still being generated). */
+export const selectAiResponses = (state: ChatState, excludeMessageId: string | null): { message: Message; session: ChatSession }[] =>
+  state.sessions.flatMap(session => session.messages
+    .filter(message => message.sender === 'ai' && !message.isError && message.id !== excludeMessageId)
+    .map(message => ({ message, session })));
+
+// --- Store ---
+
+export interface ChatPersistence {
+  saveSessions(sessions: ChatSession[]): Promise<void>;
+  saveFolders(folders: ChatFolder[]): Promise<void>;
+  saveActiveSessionId(sessionId: string | null): void;
+  /** Called when a save fails; a quota error is also reflected in `storageQuotaExceeded`. */
+  onError?(error: unknown): void;
+  isQuotaError?(error: unknown): boolean;
+}
+
+export interface ChatStore {
+  getState(): ChatState;
+  dispatch(action: ChatAction): void;
+  /** Calls `listener` after every change; returns a function that unsubscribes it. */
+  subscribe(listener: () => void): () => void;
+  /** Saves pending changes now, e.g. before the page is closed, or again after a failed save. */
+  flush(): Promise<void>;
+}
+
+// Streamed deltas are shown as they arrive but saved only with the completed message
+const UNSAVED_ACTIONS: ReadonlySet<ChatAction['type']> = new Set(['extendMessage', 'storageQuotaExceeded', 'loaded']);
+
+export function createChatStore(persistence: ChatPersistence, debounceMs = PERSIST_DEBOUNCE_MS, initialState = INITIAL_CHAT_STATE): ChatStore {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+  let sessionsChanged = false;
+  let foldersChanged = false;
+
+  const setState = (nextState: ChatState) => {
+    if (nextState === state) return;
+    state = nextState;
+    listeners.forEach(listener => listener());
+  };
+
+  const handleSaveError = (error: unknown) => {
+    if (persistence.isQuotaError?.(error)) setState(chatReducer(state, { type: 'storageQuotaExceeded', exceeded: true }));
+    persistence.onError?.(error);
+  };
+
+  const flush = async () => {
+    if (persistTimer) clearTimeout(persistTimer);
+    persistTimer = null;
+    if (!state.isLoaded) return; // Saving before the saved chats are loaded would delete them
+    const saves: Promise<void>[] = [];
+    if (sessionsChanged) saves.push(persistence.saveSessions(state.sessions).then(() => {
+      if (state.storageQuotaExceeded) setState(chatReducer(state, { type: 'storageQuotaExceeded', exceeded: false }));
+    }));
+    if (foldersChanged) saves.push(persistence.saveFolders(state.folders));
+    sessionsChanged = foldersChanged = false;
+    await Promise.all(saves.map(save => save.catch(handleSaveError)));
+  };
+
+  const dispatch = (action: ChatAction) => {
+    const previous = state;
+    setState(chatReducer(state, action));
+    if (state.activeSessionId !== previous.activeSessionId) persistence.saveActiveSessionId(state.activeSessionId);
+    if (UNSAVED_ACTIONS.has(action.type)) return;
+    sessionsChanged ||= state.sessions !== previous.sessions;
+    foldersChanged ||= state.folders !== previous.folders;
+    if (!sessionsChanged && !foldersChanged) return;
+    if (persistTimer) clearTimeout(persistTimer);
+    persistTimer = setTimeout(() => void flush(), debounceMs);
+  };
+
+  return {
+    getState: () => state,
+    dispatch,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    flush() {
+      // A retry after a failed save writes everything again; unchanged records are skipped by the storage layer
+      sessionsChanged = foldersChanged = true;
+      return flush();
+    },
+  };
+}
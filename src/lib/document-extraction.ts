@@ -0,0 +1,120 @@
+/**
+ * @fileOverview Browser-side text extraction for attached documents, so any text model can read them.
+ * Parsers are loaded on demand, since most messages carry no documents.
+ *
+ * - EXTRACTABLE_DOCUMENT_ACCEPT - File extensions whose text can be extracted, for a file input's `accept`.
+ * - isExtractableDocument - Whether text can be extracted from a file, by its name.
+ * - extractDocumentText - Extracts the text of a file, with page, sheet or section markers.
+ */
+
+// Formats handled by a dedicated parser
+const PDF_EXTENSIONS = ['.pdf'];
+const DOCX_EXTENSIONS = ['.docx'];
+// Legacy binary .xls and OpenDocument .ods have no maintained parser; they are saved as .xlsx first
+const SPREADSHEET_EXTENSIONS = ['.xlsx'];
+// Read as plain text; source files are wrapped in a fenced code block tagged with their language
+const PLAIN_TEXT_EXTENSIONS = ['.txt', '.md', '.markdown', '.csv', '.tsv', '.json', '.xml', '.yaml', '.yml', '.log', '.html', '.css'];
+const SOURCE_LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript', '.tsx': 'tsx', '.js': 'javascript', '.jsx': 'jsx', '.mjs': 'javascript', '.py': 'python',
+  '.java': 'java', '.kt': 'kotlin', '.go': 'go', '.rs': 'rust', '.rb': 'ruby', '.php': 'php', '.cs': 'csharp',
+  '.c': 'c', '.h': 'c', '.cpp': 'cpp', '.hpp': 'cpp', '.swift': 'swift', '.sh': 'bash', '.sql': 'sql', '.dart': 'dart',
+};
+
+const EXTRACTABLE_EXTENSIONS = [
+  ...PDF_EXTENSIONS, ...DOCX_EXTENSIONS, ...SPREADSHEET_EXTENSIONS, ...PLAIN_TEXT_EXTENSIONS, ...Object.keys(SOURCE_LANGUAGES),
+];
+
+export const EXTRACTABLE_DOCUMENT_ACCEPT = EXTRACTABLE_EXTENSIONS.join(',');
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+}
+
+export function isExtractableDocument(fileName: string): boolean {
+  return EXTRACTABLE_EXTENSIONS.includes(getExtension(fileName));
+}
+
+async function extractPdfText(file: File): Promise<string> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    let hasText = false;
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .trim();
+      hasText ||= text.length > 0;
+      pages.push(`--- Page ${pageNumber} ---\n${text}`);
+    }
+    // A scanned PDF has pages but no text layer
+    return hasText ? pages.join('\n\n') : '';
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/** Converts DOCX to HTML, then flattens it to Markdown-like text so headings mark the sections. */
+async function extractDocxText(file: File): Promise<string> {
+  const mammoth = (await import('mammoth')).default;
+  const { value: html } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const lines: string[] = [];
+  body.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, tr').forEach(element => {
+    // Paragraphs inside list items and table cells are covered by their container
+    if (element.tagName === 'P' && element.closest('li, td, th')) return;
+    const text = element.tagName === 'TR'
+      ? Array.from(element.children).map(cell => cell.textContent?.trim() ?? '').join(' | ')
+      : element.textContent?.trim() ?? '';
+    if (!text) return;
+    if (/^H[1-6]$/.test(element.tagName)) {
+      lines.push(`\n${'#'.repeat(Number(element.tagName[1]))} ${text}`);
+    } else {
+      lines.push(element.tagName === 'LI' ? `- ${text}` : text);
+    }
+  });
+  return lines.join('\n').trim();
+}
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Reads every sheet of an .xlsx workbook as CSV, skipping blank rows. */
+async function extractSpreadsheetText(file: File): Promise<string> {
+  const { default: readXlsxFile } = await import('read-excel-file/browser');
+  const sheets = await readXlsxFile(file);
+  return sheets
+    .map(({ sheet, data }) => {
+      const rows = data
+        .filter(row => row.some(cell => cell !== null && cell !== ''))
+        .map(row => row.map(toCsvField).join(','));
+      return `--- Sheet: ${sheet} ---\n${rows.join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Extracts the text of a document in the browser.
+ *
+ * @param file A file for which isExtractableDocument returns true.
+ * @returns The text with `--- Page N ---` (PDF) or `--- Sheet: name ---` (spreadsheet) markers and
+ *   Markdown headings (DOCX); an empty string if the document has no text layer (e.g. a scanned PDF).
+ * @throws If the file type is not supported or the file cannot be parsed.
+ */
+export async function extractDocumentText(file: File): Promise<string> {
+  const extension = getExtension(file.name);
+  if (PDF_EXTENSIONS.includes(extension)) return extractPdfText(file);
+  if (DOCX_EXTENSIONS.includes(extension)) return extractDocxText(file);
+  if (SPREADSHEET_EXTENSIONS.includes(extension)) return extractSpreadsheetText(file);
+  if (PLAIN_TEXT_EXTENSIONS.includes(extension)) return (await file.text()).trim();
+  const language = SOURCE_LANGUAGES[extension];
+  if (language) return `\`\`\`${language}\n${(await file.text()).trimEnd()}\n\`\`\``;
+  throw new Error(`Text extraction is not supported for ${file.name}.`);
+}
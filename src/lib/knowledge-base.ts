@@ -0,0 +1,259 @@
+/**
+ * @fileOverview Local knowledge bases for retrieval-augmented generation. Documents are split into
+ * chunks, embedded through the embedTexts server action and stored with their vectors in IndexedDB;
+ * retrieval ranks the stored chunks by cosine similarity to the prompt, entirely in the browser.
+ *
+ * - KnowledgeSettings - The embedder and number of chunks to retrieve, chosen in Settings.
+ * - DEFAULT_KNOWLEDGE_SETTINGS - Google's text-embedding-004 and the top 4 chunks.
+ * - KnowledgeDocument - A document stored in a knowledge base, with its chunk count.
+ * - RetrievedChunk - A chunk returned by retrieval, with its similarity score.
+ * - sessionKnowledgeBaseId / folderKnowledgeBaseId - IDs of the knowledge base of a chat or a folder.
+ * - chunkDocumentText - Splits document text into overlapping chunks, tracking page/sheet/section.
+ * - addKnowledgeDocument - Chunks, embeds and stores a document (replacing one with the same name).
+ * - listKnowledgeDocuments - Lists the documents of a knowledge base.
+ * - removeKnowledgeDocument / deleteKnowledgeBase - Remove a document or a whole knowledge base.
+ * - retrieveRelevantChunks - Returns the chunks most similar to a query across knowledge bases.
+ */
+
+import { embedTexts } from '@/ai/flows/embed-texts';
+
+export interface KnowledgeSettings {
+  /** Embedding model ID with provider prefix, e.g. "googleai/text-embedding-004" or "ollama/nomic-embed-text". */
+  embedderId: string;
+  /** Number of chunks added to each prompt. */
+  topK: number;
+}
+
+export const DEFAULT_KNOWLEDGE_SETTINGS: KnowledgeSettings = {
+  embedderId: 'googleai/text-embedding-004',
+  topK: 4,
+};
+
+export interface KnowledgeDocument {
+  name: string;
+  chunkCount: number;
+  /** Chunks are only retrieved with the embedder they were embedded with. */
+  embedderId: string;
+  addedAt: number;
+}
+
+export interface RetrievedChunk {
+  documentName: string;
+  /** Page, sheet or section heading the chunk starts in, if known. */
+  location?: string;
+  text: string;
+  /** Cosine similarity to the query (higher is more relevant). */
+  score: number;
+}
+
+interface StoredChunk {
+  id: string;
+  knowledgeBaseId: string;
+  documentName: string;
+  location?: string;
+  text: string;
+  embedderId: string;
+  embedding: number[];
+  addedAt: number;
+}
+
+const DB_NAME = 'knowledge_base';
+const DB_VERSION = 1;
+const CHUNKS_STORE = 'chunks';
+const KNOWLEDGE_BASE_INDEX = 'knowledgeBaseId';
+
+// Roughly 300 tokens per chunk, overlapping so sentences cut at a boundary appear whole in one chunk
+const CHUNK_SIZE_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+const EMBED_BATCH_SIZE = 32;
+
+// Markers written by document extraction: "--- Page 3 ---", "--- Sheet: Data ---", and Markdown headings
+const SECTION_MARKER_PATTERN = /^--- (.+) ---$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.+)$/;
+
+export const sessionKnowledgeBaseId = (sessionId: string): string => `session:${sessionId}`;
+export const folderKnowledgeBaseId = (folderId: string): string => `folder:${folderId}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(CHUNKS_STORE, { keyPath: 'id' });
+        store.createIndex(KNOWLEDGE_BASE_INDEX, KNOWLEDGE_BASE_INDEX);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function getChunks(knowledgeBaseId: string): Promise<StoredChunk[]> {
+  const db = await openDatabase();
+  const index = db.transaction(CHUNKS_STORE, 'readonly').objectStore(CHUNKS_STORE).index(KNOWLEDGE_BASE_INDEX);
+  return requestToPromise(index.getAll(knowledgeBaseId) as IDBRequest<StoredChunk[]>);
+}
+
+async function deleteChunks(knowledgeBaseId: string, matches: (chunk: StoredChunk) => boolean): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(CHUNKS_STORE, 'readwrite');
+  const store = transaction.objectStore(CHUNKS_STORE);
+  const chunks = await requestToPromise(store.index(KNOWLEDGE_BASE_INDEX).getAll(knowledgeBaseId) as IDBRequest<StoredChunk[]>);
+  chunks.filter(matches).forEach(chunk => store.delete(chunk.id));
+  await transactionDone(transaction);
+}
+
+/**
+ * Splits document text into chunks of about CHUNK_SIZE_CHARS, breaking at paragraph or line ends
+ * where possible. Each chunk records the page, sheet or heading it starts in.
+ */
+export function chunkDocumentText(text: string): { text: string; location?: string }[] {
+  // First split into sections at page/sheet markers and headings, so every chunk knows where it is
+  const sections: { location?: string; lines: string[] }[] = [{ lines: [] }];
+  let pageOrSheet: string | undefined;
+  for (const line of text.split('\n')) {
+    const marker = SECTION_MARKER_PATTERN.exec(line.trim());
+    const heading = HEADING_PATTERN.exec(line.trim());
+    if (marker) {
+      pageOrSheet = marker[1].trim();
+      sections.push({ location: pageOrSheet, lines: [] });
+    } else if (heading) {
+      sections.push({ location: [pageOrSheet, heading[1].trim()].filter(Boolean).join(', '), lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  const chunks: { text: string; location?: string }[] = [];
+  for (const section of sections) {
+    const sectionText = section.lines.join('\n').trim();
+    let start = 0;
+    while (start < sectionText.length) {
+      let end = Math.min(start + CHUNK_SIZE_CHARS, sectionText.length);
+      if (end < sectionText.length) {
+        // Prefer ending at a paragraph, then a line, then a sentence in the second half of the chunk
+        const windowStart = start + CHUNK_SIZE_CHARS / 2;
+        const window = sectionText.slice(windowStart, end);
+        const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf('. ')].find(index => index !== -1);
+        if (breakAt !== undefined) end = windowStart + breakAt + 1;
+      }
+      const chunkText = sectionText.slice(start, end).trim();
+      if (chunkText) chunks.push({ text: chunkText, ...(section.location && { location: section.location }) });
+      if (end >= sectionText.length) break;
+      start = Math.max(end - CHUNK_OVERLAP_CHARS, start + 1);
+      // Begin the overlap at a word boundary rather than mid-word
+      const nextWhitespace = sectionText.slice(start, end).search(/\s/);
+      if (nextWhitespace !== -1) start += nextWhitespace + 1;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Chunks and embeds a document and stores it in a knowledge base, replacing any document with the same name.
+ *
+ * @returns The number of chunks stored.
+ * @throws If the document has no text or the embedder fails.
+ */
+export async function addKnowledgeDocument(knowledgeBaseId: string, documentName: string, text: string, embedderId: string): Promise<number> {
+  const chunks = chunkDocumentText(text);
+  if (chunks.length === 0) throw new Error(`${documentName} contains no text.`);
+
+  const embeddings: number[][] = [];
+  for (let offset = 0; offset < chunks.length; offset += EMBED_BATCH_SIZE) {
+    const batch = chunks.slice(offset, offset + EMBED_BATCH_SIZE).map(chunk => chunk.text);
+    embeddings.push(...await embedTexts({ embedderId, texts: batch }));
+  }
+
+  await removeKnowledgeDocument(knowledgeBaseId, documentName);
+  const db = await openDatabase();
+  const transaction = db.transaction(CHUNKS_STORE, 'readwrite');
+  const store = transaction.objectStore(CHUNKS_STORE);
+  const addedAt = Date.now();
+  chunks.forEach((chunk, index) => {
+    const stored: StoredChunk = {
+      id: `${knowledgeBaseId}|${documentName}|${index}`,
+      knowledgeBaseId,
+      documentName,
+      ...(chunk.location && { location: chunk.location }),
+      text: chunk.text,
+      embedderId,
+      embedding: embeddings[index],
+      addedAt,
+    };
+    store.put(stored);
+  });
+  await transactionDone(transaction);
+  return chunks.length;
+}
+
+export async function listKnowledgeDocuments(knowledgeBaseId: string): Promise<KnowledgeDocument[]> {
+  const documents = new Map<string, KnowledgeDocument>();
+  for (const chunk of await getChunks(knowledgeBaseId)) {
+    const existing = documents.get(chunk.documentName);
+    if (existing) {
+      existing.chunkCount += 1;
+    } else {
+      documents.set(chunk.documentName, { name: chunk.documentName, chunkCount: 1, embedderId: chunk.embedderId, addedAt: chunk.addedAt });
+    }
+  }
+  return Array.from(documents.values()).sort((a, b) => a.addedAt - b.addedAt);
+}
+
+export function removeKnowledgeDocument(knowledgeBaseId: string, documentName: string): Promise<void> {
+  return deleteChunks(knowledgeBaseId, chunk => chunk.documentName === documentName);
+}
+
+export function deleteKnowledgeBase(knowledgeBaseId: string): Promise<void> {
+  return deleteChunks(knowledgeBaseId, () => true);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Returns the `topK` chunks most similar to `query` across the given knowledge bases. Only chunks
+ * embedded with `embedderId` are compared; the query is not embedded when there are none.
+ */
+export async function retrieveRelevantChunks(knowledgeBaseIds: string[], query: string, embedderId: string, topK: number): Promise<RetrievedChunk[]> {
+  const chunks = (await Promise.all(knowledgeBaseIds.map(getChunks)))
+    .flat()
+    .filter(chunk => chunk.embedderId === embedderId);
+  if (chunks.length === 0 || !query.trim()) return [];
+
+  const [queryEmbedding] = await embedTexts({ embedderId, texts: [query] });
+  return chunks
+    .map(chunk => ({
+      documentName: chunk.documentName,
+      ...(chunk.location && { location: chunk.location }),
+      text: chunk.text,
+      score: cosineSimilarity(queryEmbedding, chunk.embedding),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
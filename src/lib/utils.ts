@@ -20,3 +20,30 @@ export function isPersian(text: string): boolean {
   const persianRegex = /[\u0600-\u06FF]/;
   return persianRegex.test(text);
 }
+
+/**
+ * Parses "Name: value" lines (e.g. custom HTTP headers) into an object. Blank lines are skipped.
+ * @param text One entry per line.
+ * @returns The entries, or null if a line has no name before its colon.
+ */
+export function parseHeaderLines(text: string): Record<string, string> | null {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex <= 0) return null;
+    headers[line.slice(0, separatorIndex).trim()] = line.slice(separatorIndex + 1).trim();
+  }
+  return headers;
+}
+
+/**
+ * Formats an estimated cost in dollars, with more digits (or an exponent) for tiny amounts.
+ * @param amount The cost; missing costs are shown as zero.
+ */
+export function formatCurrency(amount: number | undefined | null): string {
+  if (amount === undefined || amount === null) return '$0.0000';
+  if (amount === 0) return '$0.0000';
+  if (amount < 0.0001 && amount > 0) return `$${amount.toExponential(2)}`;
+  if (amount < 0.01 && amount > 0) return `$${amount.toFixed(6)}`;
+  return `$${amount.toFixed(4)}`;
+}
@@ -1,48 +1,250 @@
+'use server';
+
+/**
+ * @fileOverview The unified model catalog: every registered provider's models with normalized
+ * metadata, cached server-side with a TTL and searchable/filterable so the browser only ever
+ * receives the page it displays.
+ *
+ * - AIModel - A catalog entry (ID, name, provider, context length, modalities, pricing, ...).
+ * - AIModelOptions - Generation parameters accepted by every model.
+ * - ModelCatalogQuery - Search, filter and paging options for getAIModels.
+ * - ModelCatalogPage - One page of catalog results.
+ * - getAIModels - Returns the catalog models matching a query.
+ * - callAIModel - Sends a single prompt to any catalog model.
+ */
+
+import { createHash } from 'crypto';
+import { listModelProviders, type ModelProvider } from '@/ai/providers';
+import { OPENAI_COMPATIBLE_PROVIDER, type OpenAICompatibleEndpointConfig, type ProviderId, type ProviderModelInfo } from '@/ai/providers/descriptors';
+import { smartAssistantPrompting } from '@/ai/flows/smart-assistant-prompting';
+
 /**
- * Represents an AI model.
+ * Represents an AI model in the catalog.
  */
-export interface AIModel {
+export type AIModel = ProviderModelInfo;
+
+/**
+ * The format the model is asked to answer in.
+ */
+export type AIResponseFormat = 'text' | 'json';
+
+/**
+ * Represents the options when calling a specific AI model.
+ * Every field is optional; omitted fields use the provider's default.
+ */
+export interface AIModelOptions {
+  /**
+   * The maximum number of tokens to generate.
+   */
+  maxTokens?: number;
+  /**
+   * The temperature to use for sampling.
+   */
+  temperature?: number;
+  /**
+   * Nucleus sampling: only tokens within this cumulative probability are considered.
+   */
+  topP?: number;
+  /**
+   * Sequences at which the model stops generating.
+   */
+  stopSequences?: string[];
   /**
-   * The id of the AI model.
+   * Seed for deterministic sampling, where the model supports it.
    */
-  id: string;
+  seed?: number;
   /**
-   * The name of the AI model.
+   * Penalizes tokens that have already appeared, encouraging new topics (-2 to 2).
    */
-  name: string;
+  presencePenalty?: number;
+  /**
+   * Penalizes tokens by how often they have appeared, reducing repetition (-2 to 2).
+   */
+  frequencyPenalty?: number;
+  /**
+   * Whether the model should answer in plain text or a JSON object.
+   */
+  responseFormat?: AIResponseFormat;
 }
 
 /**
- * Represents the options when calling a specific AI model.
+ * Credentials needed to list the models of some providers.
  */
-export interface AIModelOptions {
+export interface ModelCatalogCredentials {
   /**
-   * The maximum number of tokens to generate.
+   * User-supplied API keys by provider ID; providers fall back to server environment keys.
    */
-  maxTokens: number;
+  apiKeys?: Record<ProviderId, string | undefined>;
   /**
-   * The temperature to use for sampling.
+   * OpenAI-compatible endpoints configured in the browser.
    */
-  temperature: number;
+  endpoints?: { id: string; config: OpenAICompatibleEndpointConfig; apiKey?: string }[];
 }
 
 /**
- * Asynchronously retrieves a list of available AI models.
+ * Search, filter and paging options for getAIModels. All filters are combined with AND.
+ */
+export interface ModelCatalogQuery {
+  /**
+   * Only include models of these providers (default: all registered providers).
+   */
+  providers?: ProviderId[];
+  /**
+   * Only include these model IDs (e.g. to resolve the user's saved selection).
+   */
+  ids?: string[];
+  /**
+   * Words that must all appear in the model's ID, name or description (case-insensitive).
+   */
+  search?: string;
+  /**
+   * Input modalities the model must accept, e.g. ['image'].
+   */
+  inputModalities?: string[];
+  /**
+   * Minimum context length in tokens.
+   */
+  minContextLength?: number;
+  /**
+   * Only include models with zero prompt and completion pricing.
+   */
+  freeOnly?: boolean;
+  /**
+   * Exclude models whose requests are moderated by the provider.
+   */
+  excludeModerated?: boolean;
+  /**
+   * Index of the first result to return (default 0).
+   */
+  offset?: number;
+  /**
+   * Maximum number of results to return (default 50, at most 500).
+   */
+  limit?: number;
+  /**
+   * Bypass the cache and fetch fresh model lists.
+   */
+  forceRefresh?: boolean;
+  credentials?: ModelCatalogCredentials;
+}
+
+/**
+ * One page of catalog results.
+ */
+export interface ModelCatalogPage {
+  models: AIModel[];
+  /**
+   * Number of models matching the query before paging.
+   */
+  total: number;
+  /**
+   * When the oldest of the underlying provider lists was fetched (epoch ms).
+   */
+  fetchedAt: number;
+  /**
+   * Providers whose model list could not be fetched, with the reason.
+   */
+  errors: { provider: ProviderId; message: string }[];
+}
+
+// Provider model lists change rarely; a refresh can always be forced from the Settings tab
+const CATALOG_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+interface CatalogCacheEntry {
+  models: AIModel[];
+  fetchedAt: number;
+}
+
+// Keyed per provider and credentials, so users with different keys never share results
+const catalogCache = new Map<string, CatalogCacheEntry>();
+
+function cacheKey(parts: (string | undefined)[]): string {
+  return createHash('sha256').update(parts.map(part => part ?? '').join('\u0000')).digest('hex');
+}
+
+/** A single model list to fetch: one per provider, or one per endpoint for OpenAI-compatible gateways. */
+interface CatalogSource {
+  provider: ModelProvider;
+  key: string;
+  list: () => Promise<AIModel[]>;
+}
+
+function buildSources(providers: ModelProvider[], credentials: ModelCatalogCredentials = {}): CatalogSource[] {
+  return providers.flatMap(provider => {
+    if (provider.id === OPENAI_COMPATIBLE_PROVIDER.id) {
+      return (credentials.endpoints ?? []).map(endpoint => ({
+        provider,
+        key: cacheKey([provider.id, endpoint.id, endpoint.config.baseUrl, JSON.stringify(endpoint.config.headers ?? {}), endpoint.apiKey]),
+        list: () => provider.listModels({ endpoint: endpoint.config, endpointId: endpoint.id, apiKey: endpoint.apiKey }),
+      }));
+    }
+    const apiKey = credentials.apiKeys?.[provider.id];
+    return [{ provider, key: cacheKey([provider.id, apiKey]), list: () => provider.listModels({ apiKey }) }];
+  });
+}
+
+async function loadSource(source: CatalogSource, forceRefresh: boolean): Promise<CatalogCacheEntry> {
+  const cached = catalogCache.get(source.key);
+  if (cached && !forceRefresh && Date.now() - cached.fetchedAt < CATALOG_TTL_MS) {
+    return cached;
+  }
+  const entry = { models: await source.list(), fetchedAt: Date.now() };
+  catalogCache.set(source.key, entry);
+  console.log(`Model catalog: fetched ${entry.models.length} ${source.provider.label} models.`);
+  return entry;
+}
+
+function matchesQuery(model: AIModel, query: ModelCatalogQuery, searchTerms: string[], ids: Set<string> | null): boolean {
+  if (ids && !ids.has(model.id)) return false;
+  if (searchTerms.length > 0) {
+    const haystack = `${model.id} ${model.name} ${model.description ?? ''}`.toLowerCase();
+    if (!searchTerms.every(term => haystack.includes(term))) return false;
+  }
+  if (query.inputModalities?.length && !query.inputModalities.every(modality => model.inputModalities?.includes(modality))) return false;
+  if (query.minContextLength && (model.context_length ?? 0) < query.minContextLength) return false;
+  if (query.freeOnly && (!model.pricing || model.pricing.prompt > 0 || model.pricing.completion > 0)) return false;
+  if (query.excludeModerated && model.isModerated) return false;
+  return true;
+}
+
+/**
+ * Returns the catalog models matching `query`, aggregated from every requested provider.
+ * Provider lists are cached for ten minutes; a provider that fails (missing key, daemon not
+ * running) is reported in `errors` instead of failing the whole request.
  *
- * @returns A promise that resolves to an array of AIModel objects.
+ * @param query Search, filter and paging options.
+ * @returns A promise that resolves to the requested page of models.
  */
-export async function getAIModels(): Promise<AIModel[]> {
-  // TODO: Implement this by calling an API.
-  return [
-    {
-      id: 'gpt-3.5-turbo',
-      name: 'GPT 3.5 Turbo',
-    },
-    {
-      id: 'gpt-4',
-      name: 'GPT 4',
-    },
-  ];
+export async function getAIModels(query: ModelCatalogQuery = {}): Promise<ModelCatalogPage> {
+  const providers = listModelProviders().filter(provider => !query.providers || query.providers.includes(provider.id));
+  const sources = buildSources(providers, query.credentials);
+
+  const results = await Promise.allSettled(sources.map(source => loadSource(source, !!query.forceRefresh)));
+  const allModels: AIModel[] = [];
+  const errors: ModelCatalogPage['errors'] = [];
+  let fetchedAt = Date.now();
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      allModels.push(...result.value.models);
+      fetchedAt = Math.min(fetchedAt, result.value.fetchedAt);
+    } else {
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      console.warn(`Model catalog: could not list ${sources[index].provider.label} models:`, message);
+      errors.push({ provider: sources[index].provider.id, message });
+    }
+  });
+
+  const searchTerms = (query.search ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  const ids = query.ids ? new Set(query.ids) : null;
+  const matching = allModels
+    .filter(model => matchesQuery(model, query, searchTerms, ids))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const offset = Math.max(0, query.offset ?? 0);
+  const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  return { models: matching.slice(offset, offset + limit), total: matching.length, fetchedAt, errors };
 }
 
 /**
@@ -56,8 +258,8 @@ export async function getAIModels(): Promise<AIModel[]> {
 export async function callAIModel(
   modelId: string,
   prompt: string,
-  options: AIModelOptions
+  options: AIModelOptions = {}
 ): Promise<string> {
-  // TODO: Implement this by calling an API.
-  return `This is a response from model ${modelId} for prompt ${prompt} with options ${JSON.stringify(options)}`;
+  const output = await smartAssistantPrompting({ modelId, prompt, options });
+  return output.response;
 }
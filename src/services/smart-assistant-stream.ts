@@ -0,0 +1,56 @@
+import type { SmartAssistantPromptingInput, SmartAssistantPromptingOutput, SmartAssistantStreamChunk } from '@/ai/flows/smart-assistant-prompting';
+import { readNdjson } from '@/ai/streaming';
+
+/**
+ * Represents a single line of the `/api/smart-assistant` NDJSON stream: a chunk streamed by the flow,
+ * then its output or error.
+ */
+export type SmartAssistantStreamEvent =
+  | SmartAssistantStreamChunk
+  | { type: 'done'; output: SmartAssistantPromptingOutput }
+  | { type: 'error'; message: string };
+
+/**
+ * Sends a prompt to the streaming smart assistant endpoint and reports the response as it arrives.
+ *
+ * @param input The same input accepted by smartAssistantPrompting.
+ * @param onChunk Called with each text delta, in order.
+ * @param signal Aborting it stops generation on the server; the promise then rejects with an `AbortError`.
+ * @param onStep Called with a description of each model attempt (including retries and fallbacks).
+ * @param onReasoning Called with each delta of the model's reasoning, for models that expose it.
+ * @returns A promise that resolves to the complete response once the stream finishes.
+ */
+export async function streamSmartAssistantResponse(
+  input: SmartAssistantPromptingInput,
+  onChunk: (textDelta: string) => void,
+  signal?: AbortSignal,
+  onStep?: (step: string) => void,
+  onReasoning?: (reasoningDelta: string) => void
+): Promise<SmartAssistantPromptingOutput> {
+  const response = await fetch('/api/smart-assistant', {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok || !response.body) {
+    let errorMessage = `Streaming request failed with status ${response.status}`;
+    try { const errorJson = await response.json(); errorMessage = errorJson?.error || errorMessage; } catch {}
+    throw new Error(errorMessage);
+  }
+
+  let output: SmartAssistantPromptingOutput | null = null;
+  for await (const event of readNdjson<SmartAssistantStreamEvent>(response.body)) {
+    if (event.type === 'chunk') onChunk(event.text);
+    else if (event.type === 'step') onStep?.(event.step);
+    else if (event.type === 'reasoning') onReasoning?.(event.text);
+    else if (event.type === 'done') output = event.output;
+    else if (event.type === 'error') throw new Error(event.message);
+  }
+
+  if (!output) {
+    throw new Error('The response stream ended before the assistant finished.');
+  }
+  return output;
+}